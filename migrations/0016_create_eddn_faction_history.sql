@@ -0,0 +1,22 @@
+-- Migration: create eddn_faction_history table
+-- eddn_faction only holds the latest snapshot per system (DELETE + INSERT on every
+-- FSDJump/Location). This table keeps one row per system, faction and tick so
+-- influence and state trends survive new EDDN messages.
+-- Within a tick the latest observation wins (upsert on the unique key).
+
+CREATE TABLE IF NOT EXISTS eddn_faction_history (
+  id                TEXT PRIMARY KEY,
+  system_name       TEXT NOT NULL,
+  faction_name      TEXT NOT NULL,
+  tick_id           TEXT NOT NULL,  -- tick_state.tickid the observation belongs to
+  influence         REAL,
+  state             TEXT,
+  active_states     TEXT,  -- JSON as TEXT
+  pending_states    TEXT,  -- JSON as TEXT
+  recovering_states TEXT,  -- JSON as TEXT
+  observed_at       TEXT NOT NULL,  -- ISO 8601
+  UNIQUE (system_name, faction_name, tick_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eddn_faction_history_faction ON eddn_faction_history(faction_name, observed_at);
+CREATE INDEX IF NOT EXISTS idx_eddn_faction_history_system ON eddn_faction_history(system_name, observed_at);
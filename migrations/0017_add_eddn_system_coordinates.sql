@@ -0,0 +1,10 @@
+-- Migration: add coordinates and system address to eddn_system_info
+-- Location/FSDJump messages carry StarPos [x, y, z] (light years from Sol) and
+-- SystemAddress. Stored so systems can be searched by distance.
+
+ALTER TABLE eddn_system_info ADD COLUMN system_address INTEGER;
+ALTER TABLE eddn_system_info ADD COLUMN x REAL;
+ALTER TABLE eddn_system_info ADD COLUMN y REAL;
+ALTER TABLE eddn_system_info ADD COLUMN z REAL;
+
+CREATE INDEX IF NOT EXISTS idx_eddn_system_info_coords ON eddn_system_info(x, y, z);
@@ -0,0 +1,20 @@
+-- Migration: create faction_presence_event table
+-- Presence/control changes for tracked factions, detected at EDDN ingest by
+-- comparing each Location/FSDJump snapshot with the one it replaces.
+-- Rows are written by the EDDN worker process and picked up by the main
+-- process (delivered_at IS NULL) to be published on the PresenceBus.
+
+CREATE TABLE IF NOT EXISTS faction_presence_event (
+  id                  TEXT PRIMARY KEY,
+  system_name         TEXT NOT NULL,
+  faction_name        TEXT NOT NULL,
+  event_type          TEXT NOT NULL,  -- presence_gained | presence_lost | control_gained | control_lost
+  previous_controller TEXT,
+  new_controller      TEXT,
+  influence           REAL,           -- new influence (gained/control) or last known influence (lost)
+  detected_at         TEXT NOT NULL,  -- ISO 8601
+  delivered_at        TEXT            -- ISO 8601, NULL until published on the bus
+);
+
+CREATE INDEX IF NOT EXISTS idx_faction_presence_event_delivered ON faction_presence_event(delivered_at);
+CREATE INDEX IF NOT EXISTS idx_faction_presence_event_faction ON faction_presence_event(faction_name, detected_at);
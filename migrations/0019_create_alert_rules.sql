@@ -0,0 +1,29 @@
+-- Migration: create alert_rule and alert_firing tables
+-- alert_rule holds officer-defined influence/state conditions evaluated on each tick
+-- against EDDN faction data. alert_firing remembers which (rule, system, faction)
+-- matches have already been announced so a condition is only posted once. The
+-- row is removed when the condition clears, re-arming the alert.
+
+CREATE TABLE IF NOT EXISTS alert_rule (
+  id           TEXT PRIMARY KEY,
+  name         TEXT NOT NULL,
+  rule_type    TEXT NOT NULL,  -- influence_below | influence_above | gap_to_controller_below | pending_state
+  faction_name TEXT,           -- NULL = every protected faction
+  system_name  TEXT,           -- NULL = any system
+  threshold    REAL,           -- percent (0-100), for influence and gap rules
+  state        TEXT,           -- pending state name, for pending_state rules
+  webhook_url  TEXT,           -- NULL = BGS webhook
+  enabled      INTEGER NOT NULL DEFAULT 1,
+  created_at   TEXT NOT NULL,  -- ISO 8601
+  updated_at   TEXT NOT NULL   -- ISO 8601
+);
+
+CREATE TABLE IF NOT EXISTS alert_firing (
+  rule_id       TEXT NOT NULL,
+  system_name   TEXT NOT NULL,
+  faction_name  TEXT NOT NULL,
+  first_fired_at TEXT NOT NULL,  -- ISO 8601
+  last_seen_at  TEXT NOT NULL,   -- ISO 8601
+  PRIMARY KEY (rule_id, system_name, faction_name),
+  FOREIGN KEY (rule_id) REFERENCES alert_rule(id) ON DELETE CASCADE
+);
@@ -0,0 +1,15 @@
+-- Migration: create pending_conflict_state table
+-- Companion to conflict_state: pending War/CivilWar/Election/Expansion/Retreat
+-- states of tracked factions, read from eddn_faction.pending_states. A row is
+-- announced once when it appears and removed when the state is no longer
+-- pending (it became active, or was cancelled).
+
+CREATE TABLE IF NOT EXISTS pending_conflict_state (
+  system        TEXT NOT NULL,
+  faction       TEXT NOT NULL,
+  state         TEXT NOT NULL,  -- War | CivilWar | Election | Expansion | Retreat
+  opponent      TEXT,           -- faction with the same pending state in the system, if unambiguous
+  detected_at   TEXT NOT NULL,  -- ISO 8601
+  updated_at    TEXT NOT NULL,  -- ISO 8601
+  PRIMARY KEY (system, faction, state)
+);
@@ -0,0 +1,20 @@
+-- Migration: create tracked_faction table
+-- Factions whose BGS state we follow: allied squadron factions next to our main
+-- faction (FACTION_NAME, always tracked even without a row here). Schedulers
+-- and notifications honour the whole set. webhook_url, when set, replaces the
+-- default Discord webhook for notifications about that faction.
+-- Seeded from protected_faction, which schedulers used as the tracked set until now,
+-- keeping the webhook admins set per faction.
+
+CREATE TABLE IF NOT EXISTS tracked_faction (
+  id          TEXT PRIMARY KEY,
+  name        TEXT NOT NULL UNIQUE,
+  webhook_url TEXT,
+  description TEXT,
+  created_at  TEXT NOT NULL,  -- ISO 8601
+  updated_at  TEXT NOT NULL   -- ISO 8601
+);
+
+INSERT OR IGNORE INTO tracked_faction (id, name, webhook_url, description, created_at, updated_at)
+SELECT id, name, webhook_url, description, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM protected_faction;
@@ -0,0 +1,13 @@
+-- Migration: create eddn_rejection table
+-- Counts EDDN messages dropped by the ingest policy (src/eddn/policy.ts):
+-- Legacy galaxy data and denied / not-allowed uploader software. One row per
+-- reason and software name. software_name is '' when the header has none.
+
+CREATE TABLE IF NOT EXISTS eddn_rejection (
+  reason        TEXT NOT NULL,  -- legacy | software_denied | software_not_allowed
+  software_name TEXT NOT NULL,
+  count         INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TEXT NOT NULL,  -- ISO 8601
+  last_seen_at  TEXT NOT NULL,  -- ISO 8601
+  PRIMARY KEY (reason, software_name)
+);
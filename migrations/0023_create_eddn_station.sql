@@ -0,0 +1,30 @@
+-- Migration: create eddn_station table
+-- Stations, outposts, planetary ports, settlements and fleet carriers seen in
+-- EDDN Docked events: owning faction, type, economies, services and pads.
+-- One row per MarketID, upserted by newer observations, and a fleet carrier's row
+-- follows it to whichever system it was last docked at.
+
+CREATE TABLE IF NOT EXISTS eddn_station (
+  id                  TEXT PRIMARY KEY,
+  eddn_message_id     TEXT,
+  market_id           INTEGER NOT NULL UNIQUE,
+  system_name         TEXT NOT NULL,
+  system_address      INTEGER,
+  station_name        TEXT NOT NULL,
+  station_type        TEXT,           -- Coriolis | Orbis | Outpost | CraterPort | OnFootSettlement | FleetCarrier | ...
+  controlling_faction TEXT,
+  faction_state       TEXT,
+  government          TEXT,
+  allegiance          TEXT,
+  economy             TEXT,           -- primary economy
+  economies           TEXT,           -- JSON [{ Name, Proportion }]
+  services            TEXT,           -- JSON array of service names
+  landing_pads_small  INTEGER,
+  landing_pads_medium INTEGER,
+  landing_pads_large  INTEGER,
+  dist_from_star_ls   REAL,
+  updated_at          TEXT NOT NULL   -- ISO 8601, observation time
+);
+
+CREATE INDEX IF NOT EXISTS idx_eddn_station_system ON eddn_station(system_name);
+CREATE INDEX IF NOT EXISTS idx_eddn_station_faction ON eddn_station(controlling_faction);
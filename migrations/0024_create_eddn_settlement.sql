@@ -0,0 +1,28 @@
+-- Migration: create eddn_settlement table
+-- Odyssey settlements and planetary ports seen in EDDN ApproachSettlement
+-- events: owning faction, body and surface position. One row per settlement
+-- name on a body, upserted by newer observations. Settlements that can be
+-- docked at carry a market_id matching their eddn_station row.
+
+CREATE TABLE IF NOT EXISTS eddn_settlement (
+  id                  TEXT PRIMARY KEY,
+  eddn_message_id     TEXT,
+  system_name         TEXT NOT NULL,
+  system_address      INTEGER,
+  name                TEXT NOT NULL,
+  market_id           INTEGER,
+  body_name           TEXT NOT NULL,
+  body_id             INTEGER,
+  latitude            REAL,
+  longitude           REAL,
+  controlling_faction TEXT,
+  faction_state       TEXT,
+  government          TEXT,
+  allegiance          TEXT,
+  economy             TEXT,
+  updated_at          TEXT NOT NULL,  -- ISO 8601, observation time
+  UNIQUE (system_name, body_name, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eddn_settlement_faction ON eddn_settlement(controlling_faction);
+CREATE INDEX IF NOT EXISTS idx_eddn_settlement_market ON eddn_settlement(market_id);
@@ -0,0 +1,6 @@
+-- Migration: add asset_name to faction_presence_event
+-- Ownership changes of stations and settlements (asset_gained / asset_lost) are
+-- recorded next to system presence/control changes. asset_name names the
+-- station or settlement and is NULL for system-level events.
+
+ALTER TABLE faction_presence_event ADD COLUMN asset_name TEXT;
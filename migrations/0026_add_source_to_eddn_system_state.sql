@@ -0,0 +1,8 @@
+-- Migration: add source attribution to EDDN system state
+-- System snapshots are written both from the EDDN feed and from our own
+-- commanders' FSDJump/Location events posted to POST /events. source records
+-- where a message (eddn_message) and the current snapshot of a system
+-- (eddn_system_info) came from: 'eddn' or 'cmdr'.
+
+ALTER TABLE eddn_message ADD COLUMN source TEXT NOT NULL DEFAULT 'eddn';
+ALTER TABLE eddn_system_info ADD COLUMN source TEXT NOT NULL DEFAULT 'eddn';
@@ -0,0 +1,23 @@
+-- Migration: create eddn_powerplay_history table
+-- One row per system per Powerplay 2.0 cycle (weekly, starting Thursday 07:00
+-- UTC, identified by its start date), upserted with the latest observation
+-- within the cycle. eddn_powerplay only holds the current snapshot. This table keeps
+-- reinforcement/undermining and control progress of past cycles.
+
+CREATE TABLE IF NOT EXISTS eddn_powerplay_history (
+  id                TEXT PRIMARY KEY,
+  system_name       TEXT NOT NULL,
+  cycle             TEXT NOT NULL,  -- YYYY-MM-DD, cycle start
+  controlling_power TEXT,
+  powers            TEXT,           -- JSON array of power names
+  powerplay_state   TEXT,
+  control_progress  REAL,
+  reinforcement     INTEGER,
+  undermining       INTEGER,
+  conflict_progress TEXT,           -- JSON [{Power, ConflictProgress}]
+  observed_at       TEXT NOT NULL,  -- ISO 8601
+  UNIQUE (system_name, cycle)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eddn_powerplay_history_power ON eddn_powerplay_history(controlling_power);
+CREATE INDEX IF NOT EXISTS idx_eddn_powerplay_history_cycle ON eddn_powerplay_history(cycle);
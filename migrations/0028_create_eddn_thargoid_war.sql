@@ -0,0 +1,21 @@
+-- Migration: create eddn_thargoid_war table
+-- Thargoid war state of a system from the ThargoidWar block of FSDJump /
+-- Location / CarrierJump. Replaced with each system snapshot like the other
+-- eddn_* system tables, and systems without a war have no row.
+
+CREATE TABLE IF NOT EXISTS eddn_thargoid_war (
+  id                       TEXT PRIMARY KEY,
+  eddn_message_id          TEXT,
+  system_name              TEXT NOT NULL UNIQUE,
+  current_state            TEXT,     -- e.g. Thargoid_Controlled, Thargoid_Recovery ('' outside a war)
+  next_state_success       TEXT,
+  next_state_failure       TEXT,
+  success_state_reached    INTEGER,  -- 0/1
+  war_progress             REAL,     -- 0-1
+  remaining_ports          INTEGER,
+  estimated_remaining_time TEXT,     -- As sent by the game, e.g. "14 Days"
+  updated_at               TEXT NOT NULL,  -- ISO 8601
+  FOREIGN KEY (eddn_message_id) REFERENCES eddn_message(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_eddn_thargoid_war_current_state ON eddn_thargoid_war(current_state);
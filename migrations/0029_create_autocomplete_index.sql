@@ -0,0 +1,30 @@
+-- Migration: create the name autocomplete index
+-- Names of systems, factions, commanders and stations for GET /api/autocomplete.
+-- autocomplete_name holds each (type, name) once and autocomplete_fts is a
+-- trigram FTS5 index over it sharing its rowids, so substring and fuzzy
+-- lookups never scan the source tables. Backfilled here and topped up by the
+-- autocomplete indexer scheduler as new names appear.
+
+CREATE TABLE IF NOT EXISTS autocomplete_name (
+  id   INTEGER PRIMARY KEY,
+  type TEXT NOT NULL,   -- system | faction | cmdr | station
+  name TEXT NOT NULL,
+  UNIQUE(type, name)
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS autocomplete_fts USING fts5(name, tokenize = 'trigram');
+
+INSERT OR IGNORE INTO autocomplete_name (type, name)
+SELECT DISTINCT 'system', system_name FROM eddn_system_info WHERE system_name IS NOT NULL;
+
+INSERT OR IGNORE INTO autocomplete_name (type, name)
+SELECT DISTINCT 'faction', name FROM eddn_faction WHERE name IS NOT NULL;
+
+INSERT OR IGNORE INTO autocomplete_name (type, name)
+SELECT DISTINCT 'cmdr', name FROM cmdr WHERE name IS NOT NULL;
+
+INSERT OR IGNORE INTO autocomplete_name (type, name)
+SELECT DISTINCT 'station', station_name FROM eddn_station WHERE station_name IS NOT NULL;
+
+INSERT INTO autocomplete_fts (rowid, name)
+SELECT id, name FROM autocomplete_name;
@@ -0,0 +1,13 @@
+-- Migration: add system economies and faction happiness / reputation
+-- Location/FSDJump/CarrierJump messages carry SystemEconomy and
+-- SystemSecondEconomy, and each faction its Happiness band. They are stored
+-- with readable names (Agriculture, High Tech, Discontented) so the system
+-- search can filter on them. my_reputation is our reputation with the faction
+-- (-100 to 100): EDDN strips it, so only our commanders' journals fill it.
+
+ALTER TABLE eddn_system_info ADD COLUMN economy TEXT;
+ALTER TABLE eddn_system_info ADD COLUMN second_economy TEXT;
+ALTER TABLE eddn_faction ADD COLUMN happiness TEXT;
+ALTER TABLE eddn_faction ADD COLUMN my_reputation REAL;
+
+CREATE INDEX IF NOT EXISTS idx_eddn_system_info_economy ON eddn_system_info(economy);
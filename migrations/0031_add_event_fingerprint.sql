@@ -0,0 +1,9 @@
+-- Migration: deterministic fingerprint per journal entry posted to POST /events
+-- Clients retry the request on timeouts, and each retry used to insert the same
+-- entries again under new ids. The unique index makes the insert of a known
+-- entry a no-op. Rows stored before this migration have no fingerprint until
+-- POST /events/duplicates/purge fingerprints them and removes their duplicates.
+
+ALTER TABLE event ADD COLUMN fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_fingerprint ON event(fingerprint);
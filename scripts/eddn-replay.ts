@@ -0,0 +1,60 @@
+/**
+ * EDDN replay — backfill from archived EDDN captures.
+ *
+ * Usage:
+ *   bun run scripts/eddn-replay.ts <file> [file...]
+ *
+ * Each file holds one raw EDDN envelope per line, plain or gzip (.gz), as
+ * published by community dumps or captured with EDDN_TRANSPORT=jsonl. Messages
+ * go through the same ingest as the live feed; older messages never overwrite
+ * newer state, so files can be replayed in any order and more than once.
+ *
+ * Legacy galaxy data is rejected, as are uploaders filtered by
+ * EDDN_SOFTWARE_DENY / EDDN_SOFTWARE_ALLOW.
+ *
+ * Reads TURSO_DATABASE_URL, TURSO_AUTH_TOKEN, FACTION_NAME and the EDDN_SOFTWARE_*
+ * lists from .env (auto-loaded by Bun).
+ */
+
+import { createClient } from "@libsql/client"
+import { parseSoftwareList, replayEddnFile, type ReplayStats } from "../src/eddn/index.ts"
+
+const DB_URL = process.env.TURSO_DATABASE_URL ?? "file:./data/sinistra.db"
+const AUTH_TOKEN = process.env.TURSO_AUTH_TOKEN ?? ""
+const FACTION_NAME = process.env.FACTION_NAME ?? ""
+const POLICY = {
+  softwareAllow: parseSoftwareList(process.env.EDDN_SOFTWARE_ALLOW),
+  softwareDeny: parseSoftwareList(process.env.EDDN_SOFTWARE_DENY),
+}
+
+const files = process.argv.slice(2)
+if (files.length === 0) {
+  console.error("Usage: bun run scripts/eddn-replay.ts <file> [file...]")
+  process.exit(1)
+}
+
+const client = createClient({ url: DB_URL, authToken: AUTH_TOKEN })
+await client.execute("PRAGMA busy_timeout = 3000")
+
+const format = (s: ReplayStats) =>
+  `${s.lines} lines: ${s.saved} saved, ${s.stale} stale, ${s.unsupported} unsupported, ${s.invalid} invalid, ${s.rejected} rejected, ${s.failed} failed`
+
+let failedFiles = 0
+for (const file of files) {
+  console.log(`[EDDN replay] ${file}`)
+  try {
+    const stats = await replayEddnFile(client, file, {
+      primaryFaction: FACTION_NAME,
+      policy: POLICY,
+      onProgress: (s) => console.log(`[EDDN replay]   ${format(s)}`),
+      onError: (e) => console.warn(`[EDDN replay]   save failed: ${e}`),
+    })
+    console.log(`[EDDN replay] Done: ${format(stats)}`)
+  } catch (e) {
+    failedFiles++
+    console.error(`[EDDN replay] ${file}: ${e instanceof Error ? e.message : e}`)
+  }
+}
+
+client.close()
+process.exit(failedFiles > 0 ? 1 : 0)
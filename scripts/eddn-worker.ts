@@ -0,0 +1,89 @@
+/**
+ * EDDN Worker — runs as a standalone Node.js process.
+ *
+ * Bun cannot run zeromq (it uses uv_async_init which Bun doesn't support on
+ * POSIX). This script is invoked with
+ * `node --experimental-strip-types scripts/eddn-worker.ts` alongside the main
+ * Bun server, sharing the same SQLite database file. Parsing and persistence
+ * live in src/eddn, shared with the in-process client.
+ *
+ * Transport (EDDN_TRANSPORT):
+ *   - zmq (default): live relay at EDDN_ZMQ_URL
+ *   - jsonl: tail EDDN_JSONL_PATH, one raw EDDN message per line
+ *   - http: accept POSTed messages on EDDN_HTTP_PORT at EDDN_HTTP_PATH
+ *
+ * Legacy galaxy data is always dropped; EDDN_SOFTWARE_DENY / EDDN_SOFTWARE_ALLOW
+ * (comma-separated name prefixes) filter uploader software.
+ */
+
+import { createClient } from "@libsql/client"
+import {
+  httpPushTransport,
+  jsonlFileTransport,
+  parseSoftwareList,
+  runIngestLoop,
+  zmqTransport,
+  type EddnTransport,
+} from "../src/eddn/index.ts"
+
+const DB_URL = process.env.TURSO_DATABASE_URL ?? "file:./data/sinistra.db"
+const AUTH_TOKEN = process.env.TURSO_AUTH_TOKEN ?? ""
+const TRANSPORT = process.env.EDDN_TRANSPORT ?? "zmq"
+const ZMQ_URL = process.env.EDDN_ZMQ_URL ?? "tcp://eddn.edcd.io:9500"
+const JSONL_PATH = process.env.EDDN_JSONL_PATH ?? "./data/eddn.jsonl"
+const HTTP_PORT = parseInt(process.env.EDDN_HTTP_PORT ?? "3010")
+const HTTP_PATH = process.env.EDDN_HTTP_PATH ?? "/upload"
+const CLEANUP_INTERVAL_MS = parseInt(process.env.EDDN_CLEANUP_INTERVAL_MS ?? "3600000")
+const RETENTION_MS = parseInt(process.env.EDDN_MESSAGE_RETENTION_MS ?? "86400000")
+const FACTION_NAME = process.env.FACTION_NAME ?? ""
+const POLICY = {
+  softwareAllow: parseSoftwareList(process.env.EDDN_SOFTWARE_ALLOW),
+  softwareDeny: parseSoftwareList(process.env.EDDN_SOFTWARE_DENY),
+}
+const RETRY_DELAY_MS = 5000
+
+const client = createClient({ url: DB_URL, authToken: AUTH_TOKEN })
+await client.execute("PRAGMA busy_timeout = 3000")
+
+const log = {
+  info: (message: string) => console.log(`[EDDN] ${message}`),
+  warn: (message: string) => console.warn(`[EDDN] ${message}`),
+  debug: (message: string) => console.debug(`[EDDN] ${message}`),
+}
+
+const createTransport = (): EddnTransport => {
+  const onError = (e: string) => log.warn(`Skip: ${e}`)
+  switch (TRANSPORT) {
+    case "zmq":
+      return zmqTransport(ZMQ_URL, { onError })
+    case "jsonl":
+      return jsonlFileTransport(JSONL_PATH, { follow: true, onError })
+    case "http":
+      return httpPushTransport({ port: HTTP_PORT, path: HTTP_PATH, onError })
+    default:
+      throw new Error(`Unknown EDDN_TRANSPORT "${TRANSPORT}" (expected zmq, jsonl or http)`)
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+async function runWithRetry() {
+  const transport = createTransport()
+  while (true) {
+    try {
+      await runIngestLoop(client, transport, {
+        primaryFaction: FACTION_NAME,
+        policy: POLICY,
+        cleanupIntervalMs: CLEANUP_INTERVAL_MS,
+        retentionMs: RETENTION_MS,
+        log,
+      })
+      log.warn(`${transport.name} closed. Reconnecting in ${RETRY_DELAY_MS}ms...`)
+    } catch (e) {
+      console.error(`[EDDN] Error: ${e instanceof Error ? e.message : e}. Retrying in ${RETRY_DELAY_MS}ms...`)
+    }
+    await new Promise((r) => setTimeout(r, RETRY_DELAY_MS))
+  }
+}
+
+runWithRetry()
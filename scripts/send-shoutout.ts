@@ -21,6 +21,7 @@ import {
   buildGroundCzSummary,
   postEmbedsToDiscord,
 } from "../src/schedulers/shoutout-scheduler.js"
+import { loadTrackedFactions } from "../src/services/tracked-factions.js"
 
 const FACTION_NAME = process.env.FACTION_NAME ?? "Communism Interstellar Union"
 const DB_URL = process.env.TURSO_DATABASE_URL ?? "file:./data/sinistra.db"
@@ -65,7 +66,8 @@ async function run() {
   console.log(`Sending shoutout for completed tick hash: ${tickHash}`)
 
   if (BGS_WEBHOOK) {
-    const embeds = await buildTickSummary(client, tickHash, FACTION_NAME)
+    const tracked = await loadTrackedFactions(client, FACTION_NAME)
+    const embeds = await buildTickSummary(client, tickHash, tracked.names)
     if (embeds.length > 0) {
       await postEmbedsToDiscord(BGS_WEBHOOK, embeds)
       console.log(`BGS summary: ${embeds.length} embed(s) sent`)
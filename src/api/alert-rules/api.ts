@@ -0,0 +1,92 @@
+import { HttpApiGroup, HttpApiEndpoint, OpenApi } from "@effect/platform";
+import {
+  AlertRuleIdParam,
+  CreateAlertRuleRequest,
+  CreateAlertRuleResponse,
+  UpdateAlertRuleRequest,
+  StatusResponse,
+  AlertRulesListResponse,
+  AlertRuleResponse,
+} from "./dtos.ts";
+import { DatabaseError, AlertRuleNotFoundError, ValidationError } from "../../domain/errors.ts";
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.ts";
+
+/**
+ * Alert Rules API Group
+ *
+ * CRUD operations for influence/state alert rules evaluated on each tick.
+ */
+export const AlertRulesApi = HttpApiGroup.make("alert-rules")
+  // GET /api/alert-rules - Get all alert rules
+  .add(
+    HttpApiEndpoint.get("getAllAlertRules", "/")
+      .addSuccess(AlertRulesListResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get All Alert Rules")
+      .annotate(OpenApi.Description, "Retrieve all alert rules, enabled or not.")
+  )
+  // POST /api/alert-rules - Create a new alert rule
+  .add(
+    HttpApiEndpoint.post("createAlertRule", "/")
+      .addSuccess(CreateAlertRuleResponse, { status: 201 })
+      .addError(ApiKeyError, { status: 401 })
+      .addError(ValidationError, { status: 400 })
+      .addError(DatabaseError, { status: 500 })
+      .setPayload(CreateAlertRuleRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Create Alert Rule")
+      .annotate(
+        OpenApi.Description,
+        `Create an alert rule evaluated against EDDN faction data after every tick.
+
+Rule types (threshold in percent):
+- influence_below: faction influence below threshold
+- influence_above: faction influence above threshold (e.g. 70 for expansion-ready)
+- gap_to_controller_below: influence gap between the faction and the controlling faction
+  (or the runner-up, when the faction controls the system) below threshold
+- pending_state: state (e.g. Election, War, Retreat) appears in the faction's pending states
+
+faction_name defaults to every tracked faction, system_name to any system. A match is
+announced once and again only after the condition has cleared.`
+      )
+  )
+  // GET /api/alert-rules/:id - Get alert rule by ID
+  .add(
+    HttpApiEndpoint.get("getAlertRuleById", "/:id")
+      .addSuccess(AlertRuleResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(AlertRuleNotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(AlertRuleIdParam)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Alert Rule by ID")
+      .annotate(OpenApi.Description, "Retrieve a specific alert rule by its ID.")
+  )
+  // PUT /api/alert-rules/:id - Update alert rule
+  .add(
+    HttpApiEndpoint.put("updateAlertRule", "/:id")
+      .addSuccess(StatusResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(ValidationError, { status: 400 })
+      .addError(AlertRuleNotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(AlertRuleIdParam)
+      .setPayload(UpdateAlertRuleRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Update Alert Rule")
+      .annotate(OpenApi.Description, "Update an existing alert rule. Omitted fields are left unchanged.")
+  )
+  // DELETE /api/alert-rules/:id - Delete alert rule
+  .add(
+    HttpApiEndpoint.del("deleteAlertRule", "/:id")
+      .addSuccess(StatusResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(AlertRuleIdParam)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Delete Alert Rule")
+      .annotate(OpenApi.Description, "Delete an alert rule and forget which matches it has announced.")
+  )
+  .prefix("/api/alert-rules");
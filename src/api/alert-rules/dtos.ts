@@ -0,0 +1,91 @@
+import { Schema } from "effect";
+import { AlertRuleId } from "../../domain/ids.ts";
+import { AlertRuleType } from "../../domain/models.ts";
+
+/**
+ * Request DTO for POST /api/alert-rules
+ *
+ * threshold is a percentage (e.g. 5 for 5%) and is required for influence_below,
+ * influence_above and gap_to_controller_below; state is required for pending_state.
+ */
+export const CreateAlertRuleRequest = Schema.Struct({
+  name: Schema.String,
+  rule_type: AlertRuleType,
+  faction_name: Schema.optional(Schema.NullOr(Schema.String)), // null = every tracked faction
+  system_name: Schema.optional(Schema.NullOr(Schema.String)), // null = any system
+  threshold: Schema.optional(Schema.NullOr(Schema.Number)),
+  state: Schema.optional(Schema.NullOr(Schema.String)),
+  webhook_url: Schema.optional(Schema.NullOr(Schema.String)), // null = BGS webhook
+  enabled: Schema.optional(Schema.Boolean), // Default to true in handler logic
+});
+
+export type CreateAlertRuleRequest = typeof CreateAlertRuleRequest.Type;
+
+/**
+ * Request DTO for PUT /api/alert-rules/:id
+ */
+export const UpdateAlertRuleRequest = Schema.Struct({
+  name: Schema.optional(Schema.String),
+  rule_type: Schema.optional(AlertRuleType),
+  faction_name: Schema.optional(Schema.NullOr(Schema.String)),
+  system_name: Schema.optional(Schema.NullOr(Schema.String)),
+  threshold: Schema.optional(Schema.NullOr(Schema.Number)),
+  state: Schema.optional(Schema.NullOr(Schema.String)),
+  webhook_url: Schema.optional(Schema.NullOr(Schema.String)),
+  enabled: Schema.optional(Schema.Boolean),
+});
+
+export type UpdateAlertRuleRequest = typeof UpdateAlertRuleRequest.Type;
+
+/**
+ * Path parameter for alert rule ID
+ */
+export const AlertRuleIdParam = Schema.Struct({
+  id: AlertRuleId,
+});
+
+export type AlertRuleIdParam = typeof AlertRuleIdParam.Type;
+
+/**
+ * Response DTO for alert rule operations
+ */
+export const AlertRuleResponse = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  rule_type: AlertRuleType,
+  faction_name: Schema.NullOr(Schema.String),
+  system_name: Schema.NullOr(Schema.String),
+  threshold: Schema.NullOr(Schema.Number),
+  state: Schema.NullOr(Schema.String),
+  webhook_url: Schema.NullOr(Schema.String),
+  enabled: Schema.Boolean,
+  created_at: Schema.String,
+  updated_at: Schema.String,
+});
+
+export type AlertRuleResponse = typeof AlertRuleResponse.Type;
+
+/**
+ * Response for GET /api/alert-rules
+ */
+export const AlertRulesListResponse = Schema.Array(AlertRuleResponse);
+
+export type AlertRulesListResponse = typeof AlertRulesListResponse.Type;
+
+/**
+ * Response for POST /api/alert-rules
+ */
+export const CreateAlertRuleResponse = Schema.Struct({
+  id: Schema.String,
+});
+
+export type CreateAlertRuleResponse = typeof CreateAlertRuleResponse.Type;
+
+/**
+ * Response for PUT/DELETE operations
+ */
+export const StatusResponse = Schema.Struct({
+  status: Schema.String,
+});
+
+export type StatusResponse = typeof StatusResponse.Type;
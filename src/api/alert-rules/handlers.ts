@@ -0,0 +1,191 @@
+import { Effect, Option } from "effect";
+import { HttpApiBuilder } from "@effect/platform";
+import { v4 as uuid } from "uuid";
+import { Api } from "../index.js";
+import { AlertRuleRepository } from "../../domain/repositories.js";
+import { AlertRule } from "../../domain/models.js";
+import type { AlertRuleId } from "../../domain/ids.js";
+import { AlertRuleNotFoundError, ValidationError } from "../../domain/errors.js";
+
+/**
+ * Convert AlertRule domain model to response DTO
+ */
+const ruleToResponse = (rule: AlertRule) => ({
+  id: rule.id,
+  name: rule.name,
+  rule_type: rule.ruleType,
+  faction_name: Option.getOrNull(rule.factionName),
+  system_name: Option.getOrNull(rule.systemName),
+  threshold: Option.getOrNull(rule.threshold),
+  state: Option.getOrNull(rule.state),
+  webhook_url: Option.getOrNull(rule.webhookUrl),
+  enabled: rule.enabled,
+  created_at: rule.createdAt.toISOString(),
+  updated_at: rule.updatedAt.toISOString(),
+});
+
+/**
+ * Check that a rule carries the parameter its type needs
+ */
+export const validateAlertRule = (rule: AlertRule): Effect.Effect<void, ValidationError> => {
+  if (rule.ruleType === "pending_state") {
+    return Option.isNone(rule.state)
+      ? Effect.fail(new ValidationError({ field: "state", message: "pending_state rules need a state" }))
+      : Effect.void;
+  }
+
+  if (Option.isNone(rule.threshold)) {
+    return Effect.fail(
+      new ValidationError({ field: "threshold", message: `${rule.ruleType} rules need a threshold` })
+    );
+  }
+  if (rule.threshold.value < 0 || rule.threshold.value > 100) {
+    return Effect.fail(
+      new ValidationError({ field: "threshold", message: "threshold is a percentage between 0 and 100" })
+    );
+  }
+  return Effect.void;
+};
+
+/**
+ * Handler for GET /api/alert-rules - Get all alert rules
+ */
+export const getAllAlertRules = HttpApiBuilder.handler(
+  Api,
+  "alert-rules",
+  "getAllAlertRules",
+  () =>
+    Effect.gen(function* () {
+      const ruleRepo = yield* AlertRuleRepository;
+      const rules = yield* ruleRepo.findAll();
+      return rules.map(ruleToResponse);
+    })
+);
+
+/**
+ * Handler for POST /api/alert-rules - Create a new alert rule
+ */
+export const createAlertRule = HttpApiBuilder.handler(
+  Api,
+  "alert-rules",
+  "createAlertRule",
+  ({ payload }) =>
+    Effect.gen(function* () {
+      const ruleRepo = yield* AlertRuleRepository;
+      const now = new Date();
+
+      const newRule = new AlertRule({
+        id: uuid() as AlertRuleId,
+        name: payload.name,
+        ruleType: payload.rule_type,
+        factionName: Option.fromNullable(payload.faction_name),
+        systemName: Option.fromNullable(payload.system_name),
+        threshold: Option.fromNullable(payload.threshold),
+        state: Option.fromNullable(payload.state),
+        webhookUrl: Option.fromNullable(payload.webhook_url),
+        enabled: payload.enabled ?? true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      yield* validateAlertRule(newRule);
+      yield* ruleRepo.create(newRule);
+
+      return {
+        id: newRule.id,
+      };
+    })
+);
+
+/**
+ * Handler for GET /api/alert-rules/:id - Get alert rule by ID
+ */
+export const getAlertRuleById = HttpApiBuilder.handler(
+  Api,
+  "alert-rules",
+  "getAlertRuleById",
+  ({ path }) =>
+    Effect.gen(function* () {
+      const ruleRepo = yield* AlertRuleRepository;
+      const ruleOption = yield* ruleRepo.findById(path.id);
+
+      if (Option.isNone(ruleOption)) {
+        return yield* Effect.fail(new AlertRuleNotFoundError({ id: path.id }));
+      }
+
+      return ruleToResponse(ruleOption.value);
+    })
+);
+
+/**
+ * Handler for PUT /api/alert-rules/:id - Update alert rule
+ */
+export const updateAlertRule = HttpApiBuilder.handler(
+  Api,
+  "alert-rules",
+  "updateAlertRule",
+  ({ path, payload }) =>
+    Effect.gen(function* () {
+      const ruleRepo = yield* AlertRuleRepository;
+      const ruleOption = yield* ruleRepo.findById(path.id);
+
+      if (Option.isNone(ruleOption)) {
+        return yield* Effect.fail(new AlertRuleNotFoundError({ id: path.id }));
+      }
+
+      const existing = ruleOption.value;
+      const nullable = <A>(value: A | null | undefined, current: Option.Option<A>) =>
+        value !== undefined ? Option.fromNullable(value) : current;
+
+      const updated = new AlertRule({
+        id: existing.id,
+        name: payload.name ?? existing.name,
+        ruleType: payload.rule_type ?? existing.ruleType,
+        factionName: nullable(payload.faction_name, existing.factionName),
+        systemName: nullable(payload.system_name, existing.systemName),
+        threshold: nullable(payload.threshold, existing.threshold),
+        state: nullable(payload.state, existing.state),
+        webhookUrl: nullable(payload.webhook_url, existing.webhookUrl),
+        enabled: payload.enabled ?? existing.enabled,
+        createdAt: existing.createdAt,
+        updatedAt: new Date(),
+      });
+
+      yield* validateAlertRule(updated);
+      yield* ruleRepo.update(updated);
+
+      return {
+        status: "updated",
+      };
+    })
+);
+
+/**
+ * Handler for DELETE /api/alert-rules/:id - Delete alert rule
+ */
+export const deleteAlertRule = HttpApiBuilder.handler(
+  Api,
+  "alert-rules",
+  "deleteAlertRule",
+  ({ path }) =>
+    Effect.gen(function* () {
+      const ruleRepo = yield* AlertRuleRepository;
+      yield* ruleRepo.delete(path.id);
+
+      return {
+        status: "deleted",
+      };
+    })
+);
+
+export const AlertRulesApiLive = HttpApiBuilder.group(
+  Api,
+  "alert-rules",
+  (handlers) =>
+    handlers
+      .handle("getAllAlertRules", getAllAlertRules)
+      .handle("createAlertRule", createAlertRule)
+      .handle("getAlertRuleById", getAlertRuleById)
+      .handle("updateAlertRule", updateAlertRule)
+      .handle("deleteAlertRule", deleteAlertRule)
+);
@@ -0,0 +1,26 @@
+import { HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { AutocompleteQuery, AutocompleteResponse } from "./dtos.js"
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
+import { DatabaseError } from "../../domain/errors.js"
+
+export const AutocompleteApi = HttpApiGroup.make("autocomplete")
+  .add(
+    HttpApiEndpoint.get("getAutocomplete", "/")
+      .addSuccess(AutocompleteResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setUrlParams(AutocompleteQuery)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Autocomplete Names")
+      .annotate(
+        OpenApi.Description,
+        `Name suggestions while typing: type=system|faction|cmdr|station, q=text typed so far, limit=1-50 (default 10).
+
+Matching is case-insensitive and tolerates typos (three or more characters match on shared trigrams, shorter
+input as a prefix). Prefix matches rank first, then substring matches, then names tied to our tracked factions
+(systems they are in, the factions themselves and their neighbours, their stations), then closeness.
+
+Names are indexed from EDDN and the commander list; newly seen names show up within about 10 minutes.`
+      )
+  )
+  .prefix("/api/autocomplete")
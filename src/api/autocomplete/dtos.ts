@@ -0,0 +1,25 @@
+import { Schema } from "effect"
+import { AUTOCOMPLETE_TYPES } from "../../services/autocomplete.js"
+
+export const DEFAULT_SUGGESTIONS = 10
+export const MAX_SUGGESTIONS = 50
+
+export const AutocompleteQuery = Schema.Struct({
+  type: Schema.Literal(...AUTOCOMPLETE_TYPES),
+  q: Schema.String, // What the user typed so far
+  limit: Schema.optional(Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, MAX_SUGGESTIONS))),
+})
+
+export type AutocompleteQuery = typeof AutocompleteQuery.Type
+
+export class AutocompleteSuggestion extends Schema.Class<AutocompleteSuggestion>("AutocompleteSuggestion")({
+  name: Schema.String,
+  match: Schema.Literal("prefix", "substring", "fuzzy"),
+  relevant: Schema.Boolean, // Tied to one of our tracked factions
+}) {}
+
+export class AutocompleteResponse extends Schema.Class<AutocompleteResponse>("AutocompleteResponse")({
+  type: Schema.String,
+  query: Schema.String,
+  suggestions: Schema.Array(AutocompleteSuggestion),
+}) {}
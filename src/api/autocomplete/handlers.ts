@@ -0,0 +1,40 @@
+import { Effect } from "effect"
+import { HttpApiBuilder } from "@effect/platform"
+import { Api } from "../index.js"
+import { TursoClient } from "../../database/client.js"
+import { DatabaseError } from "../../domain/errors.js"
+import { AppConfig } from "../../lib/config.js"
+import { searchNames } from "../../services/autocomplete.js"
+import { loadTrackedFactions } from "../../services/tracked-factions.js"
+import { AutocompleteResponse, AutocompleteSuggestion, DEFAULT_SUGGESTIONS, type AutocompleteQuery } from "./dtos.js"
+
+export const handleGetAutocomplete = (query: AutocompleteQuery) =>
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+    const config = yield* AppConfig
+
+    const matches = yield* Effect.tryPromise({
+      try: async () => {
+        const tracked = await loadTrackedFactions(client, config.faction.name)
+        return searchNames(client, query.type, query.q, query.limit ?? DEFAULT_SUGGESTIONS, tracked.names)
+      },
+      catch: (error) => new DatabaseError({ operation: "searchNames.autocomplete", error }),
+    })
+
+    return new AutocompleteResponse({
+      type: query.type,
+      query: query.q,
+      suggestions: matches.map((m) => new AutocompleteSuggestion(m)),
+    })
+  })
+
+export const getAutocompleteHandler = HttpApiBuilder.handler(
+  Api,
+  "autocomplete",
+  "getAutocomplete",
+  ({ urlParams }) => handleGetAutocomplete(urlParams)
+)
+
+export const AutocompleteApiLive = HttpApiBuilder.group(Api, "autocomplete", (handlers) =>
+  handlers.handle("getAutocomplete", getAutocompleteHandler)
+)
@@ -61,7 +61,8 @@ const ClientLayer = Layer.effect(
           cmdr TEXT,
           starsystem TEXT,
           systemaddress INTEGER,
-          raw_json TEXT
+          raw_json TEXT,
+          fingerprint TEXT UNIQUE
         );
       `)
     )
@@ -290,6 +291,7 @@ describe("cmdr_system - uses cmdrId to find location", () => {
             starsystem: Option.some("Colonia"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
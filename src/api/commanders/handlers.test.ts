@@ -110,7 +110,8 @@ describe("CommandersApi", () => {
             cmdr TEXT,
             starsystem TEXT,
             systemaddress INTEGER,
-            raw_json TEXT
+            raw_json TEXT,
+            fingerprint TEXT UNIQUE
           );
 
           CREATE INDEX IF NOT EXISTS idx_event_tickid ON event(tickid);
@@ -156,6 +157,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Sol"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -170,6 +172,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Achenar"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -267,6 +270,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Sol"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -282,6 +286,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Achenar"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -385,6 +390,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Sol"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -399,6 +405,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Sol"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -414,6 +421,7 @@ describe("CommandersApi", () => {
             starsystem: Option.some("Achenar"),
             systemaddress: Option.none(),
             rawJson: Option.none(),
+            fingerprint: Option.none(),
           })
         )
 
@@ -4,7 +4,10 @@ import { Api } from "../index.js"
 import type { CZSummaryQueryParams } from "./dtos.js"
 import { TursoClient } from "../../database/client.js"
 import { DatabaseError } from "../../domain/errors.js"
+import { AppConfig } from "../../lib/config.js"
 import { buildDateFilter, type DateFilter } from "../../services/date-filters.js"
+import { loadSystemSettlements, loadWarOpponents, warImpact } from "../../services/settlements.js"
+import { loadTrackedFactions } from "../../services/tracked-factions.js"
 
 const buildDateFilterParam = (
   filter: DateFilter,
@@ -90,6 +93,55 @@ const executeCZQuery = (
     })
   )
 
+/**
+ * Add what EDDN knows about each ground CZ settlement (owning faction, body)
+ * and whether fighting there helped or hurt our side of the war in the system.
+ * Settlements nobody has approached since EDDN ingest started stay unresolved.
+ *
+ * EDDN only keeps the conflicts currently running, so war_impact judges every
+ * row, however old, against today's wars in its system. It is null when none
+ * of ours is at war there now, rather than calling past fighting neutral.
+ */
+const enrichGroundCZRows = (
+  rows: ReadonlyArray<Record<string, unknown>>
+): Effect.Effect<unknown[], DatabaseError, TursoClient | AppConfig> =>
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+    const config = yield* AppConfig
+
+    return yield* Effect.tryPromise({
+      try: async () => {
+        const { names } = await loadTrackedFactions(client, config.faction.name)
+        const loadSystemContext = async (systemName: string) => ({
+          settlements: await loadSystemSettlements(client, systemName),
+          opponents: await loadWarOpponents(client, systemName, names),
+        })
+        const systems = new Map<string, Awaited<ReturnType<typeof loadSystemContext>>>()
+
+        const enriched: unknown[] = []
+        for (const row of rows) {
+          const systemName = String(row.starsystem ?? "")
+          let context = systems.get(systemName)
+          if (!context) {
+            context = await loadSystemContext(systemName)
+            systems.set(systemName, context)
+          }
+          const settlement = context.settlements.get(String(row.settlement ?? "").toLowerCase())
+          const faction = row.faction == null ? null : String(row.faction)
+          enriched.push({
+            ...row,
+            settlement_faction: settlement?.controllingFaction ?? null,
+            settlement_faction_state: settlement?.factionState ?? null,
+            body_name: settlement?.bodyName ?? null,
+            war_impact: context.opponents.size > 0 ? warImpact(faction, names, context.opponents) : null,
+          })
+        }
+        return enriched
+      },
+      catch: (error) => new DatabaseError({ operation: "enrich ground-cz-summary", error }),
+    })
+  })
+
 export const getSpaceCZSummary = HttpApiBuilder.handler(
   Api,
   "cz",
@@ -101,7 +153,10 @@ export const getGroundCZSummary = HttpApiBuilder.handler(
   Api,
   "cz",
   "getGroundCZSummary",
-  ({ urlParams }) => executeCZQuery(urlParams, "ground")
+  ({ urlParams }) =>
+    executeCZQuery(urlParams, "ground").pipe(
+      Effect.flatMap((rows) => enrichGroundCZRows(rows as ReadonlyArray<Record<string, unknown>>))
+    )
 )
 
 export const CZApiLive = HttpApiBuilder.group(Api, "cz", (handlers) =>
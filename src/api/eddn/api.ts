@@ -0,0 +1,57 @@
+import { HttpApiGroup, HttpApiEndpoint, OpenApi } from "@effect/platform";
+import { EddnRejectionsResponse, ReplayEddnRequest, ReplayEddnResponse } from "./dtos.ts";
+import { DatabaseError, NotFoundError, ValidationError } from "../../domain/errors.ts";
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.ts";
+
+/**
+ * EDDN API Group
+ *
+ * Administration of the EDDN ingest.
+ */
+export const EddnApi = HttpApiGroup.make("eddn")
+  // POST /api/eddn/replay - Backfill from an archived EDDN capture
+  .add(
+    HttpApiEndpoint.post("replayEddnFile", "/replay")
+      .addSuccess(ReplayEddnResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(ValidationError, { status: 400 })
+      .addError(NotFoundError, { status: 404 })
+      .setPayload(ReplayEddnRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Replay EDDN Capture")
+      .annotate(
+        OpenApi.Description,
+        `Feeds a file of raw EDDN envelopes (JSON lines, plain or .gz) through the live ingest to rebuild or seed state.
+
+- file: path relative to EDDN_REPLAY_DIR (default ./data/eddn)
+
+Messages are dated by their own timestamp and never overwrite newer state; presence notifications are not raised.
+Legacy galaxy data and uploaders filtered by EDDN_SOFTWARE_DENY / EDDN_SOFTWARE_ALLOW are rejected.
+Runs to completion before responding: use scripts/eddn-replay.ts for large dumps.
+
+Requires API key authentication.`
+      )
+  )
+  // GET /api/eddn/rejections - Messages dropped by the ingest policy
+  .add(
+    HttpApiEndpoint.get("getEddnRejections", "/rejections")
+      .addSuccess(EddnRejectionsResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "EDDN Rejections")
+      .annotate(
+        OpenApi.Description,
+        `Counts of EDDN messages rejected by the ingest policy, by reason and uploader software, most frequent first.
+
+Reasons:
+- legacy: Legacy (3.8) galaxy data, which runs a separate BGS
+- software_denied: uploader matches EDDN_SOFTWARE_DENY
+- software_not_allowed: EDDN_SOFTWARE_ALLOW is set and the uploader is not on it
+
+Only journal events we ingest are checked. Also returns the active software lists.
+
+Requires API key authentication.`
+      )
+  )
+  .prefix("/api/eddn");
@@ -0,0 +1,53 @@
+import { Schema } from "effect";
+
+/**
+ * Request DTO for POST /api/eddn/replay
+ */
+export const ReplayEddnRequest = Schema.Struct({
+  file: Schema.NonEmptyString, // relative to EDDN_REPLAY_DIR
+});
+
+export type ReplayEddnRequest = typeof ReplayEddnRequest.Type;
+
+/**
+ * Response DTO for POST /api/eddn/replay
+ */
+export const ReplayEddnResponse = Schema.Struct({
+  file: Schema.String,
+  lines: Schema.Number,
+  saved: Schema.Number,
+  stale: Schema.Number,
+  unsupported: Schema.Number,
+  invalid: Schema.Number,
+  rejected: Schema.Number,
+  failed: Schema.Number,
+});
+
+export type ReplayEddnResponse = typeof ReplayEddnResponse.Type;
+
+/**
+ * Rejection count for one reason and uploader software
+ */
+export const EddnRejectionDto = Schema.Struct({
+  reason: Schema.String, // legacy | software_denied | software_not_allowed
+  software_name: Schema.String, // "" when the header has none
+  count: Schema.Number,
+  first_seen_at: Schema.String,
+  last_seen_at: Schema.String,
+});
+
+export type EddnRejectionDto = typeof EddnRejectionDto.Type;
+
+/**
+ * Response DTO for GET /api/eddn/rejections
+ */
+export const EddnRejectionsResponse = Schema.Struct({
+  policy: Schema.Struct({
+    software_allow: Schema.Array(Schema.String),
+    software_deny: Schema.Array(Schema.String),
+  }),
+  total: Schema.Number,
+  rejections: Schema.Array(EddnRejectionDto),
+});
+
+export type EddnRejectionsResponse = typeof EddnRejectionsResponse.Type;
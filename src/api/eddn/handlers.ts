@@ -0,0 +1,87 @@
+import { Effect } from "effect";
+import { HttpApiBuilder } from "@effect/platform";
+import { stat } from "node:fs/promises";
+import { resolve, sep } from "node:path";
+import { Api } from "../index.js";
+import { TursoClient } from "../../database/client.js";
+import { AppConfig, EddnIngestPolicy, EddnReplayDir } from "../../lib/config.js";
+import { DatabaseError, NotFoundError, ValidationError } from "../../domain/errors.js";
+import { loadRejectionStats, replayEddnFile } from "../../eddn/index.js";
+
+/**
+ * Handler for POST /api/eddn/replay - Backfill from an archived EDDN capture
+ */
+export const replayEddn = HttpApiBuilder.handler(
+  Api,
+  "eddn",
+  "replayEddnFile",
+  ({ payload }) =>
+    Effect.gen(function* () {
+      const client = yield* TursoClient;
+      const config = yield* AppConfig;
+      const replayDir = resolve(yield* Effect.orDie(EddnReplayDir));
+      const policy = yield* Effect.orDie(EddnIngestPolicy);
+
+      // Only files inside the replay directory can be read
+      const path = resolve(replayDir, payload.file);
+      if (!path.startsWith(replayDir + sep)) {
+        return yield* Effect.fail(
+          new ValidationError({ field: "file", message: "file must be inside EDDN_REPLAY_DIR" })
+        );
+      }
+
+      const isFile = yield* Effect.promise(() =>
+        stat(path).then((s) => s.isFile(), () => false)
+      );
+      if (!isFile) {
+        return yield* Effect.fail(new NotFoundError({ resource: "file", id: payload.file }));
+      }
+
+      const stats = yield* Effect.tryPromise({
+        try: () => replayEddnFile(client, path, { primaryFaction: config.faction.name, policy }),
+        catch: (error) =>
+          new ValidationError({ field: "file", message: `Cannot read capture: ${error}` }),
+      });
+
+      yield* Effect.logInfo(`EDDN replay of ${payload.file}: ${stats.saved}/${stats.lines} saved`);
+
+      return { file: payload.file, ...stats };
+    })
+);
+
+/**
+ * Handler for GET /api/eddn/rejections - Messages dropped by the ingest policy
+ */
+export const getEddnRejections = HttpApiBuilder.handler(
+  Api,
+  "eddn",
+  "getEddnRejections",
+  () =>
+    Effect.gen(function* () {
+      const client = yield* TursoClient;
+      const policy = yield* Effect.orDie(EddnIngestPolicy);
+
+      const stats = yield* Effect.tryPromise({
+        try: () => loadRejectionStats(client),
+        catch: (error) => new DatabaseError({ operation: "loadRejectionStats.eddn", error }),
+      });
+
+      return {
+        policy: { software_allow: policy.softwareAllow, software_deny: policy.softwareDeny },
+        total: stats.reduce((sum, s) => sum + s.count, 0),
+        rejections: stats.map((s) => ({
+          reason: s.reason,
+          software_name: s.softwareName,
+          count: s.count,
+          first_seen_at: s.firstSeenAt,
+          last_seen_at: s.lastSeenAt,
+        })),
+      };
+    })
+);
+
+export const EddnApiLive = HttpApiBuilder.group(Api, "eddn", (handlers) =>
+  handlers
+    .handle("replayEddnFile", replayEddn)
+    .handle("getEddnRejections", getEddnRejections)
+);
@@ -1,5 +1,10 @@
-import { HttpApiGroup, HttpApiEndpoint } from "@effect/platform"
-import { PostEventsRequest, PostEventsResponse } from "./dtos.js"
+import { HttpApiGroup, HttpApiEndpoint, OpenApi } from "@effect/platform"
+import {
+  PostEventsRequest,
+  PostEventsResponse,
+  PurgeDuplicateEventsRequest,
+  PurgeDuplicateEventsResponse,
+} from "./dtos.js"
 import { DatabaseError } from "../../domain/errors.js"
 import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
 
@@ -16,5 +21,32 @@ export const EventsApi = HttpApiGroup.make("events")
       .addError(DatabaseError, { status: 500 })
       .setPayload(PostEventsRequest)
       .middleware(ApiKeyAuth)
+      .annotate(
+        OpenApi.Description,
+        `Stores journal entries from clients such as BGS-Tally.
+
+Posting is idempotent: each entry is fingerprinted (commander, event, timestamp and its other fields) and an
+entry already stored, e.g. resent by a client retrying after a timeout, is skipped. eventsProcessed counts
+the entries stored, duplicatesSkipped the ones skipped.`
+      )
+  )
+  // POST /events/duplicates/purge - Remove duplicates stored before fingerprinting
+  .add(
+    HttpApiEndpoint.post("purgeDuplicateEvents", "/events/duplicates/purge")
+      .addSuccess(PurgeDuplicateEventsResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setPayload(PurgeDuplicateEventsRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Purge Duplicate Events")
+      .annotate(
+        OpenApi.Description,
+        `Fingerprints events stored before POST /events became idempotent and deletes the duplicate copies of an entry,
+with their sub-events. A copy already stored with its fingerprint is kept; otherwise the oldest one is. Body: { "dryRun": true } only counts the duplicates.
+
+Safe to run again: rows are fingerprinted once, so later runs only look at what is left.
+
+Requires API key authentication.`
+      )
   )
   .prefix("/")
@@ -57,8 +57,24 @@ export const EventDataSchema = Schema.Struct({
   Type: Schema.optional(Schema.String),
   Factions: Schema.optional(Schema.Array(Schema.Unknown)),
 
-  // FSDJump / Location conflict data
+  // FSDJump / Location system state (fed into eddn_system_info / eddn_faction)
   Conflicts: Schema.optional(Schema.Array(Schema.Unknown)),
+  StarPos: Schema.optional(Schema.Array(Schema.Number)),
+  SystemFaction: Schema.optional(Schema.Unknown),
+  SystemSecurity: Schema.optional(Schema.String),
+  SystemGovernment: Schema.optional(Schema.String),
+  SystemAllegiance: Schema.optional(Schema.String),
+  SystemEconomy: Schema.optional(Schema.String),
+  SystemSecondEconomy: Schema.optional(Schema.String),
+  Population: Schema.optional(Schema.Number),
+  ControllingPower: Schema.optional(Schema.String),
+  Powers: Schema.optional(Schema.Unknown),
+  PowerplayState: Schema.optional(Schema.String),
+  PowerplayStateControlProgress: Schema.optional(Schema.Number),
+  PowerplayStateReinforcement: Schema.optional(Schema.Number),
+  PowerplayStateUndermining: Schema.optional(Schema.Number),
+  PowerplayConflictProgress: Schema.optional(Schema.Array(Schema.Unknown)),
+  ThargoidWar: Schema.optional(Schema.Unknown),
 
   // CommitCrime
   CrimeType: Schema.optional(Schema.String),
@@ -88,6 +104,26 @@ export type PostEventsRequest = typeof PostEventsRequest.Type
  */
 export const PostEventsResponse = Schema.Struct({
   status: Schema.Literal("success"),
-  eventsProcessed: Schema.Int,
+  eventsProcessed: Schema.Int, // Stored
+  duplicatesSkipped: Schema.Int, // Already stored, e.g. sent again by a client retry
 })
 export type PostEventsResponse = typeof PostEventsResponse.Type
+
+/**
+ * Request schema for POST /events/duplicates/purge
+ */
+export const PurgeDuplicateEventsRequest = Schema.Struct({
+  dryRun: Schema.optional(Schema.Boolean), // Only count duplicates
+})
+export type PurgeDuplicateEventsRequest = typeof PurgeDuplicateEventsRequest.Type
+
+/**
+ * Response schema for POST /events/duplicates/purge
+ */
+export const PurgeDuplicateEventsResponse = Schema.Struct({
+  dryRun: Schema.Boolean,
+  scanned: Schema.Int, // Events stored without a fingerprint
+  duplicates: Schema.Int,
+  deleted: Schema.Int,
+})
+export type PurgeDuplicateEventsResponse = typeof PurgeDuplicateEventsResponse.Type
@@ -6,6 +6,10 @@ import { EventRepository } from "../../domain/repositories.js"
 import { TursoClient } from "../../database/client.js"
 import { AppConfig } from "../../lib/config.js"
 import { runConflictDiff, parseConflictsFromEntries } from "../../schedulers/conflict-scheduler.js"
+import { loadTrackedFactions } from "../../services/tracked-factions.js"
+import { ingestJournalEvent } from "../../eddn/index.js"
+import { eventFingerprint, purgeDuplicateEvents } from "../../services/event-dedup.js"
+import { DatabaseError } from "../../domain/errors.js"
 import type { EventData } from "./dtos.js"
 import {
   Event,
@@ -64,6 +68,7 @@ const eventDataToEvent = (data: EventData): Event => {
     starsystem: Option.fromNullable(data.StarSystem),
     systemaddress: Option.fromNullable(data.SystemAddress),
     rawJson: Option.some(JSON.stringify(data)),
+    fingerprint: Option.some(eventFingerprint(data)),
   })
 }
 
@@ -306,62 +311,105 @@ const createSubEvents = (
  * Events API handlers
  */
 export const EventsApiLive = HttpApiBuilder.group(Api, "events", (handlers) =>
-  handlers.handle("postEvents", (request) =>
-    Effect.gen(function* () {
-      const eventRepo = yield* EventRepository
+  handlers
+    .handle("postEvents", (request) =>
+      Effect.gen(function* () {
+        const eventRepo = yield* EventRepository
 
-      // Process each event
-      for (const eventData of request.payload) {
-        const event = eventDataToEvent(eventData)
-        const subEvents = createSubEvents(event.id, eventData)
+        // Process each event; entries already stored (client retries) are skipped
+        const inserted: EventData[] = []
+        for (const eventData of request.payload) {
+          const event = eventDataToEvent(eventData)
+          const subEvents = createSubEvents(event.id, eventData)
 
-        yield* eventRepo.createEvent(event, subEvents)
-      }
+          if (yield* eventRepo.createEvent(event, subEvents)) inserted.push(eventData)
+        }
+        const eventsProcessed = inserted.length
 
-      // Immediate conflict detection: process all FSDJump/Location events.
-      // - Systems with Conflicts data → add/update in conflict_state
-      // - Systems visited with NO Conflicts → if tracked in conflict_state, mark as ended
-      const jumpEvents = request.payload.filter(
-        (e) => ["FSDJump", "Location"].includes(e.event)
-      )
+        // Immediate conflict detection: process the newly stored FSDJump/Location events,
+        // so a retried batch does not refresh system state or post to Discord again.
+        // - Systems with Conflicts data → add/update in conflict_state
+        // - Systems visited with NO Conflicts → if tracked in conflict_state, mark as ended
+        const jumpEvents = inserted.filter(
+          (e) => ["FSDJump", "Location"].includes(e.event)
+        )
 
-      if (jumpEvents.length > 0) {
-        const client = yield* TursoClient
-        const config = yield* AppConfig
-        const webhookUrl = Option.getOrNull(config.discord.webhooks.conflict)
+        if (jumpEvents.length > 0) {
+          const client = yield* TursoClient
+          const config = yield* AppConfig
+          const webhookUrl = Option.getOrNull(config.discord.webhooks.conflict)
 
-        // Collect every system the commander visited so we can scope cleanup
-        const visitedSystems = new Set(
-          jumpEvents.map((e) => String((e as any).StarSystem ?? "")).filter(Boolean)
-        )
+          // Collect every system the commander visited so we can scope cleanup
+          const visitedSystems = new Set(
+            jumpEvents.map((e) => String((e as any).StarSystem ?? "")).filter(Boolean)
+          )
 
-        yield* Effect.forkDaemon(
-          Effect.gen(function* () {
-            const factionNames = yield* Effect.tryPromise({
-              try: async () => {
-                const result = await client.execute("SELECT name FROM protected_faction")
-                return new Set(result.rows.map((r) => String(r.name)))
+          // Refresh system state from the commanders' own jumps, oldest first so a
+          // batch covering several visits to one system ends with the latest
+          yield* Effect.forkDaemon(
+            Effect.forEach(
+              [...jumpEvents].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+              (e) => {
+                const cmdr = e.cmdr ?? e.Cmdr
+                const options = cmdr ? { primaryFaction: config.faction.name, cmdr } : { primaryFaction: config.faction.name }
+                return Effect.tryPromise({
+                  try: () => ingestJournalEvent(client, e, options),
+                  catch: (err) => new Error(`${err}`),
+                }).pipe(
+                  Effect.flatMap((result) =>
+                    result.status === "skipped" && result.cause !== "stale"
+                      ? Effect.logDebug(`Event system state: ${result.reason}`)
+                      : Effect.void
+                  ),
+                  Effect.catchAll((err) => Effect.logWarning(`Event system state: ${err}`))
+                )
               },
-              catch: (e) => new Error(`${e}`),
-            })
-            const conflictMap = parseConflictsFromEntries(jumpEvents, factionNames)
-            yield* runConflictDiff(
-              client,
-              webhookUrl,
-              conflictMap,
-              factionNames,
-              new Date().toISOString(),
-              "Event conflict check",
-              { cleanupScope: visitedSystems }
+              { discard: true }
             )
-          }).pipe(Effect.catchAll((e) => Effect.logWarning(`Event conflict check: ${e}`)))
+          )
+
+          yield* Effect.forkDaemon(
+            Effect.gen(function* () {
+              const tracked = yield* Effect.tryPromise({
+                try: () => loadTrackedFactions(client, config.faction.name),
+                catch: (e) => new Error(`${e}`),
+              })
+              const conflictMap = parseConflictsFromEntries(jumpEvents, tracked.names)
+              yield* runConflictDiff(
+                client,
+                webhookUrl,
+                conflictMap,
+                tracked.names,
+                new Date().toISOString(),
+                "Event conflict check",
+                { cleanupScope: visitedSystems, webhookOverrides: tracked.webhooks }
+              )
+            }).pipe(Effect.catchAll((e) => Effect.logWarning(`Event conflict check: ${e}`)))
+          )
+        }
+
+        return {
+          status: "success" as const,
+          eventsProcessed,
+          duplicatesSkipped: request.payload.length - eventsProcessed,
+        }
+      })
+    )
+    .handle("purgeDuplicateEvents", ({ payload }) =>
+      Effect.gen(function* () {
+        const client = yield* TursoClient
+        const dryRun = payload.dryRun ?? false
+
+        const result = yield* Effect.tryPromise({
+          try: () => purgeDuplicateEvents(client, { dryRun }),
+          catch: (error) => new DatabaseError({ operation: "purgeDuplicateEvents", error }),
+        })
+
+        yield* Effect.logInfo(
+          `Duplicate events${dryRun ? " (dry run)" : ""}: ${result.duplicates} of ${result.scanned} unfingerprinted, ${result.deleted} deleted`
         )
-      }
 
-      return {
-        status: "success" as const,
-        eventsProcessed: request.payload.length,
-      }
-    })
-  )
+        return { dryRun, ...result }
+      })
+    )
 )
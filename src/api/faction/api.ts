@@ -0,0 +1,96 @@
+import { HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { Schema } from "effect"
+import {
+  ExpansionCandidatesQuery,
+  ExpansionCandidatesResponse,
+  FactionAssetsResponse,
+  FactionHistoryQuery,
+  FactionHistoryResponse,
+  FactionProfileResponse,
+} from "./dtos.js"
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
+import { DatabaseError, NotFoundError, ValidationError } from "../../domain/errors.js"
+
+export const FactionApi = HttpApiGroup.make("faction")
+  .add(
+    HttpApiEndpoint.get("getFactionProfile", "/:factionName")
+      .addSuccess(FactionProfileResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(NotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ factionName: Schema.String }))
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Faction Profile")
+      .annotate(
+        OpenApi.Description,
+        `Every system the faction is present in according to the latest EDDN data, with influence,
+active/pending/recovering states, whether it controls the system and the conflicts it is part of.
+
+Totals include systems controlled, average influence across present systems and the population
+of controlled systems. Returns 404 when EDDN has never seen the faction.`
+      )
+  )
+  .add(
+    HttpApiEndpoint.get("getFactionHistory", "/:factionName/history")
+      .addSuccess(FactionHistoryResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(ValidationError, { status: 400 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ factionName: Schema.String }))
+      .setUrlParams(FactionHistoryQuery)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Faction History")
+      .annotate(
+        OpenApi.Description,
+        `Influence and state history of a faction, one point per system and tick, built from EDDN snapshots.
+
+Supports the following query parameters:
+- system: Only return history for this system
+- from: Only include observations at or after this ISO 8601 date or timestamp
+- to: Only include observations at or before this ISO 8601 timestamp, or during this date
+
+Timestamps need a UTC offset (Z or +hh:mm); dates are UTC days. Returns 400 for any other format.`
+      )
+  )
+  .add(
+    HttpApiEndpoint.get("getExpansionCandidates", "/:factionName/expansion-candidates")
+      .addSuccess(ExpansionCandidatesResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(ValidationError, { status: 400 })
+      .addError(NotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ factionName: Schema.String }))
+      .setUrlParams(ExpansionCandidatesQuery)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Expansion Candidates")
+      .annotate(
+        OpenApi.Description,
+        `Candidate target systems for an expansion of the faction from a source system, ordered by distance.
+
+Systems that already have the maximum number of factions (7), already contain the faction or are
+unpopulated are excluded. Each candidate carries the age of its EDDN snapshot and a needs_scouting
+flag when that snapshot is stale or lacks a faction list.
+
+Supports the following query parameters:
+- source: Source system of the expansion (required, faction must be present)
+- range: Expansion range in light years (default 20)`
+      )
+  )
+  .add(
+    HttpApiEndpoint.get("getFactionAssets", "/:factionName/assets")
+      .addSuccess(FactionAssetsResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ factionName: Schema.String }))
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Faction Assets")
+      .annotate(
+        OpenApi.Description,
+        `Stations, outposts, planetary ports and Odyssey settlements controlled by the faction, from the
+latest EDDN Docked and ApproachSettlement data. Fleet carriers are never included.
+
+Landing pads are only known for stations someone has docked at; settlements only approached
+have a body but no pads. Returns an empty list for factions without known assets.`
+      )
+  )
+  .prefix("/api/faction")
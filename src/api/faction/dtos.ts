@@ -0,0 +1,126 @@
+import { Schema } from "effect"
+
+// Query parameters for faction history
+export class FactionHistoryQuery extends Schema.Class<FactionHistoryQuery>("FactionHistoryQuery")({
+  system: Schema.optional(Schema.String),
+  from: Schema.optional(Schema.String), // ISO 8601 date or timestamp, inclusive
+  to: Schema.optional(Schema.String), // ISO 8601 date (whole day) or timestamp, inclusive
+}) {}
+
+// One observation of a faction in a system for a given tick
+export class FactionHistoryPoint extends Schema.Class<FactionHistoryPoint>("FactionHistoryPoint")({
+  tick_id: Schema.String,
+  observed_at: Schema.String,
+  influence: Schema.optionalWith(Schema.Number, { nullable: true }),
+  state: Schema.optionalWith(Schema.String, { nullable: true }),
+  active_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+  pending_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+  recovering_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+}) {}
+
+// Time series for one system, ordered by observation time
+export class FactionSystemHistory extends Schema.Class<FactionSystemHistory>("FactionSystemHistory")({
+  system_name: Schema.String,
+  points: Schema.Array(FactionHistoryPoint),
+}) {}
+
+export class FactionHistoryResponse extends Schema.Class<FactionHistoryResponse>("FactionHistoryResponse")({
+  faction: Schema.String,
+  systems: Schema.Array(FactionSystemHistory),
+  count: Schema.Number, // Total number of points across all systems
+}) {}
+
+// Conflict seen from the profiled faction's side
+export class FactionConflict extends Schema.Class<FactionConflict>("FactionConflict")({
+  opponent: Schema.optionalWith(Schema.String, { nullable: true }),
+  war_type: Schema.optionalWith(Schema.String, { nullable: true }),
+  status: Schema.optionalWith(Schema.String, { nullable: true }),
+  stake: Schema.optionalWith(Schema.String, { nullable: true }),
+  opponent_stake: Schema.optionalWith(Schema.String, { nullable: true }),
+  won_days: Schema.optionalWith(Schema.Number, { nullable: true }),
+  opponent_won_days: Schema.optionalWith(Schema.Number, { nullable: true }),
+}) {}
+
+// Latest EDDN snapshot of the faction in one system
+export class FactionSystemPresence extends Schema.Class<FactionSystemPresence>("FactionSystemPresence")({
+  system_name: Schema.String,
+  influence: Schema.optionalWith(Schema.Number, { nullable: true }),
+  state: Schema.optionalWith(Schema.String, { nullable: true }),
+  active_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+  pending_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+  recovering_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
+  is_controlling: Schema.Boolean,
+  controlling_faction: Schema.optionalWith(Schema.String, { nullable: true }),
+  population: Schema.optionalWith(Schema.Number, { nullable: true }),
+  conflicts: Schema.Array(FactionConflict),
+  timestamp: Schema.String,
+}) {}
+
+export class FactionTotals extends Schema.Class<FactionTotals>("FactionTotals")({
+  systems_present: Schema.Number,
+  systems_controlled: Schema.Number,
+  average_influence: Schema.optionalWith(Schema.Number, { nullable: true }),
+  population_controlled: Schema.Number,
+  conflicts: Schema.Number,
+}) {}
+
+export class FactionProfileResponse extends Schema.Class<FactionProfileResponse>("FactionProfileResponse")({
+  faction: Schema.String,
+  totals: FactionTotals,
+  systems: Schema.Array(FactionSystemPresence),
+}) {}
+
+// Query parameters for the expansion planner
+export class ExpansionCandidatesQuery extends Schema.Class<ExpansionCandidatesQuery>("ExpansionCandidatesQuery")({
+  source: Schema.String, // System the expansion is triggered from
+  range: Schema.optional(Schema.String), // Light years (default 20)
+}) {}
+
+export class ExpansionCandidate extends Schema.Class<ExpansionCandidate>("ExpansionCandidate")({
+  system_name: Schema.String,
+  distance_ly: Schema.Number,
+  faction_count: Schema.Number,
+  population: Schema.optionalWith(Schema.Number, { nullable: true }),
+  controlling_faction: Schema.optionalWith(Schema.String, { nullable: true }),
+  updated_at: Schema.String,
+  data_age_hours: Schema.Number,
+  needs_scouting: Schema.Boolean, // Snapshot is stale or has no faction list
+}) {}
+
+export class ExpansionCandidatesResponse extends Schema.Class<ExpansionCandidatesResponse>("ExpansionCandidatesResponse")({
+  faction: Schema.String,
+  source_system: Schema.String,
+  source_influence: Schema.optionalWith(Schema.Number, { nullable: true }),
+  expansion_ready: Schema.Boolean, // Influence in source is above the expansion threshold
+  range_ly: Schema.Number,
+  candidates: Schema.Array(ExpansionCandidate),
+  count: Schema.Number,
+}) {}
+
+export class FactionAsset extends Schema.Class<FactionAsset>("FactionAsset")({
+  system_name: Schema.String,
+  name: Schema.String,
+  kind: Schema.Literal("starport", "outpost", "planetary_port", "settlement", "megaship", "other"),
+  station_type: Schema.optionalWith(Schema.String, { nullable: true }),
+  market_id: Schema.optionalWith(Schema.Number, { nullable: true }),
+  body_name: Schema.optionalWith(Schema.String, { nullable: true }),
+  faction_state: Schema.optionalWith(Schema.String, { nullable: true }),
+  large_pads: Schema.optionalWith(Schema.Number, { nullable: true }), // Unknown until someone docks
+  updated_at: Schema.String,
+}) {}
+
+export class FactionAssetTotals extends Schema.Class<FactionAssetTotals>("FactionAssetTotals")({
+  starports: Schema.Number,
+  outposts: Schema.Number,
+  planetary_ports: Schema.Number,
+  settlements: Schema.Number,
+  other: Schema.Number, // Megaships and unclassified stations
+  large_pad_stations: Schema.Number,
+}) {}
+
+export class FactionAssetsResponse extends Schema.Class<FactionAssetsResponse>("FactionAssetsResponse")({
+  faction: Schema.String,
+  totals: FactionAssetTotals,
+  assets: Schema.Array(FactionAsset),
+  count: Schema.Number,
+}) {}
@@ -0,0 +1,508 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Layer, Option } from "effect"
+import { createClient } from "@libsql/client"
+import { TursoClient } from "../../database/client.js"
+import { EddnRepository } from "../../domain/repositories.js"
+import { EddnRepositoryLive } from "../../database/repositories/EddnRepository.js"
+import { EddnSystemInfo, EddnFaction, EddnConflict, EddnFactionHistory } from "../../domain/models.js"
+import { EddnSystemInfoId, EddnFactionId, EddnConflictId, EddnFactionHistoryId } from "../../domain/ids.js"
+import { handleGetExpansionCandidates, handleGetFactionAssets, handleGetFactionHistory, handleGetFactionProfile } from "./handlers.js"
+import { loadStakeDescriptions } from "../../services/faction-assets.js"
+import { ExpansionCandidatesQuery, FactionHistoryQuery } from "./dtos.js"
+import { v4 as uuid } from "uuid"
+
+describe("Faction API Integration", () => {
+  const ClientLayer = Layer.effect(
+    TursoClient,
+    Effect.gen(function* () {
+      const client = createClient({ url: "file::memory:" })
+
+      yield* Effect.tryPromise(() =>
+        client.executeMultiple(`
+          CREATE TABLE IF NOT EXISTS eddn_system_info (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL,
+            controlling_faction TEXT,
+            controlling_power TEXT,
+            population INTEGER,
+            security TEXT,
+            government TEXT,
+            allegiance TEXT,
+            economy TEXT,
+            second_economy TEXT,
+            system_address INTEGER,
+            x REAL,
+            y REAL,
+            z REAL,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_faction (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL,
+            name TEXT NOT NULL,
+            influence REAL,
+            state TEXT,
+            allegiance TEXT,
+            government TEXT,
+            happiness TEXT,
+            my_reputation REAL,
+            recovering_states TEXT,
+            active_states TEXT,
+            pending_states TEXT,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_conflict (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL,
+            faction1 TEXT,
+            faction2 TEXT,
+            stake1 TEXT,
+            stake2 TEXT,
+            won_days1 INTEGER,
+            won_days2 INTEGER,
+            status TEXT,
+            war_type TEXT,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_faction_history (
+            id TEXT PRIMARY KEY,
+            system_name TEXT NOT NULL,
+            faction_name TEXT NOT NULL,
+            tick_id TEXT NOT NULL,
+            influence REAL,
+            state TEXT,
+            active_states TEXT,
+            pending_states TEXT,
+            recovering_states TEXT,
+            observed_at TEXT NOT NULL,
+            UNIQUE (system_name, faction_name, tick_id)
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_station (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            market_id INTEGER NOT NULL UNIQUE,
+            system_name TEXT NOT NULL,
+            system_address INTEGER,
+            station_name TEXT NOT NULL,
+            station_type TEXT,
+            controlling_faction TEXT,
+            faction_state TEXT,
+            government TEXT,
+            allegiance TEXT,
+            economy TEXT,
+            economies TEXT,
+            services TEXT,
+            landing_pads_small INTEGER,
+            landing_pads_medium INTEGER,
+            landing_pads_large INTEGER,
+            dist_from_star_ls REAL,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_settlement (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL,
+            system_address INTEGER,
+            name TEXT NOT NULL,
+            market_id INTEGER,
+            body_name TEXT NOT NULL,
+            body_id INTEGER,
+            latitude REAL,
+            longitude REAL,
+            controlling_faction TEXT,
+            faction_state TEXT,
+            government TEXT,
+            allegiance TEXT,
+            economy TEXT,
+            updated_at TEXT NOT NULL,
+            UNIQUE (system_name, body_name, name)
+          );
+        `)
+      )
+
+      return client
+    })
+  )
+
+  const FullLayer = Layer.merge(EddnRepositoryLive.pipe(Layer.provide(ClientLayer)), ClientLayer)
+
+  const runTest = (effect: Effect.Effect<any, any, any>): Promise<any> =>
+    Effect.runPromise(Effect.provide(effect as any, FullLayer))
+
+  const seedAssets = Effect.gen(function* () {
+    const client = yield* TursoClient
+    yield* Effect.promise(() =>
+      client.executeMultiple(`
+        INSERT INTO eddn_station (id, market_id, system_name, station_name, station_type, controlling_faction, landing_pads_large, updated_at)
+        VALUES ('st1', 1001, 'Alpha', 'Hutton Orbital', 'Outpost', 'Sinistra Collective', 0, '2026-02-26T15:00:00.000Z'),
+               ('st2', 1002, 'Beta', 'Ray Gateway', 'Coriolis', 'Sinistra Collective', 6, '2026-02-26T15:00:00.000Z'),
+               ('st3', 1003, 'Beta', 'Kirk Vision Facility', 'OnFootSettlement', 'sinistra collective', NULL, '2026-02-26T15:00:00.000Z'),
+               ('st4', 1004, 'Beta', 'X9Z-B4K', 'FleetCarrier', 'FleetCarrier', NULL, '2026-02-26T15:00:00.000Z'),
+               ('st5', 1005, 'Beta', 'Rival Port', 'Orbis', 'Rival Corp', 8, '2026-02-26T15:00:00.000Z');
+
+        INSERT INTO eddn_settlement (id, system_name, name, market_id, body_name, controlling_faction, updated_at)
+        VALUES ('se1', 'Beta', 'Kirk Vision Facility', 1003, 'Beta 2', 'Sinistra Collective', '2026-02-26T15:00:00.000Z'),
+               ('se2', 'Gamma', 'Lowell Hub', 2001, 'Gamma 1 a', 'Sinistra Collective', '2026-02-26T15:00:00.000Z');
+      `)
+    )
+  })
+
+  const seedHistory = (systemName: string, tickId: string, influence: number, observedAt: string) =>
+    Effect.gen(function* () {
+      const eddnRepo = yield* EddnRepository
+      yield* eddnRepo.upsertFactionHistory(new EddnFactionHistory({
+        id: uuid() as EddnFactionHistoryId,
+        systemName,
+        factionName: "Sinistra Collective",
+        tickId,
+        influence: Option.some(influence),
+        state: Option.some("Expansion"),
+        activeStates: Option.some([{ State: "Expansion" }]),
+        pendingStates: Option.none(),
+        recoveringStates: Option.none(),
+        observedAt: new Date(observedAt),
+      }))
+    })
+
+  const seedSystem = (
+    systemName: string,
+    controllingFaction: string,
+    population: number,
+    coords?: [number, number, number],
+    updatedAt: Date = new Date("2026-02-17T10:00:00Z")
+  ) =>
+    Effect.gen(function* () {
+      const eddnRepo = yield* EddnRepository
+      yield* eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+        id: uuid() as EddnSystemInfoId,
+        eddnMessageId: Option.none(),
+        systemName,
+        controllingFaction: Option.some(controllingFaction),
+        controllingPower: Option.none(),
+        population: Option.some(population),
+        security: Option.none(),
+        government: Option.none(),
+        allegiance: Option.none(),
+        economy: Option.none(),
+        secondEconomy: Option.none(),
+        systemAddress: Option.none(),
+        x: Option.fromNullable(coords?.[0]),
+        y: Option.fromNullable(coords?.[1]),
+        z: Option.fromNullable(coords?.[2]),
+        updatedAt,
+      }))
+    })
+
+  const seedFaction = (systemName: string, name: string, influence: number, state: string) =>
+    Effect.gen(function* () {
+      const eddnRepo = yield* EddnRepository
+      yield* eddnRepo.upsertFaction(new EddnFaction({
+        id: uuid() as EddnFactionId,
+        eddnMessageId: Option.none(),
+        systemName,
+        name,
+        influence: Option.some(influence),
+        state: Option.some(state),
+        allegiance: Option.none(),
+        government: Option.none(),
+        happiness: Option.none(),
+        myReputation: Option.none(),
+        recoveringStates: Option.none(),
+        activeStates: Option.some([{ State: state }]),
+        pendingStates: Option.some([{ State: "War", Trend: 0 }]),
+        updatedAt: new Date("2026-02-17T10:00:00Z"),
+      }))
+    })
+
+  /**
+   * Test 1: Profile aggregates presence, control, conflicts and totals
+   * Simulates GET /api/faction/Sinistra%20Collective
+   */
+  it("should build the faction profile across systems", async () => {
+    const response = await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+
+        yield* seedSystem("Alpha", "Sinistra Collective", 1000000)
+        yield* seedSystem("Beta", "Rival Corp", 500000)
+        yield* seedSystem("Gamma", "sinistra collective", 250000)
+        yield* seedFaction("Alpha", "Sinistra Collective", 0.6, "Boom")
+        yield* seedFaction("Beta", "Sinistra Collective", 0.2, "None")
+        yield* seedFaction("Gamma", "Sinistra Collective", 0.4, "Expansion")
+        yield* seedFaction("Beta", "Rival Corp", 0.5, "None")
+
+        yield* eddnRepo.upsertConflict(new EddnConflict({
+          id: uuid() as EddnConflictId,
+          eddnMessageId: Option.none(),
+          systemName: "Beta",
+          faction1: Option.some("Rival Corp"),
+          faction2: Option.some("Sinistra Collective"),
+          stake1: Option.some("Rival Port"),
+          stake2: Option.some("Our Outpost"),
+          wonDays1: Option.some(1),
+          wonDays2: Option.some(2),
+          status: Option.some("active"),
+          warType: Option.some("war"),
+          updatedAt: new Date("2026-02-17T10:00:00Z"),
+        }))
+
+        return yield* handleGetFactionProfile("sinistra collective")
+      })
+    )
+
+    expect(response.faction).toBe("Sinistra Collective")
+    expect(response.systems.map((s: any) => s.system_name)).toEqual(["Alpha", "Beta", "Gamma"])
+    expect(response.totals.systems_present).toBe(3)
+    expect(response.totals.systems_controlled).toBe(2)
+    expect(response.totals.population_controlled).toBe(1250000)
+    expect(response.totals.average_influence).toBeCloseTo(0.4)
+    expect(response.totals.conflicts).toBe(1)
+
+    const beta = response.systems[1]
+    expect(beta.is_controlling).toBe(false)
+    expect(beta.controlling_faction).toBe("Rival Corp")
+    expect(beta.pending_states).toBe('[{"State":"War","Trend":0}]')
+    expect(beta.conflicts.length).toBe(1)
+    expect(beta.conflicts[0].opponent).toBe("Rival Corp")
+    expect(beta.conflicts[0].stake).toBe("Our Outpost")
+    expect(beta.conflicts[0].won_days).toBe(2)
+    expect(beta.conflicts[0].opponent_won_days).toBe(1)
+    expect(response.systems[0].conflicts).toEqual([])
+  })
+
+  /**
+   * Test 2: Unknown faction fails with NotFoundError
+   */
+  it("should fail with NotFoundError for a faction EDDN has never seen", async () => {
+    const result = await runTest(
+      handleGetFactionProfile("Nobody").pipe(Effect.flip)
+    )
+
+    expect(result._tag).toBe("NotFoundError")
+    expect(result.resource).toBe("faction")
+  })
+
+  /**
+   * Test 3: Expansion candidates within range, nearest first
+   * Simulates GET /api/faction/Sinistra%20Collective/expansion-candidates?source=Home
+   */
+  it("should list expansion candidates ordered by distance", async () => {
+    const response = await runTest(
+      Effect.gen(function* () {
+        const fresh = new Date(Date.now() - 2 * 3_600_000)
+
+        yield* seedSystem("Home", "Sinistra Collective", 1000000, [0, 0, 0], fresh)
+        yield* seedFaction("Home", "Sinistra Collective", 0.8, "Expansion")
+
+        // Valid targets
+        yield* seedSystem("Near", "Locals A", 50000, [3, 4, 0], fresh) // 5 ly
+        yield* seedFaction("Near", "Locals A", 0.7, "None")
+        yield* seedSystem("Mid", "Locals B", 50000, [0, 12, 0]) // 12 ly, stale snapshot
+        yield* seedFaction("Mid", "Locals B", 0.9, "None")
+
+        // Excluded: already present, full, unpopulated, out of range
+        yield* seedSystem("Ours", "Locals C", 50000, [1, 1, 1], fresh)
+        yield* seedFaction("Ours", "Sinistra Collective", 0.1, "None")
+        yield* seedSystem("Full", "Locals D", 50000, [2, 0, 0], fresh)
+        for (let i = 1; i <= 7; i++) {
+          yield* seedFaction("Full", `Locals D${i}`, 0.1, "None")
+        }
+        yield* seedSystem("Empty", "", 0, [0, 0, 2], fresh)
+        yield* seedSystem("Far", "Locals E", 50000, [0, 0, 25], fresh)
+        yield* seedFaction("Far", "Locals E", 1, "None")
+
+        return yield* handleGetExpansionCandidates(
+          "Sinistra Collective",
+          new ExpansionCandidatesQuery({ source: "home" })
+        )
+      })
+    )
+
+    expect(response.source_system).toBe("Home")
+    expect(response.expansion_ready).toBe(true)
+    expect(response.range_ly).toBe(20)
+    expect(response.candidates.map((c: any) => c.system_name)).toEqual(["Near", "Mid"])
+    expect(response.candidates[0].distance_ly).toBe(5)
+    expect(response.candidates[0].faction_count).toBe(1)
+    expect(response.candidates[0].needs_scouting).toBe(false)
+    expect(response.candidates[1].needs_scouting).toBe(true)
+  })
+
+  /**
+   * Test 4: Expansion planner input errors
+   */
+  it("should reject unknown sources and sources without our faction", async () => {
+    const errors = await runTest(
+      Effect.gen(function* () {
+        yield* seedSystem("Home", "Locals A", 1000000, [0, 0, 0])
+        yield* seedFaction("Home", "Locals A", 1, "None")
+        yield* seedSystem("NoCoords", "Sinistra Collective", 1000000)
+        yield* seedFaction("NoCoords", "Sinistra Collective", 0.5, "None")
+
+        const expand = (source: string, range?: string) =>
+          handleGetExpansionCandidates(
+            "Sinistra Collective",
+            new ExpansionCandidatesQuery(range === undefined ? { source } : { source, range })
+          ).pipe(Effect.flip)
+
+        return [
+          yield* expand("Nowhere"),
+          yield* expand("Home"),
+          yield* expand("NoCoords"),
+          yield* expand("Home", "-5"),
+        ]
+      })
+    )
+
+    expect(errors[0]._tag).toBe("NotFoundError")
+    expect(errors[1]._tag).toBe("ValidationError")
+    expect(errors[1].field).toBe("source")
+    expect(errors[2]._tag).toBe("ValidationError")
+    expect(errors[3].field).toBe("range")
+  })
+
+  /**
+   * Test 5: Series grouped per system
+   * Simulates GET /api/faction/Sinistra%20Collective/history
+   */
+  it("should return the history grouped by system", async () => {
+    const response = await runTest(
+      Effect.gen(function* () {
+        yield* seedHistory("Alpha", "tick_1", 0.30, "2026-02-15T12:00:00Z")
+        yield* seedHistory("Alpha", "tick_2", 0.34, "2026-02-16T12:00:00Z")
+        yield* seedHistory("Beta", "tick_2", 0.55, "2026-02-16T13:00:00Z")
+
+        return yield* handleGetFactionHistory("Sinistra Collective", new FactionHistoryQuery({}))
+      })
+    )
+
+    expect(response.faction).toBe("Sinistra Collective")
+    expect(response.count).toBe(3)
+    expect(response.systems.map((s: any) => s.system_name)).toEqual(["Alpha", "Beta"])
+    const alpha = response.systems[0]
+    expect(alpha.points.map((p: any) => p.influence)).toEqual([0.30, 0.34])
+    expect(alpha.points[0].tick_id).toBe("tick_1")
+    expect(alpha.points[0].observed_at).toBe("2026-02-15T12:00:00.000Z")
+    expect(alpha.points[0].active_states).toBe('[{"State":"Expansion"}]')
+  })
+
+  /**
+   * Test 6: system/from/to filters
+   * Simulates GET /api/faction/Sinistra%20Collective/history?system=Alpha&from=...
+   */
+  it("should apply system and date filters", async () => {
+    const response = await runTest(
+      Effect.gen(function* () {
+        yield* seedHistory("Alpha", "tick_1", 0.30, "2026-02-15T12:00:00Z")
+        yield* seedHistory("Alpha", "tick_2", 0.34, "2026-02-16T12:00:00Z")
+        yield* seedHistory("Beta", "tick_2", 0.55, "2026-02-16T13:00:00Z")
+
+        return yield* handleGetFactionHistory(
+          "Sinistra Collective",
+          new FactionHistoryQuery({ system: "Alpha", from: "2026-02-16T00:00:00.000Z" })
+        )
+      })
+    )
+
+    expect(response.count).toBe(1)
+    expect(response.systems.length).toBe(1)
+    expect(response.systems[0].points[0].tick_id).toBe("tick_2")
+  })
+
+  /**
+   * Test 7: Date-only bounds cover whole UTC days, malformed bounds are rejected
+   * Simulates GET /api/faction/Sinistra%20Collective/history?from=2026-02-15&to=2026-02-15
+   */
+  it("should treat a date as a whole day and reject malformed bounds", async () => {
+    const [sameDay, errors] = await runTest(
+      Effect.gen(function* () {
+        yield* seedHistory("Alpha", "tick_1", 0.30, "2026-02-15T12:00:00Z")
+        yield* seedHistory("Alpha", "tick_2", 0.34, "2026-02-16T12:00:00Z")
+
+        const history = (query: ConstructorParameters<typeof FactionHistoryQuery>[0]) =>
+          handleGetFactionHistory("Sinistra Collective", new FactionHistoryQuery(query))
+        return [
+          yield* history({ from: "2026-02-15", to: "2026-02-15" }),
+          [
+            yield* Effect.flip(history({ from: "yesterday" })),
+            yield* Effect.flip(history({ to: "2026-02-15T12:00:00" })), // no UTC offset
+          ],
+        ] as const
+      })
+    )
+
+    expect(sameDay.count).toBe(1)
+    expect(sameDay.systems[0].points[0].tick_id).toBe("tick_1")
+    expect(errors.map((e: any) => [e._tag, e.field])).toEqual([
+      ["ValidationError", "from"],
+      ["ValidationError", "to"],
+    ])
+  })
+
+  /**
+   * Test 8: Unknown faction
+   */
+  it("should return an empty series for an unknown faction", async () => {
+    const response = await runTest(
+      handleGetFactionHistory("Nobody", new FactionHistoryQuery({}))
+    )
+
+    expect(response.count).toBe(0)
+    expect(response.systems).toEqual([])
+  })
+
+  /**
+   * Test 9: Stations and settlements owned, carriers excluded
+   * Simulates GET /api/faction/Sinistra%20Collective/assets
+   */
+  it("should list the faction's stations and settlements", async () => {
+    const response = await runTest(
+      Effect.gen(function* () {
+        yield* seedAssets
+        return yield* handleGetFactionAssets("Sinistra Collective")
+      })
+    )
+
+    expect(response.assets.map((a: any) => [a.system_name, a.name, a.kind])).toEqual([
+      ["Alpha", "Hutton Orbital", "outpost"],
+      ["Beta", "Kirk Vision Facility", "settlement"],
+      ["Beta", "Ray Gateway", "starport"],
+      ["Gamma", "Lowell Hub", "settlement"],
+    ])
+    // A docked settlement keeps the body from ApproachSettlement
+    expect(response.assets[1].body_name).toBe("Beta 2")
+    expect(response.assets[3].large_pads).toBeUndefined()
+    expect(response.count).toBe(4)
+    expect(response.totals).toMatchObject({ starports: 1, outposts: 1, settlements: 2, large_pad_stations: 1 })
+
+    const none = await runTest(handleGetFactionAssets("Nobody"))
+    expect(none.count).toBe(0)
+  })
+
+  /**
+   * Test 10: Conflict stakes resolved to assets
+   */
+  it("should describe what is at stake in a conflict", async () => {
+    const notes = await runTest(
+      Effect.gen(function* () {
+        yield* seedAssets
+        const client = yield* TursoClient
+        return yield* Effect.promise(() =>
+          loadStakeDescriptions(client, "Beta", ["Ray Gateway", "Rival Port", "Unknown Base", ""], new Set(["Sinistra Collective"]))
+        )
+      })
+    )
+
+    expect(notes.get("Ray Gateway")).toBe("starport, large pads — our only large-pad station")
+    expect(notes.get("Rival Port")).toBe("starport, large pads")
+    expect(notes.has("Unknown Base")).toBe(false)
+  })
+})
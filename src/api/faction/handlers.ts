@@ -0,0 +1,345 @@
+import { Effect, Option } from "effect"
+import { HttpApiBuilder } from "@effect/platform"
+import { Api } from "../index.js"
+import { TursoClient } from "../../database/client.js"
+import { EddnRepository } from "../../domain/repositories.js"
+import { DatabaseError, NotFoundError, ValidationError } from "../../domain/errors.js"
+import { loadFactionAssets } from "../../services/faction-assets.js"
+import type { ExpansionCandidatesQuery, FactionHistoryQuery } from "./dtos.js"
+import {
+  ExpansionCandidate,
+  ExpansionCandidatesResponse,
+  FactionAsset,
+  FactionAssetsResponse,
+  FactionAssetTotals,
+  FactionConflict,
+  FactionHistoryPoint,
+  FactionHistoryResponse,
+  FactionProfileResponse,
+  FactionSystemHistory,
+  FactionSystemPresence,
+  FactionTotals,
+} from "./dtos.js"
+import type * as DomainModels from "../../domain/models.js"
+
+// Expansion rules
+const EXPANSION_INFLUENCE_THRESHOLD = 0.75
+const DEFAULT_EXPANSION_RANGE_LY = 20
+const MAX_FACTIONS_PER_SYSTEM = 7
+// Snapshots older than this should be refreshed before committing to a target
+const SCOUTING_STALE_AFTER_HOURS = 72
+
+// History bounds: a date, or a timestamp with its UTC offset
+const ISO_DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+const DAY_MS = 24 * 3_600_000
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+
+/**
+ * A from/to history bound as a UTC timestamp comparable with observed_at. A
+ * bare date is the start of that UTC day, or its last millisecond for `to` so
+ * the whole day is included.
+ */
+const historyBound = (field: "from" | "to", value: string | undefined): Effect.Effect<string | undefined, ValidationError> => {
+  if (value === undefined) return Effect.succeed(undefined)
+  const dateOnly = ISO_DATE_ONLY.test(value)
+  const time = dateOnly || ISO_TIMESTAMP.test(value) ? Date.parse(value) : NaN
+  if (Number.isNaN(time)) {
+    return Effect.fail(new ValidationError({
+      field,
+      message: `Invalid ${field} '${value}'. Expected an ISO 8601 date (2026-02-16) or timestamp (2026-02-16T12:00:00Z).`,
+    }))
+  }
+  return Effect.succeed(new Date(dateOnly && field === "to" ? time + DAY_MS - 1 : time).toISOString())
+}
+
+// Convert JSON fields to strings
+const stringifyJson = (opt: Option.Option<unknown>): string | undefined => {
+  if (Option.isNone(opt)) return undefined
+  const val = opt.value
+  return typeof val === "string" ? val : JSON.stringify(val)
+}
+
+const mapHistoryPoint = (domain: DomainModels.EddnFactionHistory): FactionHistoryPoint =>
+  new FactionHistoryPoint({
+    tick_id: domain.tickId,
+    observed_at: domain.observedAt.toISOString(),
+    influence: Option.getOrUndefined(domain.influence),
+    state: Option.getOrUndefined(domain.state),
+    active_states: stringifyJson(domain.activeStates),
+    pending_states: stringifyJson(domain.pendingStates),
+    recovering_states: stringifyJson(domain.recoveringStates),
+  })
+
+// Orient a conflict so "stake"/"won_days" always belong to the profiled faction
+const mapConflictForFaction = (
+  factionName: string,
+  domain: DomainModels.EddnConflict
+): FactionConflict => {
+  const isFaction1 = Option.match(domain.faction1, {
+    onNone: () => false,
+    onSome: (name) => sameName(name, factionName),
+  })
+
+  return new FactionConflict({
+    opponent: Option.getOrUndefined(isFaction1 ? domain.faction2 : domain.faction1),
+    war_type: Option.getOrUndefined(domain.warType),
+    status: Option.getOrUndefined(domain.status),
+    stake: Option.getOrUndefined(isFaction1 ? domain.stake1 : domain.stake2),
+    opponent_stake: Option.getOrUndefined(isFaction1 ? domain.stake2 : domain.stake1),
+    won_days: Option.getOrUndefined(isFaction1 ? domain.wonDays1 : domain.wonDays2),
+    opponent_won_days: Option.getOrUndefined(isFaction1 ? domain.wonDays2 : domain.wonDays1),
+  })
+}
+
+export const handleGetFactionProfile = (factionName: string) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+
+    const presence = yield* eddnRepo.findFactionPresence(factionName)
+    if (presence.length === 0) {
+      return yield* Effect.fail(new NotFoundError({ resource: "faction", id: factionName }))
+    }
+
+    const conflicts = yield* eddnRepo.findConflictsForFaction(factionName)
+    const conflictsBySystem = new Map<string, FactionConflict[]>()
+    for (const conflict of conflicts) {
+      const key = conflict.systemName.toLowerCase()
+      const list = conflictsBySystem.get(key) ?? []
+      list.push(mapConflictForFaction(factionName, conflict))
+      conflictsBySystem.set(key, list)
+    }
+
+    const systems = yield* Effect.forEach(presence, (faction) =>
+      Effect.gen(function* () {
+        const systemInfo = yield* eddnRepo.getSystemInfo(faction.systemName)
+        const controllingFaction = Option.flatMap(systemInfo, (info) => info.controllingFaction)
+        const isControlling = Option.match(controllingFaction, {
+          onNone: () => false,
+          onSome: (name) => sameName(name, factionName),
+        })
+
+        return new FactionSystemPresence({
+          system_name: faction.systemName,
+          influence: Option.getOrUndefined(faction.influence),
+          state: Option.getOrUndefined(faction.state),
+          active_states: stringifyJson(faction.activeStates),
+          pending_states: stringifyJson(faction.pendingStates),
+          recovering_states: stringifyJson(faction.recoveringStates),
+          is_controlling: isControlling,
+          controlling_faction: Option.getOrUndefined(controllingFaction),
+          population: Option.getOrUndefined(Option.flatMap(systemInfo, (info) => info.population)),
+          conflicts: conflictsBySystem.get(faction.systemName.toLowerCase()) ?? [],
+          timestamp: faction.updatedAt.toISOString(),
+        })
+      })
+    )
+
+    const controlled = systems.filter((s) => s.is_controlling)
+    const influences = systems.flatMap((s) => (s.influence != null ? [s.influence] : []))
+
+    return new FactionProfileResponse({
+      faction: presence[0]!.name,
+      totals: new FactionTotals({
+        systems_present: systems.length,
+        systems_controlled: controlled.length,
+        average_influence: influences.length > 0
+          ? influences.reduce((sum, inf) => sum + inf, 0) / influences.length
+          : undefined,
+        population_controlled: controlled.reduce((sum, s) => sum + (s.population ?? 0), 0),
+        conflicts: conflicts.length,
+      }),
+      systems,
+    })
+  })
+
+export const handleGetExpansionCandidates = (factionName: string, query: ExpansionCandidatesQuery) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+
+    const range = query.range === undefined ? DEFAULT_EXPANSION_RANGE_LY : Number(query.range)
+    if (!Number.isFinite(range) || range <= 0) {
+      return yield* Effect.fail(new ValidationError({
+        field: "range",
+        message: `Invalid range '${query.range}'. Expected a positive number of light years.`,
+      }))
+    }
+
+    const sourceInfo = yield* eddnRepo.getSystemInfo(query.source)
+    if (Option.isNone(sourceInfo)) {
+      return yield* Effect.fail(new NotFoundError({ resource: "system", id: query.source }))
+    }
+    const source = sourceInfo.value
+
+    const center = Option.all({ x: source.x, y: source.y, z: source.z })
+    if (Option.isNone(center)) {
+      return yield* Effect.fail(new ValidationError({
+        field: "source",
+        message: `No coordinates known for '${source.systemName}'. Visit the system to refresh EDDN data.`,
+      }))
+    }
+
+    const sourceFactions = yield* eddnRepo.getFactionsForSystem(source.systemName)
+    const ourFaction = sourceFactions.find((f) => sameName(f.name, factionName))
+    if (ourFaction === undefined) {
+      return yield* Effect.fail(new ValidationError({
+        field: "source",
+        message: `${factionName} is not present in ${source.systemName}.`,
+      }))
+    }
+    const sourceInfluence = Option.getOrUndefined(ourFaction.influence)
+
+    const nearby = yield* eddnRepo.findSystemsWithinRadius(center.value, range)
+    const now = Date.now()
+
+    const candidates = yield* Effect.forEach(
+      nearby.filter((name) => !sameName(name, source.systemName)),
+      (systemName) =>
+        Effect.gen(function* () {
+          const info = yield* eddnRepo.getSystemInfo(systemName)
+          if (Option.isNone(info)) return Option.none<ExpansionCandidate>()
+          const system = info.value
+
+          // Expansions only target populated systems
+          if (Option.getOrUndefined(system.population) === 0) return Option.none<ExpansionCandidate>()
+
+          const factions = yield* eddnRepo.getFactionsForSystem(systemName)
+          if (factions.length >= MAX_FACTIONS_PER_SYSTEM) return Option.none<ExpansionCandidate>()
+          if (factions.some((f) => sameName(f.name, factionName))) return Option.none<ExpansionCandidate>()
+
+          const dx = Option.getOrElse(system.x, () => 0) - center.value.x
+          const dy = Option.getOrElse(system.y, () => 0) - center.value.y
+          const dz = Option.getOrElse(system.z, () => 0) - center.value.z
+          const dataAgeHours = (now - system.updatedAt.getTime()) / 3_600_000
+
+          return Option.some(new ExpansionCandidate({
+            system_name: system.systemName,
+            distance_ly: Math.round(Math.sqrt(dx * dx + dy * dy + dz * dz) * 100) / 100,
+            faction_count: factions.length,
+            population: Option.getOrUndefined(system.population),
+            controlling_faction: Option.getOrUndefined(system.controllingFaction),
+            updated_at: system.updatedAt.toISOString(),
+            data_age_hours: Math.round(dataAgeHours * 10) / 10,
+            needs_scouting: factions.length === 0 || dataAgeHours > SCOUTING_STALE_AFTER_HOURS,
+          }))
+        }),
+      { concurrency: 10 }
+    )
+
+    const sorted = candidates
+      .filter(Option.isSome)
+      .map((c) => c.value)
+      .sort((a, b) => a.distance_ly - b.distance_ly)
+
+    return new ExpansionCandidatesResponse({
+      faction: ourFaction.name,
+      source_system: source.systemName,
+      source_influence: sourceInfluence,
+      expansion_ready: sourceInfluence !== undefined && sourceInfluence >= EXPANSION_INFLUENCE_THRESHOLD,
+      range_ly: range,
+      candidates: sorted,
+      count: sorted.length,
+    })
+  })
+
+export const handleGetFactionHistory = (factionName: string, query: FactionHistoryQuery) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+
+    const entries = yield* eddnRepo.getFactionHistory(factionName, {
+      systemName: query.system,
+      from: yield* historyBound("from", query.from),
+      to: yield* historyBound("to", query.to),
+    })
+
+    // Entries come back ordered by system then time, so grouping keeps each series sorted
+    const bySystem = new Map<string, FactionHistoryPoint[]>()
+    for (const entry of entries) {
+      const points = bySystem.get(entry.systemName) ?? []
+      points.push(mapHistoryPoint(entry))
+      bySystem.set(entry.systemName, points)
+    }
+
+    const systems = Array.from(bySystem, ([systemName, points]) =>
+      new FactionSystemHistory({ system_name: systemName, points })
+    )
+
+    return new FactionHistoryResponse({
+      faction: factionName,
+      systems,
+      count: entries.length,
+    })
+  })
+
+export const handleGetFactionAssets = (factionName: string) =>
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+
+    const assets = yield* Effect.tryPromise({
+      try: () => loadFactionAssets(client, factionName),
+      catch: (error) => new DatabaseError({ operation: "loadFactionAssets.faction", error }),
+    })
+
+    const countKind = (kind: FactionAsset["kind"]) => assets.filter((a) => a.kind === kind).length
+
+    return new FactionAssetsResponse({
+      faction: factionName,
+      totals: new FactionAssetTotals({
+        starports: countKind("starport"),
+        outposts: countKind("outpost"),
+        planetary_ports: countKind("planetary_port"),
+        settlements: countKind("settlement"),
+        other: countKind("megaship") + countKind("other"),
+        large_pad_stations: assets.filter((a) => (a.largePads ?? 0) > 0).length,
+      }),
+      assets: assets.map((a) => new FactionAsset({
+        system_name: a.systemName,
+        name: a.name,
+        kind: a.kind,
+        station_type: a.stationType ?? undefined,
+        market_id: a.marketId ?? undefined,
+        body_name: a.bodyName ?? undefined,
+        faction_state: a.factionState ?? undefined,
+        large_pads: a.largePads ?? undefined,
+        updated_at: a.updatedAt,
+      })),
+      count: assets.length,
+    })
+  })
+
+export const getFactionProfileHandler = HttpApiBuilder.handler(
+  Api,
+  "faction",
+  "getFactionProfile",
+  ({ path }) => handleGetFactionProfile(path.factionName)
+)
+
+export const getExpansionCandidatesHandler = HttpApiBuilder.handler(
+  Api,
+  "faction",
+  "getExpansionCandidates",
+  ({ path, urlParams }) => handleGetExpansionCandidates(path.factionName, urlParams)
+)
+
+export const getFactionHistoryHandler = HttpApiBuilder.handler(
+  Api,
+  "faction",
+  "getFactionHistory",
+  ({ path, urlParams }) => handleGetFactionHistory(path.factionName, urlParams)
+)
+
+export const getFactionAssetsHandler = HttpApiBuilder.handler(
+  Api,
+  "faction",
+  "getFactionAssets",
+  ({ path }) => handleGetFactionAssets(path.factionName)
+)
+
+export const FactionApiLive = HttpApiBuilder.group(Api, "faction", (handlers) =>
+  handlers
+    .handle("getFactionProfile", getFactionProfileHandler)
+    .handle("getFactionHistory", getFactionHistoryHandler)
+    .handle("getExpansionCandidates", getExpansionCandidatesHandler)
+    .handle("getFactionAssets", getFactionAssetsHandler)
+)
@@ -5,7 +5,7 @@ import { ObjectivesApi } from "./objectives/api.js";
 import { SummaryApi } from "./summary/api.js";
 import { ColoniesApi } from "./colonies/api.js";
 import { ProtectedFactionsApi } from "./protected-factions/api.js";
-import { SystemApi } from "./system/api.js";
+import { SystemApi, SystemBulkApi } from "./system/api.js";
 import { AuthApi } from "./auth/api.js";
 import { DiscordSummaryApi } from "./discord-summary/api.js";
 import { CommandersApi } from "./commanders/api.js";
@@ -15,6 +15,14 @@ import { CmdrLocationApi } from "./cmdr-location/api.js";
 import { CZApi } from "./cz/api.js";
 import { BountyVouchersApi } from "./bounty-vouchers/api.js";
 import { FactionVisitedSystemsApi } from "./faction-visited-systems/api.js";
+import { FactionApi } from "./faction/api.js";
+import { AlertRulesApi } from "./alert-rules/api.js";
+import { TrackedFactionsApi } from "./tracked-factions/api.js";
+import { EddnApi } from "./eddn/api.js";
+import { StationsApi } from "./stations/api.js";
+import { PowerplayApi } from "./powerplay/api.js";
+import { ScoutingApi } from "./scouting/api.js";
+import { AutocompleteApi } from "./autocomplete/api.js";
 
 // API composition - all endpoint groups
 export const Api = HttpApi.make("sinistra-api")
@@ -25,6 +33,7 @@ export const Api = HttpApi.make("sinistra-api")
   .add(ColoniesApi)
   .add(ProtectedFactionsApi)
   .add(SystemApi)
+  .add(SystemBulkApi)
   .add(AuthApi)
   .add(DiscordSummaryApi)
   .add(CommandersApi)
@@ -33,4 +42,12 @@ export const Api = HttpApi.make("sinistra-api")
   .add(CmdrLocationApi)
   .add(CZApi)
   .add(BountyVouchersApi)
-  .add(FactionVisitedSystemsApi);
+  .add(FactionVisitedSystemsApi)
+  .add(FactionApi)
+  .add(AlertRulesApi)
+  .add(TrackedFactionsApi)
+  .add(EddnApi)
+  .add(StationsApi)
+  .add(PowerplayApi)
+  .add(ScoutingApi)
+  .add(AutocompleteApi);
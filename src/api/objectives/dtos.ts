@@ -119,12 +119,17 @@ export const ProgressDetailSchema = Schema.Struct({
 export type ProgressDetail = typeof ProgressDetailSchema.Type
 
 // Settlement in GET response
+// ownerFaction/body come from EDDN ApproachSettlement data; warImpact tells
+// whether fighting for the target faction there helps or hurts our side
 const SettlementResponseSchema = Schema.Struct({
   id: ObjectiveTargetSettlementId,
   name: Schema.String,
   targetindividual: Schema.Int,
   targetoverall: Schema.Int,
   progress: Schema.Int,
+  ownerFaction: Schema.optional(Schema.String),
+  body: Schema.optional(Schema.String),
+  warImpact: Schema.optional(Schema.Literal("helped", "hurt", "neutral")),
 })
 
 // Target in GET response (includes progressDetail)
@@ -8,6 +8,9 @@ import { Objective, ObjectiveTarget, ObjectiveTargetSettlement } from "../../dom
 import { ObjectiveId, ObjectiveTargetId, ObjectiveTargetSettlementId } from "../../domain/ids.js"
 import { TursoClient } from "../../database/client.js"
 import { DatabaseError, ObjectiveNotFoundError } from "../../domain/errors.js"
+import { AppConfig } from "../../lib/config.js"
+import { loadSystemSettlements, loadWarOpponents, warImpact, type SettlementInfo } from "../../services/settlements.js"
+import { loadTrackedFactions } from "../../services/tracked-factions.js"
 
 // ============================================================================
 // Progress Calculation
@@ -328,6 +331,13 @@ const buildGetObjectivesEffect = (
     const currentTickId =
       tickResult.rows.length > 0 ? (String(tickResult.rows[0]["tickid"] ?? "") || null) : null
 
+    // Tracked factions decide whether a ground-CZ target helps or hurts our side
+    const config = yield* AppConfig
+    const tracked = yield* Effect.tryPromise({
+      try: () => loadTrackedFactions(client, config.faction.name),
+      catch: (error) => new DatabaseError({ operation: "query.trackedFactions", error }),
+    })
+
     // Enrich each objective with calculated progressDetail
     const enrichedObjectives: any[] = []
     for (const objective of objectives) {
@@ -348,6 +358,17 @@ const buildGetObjectivesEffect = (
           targetoverall: Option.getOrNull(s.targetoverall),
         }))
 
+        // Ground CZ settlements resolved against EDDN ApproachSettlement data
+        const settlementContext = targetType === "ground_cz" && targetSystem
+          ? yield* Effect.tryPromise({
+              try: async () => ({
+                settlements: await loadSystemSettlements(client, targetSystem),
+                opponents: await loadWarOpponents(client, targetSystem, tracked.names),
+              }),
+              catch: (error) => new DatabaseError({ operation: "query.settlements", error }),
+            })
+          : null
+
         const progressDetail = yield* computeTargetProgress(
           client,
           targetType,
@@ -373,12 +394,20 @@ const buildGetObjectivesEffect = (
             const calcProgress = sName
               ? (progressDetail.settlementProgress.find((sp) => sp.settlement === sName)?.progress ?? 0)
               : 0
+            const known: SettlementInfo | undefined = sName
+              ? settlementContext?.settlements.get(sName.toLowerCase())
+              : undefined
             return {
               id: s.id,
               name: Option.getOrElse(s.name, () => ""),
               targetindividual: Option.getOrElse(s.targetindividual, () => 0),
               targetoverall: Option.getOrElse(s.targetoverall, () => 0),
               progress: calcProgress,
+              ownerFaction: known?.controllingFaction ?? undefined,
+              body: known?.bodyName,
+              warImpact: settlementContext
+                ? warImpact(targetFaction ?? null, tracked.names, settlementContext.opponents)
+                : undefined,
             }
           }),
           progressDetail,
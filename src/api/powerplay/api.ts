@@ -0,0 +1,29 @@
+import { HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { Schema } from "effect"
+import { PowerStandingsResponse } from "./dtos.js"
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
+import { DatabaseError, NotFoundError } from "../../domain/errors.js"
+
+export const PowerplayApi = HttpApiGroup.make("powerplay")
+  .add(
+    HttpApiEndpoint.get("getPowerStandings", "/:power")
+      .addSuccess(PowerStandingsResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(NotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ power: Schema.String }))
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Power Standings")
+      .annotate(
+        OpenApi.Description,
+        `Powerplay 2.0 standings of a power from the per-cycle EDDN powerplay history: controlled systems
+by state (Stronghold/Fortified/Exploited), contested systems (uncontrolled ones where the power has
+conflict progress), the biggest reinforcement and undermining movers of the current cycle (Thursday 07:00 UTC)
+and controlled systems at risk of losing control.
+
+A system is at risk when its control progress is negative, or low and undermining outpaces
+reinforcement this cycle. Each system carries the cycle of its latest observation, which may be
+older than the current one. Systems controlled by a rival power are not listed. Returns 404 when EDDN has never reported a system for the power.`
+      )
+  )
+  .prefix("/api/powerplay")
@@ -0,0 +1,33 @@
+import { Schema } from "effect"
+
+// Latest known powerplay state of a system, from eddn_powerplay_history
+export class PowerplaySystem extends Schema.Class<PowerplaySystem>("PowerplaySystem")({
+  system_name: Schema.String,
+  cycle: Schema.String, // YYYY-MM-DD, start of the cycle the observation belongs to
+  controlling_power: Schema.optionalWith(Schema.String, { nullable: true }),
+  powerplay_state: Schema.optionalWith(Schema.String, { nullable: true }),
+  control_progress: Schema.optionalWith(Schema.Number, { nullable: true }),
+  previous_control_progress: Schema.optionalWith(Schema.Number, { nullable: true }), // Last earlier cycle observed
+  reinforcement: Schema.optionalWith(Schema.Number, { nullable: true }),
+  undermining: Schema.optionalWith(Schema.Number, { nullable: true }),
+  conflict_progress: Schema.optionalWith(Schema.Number, { nullable: true }), // This power's progress in a contested system
+  observed_at: Schema.String,
+}) {}
+
+export class PowerplayStateTotals extends Schema.Class<PowerplayStateTotals>("PowerplayStateTotals")({
+  stronghold: Schema.Number,
+  fortified: Schema.Number,
+  exploited: Schema.Number,
+  contested: Schema.Number,
+}) {}
+
+export class PowerStandingsResponse extends Schema.Class<PowerStandingsResponse>("PowerStandingsResponse")({
+  power: Schema.String,
+  cycle: Schema.String, // Current cycle
+  totals: PowerplayStateTotals,
+  controlled: Schema.Array(PowerplaySystem),
+  contested: Schema.Array(PowerplaySystem),
+  top_reinforced: Schema.Array(PowerplaySystem),
+  top_undermined: Schema.Array(PowerplaySystem),
+  at_risk: Schema.Array(PowerplaySystem),
+}) {}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Layer } from "effect"
+import { createClient } from "@libsql/client"
+import { TursoClient } from "../../database/client.js"
+import { powerplayCycle } from "../../eddn/index.js"
+import { handleGetPowerStandings } from "./handlers.js"
+
+const POWER = "Nakato Kaine"
+const CURRENT = powerplayCycle(new Date())
+const PREVIOUS = powerplayCycle(new Date(Date.now() - 7 * 24 * 3_600_000))
+
+describe("Powerplay API Integration", () => {
+  const ClientLayer = Layer.effect(
+    TursoClient,
+    Effect.gen(function* () {
+      const client = createClient({ url: "file::memory:" })
+
+      yield* Effect.tryPromise(() =>
+        client.executeMultiple(`
+          CREATE TABLE IF NOT EXISTS eddn_powerplay_history (
+            id TEXT PRIMARY KEY,
+            system_name TEXT NOT NULL,
+            cycle TEXT NOT NULL,
+            controlling_power TEXT,
+            powers TEXT,
+            powerplay_state TEXT,
+            control_progress REAL,
+            reinforcement INTEGER,
+            undermining INTEGER,
+            conflict_progress TEXT,
+            observed_at TEXT NOT NULL,
+            UNIQUE (system_name, cycle)
+          );
+
+          INSERT INTO eddn_powerplay_history (id, system_name, cycle, controlling_power, powers, powerplay_state,
+                                              control_progress, reinforcement, undermining, conflict_progress, observed_at)
+          VALUES ('h1', 'Alpha Centauri', '${PREVIOUS}', '${POWER}', '["${POWER}"]', 'Fortified', 0.6, 500, 100, NULL, '${PREVIOUS}T12:00:00.000Z'),
+                 ('h2', 'Alpha Centauri', '${CURRENT}', '${POWER}', '["${POWER}","Edmund Mahon"]', 'Fortified', 0.1, 800, 5000, NULL, '${CURRENT}T12:00:00.000Z'),
+                 ('h3', 'Sol', '${CURRENT}', '${POWER}', '["${POWER}"]', 'Stronghold', 0.9, 12000, 300, NULL, '${CURRENT}T12:00:00.000Z'),
+                 ('h4', 'Barnard''s Star', '${CURRENT}', '${POWER}', '["${POWER}"]', 'Exploited', -0.2, 0, 900, NULL, '${CURRENT}T12:00:00.000Z'),
+                 ('h5', 'Wolf 359', '${CURRENT}', NULL, '[]', 'Unoccupied', NULL, NULL, NULL,
+                  '[{"Power":"${POWER}","ConflictProgress":0.4},{"Power":"Edmund Mahon","ConflictProgress":0.7}]', '${CURRENT}T12:00:00.000Z'),
+                 ('h6', 'Ross 128', '${PREVIOUS}', 'Edmund Mahon', '["Edmund Mahon","${POWER}"]', 'Fortified', 0.5, 200, 700, NULL, '${PREVIOUS}T12:00:00.000Z');
+        `)
+      )
+
+      return client
+    })
+  )
+
+  const runTest = (effect: Effect.Effect<any, any, any>): Promise<any> =>
+    Effect.runPromise(Effect.provide(effect as any, ClientLayer))
+
+  /**
+   * Test 1: Controlled systems by state, contested systems (rival-controlled ones left out)
+   * Simulates GET /api/powerplay/nakato%20kaine
+   */
+  it("should summarise the systems of a power by state", async () => {
+    const response = await runTest(handleGetPowerStandings("nakato kaine"))
+
+    expect(response.power).toBe(POWER)
+    expect(response.cycle).toBe(CURRENT)
+    expect(response.totals).toEqual({ stronghold: 1, fortified: 1, exploited: 1, contested: 1 })
+    expect(response.controlled.map((s: any) => s.system_name)).toEqual(["Alpha Centauri", "Barnard's Star", "Sol"])
+    expect(response.contested.map((s: any) => s.system_name)).toEqual(["Wolf 359"])
+
+    const alpha = response.controlled[0]
+    expect(alpha).toMatchObject({ cycle: CURRENT, control_progress: 0.1, previous_control_progress: 0.6, undermining: 5000 })
+    expect(response.contested[0].conflict_progress).toBe(0.4)
+  })
+
+  /**
+   * Test 2: Movers only count the current cycle; at-risk systems worst first
+   */
+  it("should list the biggest movers and systems at risk", async () => {
+    const response = await runTest(handleGetPowerStandings(POWER))
+
+    expect(response.top_reinforced.map((s: any) => s.system_name)).toEqual(["Sol", "Alpha Centauri"])
+    expect(response.top_undermined.map((s: any) => s.system_name)).toEqual(["Alpha Centauri", "Barnard's Star", "Sol"])
+    expect(response.at_risk.map((s: any) => s.system_name)).toEqual(["Barnard's Star", "Alpha Centauri"])
+  })
+
+  /**
+   * Test 3: Power never reported by EDDN
+   */
+  it("should fail with NotFoundError for an unknown power", async () => {
+    const result = await runTest(Effect.either(handleGetPowerStandings("Nobody")))
+
+    expect(result._tag).toBe("Left")
+    expect(result.left._tag).toBe("NotFoundError")
+  })
+})
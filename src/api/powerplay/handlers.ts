@@ -0,0 +1,92 @@
+import { Effect } from "effect"
+import { HttpApiBuilder } from "@effect/platform"
+import { Api } from "../index.js"
+import { TursoClient } from "../../database/client.js"
+import { DatabaseError, NotFoundError } from "../../domain/errors.js"
+import { loadPowerSystems, powerplayCycle, type PowerplaySystemState } from "../../eddn/index.js"
+import { PowerplayStateTotals, PowerplaySystem, PowerStandingsResponse } from "./dtos.js"
+
+const TOP_MOVERS = 10
+// Control progress below this while being out-undermined puts a system at risk
+const AT_RISK_CONTROL_PROGRESS = 0.25
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+
+const mapSystem = (power: string, state: PowerplaySystemState): PowerplaySystem =>
+  new PowerplaySystem({
+    system_name: state.systemName,
+    cycle: state.cycle,
+    controlling_power: state.controllingPower ?? undefined,
+    powerplay_state: state.state ?? undefined,
+    control_progress: state.controlProgress ?? undefined,
+    previous_control_progress: state.previousControlProgress ?? undefined,
+    reinforcement: state.reinforcement ?? undefined,
+    undermining: state.undermining ?? undefined,
+    conflict_progress: state.conflictProgress.find((c) => sameName(c.power, power))?.progress,
+    observed_at: state.observedAt,
+  })
+
+const isAtRisk = (state: PowerplaySystemState): boolean => {
+  if (state.controlProgress === null) return false
+  if (state.controlProgress < 0) return true
+  return state.controlProgress < AT_RISK_CONTROL_PROGRESS && (state.undermining ?? 0) > (state.reinforcement ?? 0)
+}
+
+export const handleGetPowerStandings = (power: string) =>
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+
+    const systems = yield* Effect.tryPromise({
+      try: () => loadPowerSystems(client, power),
+      catch: (error) => new DatabaseError({ operation: "loadPowerSystems.power", error }),
+    })
+
+    if (systems.length === 0) {
+      return yield* Effect.fail(new NotFoundError({ resource: "power", id: power }))
+    }
+
+    const cycle = powerplayCycle(new Date())
+    const controlled = systems.filter((s) => s.controllingPower !== null && sameName(s.controllingPower, power))
+    // Unoccupied systems this power is fighting over; rival-controlled ones are left out
+    const contested = systems.filter(
+      (s) => s.controllingPower === null && s.conflictProgress.some((c) => sameName(c.power, power))
+    )
+    const current = systems.filter((s) => s.cycle === cycle)
+    const countState = (state: string) => controlled.filter((s) => s.state === state).length
+
+    const topBy = (value: (s: PowerplaySystemState) => number | null) =>
+      current
+        .filter((s) => (value(s) ?? 0) > 0)
+        .sort((a, b) => (value(b) ?? 0) - (value(a) ?? 0))
+        .slice(0, TOP_MOVERS)
+
+    return new PowerStandingsResponse({
+      power: controlled[0]?.controllingPower ?? power,
+      cycle,
+      totals: new PowerplayStateTotals({
+        stronghold: countState("Stronghold"),
+        fortified: countState("Fortified"),
+        exploited: countState("Exploited"),
+        contested: contested.length,
+      }),
+      controlled: controlled.map((s) => mapSystem(power, s)),
+      contested: contested.map((s) => mapSystem(power, s)),
+      top_reinforced: topBy((s) => s.reinforcement).map((s) => mapSystem(power, s)),
+      top_undermined: topBy((s) => s.undermining).map((s) => mapSystem(power, s)),
+      at_risk: controlled
+        .filter(isAtRisk)
+        .sort((a, b) => (a.controlProgress ?? 0) - (b.controlProgress ?? 0))
+        .map((s) => mapSystem(power, s)),
+    })
+  })
+
+export const getPowerStandingsHandler = HttpApiBuilder.handler(
+  Api,
+  "powerplay",
+  "getPowerStandings",
+  ({ path }) => handleGetPowerStandings(path.power)
+)
+
+export const PowerplayApiLive = HttpApiBuilder.group(Api, "powerplay", (handlers) =>
+  handlers.handle("getPowerStandings", getPowerStandingsHandler)
+)
@@ -116,6 +116,12 @@ describe("Protected Factions API Integration", () => {
             security TEXT,
             government TEXT,
             allegiance TEXT,
+            economy TEXT,
+            second_economy TEXT,
+            system_address INTEGER,
+            x REAL,
+            y REAL,
+            z REAL,
             updated_at TEXT NOT NULL,
             FOREIGN KEY (eddn_message_id) REFERENCES eddn_message(id) ON DELETE SET NULL
           );
@@ -400,6 +406,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("Medium"),
             government: Option.some("Corporate"),
             allegiance: Option.some("Independent"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T12:00:00Z"),
           }),
           new EddnSystemInfo({
@@ -412,6 +424,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("High"),
             government: Option.some("Patronage"),
             allegiance: Option.some("Empire"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T12:00:00Z"),
           }),
           new EddnSystemInfo({
@@ -424,6 +442,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("High"),
             government: Option.some("Democracy"),
             allegiance: Option.some("Federation"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T12:00:00Z"),
           }),
         ]
@@ -726,6 +750,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("Low"),
             government: Option.some("Anarchy"),
             allegiance: Option.some("Independent"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-15T12:00:00Z"),
           }),
           new EddnSystemInfo({
@@ -738,6 +768,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("Low"),
             government: Option.some("Anarchy"),
             allegiance: Option.some("Independent"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T12:00:00Z"),
           }),
           new EddnSystemInfo({
@@ -750,6 +786,12 @@ describe("Protected Factions API Integration", () => {
             security: Option.some("High"),
             government: Option.some("Democracy"),
             allegiance: Option.some("Independent"),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T12:00:00Z"),
           }),
         ]
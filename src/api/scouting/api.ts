@@ -0,0 +1,24 @@
+import { HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { ScoutingResponse } from "./dtos.js"
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
+import { DatabaseError } from "../../domain/errors.js"
+
+export const ScoutingApi = HttpApiGroup.make("scouting")
+  .add(
+    HttpApiEndpoint.get("getScoutingQueue", "/")
+      .addSuccess(ScoutingResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Scouting Queue")
+      .annotate(
+        OpenApi.Description,
+        `Systems where a tracked faction is present whose latest EDDN snapshot predates the current tick,
+so their influence numbers are stale. Jumping through a system refreshes it.
+
+Ranked by importance: conflicts involving a tracked faction first, then active objectives in the
+system and tracked factions within 5% influence of a neighbour; ties go to the oldest data. Empty
+until a tick has been recorded.`
+      )
+  )
+  .prefix("/api/scouting")
@@ -0,0 +1,19 @@
+import { Schema } from "effect"
+
+// A system whose EDDN snapshot predates the current tick
+export class ScoutingSystem extends Schema.Class<ScoutingSystem>("ScoutingSystem")({
+  system_name: Schema.String,
+  factions: Schema.Array(Schema.String), // Tracked factions present
+  last_updated: Schema.optionalWith(Schema.String, { nullable: true }), // ISO 8601, missing when never seen
+  influence_margin: Schema.optionalWith(Schema.Number, { nullable: true }), // 0-1 fraction
+  conflicts: Schema.Number,
+  objectives: Schema.Number,
+  reasons: Schema.Array(Schema.Literal("conflict", "low_margin", "objective")),
+  score: Schema.Number,
+}) {}
+
+export class ScoutingResponse extends Schema.Class<ScoutingResponse>("ScoutingResponse")({
+  tick: Schema.optionalWith(Schema.String, { nullable: true }), // Tick time the data is compared against
+  systems: Schema.Array(ScoutingSystem),
+  count: Schema.Number,
+}) {}
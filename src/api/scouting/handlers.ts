@@ -0,0 +1,50 @@
+import { Effect } from "effect"
+import { HttpApiBuilder } from "@effect/platform"
+import { Api } from "../index.js"
+import { TursoClient } from "../../database/client.js"
+import { DatabaseError } from "../../domain/errors.js"
+import { AppConfig } from "../../lib/config.js"
+import { loadCurrentTickTime, loadScoutingQueue } from "../../services/scouting.js"
+import { loadTrackedFactions } from "../../services/tracked-factions.js"
+import { ScoutingResponse, ScoutingSystem } from "./dtos.js"
+
+export const handleGetScoutingQueue = Effect.gen(function* () {
+  const client = yield* TursoClient
+  const config = yield* AppConfig
+
+  const { tick, queue } = yield* Effect.tryPromise({
+    try: async () => {
+      const tick = await loadCurrentTickTime(client)
+      if (tick === null) return { tick, queue: [] }
+      const tracked = await loadTrackedFactions(client, config.faction.name)
+      return { tick, queue: await loadScoutingQueue(client, tracked.names, tick) }
+    },
+    catch: (error) => new DatabaseError({ operation: "loadScoutingQueue", error }),
+  })
+
+  return new ScoutingResponse({
+    tick: tick ?? undefined,
+    systems: queue.map((entry) => new ScoutingSystem({
+      system_name: entry.systemName,
+      factions: entry.factions,
+      last_updated: entry.lastUpdated ?? undefined,
+      influence_margin: entry.influenceMargin ?? undefined,
+      conflicts: entry.conflicts,
+      objectives: entry.objectives,
+      reasons: entry.reasons,
+      score: entry.score,
+    })),
+    count: queue.length,
+  })
+})
+
+export const getScoutingQueueHandler = HttpApiBuilder.handler(
+  Api,
+  "scouting",
+  "getScoutingQueue",
+  () => handleGetScoutingQueue
+)
+
+export const ScoutingApiLive = HttpApiBuilder.group(Api, "scouting", (handlers) =>
+  handlers.handle("getScoutingQueue", getScoutingQueueHandler)
+)
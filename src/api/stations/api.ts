@@ -0,0 +1,26 @@
+import { HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { Schema } from "effect"
+import { SystemStationsResponse } from "./dtos.js"
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
+import { DatabaseError, NotFoundError } from "../../domain/errors.js"
+
+export const StationsApi = HttpApiGroup.make("stations")
+  .add(
+    HttpApiEndpoint.get("getSystemStations", "/:systemName/stations")
+      .addSuccess(SystemStationsResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(NotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(Schema.Struct({ systemName: Schema.String }))
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get System Stations")
+      .annotate(
+        OpenApi.Description,
+        `Stations, outposts, planetary ports and settlements in a system, from the latest EDDN Docked event
+for each: type, owning faction and its state, government, allegiance, economies, services, landing pads and
+distance from the arrival star. Fleet carriers are listed in the system they were last docked at.
+
+Stations nobody has docked at since ingestion started are missing. Returns 404 when EDDN has never seen the system.`
+      )
+  )
+  .prefix("/api/system")
@@ -0,0 +1,36 @@
+import { Schema } from "effect"
+
+// Share of a station's economy
+export class StationEconomy extends Schema.Class<StationEconomy>("StationEconomy")({
+  name: Schema.String,
+  proportion: Schema.Number,
+}) {}
+
+export class LandingPads extends Schema.Class<LandingPads>("LandingPads")({
+  small: Schema.Number,
+  medium: Schema.Number,
+  large: Schema.Number,
+}) {}
+
+// Station (or settlement / fleet carrier) as last seen in an EDDN Docked event
+export class SystemStation extends Schema.Class<SystemStation>("SystemStation")({
+  market_id: Schema.Number,
+  station_name: Schema.String,
+  station_type: Schema.optionalWith(Schema.String, { nullable: true }),
+  controlling_faction: Schema.optionalWith(Schema.String, { nullable: true }),
+  faction_state: Schema.optionalWith(Schema.String, { nullable: true }),
+  government: Schema.optionalWith(Schema.String, { nullable: true }),
+  allegiance: Schema.optionalWith(Schema.String, { nullable: true }),
+  economy: Schema.optionalWith(Schema.String, { nullable: true }),
+  economies: Schema.Array(StationEconomy),
+  services: Schema.Array(Schema.String),
+  landing_pads: Schema.optionalWith(LandingPads, { nullable: true }),
+  dist_from_star_ls: Schema.optionalWith(Schema.Number, { nullable: true }),
+  timestamp: Schema.String, // When the station was observed (ISO 8601)
+}) {}
+
+export class SystemStationsResponse extends Schema.Class<SystemStationsResponse>("SystemStationsResponse")({
+  system_name: Schema.String,
+  stations: Schema.Array(SystemStation),
+  count: Schema.Number,
+}) {}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Layer } from "effect"
+import { createClient } from "@libsql/client"
+import { TursoClient } from "../../database/client.js"
+import { EddnRepositoryLive } from "../../database/repositories/EddnRepository.js"
+import { handleGetSystemStations } from "./handlers.js"
+
+describe("Stations API Integration", () => {
+  const ClientLayer = Layer.effect(
+    TursoClient,
+    Effect.gen(function* () {
+      const client = createClient({ url: "file::memory:" })
+
+      yield* Effect.tryPromise(() =>
+        client.executeMultiple(`
+          CREATE TABLE IF NOT EXISTS eddn_system_info (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL,
+            controlling_faction TEXT,
+            controlling_power TEXT,
+            population INTEGER,
+            security TEXT,
+            government TEXT,
+            allegiance TEXT,
+            economy TEXT,
+            second_economy TEXT,
+            system_address INTEGER,
+            x REAL,
+            y REAL,
+            z REAL,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_station (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            market_id INTEGER NOT NULL UNIQUE,
+            system_name TEXT NOT NULL,
+            system_address INTEGER,
+            station_name TEXT NOT NULL,
+            station_type TEXT,
+            controlling_faction TEXT,
+            faction_state TEXT,
+            government TEXT,
+            allegiance TEXT,
+            economy TEXT,
+            economies TEXT,
+            services TEXT,
+            landing_pads_small INTEGER,
+            landing_pads_medium INTEGER,
+            landing_pads_large INTEGER,
+            dist_from_star_ls REAL,
+            updated_at TEXT NOT NULL
+          );
+
+          INSERT INTO eddn_system_info (id, system_name, controlling_faction, updated_at)
+          VALUES ('s1', 'Alpha Centauri', 'Sinistra Collective', '2026-02-26T15:00:00.000Z'),
+                 ('s2', 'Barnard''s Star', 'Rival Corp', '2026-02-26T15:00:00.000Z');
+
+          INSERT INTO eddn_station (id, market_id, system_name, station_name, station_type, controlling_faction, faction_state,
+                                    economy, economies, services, landing_pads_small, landing_pads_medium, landing_pads_large,
+                                    dist_from_star_ls, updated_at)
+          VALUES ('st1', 128000000, 'Alpha Centauri', 'Hutton Orbital', 'Outpost', 'Sinistra Collective', 'War',
+                  '$economy_Industrial;', '[{"Name":"$economy_Industrial;","Proportion":0.8},{"Name":"$economy_Extraction;","Proportion":0.2}]',
+                  '["dock","outfitting"]', 2, 4, 0, 6784.4, '2026-02-26T15:21:00.000Z'),
+                 ('st2', 3709999872, 'Alpha Centauri', 'X9Z-B4K', 'FleetCarrier', 'FleetCarrier', NULL,
+                  '$economy_Carrier;', NULL, NULL, NULL, NULL, NULL, NULL, '2026-02-26T15:40:00.000Z');
+        `)
+      )
+
+      return client
+    })
+  )
+
+  const FullLayer = Layer.merge(EddnRepositoryLive.pipe(Layer.provide(ClientLayer)), ClientLayer)
+
+  const runTest = (effect: Effect.Effect<any, any, any>): Promise<any> =>
+    Effect.runPromise(Effect.provide(effect as any, FullLayer))
+
+  /**
+   * Test 1: Stations with owner, economies, services and pads
+   * Simulates GET /api/system/alpha%20centauri/stations
+   */
+  it("should list the stations in a system", async () => {
+    const response = await runTest(handleGetSystemStations("alpha centauri"))
+
+    expect(response.system_name).toBe("Alpha Centauri")
+    expect(response.count).toBe(2)
+    expect(response.stations.map((s: any) => s.station_name)).toEqual(["Hutton Orbital", "X9Z-B4K"])
+
+    const hutton = response.stations[0]
+    expect(hutton.market_id).toBe(128000000)
+    expect(hutton.controlling_faction).toBe("Sinistra Collective")
+    expect(hutton.faction_state).toBe("War")
+    expect(hutton.economies).toEqual([
+      { name: "$economy_Industrial;", proportion: 0.8 },
+      { name: "$economy_Extraction;", proportion: 0.2 },
+    ])
+    expect(hutton.services).toEqual(["dock", "outfitting"])
+    expect(hutton.landing_pads).toEqual({ small: 2, medium: 4, large: 0 })
+    expect(hutton.timestamp).toBe("2026-02-26T15:21:00.000Z")
+
+    // Fields missing from the Docked event stay empty
+    const carrier = response.stations[1]
+    expect(carrier.economies).toEqual([])
+    expect(carrier.services).toEqual([])
+    expect(carrier.landing_pads).toBeUndefined()
+  })
+
+  /**
+   * Test 2: Known system nobody has docked in - empty list, not 404
+   */
+  it("should return an empty list for a known system without stations", async () => {
+    const response = await runTest(handleGetSystemStations("Barnard's Star"))
+
+    expect(response.count).toBe(0)
+    expect(response.stations).toEqual([])
+  })
+
+  /**
+   * Test 3: System never seen by EDDN
+   */
+  it("should fail with NotFoundError for an unknown system", async () => {
+    const result = await runTest(Effect.either(handleGetSystemStations("Nowhere")))
+
+    expect(result._tag).toBe("Left")
+    expect(result.left._tag).toBe("NotFoundError")
+  })
+})
@@ -0,0 +1,71 @@
+import { Effect, Option } from "effect"
+import { HttpApiBuilder } from "@effect/platform"
+import { Api } from "../index.js"
+import { EddnRepository } from "../../domain/repositories.js"
+import { NotFoundError } from "../../domain/errors.js"
+import { LandingPads, StationEconomy, SystemStation, SystemStationsResponse } from "./dtos.js"
+import type * as DomainModels from "../../domain/models.js"
+
+// Economies are stored as the journal's [{ Name, Proportion }]
+const mapEconomies = (json: Option.Option<unknown>): StationEconomy[] => {
+  const value = Option.getOrNull(json)
+  if (!Array.isArray(value)) return []
+  return value.map((e) => new StationEconomy({ name: String(e.Name), proportion: Number(e.Proportion) }))
+}
+
+const mapServices = (json: Option.Option<unknown>): string[] => {
+  const value = Option.getOrNull(json)
+  return Array.isArray(value) ? value.map(String) : []
+}
+
+const mapStation = (domain: DomainModels.EddnStation): SystemStation => {
+  const pads = Option.all([domain.landingPadsSmall, domain.landingPadsMedium, domain.landingPadsLarge])
+
+  return new SystemStation({
+    market_id: domain.marketId,
+    station_name: domain.stationName,
+    station_type: Option.getOrUndefined(domain.stationType),
+    controlling_faction: Option.getOrUndefined(domain.controllingFaction),
+    faction_state: Option.getOrUndefined(domain.factionState),
+    government: Option.getOrUndefined(domain.government),
+    allegiance: Option.getOrUndefined(domain.allegiance),
+    economy: Option.getOrUndefined(domain.economy),
+    economies: mapEconomies(domain.economies),
+    services: mapServices(domain.services),
+    landing_pads: Option.getOrUndefined(
+      Option.map(pads, ([small, medium, large]) => new LandingPads({ small, medium, large }))
+    ),
+    dist_from_star_ls: Option.getOrUndefined(domain.distFromStarLs),
+    timestamp: domain.updatedAt.toISOString(),
+  })
+}
+
+export const handleGetSystemStations = (systemName: string) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+
+    const stations = yield* eddnRepo.getStationsForSystem(systemName)
+    if (stations.length === 0) {
+      const systemInfo = yield* eddnRepo.getSystemInfo(systemName)
+      if (Option.isNone(systemInfo)) {
+        return yield* Effect.fail(new NotFoundError({ resource: "system", id: systemName }))
+      }
+    }
+
+    return new SystemStationsResponse({
+      system_name: stations[0]?.systemName ?? systemName,
+      stations: stations.map(mapStation),
+      count: stations.length,
+    })
+  })
+
+export const getSystemStationsHandler = HttpApiBuilder.handler(
+  Api,
+  "stations",
+  "getSystemStations",
+  ({ path }) => handleGetSystemStations(path.systemName)
+)
+
+export const StationsApiLive = HttpApiBuilder.group(Api, "stations", (handlers) =>
+  handlers.handle("getSystemStations", getSystemStationsHandler)
+)
@@ -74,7 +74,7 @@ const QUERIES: Record<SummaryKey, string> = {
     JOIN mission_completed_event mce ON mce.id = mci.mission_id
     JOIN event e ON e.id = mce.event_id
     WHERE e.cmdr IS NOT NULL
-      AND mci.faction_name LIKE ?
+      AND (mci.faction_name LIKE ? OR mci.faction_name IN (SELECT name FROM tracked_faction))
       AND {date_filter}
     GROUP BY e.cmdr, mci.faction_name
     ORDER BY influence DESC, e.cmdr
@@ -288,7 +288,7 @@ export const getLeaderboard = HttpApiBuilder.handler(Api, "summary", "getLeaderb
       ? [urlParams.system_name]
       : [];
 
-    // Faction filter for the influence correlated subquery
+    // Faction filter for the influence correlated subquery (tracked_faction rows are matched in SQL)
     const factionLikePattern = `%${config.faction.name}%`;
 
     // Args for a regular correlated subquery (date + optional system)
@@ -369,7 +369,7 @@ export const getLeaderboard = HttpApiBuilder.handler(Api, "summary", "getLeaderb
                JOIN mission_completed_event mce ON mce.id = mci.mission_id
                JOIN event ex ON ex.id = mce.event_id
                WHERE ex.cmdr = e.cmdr
-                 AND mci.faction_name LIKE ?
+                 AND (mci.faction_name LIKE ? OR mci.faction_name IN (SELECT name FROM tracked_faction))
                  AND ${dateParamSub.sql}${systemSqlSub}
              ) AS influence_eic,
              (
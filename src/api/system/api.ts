@@ -5,9 +5,12 @@ import {
   SystemDetailResponse,
   SystemListResponse,
   SystemSearchErrorResponse,
+  SystemBulkRequest,
+  SystemBulkResponse,
+  MAX_BULK_SYSTEMS,
 } from "./dtos.js"
 import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.js"
-import { DatabaseError } from "../../domain/errors.js"
+import { DatabaseError, FilterExpressionError } from "../../domain/errors.js"
 
 // Union type for response (can be single system, list, or error)
 const SystemSummaryResponse = Schema.Union(SystemDetailResponse, SystemListResponse, SystemSearchErrorResponse)
@@ -16,6 +19,7 @@ export const SystemApi = HttpApiGroup.make("system")
   .add(
     HttpApiEndpoint.get("getSystemSummary", "/:systemName")
       .addSuccess(SystemSummaryResponse)
+      .addError(FilterExpressionError, { status: 400 })
       .addError(ApiKeyError, { status: 401 })
       .addError(DatabaseError, { status: 500 })
       .setPath(Schema.Struct({ systemName: Schema.String })) // Path params cannot be nullable
@@ -35,19 +39,48 @@ Supports the following query parameters:
 - state: All systems with a faction in this state
 - government: All systems with a faction of this government type
 - state_government: Format "state:government" - systems with factions of that government in that state
+- economy: All systems with this primary or secondary economy (e.g. Agriculture, High Tech)
+- happiness: All systems with a faction at this happiness level (Elated, Happy, Discontented, Unhappy, Despondent)
 - recovering_state: All systems with a faction in this recovering state
 - pending_state: All systems with a faction in this pending state
 - has_conflict: "true"/"1"/"yes" - all systems with at least one conflict
 - population: Exact, range (min-max), or comparison (<val, >val)
 - powerplay_state: All systems with this powerplay state
 - cf_in_conflict: "true"/"1"/"yes" - systems controlled by controlling_faction with a conflict (requires controlling_faction)
+- near: Reference system name - all systems within radius light years of it (requires its coordinates from EDDN)
+- radius: Search radius in light years for near (default 20)
+- thargoid_state: All systems in this Thargoid war state ("Thargoid_Controlled" or just "Controlled")
+- has_thargoid_war: "true"/"1"/"yes" - all systems with a Thargoid war state
+- q: Filter expression combining conditions with AND, OR, NOT and parentheses, e.g.
+  state = Boom AND controlling_faction = "Boom Corp" AND NOT conflict
+  Fields: influence (of the faction filter, else the controlling faction), population and updated_at
+  (= != < <= > >=); state, pending_state, recovering_state, faction, controlling_faction, government,
+  allegiance, economy, happiness, power, controlling_power, powerplay_state, thargoid_state and system_name (= !=).
+  Flags: conflict, cf_in_conflict, thargoid_war. Quote values with spaces. Combined with the other
+  filters using AND; a malformed expression returns 400 FilterExpressionError with the offending position.
+- sort: "name" (default), "influence" (of the faction filter, else the controlling faction), "population" or "updated_at"
+- order: "asc" or "desc" (default asc for name, desc otherwise)
+- limit: Systems per page (default 100, max 400)
+- cursor: next_cursor from the previous page, with the same filters, sort and order
+- fields: Comma-separated sections to include per system: factions, conflicts, powerplays, thargoid_war (default all; system_info is always included)
 
-Returns up to 400 systems. Use filters to narrow results.`
+Each system_info carries data_age (seconds since the data was observed in game) and tick_relation
+(post_tick / pre_tick relative to the latest BGS tick, unknown before the first tick is recorded),
+plus economy and second_economy. Factions carry happiness and my_reputation (our reputation with the
+faction, -100 to 100, only known from our commanders' journals since EDDN strips it).
+
+Systems in a Thargoid war carry thargoid_war: state, progress, remaining ports and time from EDDN,
+plus our_contribution (kills, search and rescue, reactivations and AX massacre kills reported via
+PUT /activities, all time) when our commanders have reported activity there.
+
+Filtered results are paginated: total is the number of matching systems, count the number on this page,
+and next_cursor is present while more pages follow.`
       )
   )
   .add(
     HttpApiEndpoint.get("getSystemSummaryNoParam", "/")
       .addSuccess(SystemSummaryResponse)
+      .addError(FilterExpressionError, { status: 400 })
       .addError(ApiKeyError, { status: 401 })
       .addError(DatabaseError, { status: 500 })
       .setUrlParams(SystemSummaryQuery)
@@ -56,3 +89,24 @@ Returns up to 400 systems. Use filters to narrow results.`
       .annotate(OpenApi.Description, "Search systems using query parameters. Same as getSystemSummary but without path parameter.")
   )
   .prefix("/api/system-summary")
+
+// Separate group: the summary group above lives under /api/system-summary
+export const SystemBulkApi = HttpApiGroup.make("systemBulk")
+  .add(
+    HttpApiEndpoint.post("getSystemsBulk", "/bulk")
+      .addSuccess(SystemBulkResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setPayload(SystemBulkRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Bulk System Lookup")
+      .annotate(
+        OpenApi.Description,
+        `Full system summaries (system_info, conflicts, factions, powerplays, thargoid_war) for up to ${MAX_BULK_SYSTEMS}
+systems in one request, e.g. to render an operations sheet. Body: { "system_names": ["Sol", "Achenar"] }.
+
+Names are matched case-insensitively and duplicates are dropped; systems are returned in request order and names
+EDDN has never seen are listed in unknown. Data is loaded with one batch of queries regardless of the number of systems.`
+      )
+  )
+  .prefix("/api/system")
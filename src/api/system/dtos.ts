@@ -10,14 +10,30 @@ export class SystemSummaryQuery extends Schema.Class<SystemSummaryQuery>("System
   state: Schema.optional(Schema.String),
   state_government: Schema.optional(Schema.String), // Format: "state:government"
   government: Schema.optional(Schema.String),
+  economy: Schema.optional(Schema.String), // Primary or secondary, e.g. "Agriculture"
+  happiness: Schema.optional(Schema.String), // Any faction's, e.g. "Discontented"
   recovering_state: Schema.optional(Schema.String),
   pending_state: Schema.optional(Schema.String),
   has_conflict: Schema.optional(Schema.String), // "true", "1", "yes"
   population: Schema.optional(Schema.String), // Exact, range (min-max), or comparison (<val, >val)
   powerplay_state: Schema.optional(Schema.String),
   cf_in_conflict: Schema.optional(Schema.String), // "true", "1", "yes"
+  near: Schema.optional(Schema.String), // Reference system name for radius search
+  radius: Schema.optional(Schema.String), // Light years around "near" (default 20)
+  thargoid_state: Schema.optional(Schema.String), // "Thargoid_Controlled" or "Controlled"
+  has_thargoid_war: Schema.optional(Schema.String), // "true", "1", "yes"
+  q: Schema.optional(Schema.String), // Filter expression, e.g. state = Boom AND NOT conflict
+  sort: Schema.optional(Schema.String), // "influence", "population", "updated_at" or "name" (default)
+  order: Schema.optional(Schema.String), // "asc" or "desc" (default: asc for name, desc otherwise)
+  cursor: Schema.optional(Schema.String), // next_cursor from the previous page
+  limit: Schema.optional(Schema.String), // Page size (default 100, max 400)
+  fields: Schema.optional(Schema.String), // Comma-separated: factions, conflicts, powerplays, thargoid_war (default all)
 }) {}
 
+// Whether data was observed after the latest BGS tick or before it (stale until rescanned)
+export const TickRelation = Schema.Literal("post_tick", "pre_tick", "unknown")
+export type TickRelation = typeof TickRelation.Type
+
 // System info from EDDN
 export class EddnSystemInfo extends Schema.Class<EddnSystemInfo>("EddnSystemInfo")({
   id: Schema.String,
@@ -29,9 +45,14 @@ export class EddnSystemInfo extends Schema.Class<EddnSystemInfo>("EddnSystemInfo
   allegiance: Schema.optionalWith(Schema.String, { nullable: true }),
   government: Schema.optionalWith(Schema.String, { nullable: true }),
   security: Schema.optionalWith(Schema.String, { nullable: true }),
+  x: Schema.optionalWith(Schema.Number, { nullable: true }),
+  y: Schema.optionalWith(Schema.Number, { nullable: true }),
+  z: Schema.optionalWith(Schema.Number, { nullable: true }),
   economy: Schema.optionalWith(Schema.String, { nullable: true }),
   second_economy: Schema.optionalWith(Schema.String, { nullable: true }),
   timestamp: Schema.optionalWith(Schema.String, { nullable: true }),
+  data_age: Schema.optionalWith(Schema.Number, { nullable: true }), // Seconds since the data was observed
+  tick_relation: Schema.optionalWith(TickRelation, { nullable: true }),
 }) {}
 
 // Faction from EDDN
@@ -44,6 +65,7 @@ export class EddnFaction extends Schema.Class<EddnFaction>("EddnFaction")({
   influence: Schema.optionalWith(Schema.Number, { nullable: true }),
   state: Schema.optionalWith(Schema.String, { nullable: true }),
   happiness: Schema.optionalWith(Schema.String, { nullable: true }),
+  my_reputation: Schema.optionalWith(Schema.Number, { nullable: true }), // Only from our commanders' journals
   active_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
   pending_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
   recovering_states: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
@@ -71,24 +93,106 @@ export class EddnPowerplay extends Schema.Class<EddnPowerplay>("EddnPowerplay")(
   system_name: Schema.String,
   power: Schema.optionalWith(Schema.String, { nullable: true }), // JSON array as string
   powerplay_state: Schema.optionalWith(Schema.String, { nullable: true }),
+  control_progress: Schema.optionalWith(Schema.Number, { nullable: true }),
+  reinforcement: Schema.optionalWith(Schema.Number, { nullable: true }),
+  undermining: Schema.optionalWith(Schema.Number, { nullable: true }),
   timestamp: Schema.optionalWith(Schema.String, { nullable: true }),
 }) {}
 
+// Our AX work in a system, from submitted activities (all time)
+export class AxKills extends Schema.Class<AxKills>("AxKills")({
+  cyclops: Schema.Number,
+  basilisk: Schema.Number,
+  medusa: Schema.Number,
+  hydra: Schema.Number,
+  orthrus: Schema.Number,
+  scout: Schema.Number,
+  revenant: Schema.Number,
+  banshee: Schema.Number,
+  scythe_glaive: Schema.Number,
+}) {}
+
+export class AxSearchAndRescue extends Schema.Class<AxSearchAndRescue>("AxSearchAndRescue")({
+  blackboxes: Schema.Number,
+  damagedpods: Schema.Number,
+  occupiedpods: Schema.Number,
+  tissuesamples: Schema.Number,
+  thargoidpods: Schema.Number,
+}) {}
+
+export class AxMassacre extends Schema.Class<AxMassacre>("AxMassacre")({
+  cyclops: Schema.Number,
+  basilisk: Schema.Number,
+  medusa: Schema.Number,
+  hydra: Schema.Number,
+  orthrus: Schema.Number,
+  scout: Schema.Number,
+}) {}
+
+export class AxContribution extends Schema.Class<AxContribution>("AxContribution")({
+  kills: AxKills,
+  kills_total: Schema.Number,
+  sandr: AxSearchAndRescue,
+  massacre: AxMassacre,
+  reactivations: Schema.Number,
+  cmdrs: Schema.Number,
+  last_activity: Schema.optionalWith(Schema.String, { nullable: true }),
+}) {}
+
+// Thargoid war state from EDDN, with our contribution when we have reported activity there
+export class EddnThargoidWar extends Schema.Class<EddnThargoidWar>("EddnThargoidWar")({
+  system_name: Schema.String,
+  current_state: Schema.optionalWith(Schema.String, { nullable: true }),
+  next_state_success: Schema.optionalWith(Schema.String, { nullable: true }),
+  next_state_failure: Schema.optionalWith(Schema.String, { nullable: true }),
+  success_state_reached: Schema.optionalWith(Schema.Boolean, { nullable: true }),
+  war_progress: Schema.optionalWith(Schema.Number, { nullable: true }), // 0-1
+  remaining_ports: Schema.optionalWith(Schema.Number, { nullable: true }),
+  estimated_remaining_time: Schema.optionalWith(Schema.String, { nullable: true }), // e.g. "14 Days"
+  timestamp: Schema.optionalWith(Schema.String, { nullable: true }),
+  our_contribution: Schema.optionalWith(AxContribution, { nullable: true }),
+}) {}
+
 // Single system detail response
 export class SystemDetailResponse extends Schema.Class<SystemDetailResponse>("SystemDetailResponse")({
   system_info: EddnSystemInfo,
   conflicts: Schema.Array(EddnConflict),
   factions: Schema.Array(EddnFaction),
   powerplays: Schema.Array(EddnPowerplay),
+  thargoid_war: Schema.optionalWith(EddnThargoidWar, { nullable: true }),
+}) {}
+
+// System in a search result; sections not requested via fields are omitted
+export class SystemListItem extends Schema.Class<SystemListItem>("SystemListItem")({
+  system_info: EddnSystemInfo,
+  conflicts: Schema.optionalWith(Schema.Array(EddnConflict), { nullable: true }),
+  factions: Schema.optionalWith(Schema.Array(EddnFaction), { nullable: true }),
+  powerplays: Schema.optionalWith(Schema.Array(EddnPowerplay), { nullable: true }),
+  thargoid_war: Schema.optionalWith(EddnThargoidWar, { nullable: true }),
 }) {}
 
-// Multi-system list response (when filters are used)
+// Multi-system list response (when filters are used), one page at a time
 export class SystemListResponse extends Schema.Class<SystemListResponse>("SystemListResponse")({
-  systems: Schema.Array(SystemDetailResponse),
+  systems: Schema.Array(SystemListItem),
+  count: Schema.Number, // Systems on this page
+  total: Schema.Number, // Systems matching the filters
+  next_cursor: Schema.optionalWith(Schema.String, { nullable: true }), // Absent on the last page
+}) {}
+
+// Bulk lookup: several hundred systems in one request
+export const MAX_BULK_SYSTEMS = 500
+
+export class SystemBulkRequest extends Schema.Class<SystemBulkRequest>("SystemBulkRequest")({
+  system_names: Schema.Array(Schema.String).pipe(Schema.maxItems(MAX_BULK_SYSTEMS)), // Matched case-insensitively
+}) {}
+
+export class SystemBulkResponse extends Schema.Class<SystemBulkResponse>("SystemBulkResponse")({
+  systems: Schema.Array(SystemDetailResponse), // In request order, duplicates removed
+  unknown: Schema.Array(Schema.String), // Requested names EDDN has never seen
   count: Schema.Number,
 }) {}
 
-// Error response for too many results
+// Error response for invalid or unmatched searches
 export class SystemSearchErrorResponse extends Schema.Class<SystemSearchErrorResponse>("SystemSearchErrorResponse")({
   error: Schema.String,
   count: Schema.Number,
@@ -2,23 +2,26 @@ import { describe, it, expect } from "bun:test"
 import { Effect, Layer, Option } from "effect"
 import { createClient } from "@libsql/client"
 import { TursoClient } from "../../database/client.js"
-import { EddnRepository } from "../../domain/repositories.js"
+import { EddnRepository, TickRepository } from "../../domain/repositories.js"
 import { EddnRepositoryLive } from "../../database/repositories/EddnRepository.js"
+import { TickRepositoryLive } from "../../database/repositories/TickRepository.js"
 import { AppConfig } from "../../lib/config.js"
 import {
   EddnSystemInfo,
   EddnFaction,
   EddnConflict,
   EddnPowerplay,
+  TickState,
 } from "../../domain/models.js"
 import {
   EddnSystemInfoId,
   EddnFactionId,
   EddnConflictId,
   EddnPowerplayId,
+  TickId,
 } from "../../domain/ids.js"
-import { handleGetSystemSummary } from "./handlers.js"
-import { SystemDetailResponse, SystemListResponse, SystemSearchErrorResponse } from "./dtos.js"
+import { handleGetSystemSummary, handleGetSystemsBulk } from "./handlers.js"
+import { SystemBulkRequest, SystemDetailResponse, SystemListResponse, SystemSearchErrorResponse } from "./dtos.js"
 import { v4 as uuid } from "uuid"
 
 
@@ -99,6 +102,12 @@ describe("System API Integration", () => {
             security TEXT,
             government TEXT,
             allegiance TEXT,
+            economy TEXT,
+            second_economy TEXT,
+            system_address INTEGER,
+            x REAL,
+            y REAL,
+            z REAL,
             updated_at TEXT NOT NULL
           );
 
@@ -113,6 +122,8 @@ describe("System API Integration", () => {
             state TEXT,
             allegiance TEXT,
             government TEXT,
+            happiness TEXT,
+            my_reputation REAL,
             recovering_states TEXT,
             active_states TEXT,
             pending_states TEXT,
@@ -152,6 +163,77 @@ describe("System API Integration", () => {
           );
 
           CREATE INDEX IF NOT EXISTS idx_eddn_powerplay_system_name ON eddn_powerplay(system_name);
+
+          CREATE TABLE IF NOT EXISTS tick_state (
+            id TEXT PRIMARY KEY,
+            tickid TEXT NOT NULL UNIQUE,
+            ticktime TEXT NOT NULL,
+            last_updated TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS eddn_thargoid_war (
+            id TEXT PRIMARY KEY,
+            eddn_message_id TEXT,
+            system_name TEXT NOT NULL UNIQUE,
+            current_state TEXT,
+            next_state_success TEXT,
+            next_state_failure TEXT,
+            success_state_reached INTEGER,
+            war_progress REAL,
+            remaining_ports INTEGER,
+            estimated_remaining_time TEXT,
+            updated_at TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS activity (
+            id TEXT PRIMARY KEY,
+            tickid TEXT NOT NULL,
+            ticktime TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            cmdr TEXT
+          );
+
+          CREATE TABLE IF NOT EXISTS system (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            address INTEGER NOT NULL,
+            activity_id TEXT NOT NULL,
+            twreactivate INTEGER,
+            twkills_cyclops INTEGER,
+            twkills_basilisk INTEGER,
+            twkills_medusa INTEGER,
+            twkills_hydra INTEGER,
+            twkills_orthrus INTEGER,
+            twkills_scout INTEGER,
+            twkills_revenant INTEGER,
+            twkills_banshee INTEGER,
+            twkills_scythe_glaive INTEGER,
+            twsandr_blackboxes INTEGER,
+            twsandr_damagedpods INTEGER,
+            twsandr_occupiedpods INTEGER,
+            twsandr_tissuesamples INTEGER,
+            twsandr_thargoidpods INTEGER
+          );
+
+          CREATE TABLE IF NOT EXISTS faction (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            state TEXT NOT NULL,
+            system_id TEXT NOT NULL
+          );
+
+          CREATE TABLE IF NOT EXISTS faction_station (
+            id TEXT PRIMARY KEY,
+            faction_id TEXT NOT NULL,
+            name TEXT NOT NULL,
+            twreactivate INTEGER,
+            twmassacre_cyclops_sum INTEGER,
+            twmassacre_basilisk_sum INTEGER,
+            twmassacre_medusa_sum INTEGER,
+            twmassacre_hydra_sum INTEGER,
+            twmassacre_orthrus_sum INTEGER,
+            twmassacre_scout_sum INTEGER
+          );
         `)
       )
 
@@ -161,7 +243,7 @@ describe("System API Integration", () => {
 
   const TestConfigLayer = Layer.succeed(AppConfig, testConfig)
 
-  const TestLayer = EddnRepositoryLive.pipe(
+  const TestLayer = Layer.merge(EddnRepositoryLive, TickRepositoryLive).pipe(
     Layer.provide(ClientLayer),
     Layer.provide(TestConfigLayer)
   )
@@ -193,6 +275,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Democracy"),
           allegiance: Option.some("Federation"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -206,6 +294,8 @@ describe("System API Integration", () => {
           state: Option.some("Boom"),
           allegiance: Option.some("Federation"),
           government: Option.some("Democracy"),
+          happiness: Option.none(),
+          myReputation: Option.none(),
           recoveringStates: Option.none(),
           activeStates: Option.none(),
           pendingStates: Option.none(),
@@ -283,6 +373,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Democracy"),
           allegiance: Option.some("Federation"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -295,6 +391,8 @@ describe("System API Integration", () => {
           state: Option.some("Boom"),
           allegiance: Option.none(),
           government: Option.none(),
+          happiness: Option.none(),
+          myReputation: Option.none(),
           recoveringStates: Option.none(),
           activeStates: Option.none(),
           pendingStates: Option.none(),
@@ -312,6 +410,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Dictatorship"),
           allegiance: Option.some("Empire"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -324,6 +428,8 @@ describe("System API Integration", () => {
           state: Option.some("None"),
           allegiance: Option.none(),
           government: Option.none(),
+          happiness: Option.none(),
+          myReputation: Option.none(),
           recoveringStates: Option.none(),
           activeStates: Option.none(),
           pendingStates: Option.none(),
@@ -362,6 +468,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Democracy"),
           allegiance: Option.some("Federation"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -375,6 +487,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Dictatorship"),
           allegiance: Option.some("Empire"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -430,6 +548,12 @@ describe("System API Integration", () => {
           security: Option.some("Low"),
           government: Option.some("Anarchy"),
           allegiance: Option.some("Independent"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -481,6 +605,12 @@ describe("System API Integration", () => {
           security: Option.some("High"),
           government: Option.some("Patronage"),
           allegiance: Option.some("Empire"),
+          economy: Option.none(),
+          secondEconomy: Option.none(),
+          systemAddress: Option.none(),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
           updatedAt: new Date("2026-02-17T10:00:00Z"),
         }))
 
@@ -530,6 +660,12 @@ describe("System API Integration", () => {
             security: Option.none(),
             government: Option.none(),
             allegiance: Option.none(),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
             updatedAt: new Date("2026-02-17T10:00:00Z"),
           }))
         }
@@ -547,4 +683,495 @@ describe("System API Integration", () => {
       })
     )
   })
+
+  /**
+   * Test 10: Radius search around a reference system
+   * Simulates GET /api/system-summary?near=Sol&radius=10
+   */
+  it("should filter systems within radius of a reference system", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+
+        const systems: Array<[string, number, number, number]> = [
+          ["Sol", 0, 0, 0],
+          ["Alpha Centauri", 3.03125, -0.09375, 3.15625],
+          ["Barnard's Star", -3.03125, 1.375, 4.9375],
+          ["Achenar", 67.5, -119.46875, 24.84375],
+        ]
+        for (const [sysName, x, y, z] of systems) {
+          yield* eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+            id: uuid() as EddnSystemInfoId,
+            eddnMessageId: Option.none(),
+            systemName: sysName,
+            controllingFaction: Option.none(),
+            controllingPower: Option.none(),
+            population: Option.none(),
+            security: Option.none(),
+            government: Option.none(),
+            allegiance: Option.none(),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.some(10477373803),
+            x: Option.some(x),
+            y: Option.some(y),
+            z: Option.some(z),
+            updatedAt: new Date("2026-02-17T10:00:00Z"),
+          }))
+        }
+
+        const result = yield* handleGetSystemSummary(Option.none(), { near: "sol", radius: "10" })
+
+        expect(result instanceof SystemListResponse).toBe(true)
+
+        if (result instanceof SystemListResponse) {
+          const names = result.systems.map((s) => s.system_info.system_name).sort()
+          expect(names).toEqual(["Alpha Centauri", "Barnard's Star", "Sol"])
+          const sol = result.systems.find((s) => s.system_info.system_name === "Sol")
+          expect(sol?.system_info.system_address).toBe(10477373803)
+          expect(sol?.system_info.x).toBe(0)
+        }
+
+        // Default radius is 20 ly, an unknown reference system is reported
+        const defaultRadius = yield* handleGetSystemSummary(Option.none(), { near: "Sol" })
+        expect(defaultRadius instanceof SystemListResponse).toBe(true)
+
+        const unknown = yield* handleGetSystemSummary(Option.none(), { near: "Nowhere" })
+        expect(unknown instanceof SystemSearchErrorResponse).toBe(true)
+
+        const invalid = yield* handleGetSystemSummary(Option.none(), { near: "Sol", radius: "far" })
+        expect(invalid instanceof SystemSearchErrorResponse).toBe(true)
+      })
+    )
+  })
+
+  /**
+   * Test 11: Data freshness relative to the latest tick
+   * Simulates GET /api/system-summary?system_name=a after a tick at 12:00
+   */
+  it("should report data age and whether data predates the latest tick", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+        const tickRepo = yield* TickRepository
+
+        const systemAt = (sysName: string, updatedAt: string) =>
+          eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+            id: uuid() as EddnSystemInfoId,
+            eddnMessageId: Option.none(),
+            systemName: sysName,
+            controllingFaction: Option.none(),
+            controllingPower: Option.none(),
+            population: Option.none(),
+            security: Option.none(),
+            government: Option.none(),
+            allegiance: Option.none(),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
+            updatedAt: new Date(updatedAt),
+          }))
+
+        yield* systemAt("Alpha Centauri", "2026-02-26T11:30:00Z")
+        yield* systemAt("Barnard's Star", "2026-02-26T12:30:00Z")
+
+        // Before any tick is known the relation cannot be determined
+        const beforeTick = yield* handleGetSystemSummary(Option.some("Alpha Centauri"), {})
+        expect(beforeTick instanceof SystemDetailResponse).toBe(true)
+        if (beforeTick instanceof SystemDetailResponse) {
+          expect(beforeTick.system_info.tick_relation).toBe("unknown")
+          expect(beforeTick.system_info.data_age).toBeGreaterThan(0)
+        }
+
+        yield* tickRepo.upsert(new TickState({
+          id: uuid() as TickId,
+          tickid: "zoy-test000000000000000000",
+          ticktime: "2026-02-26T12:00:00.000Z",
+          lastUpdated: new Date("2026-02-26T12:05:00Z"),
+        }))
+
+        const result = yield* handleGetSystemSummary(Option.none(), { system_name: "a" })
+
+        expect(result instanceof SystemListResponse).toBe(true)
+        if (result instanceof SystemListResponse) {
+          const relation = (name: string) =>
+            result.systems.find((s) => s.system_info.system_name === name)?.system_info.tick_relation
+          expect(relation("Alpha Centauri")).toBe("pre_tick")
+          expect(relation("Barnard's Star")).toBe("post_tick")
+        }
+      })
+    )
+  })
+
+  /**
+   * Test 12: Thargoid war filters and our AX contribution
+   * Simulates GET /api/system-summary?has_thargoid_war=true
+   */
+  it("should filter Thargoid war systems and include our AX contribution", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+        const client = yield* TursoClient
+
+        for (const sysName of ["HIP 22460", "Sol"]) {
+          yield* eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+            id: uuid() as EddnSystemInfoId,
+            eddnMessageId: Option.none(),
+            systemName: sysName,
+            controllingFaction: Option.none(),
+            controllingPower: Option.none(),
+            population: Option.none(),
+            security: Option.none(),
+            government: Option.none(),
+            allegiance: Option.none(),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
+            updatedAt: new Date("2026-02-26T15:00:00Z"),
+          }))
+        }
+
+        yield* Effect.promise(() =>
+          client.executeMultiple(`
+            INSERT INTO eddn_thargoid_war (id, system_name, current_state, next_state_success, next_state_failure,
+                                           success_state_reached, war_progress, remaining_ports, estimated_remaining_time, updated_at)
+            VALUES ('w1', 'HIP 22460', 'Thargoid_Controlled', 'Thargoid_Recovery', 'Thargoid_Controlled', 0, 0.37, 2, '14 Days', '2026-02-26T15:00:00.000Z'),
+                   ('w2', 'Sol', '', NULL, NULL, NULL, NULL, NULL, NULL, '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO activity (id, tickid, ticktime, timestamp, cmdr)
+            VALUES ('a1', 'zoy-1', '2026-02-25T12:00:00.000Z', '2026-02-25T18:00:00.000Z', 'CMDR One'),
+                   ('a2', 'zoy-2', '2026-02-26T12:00:00.000Z', '2026-02-26T18:00:00.000Z', 'CMDR Two');
+
+            INSERT INTO system (id, name, address, activity_id, twkills_scout, twkills_cyclops, twsandr_blackboxes, twreactivate)
+            VALUES ('sy1', 'HIP 22460', 1, 'a1', 10, 1, 2, NULL),
+                   ('sy2', 'hip 22460', 1, 'a2', 5, NULL, NULL, 1);
+
+            INSERT INTO faction (id, name, state, system_id) VALUES ('f1', 'Test Faction', 'None', 'sy2');
+            INSERT INTO faction_station (id, faction_id, name, twreactivate, twmassacre_scout_sum)
+            VALUES ('fs1', 'f1', 'Ruin Port', 2, 20);
+          `)
+        )
+
+        const result = yield* handleGetSystemSummary(Option.none(), { has_thargoid_war: "true" })
+
+        expect(result instanceof SystemListResponse).toBe(true)
+        if (result instanceof SystemListResponse) {
+          // Sol's empty state is not a war
+          expect(result.systems.map((s) => s.system_info.system_name)).toEqual(["HIP 22460"])
+
+          const war = result.systems[0]!.thargoid_war!
+          expect(war.current_state).toBe("Thargoid_Controlled")
+          expect(war.success_state_reached).toBe(false)
+          expect(war.war_progress).toBe(0.37)
+          expect(war.remaining_ports).toBe(2)
+          expect(war.our_contribution?.kills.scout).toBe(15)
+          expect(war.our_contribution?.kills_total).toBe(16)
+          expect(war.our_contribution?.sandr.blackboxes).toBe(2)
+          expect(war.our_contribution?.massacre.scout).toBe(20)
+          expect(war.our_contribution?.reactivations).toBe(3)
+          expect(war.our_contribution?.cmdrs).toBe(2)
+          expect(war.our_contribution?.last_activity).toBe("2026-02-26T18:00:00.000Z")
+        }
+
+        // Bare state names match too; the war block is shown without a contribution where we never went
+        const controlled = yield* handleGetSystemSummary(Option.none(), { thargoid_state: "controlled" })
+        expect(controlled instanceof SystemListResponse && controlled.count).toBe(1)
+
+        const sol = yield* handleGetSystemSummary(Option.some("Sol"), {})
+        expect(sol instanceof SystemDetailResponse && sol.thargoid_war?.our_contribution).toBeUndefined()
+      })
+    )
+  })
+
+  /**
+   * Test 13: Paginated, sorted search with field projection
+   * Simulates GET /api/system-summary?state=Boom&sort=influence&limit=2&fields=factions
+   */
+  it("should page through search results in sort order", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+
+        const systems = [
+          { name: "Alpha", influence: 0.4, population: 1000 },
+          { name: "Bravo", influence: 0.7, population: 5000 },
+          { name: "Charlie", influence: 0.4, population: 3000 },
+          { name: "Delta", influence: 0.2, population: 2000 },
+          { name: "Echo", influence: 0.9, population: 4000 },
+        ]
+        for (const sys of systems) {
+          yield* eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+            id: uuid() as EddnSystemInfoId,
+            eddnMessageId: Option.none(),
+            systemName: sys.name,
+            controllingFaction: Option.some("Boom Corp"),
+            controllingPower: Option.none(),
+            population: Option.some(sys.population),
+            security: Option.none(),
+            government: Option.none(),
+            allegiance: Option.none(),
+            economy: Option.none(),
+            secondEconomy: Option.none(),
+            systemAddress: Option.none(),
+            x: Option.none(),
+            y: Option.none(),
+            z: Option.none(),
+            updatedAt: new Date("2026-02-26T15:00:00Z"),
+          }))
+          yield* eddnRepo.upsertFaction(new EddnFaction({
+            id: uuid() as EddnFactionId,
+            eddnMessageId: Option.none(),
+            systemName: sys.name,
+            name: "Boom Corp",
+            influence: Option.some(sys.influence),
+            state: Option.some(sys.name === "Delta" ? "None" : "Boom"),
+            allegiance: Option.none(),
+            government: Option.none(),
+            happiness: Option.none(),
+            myReputation: Option.none(),
+            recoveringStates: Option.none(),
+            activeStates: Option.none(),
+            pendingStates: Option.none(),
+            updatedAt: new Date("2026-02-26T15:00:00Z"),
+          }))
+        }
+
+        const pages: Array<Array<string>> = []
+        let cursor: string | undefined
+        do {
+          const result = yield* handleGetSystemSummary(Option.none(), {
+            state: "Boom",
+            sort: "influence",
+            limit: "2",
+            fields: "factions",
+            ...(cursor ? { cursor } : {}),
+          })
+          expect(result instanceof SystemListResponse).toBe(true)
+          if (!(result instanceof SystemListResponse)) return
+
+          expect(result.total).toBe(4)
+          expect(result.systems[0]!.factions).toHaveLength(1)
+          expect(result.systems[0]!.conflicts).toBeUndefined()
+          pages.push(result.systems.map((s) => s.system_info.system_name))
+          cursor = result.next_cursor
+        } while (cursor)
+
+        // Highest influence first, ties broken by name; Delta is not in Boom
+        expect(pages).toEqual([["Echo", "Bravo"], ["Alpha", "Charlie"]])
+
+        const byPopulation = yield* handleGetSystemSummary(Option.none(), { state: "Boom", sort: "population", order: "asc" })
+        expect(byPopulation instanceof SystemListResponse && byPopulation.systems.map((s) => s.system_info.system_name))
+          .toEqual(["Alpha", "Charlie", "Echo", "Bravo"])
+        expect(byPopulation instanceof SystemListResponse && byPopulation.next_cursor).toBeUndefined()
+
+        // A cursor only continues the sort it was issued for
+        const first = yield* handleGetSystemSummary(Option.none(), { state: "Boom", sort: "influence", limit: "1" })
+        const mismatched = yield* handleGetSystemSummary(Option.none(), {
+          state: "Boom",
+          sort: "name",
+          ...(first instanceof SystemListResponse && first.next_cursor ? { cursor: first.next_cursor } : {}),
+        })
+        expect(mismatched instanceof SystemSearchErrorResponse).toBe(true)
+
+        const badSort = yield* handleGetSystemSummary(Option.none(), { state: "Boom", sort: "distance" })
+        expect(badSort instanceof SystemSearchErrorResponse).toBe(true)
+      })
+    )
+  })
+
+  /**
+   * Test 14: Boolean filter expressions
+   * Simulates GET /api/system-summary?q=state = Boom AND controlling_faction = "Boom Corp" AND NOT conflict
+   */
+  it("should filter systems with a q expression and reject malformed ones", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const client = yield* TursoClient
+
+        yield* Effect.promise(() =>
+          client.executeMultiple(`
+            INSERT INTO eddn_system_info (id, system_name, controlling_faction, population, allegiance, updated_at)
+            VALUES ('s1', 'Alpha', 'Boom Corp', 1000, 'Independent', '2026-02-26T15:00:00.000Z'),
+                   ('s2', 'Bravo', 'Boom Corp', 5000, 'Independent', '2026-02-26T15:00:00.000Z'),
+                   ('s3', 'Charlie', 'Other Corp', 3000, 'Federation', '2026-02-20T15:00:00.000Z'),
+                   ('s4', 'Delta', 'Boom Corp', NULL, 'Independent', '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_faction (id, system_name, name, influence, state, active_states, updated_at)
+            VALUES ('f1', 'Alpha', 'Boom Corp', 0.6, 'Boom', '[{"State":"Boom"}]', '2026-02-26T15:00:00.000Z'),
+                   ('f2', 'Bravo', 'Boom Corp', 0.4, 'War', '[{"State":"Boom"},{"State":"War"}]', '2026-02-26T15:00:00.000Z'),
+                   ('f3', 'Charlie', 'Other Corp', 0.5, 'Boom', NULL, '2026-02-20T15:00:00.000Z'),
+                   ('f4', 'Delta', 'Boom Corp', 0.7, 'None', NULL, '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_conflict (id, system_name, faction1, faction2, war_type, updated_at)
+            VALUES ('c1', 'Bravo', 'Boom Corp', 'Rival Corp', 'war', '2026-02-26T15:00:00.000Z');
+          `)
+        )
+
+        const names = (q: string) =>
+          handleGetSystemSummary(Option.none(), { q, fields: "" }).pipe(
+            Effect.map((result) =>
+              result instanceof SystemListResponse ? result.systems.map((s) => s.system_info.system_name) : []
+            )
+          )
+
+        expect(yield* names(`state = Boom AND controlling_faction = "Boom Corp" AND NOT conflict`)).toEqual(["Alpha"])
+        expect(yield* names("allegiance = federation OR (influence > 0.65 AND population != 5000)")).toEqual(["Charlie"])
+        expect(yield* names("population >= 3000 OR updated_at < 2026-02-21")).toEqual(["Bravo", "Charlie"])
+        expect(yield* names("NOT state = Boom")).toEqual(["Delta"])
+        expect(yield* names("cf_in_conflict OR controlling_faction != 'Boom Corp'")).toEqual(["Bravo", "Charlie"])
+
+        // Combined with the plain filters using AND
+        const combined = yield* handleGetSystemSummary(Option.none(), { q: "state = Boom", controlling_faction: "Other Corp" })
+        expect(combined instanceof SystemListResponse && combined.total).toBe(1)
+
+        const error = yield* Effect.flip(handleGetSystemSummary(Option.none(), { q: "state = Boom AND (conflict" }))
+        expect(error._tag).toBe("FilterExpressionError")
+        if (error._tag === "FilterExpressionError") {
+          expect(error.position).toBe(26)
+          expect(error.message).toBe("Expected ')' but found end of expression")
+        }
+      })
+    )
+  })
+
+  /**
+   * Test 15: Bulk lookup
+   * Simulates POST /api/system/bulk { system_names: [...] }
+   */
+  it("should return details for many systems at once and list unknown names", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const client = yield* TursoClient
+
+        yield* Effect.promise(() =>
+          client.executeMultiple(`
+            INSERT INTO eddn_system_info (id, system_name, controlling_faction, updated_at)
+            VALUES ('s1', 'Sol', 'Mother Gaia', '2026-02-20T15:00:00.000Z'),
+                   ('s2', 'Sol', 'Federation Navy', '2026-02-26T15:00:00.000Z'),
+                   ('s3', 'HIP 22460', NULL, '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_faction (id, system_name, name, influence, state, updated_at)
+            VALUES ('f1', 'Sol', 'Federation Navy', 0.6, 'Boom', '2026-02-26T15:00:00.000Z'),
+                   ('f2', 'Sol', 'Mother Gaia', 0.4, 'None', '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_conflict (id, system_name, faction1, faction2, war_type, updated_at)
+            VALUES ('c1', 'Sol', 'Federation Navy', 'Mother Gaia', 'election', '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_thargoid_war (id, system_name, current_state, war_progress, updated_at)
+            VALUES ('w1', 'HIP 22460', 'Thargoid_Controlled', 0.5, '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO activity (id, tickid, ticktime, timestamp, cmdr)
+            VALUES ('a1', 'zoy-1', '2026-02-25T12:00:00.000Z', '2026-02-25T18:00:00.000Z', 'CMDR One');
+
+            INSERT INTO system (id, name, address, activity_id, twkills_scout)
+            VALUES ('sy1', 'HIP 22460', 1, 'a1', 4);
+          `)
+        )
+
+        const result = yield* handleGetSystemsBulk(
+          new SystemBulkRequest({ system_names: ["hip 22460", "Sol", "Nowhere", "SOL", " "] })
+        )
+
+        expect(result.count).toBe(2)
+        expect(result.unknown).toEqual(["Nowhere"])
+        expect(result.systems.map((s) => s.system_info.system_name)).toEqual(["HIP 22460", "Sol"])
+
+        const [hip, sol] = result.systems
+        expect(hip!.thargoid_war?.war_progress).toBe(0.5)
+        expect(hip!.thargoid_war?.our_contribution?.kills.scout).toBe(4)
+        // Latest snapshot wins
+        expect(sol!.system_info.controlling_faction).toBe("Federation Navy")
+        expect(sol!.factions.map((f) => f.name).sort()).toEqual(["Federation Navy", "Mother Gaia"])
+        expect(sol!.conflicts).toHaveLength(1)
+        expect(sol!.thargoid_war).toBeUndefined()
+      })
+    )
+  })
+
+  /**
+   * Test 16: Economies and faction happiness
+   * Simulates GET /api/system-summary?economy=Agriculture and ?happiness=Discontented
+   */
+  it("should return and filter by economies and faction happiness", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const eddnRepo = yield* EddnRepository
+        const client = yield* TursoClient
+
+        yield* eddnRepo.upsertSystemInfo(new EddnSystemInfo({
+          id: uuid() as EddnSystemInfoId,
+          eddnMessageId: Option.none(),
+          systemName: "Alpha",
+          controllingFaction: Option.some("Boom Corp"),
+          controllingPower: Option.none(),
+          population: Option.none(),
+          security: Option.none(),
+          government: Option.none(),
+          allegiance: Option.none(),
+          economy: Option.some("Agriculture"),
+          secondEconomy: Option.some("Tourism"),
+          systemAddress: Option.some(1178708478315),
+          x: Option.none(),
+          y: Option.none(),
+          z: Option.none(),
+          updatedAt: new Date("2026-02-26T15:00:00.000Z"),
+        }))
+        yield* eddnRepo.upsertFaction(new EddnFaction({
+          id: uuid() as EddnFactionId,
+          eddnMessageId: Option.none(),
+          systemName: "Alpha",
+          name: "Boom Corp",
+          influence: Option.some(0.6),
+          state: Option.none(),
+          allegiance: Option.none(),
+          government: Option.none(),
+          happiness: Option.some("Discontented"),
+          myReputation: Option.some(35.5),
+          recoveringStates: Option.none(),
+          activeStates: Option.none(),
+          pendingStates: Option.none(),
+          updatedAt: new Date("2026-02-26T15:00:00.000Z"),
+        }))
+
+        yield* Effect.promise(() =>
+          client.executeMultiple(`
+            INSERT INTO eddn_system_info (id, system_name, economy, second_economy, updated_at)
+            VALUES ('s2', 'Bravo', 'Tourism', 'High Tech', '2026-02-26T15:00:00.000Z'),
+                   ('s3', 'Charlie', 'Industrial', NULL, '2026-02-26T15:00:00.000Z');
+
+            INSERT INTO eddn_faction (id, system_name, name, happiness, updated_at)
+            VALUES ('f2', 'Bravo', 'Other Corp', 'Happy', '2026-02-26T15:00:00.000Z'),
+                   ('f3', 'Charlie', 'Other Corp', NULL, '2026-02-26T15:00:00.000Z');
+          `)
+        )
+
+        const detail = yield* handleGetSystemSummary(Option.some("Alpha"), {})
+        expect(detail).toBeInstanceOf(SystemDetailResponse)
+        if (detail instanceof SystemDetailResponse) {
+          expect(detail.system_info).toMatchObject({ economy: "Agriculture", second_economy: "Tourism", system_address: 1178708478315 })
+          expect(detail.factions[0]).toMatchObject({ happiness: "Discontented", my_reputation: 35.5 })
+        }
+
+        const names = (query: Parameters<typeof handleGetSystemSummary>[1]) =>
+          handleGetSystemSummary(Option.none(), { ...query, fields: "" }).pipe(
+            Effect.map((result) =>
+              result instanceof SystemListResponse ? result.systems.map((s) => s.system_info.system_name) : []
+            )
+          )
+
+        // Primary or secondary economy, case-insensitive
+        expect(yield* names({ economy: "agriculture" })).toEqual(["Alpha"])
+        expect(yield* names({ economy: "Tourism" })).toEqual(["Alpha", "Bravo"])
+        expect(yield* names({ happiness: "Discontented" })).toEqual(["Alpha"])
+        expect(yield* names({ q: "economy = 'High Tech' OR happiness = Discontented" })).toEqual(["Alpha", "Bravo"])
+        expect(yield* names({ q: "NOT happiness = Happy AND economy != Tourism" })).toEqual(["Charlie"])
+      })
+    )
+  })
 })
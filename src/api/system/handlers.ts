@@ -1,20 +1,47 @@
 import { Effect, Option } from "effect"
 import { HttpApiBuilder } from "@effect/platform"
 import { Api } from "../index.js"
-import { EddnRepository } from "../../domain/repositories.js"
-import type { SystemSummaryQuery } from "./dtos.js"
+import { TursoClient } from "../../database/client.js"
+import {
+  EddnRepository,
+  TickRepository,
+  type SystemSearchCriteria,
+  type SystemSearchPage,
+  type SystemSearchSort,
+} from "../../domain/repositories.js"
+import { DatabaseError } from "../../domain/errors.js"
+import { parseFilterExpression } from "../../services/filter-expression.js"
+import {
+  loadAxContribution,
+  loadAxContributions,
+  type AxContribution as AxContributionData,
+} from "../../services/ax-contribution.js"
+import type { SystemBulkRequest, SystemSummaryQuery, TickRelation } from "./dtos.js"
 import {
   SystemDetailResponse,
+  SystemListItem,
   SystemListResponse,
+  SystemBulkResponse,
   SystemSearchErrorResponse,
   EddnSystemInfo as EddnSystemInfoDTO,
   EddnConflict as EddnConflictDTO,
   EddnFaction as EddnFactionDTO,
   EddnPowerplay as EddnPowerplayDTO,
+  EddnThargoidWar as EddnThargoidWarDTO,
+  AxContribution,
+  AxKills,
+  AxMassacre,
+  AxSearchAndRescue,
 } from "./dtos.js"
 import type * as DomainModels from "../../domain/models.js"
 
-const MAX_SYSTEMS = 400
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 400
+const DEFAULT_RADIUS_LY = 20
+
+const SORTS: ReadonlyArray<SystemSearchSort> = ["influence", "population", "updated_at", "name"]
+const SECTIONS = ["factions", "conflicts", "powerplays", "thargoid_war"] as const
+type Section = (typeof SECTIONS)[number]
 
 // Helper to check if a boolean-like string is truthy
 const isTruthy = (value: string | undefined): boolean => {
@@ -22,21 +49,91 @@ const isTruthy = (value: string | undefined): boolean => {
   return ["1", "true", "yes"].includes(value.toLowerCase())
 }
 
+// Opaque keyset cursor: the last row's sort value and name, bound to the sort and order it was issued for
+const encodeCursor = (page: SystemSearchPage, value: string | number, systemName: string): string =>
+  Buffer.from(JSON.stringify([page.sort, page.order, value, systemName])).toString("base64url")
+
+const decodeCursor = (cursor: string, sort: SystemSearchSort, order: SystemSearchPage["order"]): SystemSearchPage["after"] | null => {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if (!Array.isArray(decoded) || decoded.length !== 4) return null
+    const [cursorSort, cursorOrder, value, systemName] = decoded
+    if (cursorSort !== sort || cursorOrder !== order) return null
+    if ((typeof value !== "string" && typeof value !== "number") || typeof systemName !== "string") return null
+    return { value, systemName }
+  } catch {
+    return null
+  }
+}
+
+// Sort, order, page size and cursor from the query; a string is the validation error
+const parseSearchPage = (query: SystemSummaryQuery): SystemSearchPage | string => {
+  const sort = (query.sort ?? "name") as SystemSearchSort
+  if (!SORTS.includes(sort)) {
+    return `Invalid sort '${query.sort}'. Expected one of: ${SORTS.join(", ")}.`
+  }
+
+  const order = query.order ?? (sort === "name" ? "asc" : "desc")
+  if (order !== "asc" && order !== "desc") {
+    return `Invalid order '${query.order}'. Expected "asc" or "desc".`
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit)
+  if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+    return `Invalid limit '${query.limit}'. Expected a whole number from 1 to ${MAX_PAGE_SIZE}.`
+  }
+
+  if (query.cursor === undefined) return { sort, order, limit }
+  const after = decodeCursor(query.cursor, sort, order)
+  if (after === null) {
+    return "Invalid cursor. Pass next_cursor from the previous page with the same sort and order."
+  }
+  return { sort, order, limit, after }
+}
+
+// Detail sections to include per system; a string is the validation error
+const parseSections = (fields: string | undefined): ReadonlySet<Section> | string => {
+  if (fields === undefined) return new Set(SECTIONS)
+  const requested = fields.split(",").map((field) => field.trim()).filter((field) => field !== "")
+  const unknown = requested.filter((field) => !(SECTIONS as ReadonlyArray<string>).includes(field))
+  if (unknown.length > 0) {
+    return `Invalid fields '${unknown.join(", ")}'. Expected any of: ${SECTIONS.join(", ")}.`
+  }
+  return new Set(requested as Array<Section>)
+}
+
+// Observations from before the latest tick no longer reflect current influence and states
+const tickRelation = (observedAt: Date, tick: Option.Option<DomainModels.TickState>): TickRelation => {
+  if (Option.isNone(tick)) return "unknown"
+  const tickTime = new Date(tick.value.ticktime)
+  if (Number.isNaN(tickTime.getTime())) return "unknown"
+  return observedAt >= tickTime ? "post_tick" : "pre_tick"
+}
+
 // Map domain models to DTOs
-const mapSystemInfo = (domain: DomainModels.EddnSystemInfo): EddnSystemInfoDTO => {
+const mapSystemInfo = (
+  domain: DomainModels.EddnSystemInfo,
+  tick: Option.Option<DomainModels.TickState>,
+  now: Date
+): EddnSystemInfoDTO => {
   return new EddnSystemInfoDTO({
     id: domain.id,
     system_name: domain.systemName,
-    system_address: undefined, // Not in domain model
+    system_address: Option.getOrUndefined(domain.systemAddress),
     controlling_faction: Option.getOrUndefined(domain.controllingFaction),
     controlling_power: Option.getOrUndefined(domain.controllingPower),
     population: Option.getOrUndefined(domain.population),
     allegiance: Option.getOrUndefined(domain.allegiance),
     government: Option.getOrUndefined(domain.government),
     security: Option.getOrUndefined(domain.security),
-    economy: undefined, // Not in domain model
-    second_economy: undefined, // Not in domain model
+    x: Option.getOrUndefined(domain.x),
+    y: Option.getOrUndefined(domain.y),
+    z: Option.getOrUndefined(domain.z),
+    economy: Option.getOrUndefined(domain.economy),
+    second_economy: Option.getOrUndefined(domain.secondEconomy),
     timestamp: domain.updatedAt.toISOString(),
+    data_age: Math.max(0, Math.floor((now.getTime() - domain.updatedAt.getTime()) / 1000)),
+    tick_relation: tickRelation(domain.updatedAt, tick),
   })
 }
 
@@ -72,7 +169,8 @@ const mapFaction = (domain: DomainModels.EddnFaction): EddnFactionDTO => {
     government: Option.getOrUndefined(domain.government),
     influence: Option.getOrUndefined(domain.influence),
     state: Option.getOrUndefined(domain.state),
-    happiness: undefined, // Not in domain model
+    happiness: Option.getOrUndefined(domain.happiness),
+    my_reputation: Option.getOrUndefined(domain.myReputation),
     active_states: stringifyJson(domain.activeStates),
     pending_states: stringifyJson(domain.pendingStates),
     recovering_states: stringifyJson(domain.recoveringStates),
@@ -93,16 +191,70 @@ const mapPowerplay = (domain: DomainModels.EddnPowerplay): EddnPowerplayDTO => {
     system_name: domain.systemName,
     power: stringifyJson(domain.power),
     powerplay_state: Option.getOrUndefined(domain.powerplayState),
+    control_progress: Option.getOrUndefined(domain.controlProgress),
+    reinforcement: Option.getOrUndefined(domain.reinforcement),
+    undermining: Option.getOrUndefined(domain.undermining),
     timestamp: domain.updatedAt.toISOString(),
   })
 }
 
+const mapAxContribution = (data: AxContributionData): AxContribution =>
+  new AxContribution({
+    kills: new AxKills(data.kills),
+    kills_total: Object.values(data.kills).reduce((sum, n) => sum + n, 0),
+    sandr: new AxSearchAndRescue(data.sandr),
+    massacre: new AxMassacre(data.massacre),
+    reactivations: data.reactivations,
+    cmdrs: data.cmdrs,
+    last_activity: data.lastActivity ?? undefined,
+  })
+
+const mapThargoidWar = (domain: DomainModels.EddnThargoidWar, contribution: AxContributionData | null): EddnThargoidWarDTO =>
+  new EddnThargoidWarDTO({
+    system_name: domain.systemName,
+    current_state: Option.getOrUndefined(domain.currentState),
+    next_state_success: Option.getOrUndefined(domain.nextStateSuccess),
+    next_state_failure: Option.getOrUndefined(domain.nextStateFailure),
+    success_state_reached: Option.getOrUndefined(domain.successStateReached),
+    war_progress: Option.getOrUndefined(domain.warProgress),
+    remaining_ports: Option.getOrUndefined(domain.remainingPorts),
+    estimated_remaining_time: Option.getOrUndefined(domain.estimatedRemainingTime),
+    timestamp: domain.updatedAt.toISOString(),
+    our_contribution: contribution ? mapAxContribution(contribution) : undefined,
+  })
+
+// Thargoid war state joined with our AX activity in the system; undefined outside a war
+const getThargoidWar = (systemName: string) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+    const war = yield* eddnRepo.getThargoidWarForSystem(systemName)
+    if (Option.isNone(war)) return undefined
+
+    const client = yield* TursoClient
+    const contribution = yield* Effect.tryPromise({
+      try: () => loadAxContribution(client, systemName),
+      catch: (error) => new DatabaseError({ operation: "loadAxContribution.system", error }),
+    })
+    return mapThargoidWar(war.value, contribution)
+  })
+
+// Group rows by lower-cased system name, keeping their order
+const groupBySystem = <A extends { readonly systemName: string }>(rows: ReadonlyArray<A>): Map<string, Array<A>> => {
+  const groups = new Map<string, Array<A>>()
+  for (const row of rows) {
+    const key = row.systemName.toLowerCase()
+    groups.set(key, [...(groups.get(key) ?? []), row])
+  }
+  return groups
+}
+
 export const handleGetSystemSummary = (
   systemName: Option.Option<string>,
   query: SystemSummaryQuery
 ) =>
   Effect.gen(function* () {
     const eddnRepo = yield* EddnRepository
+    const tickRepo = yield* TickRepository
 
     // Check if any filters are provided
     const hasFilters =
@@ -114,12 +266,18 @@ export const handleGetSystemSummary = (
       query.state ||
       query.state_government ||
       query.government ||
+      query.economy ||
+      query.happiness ||
       query.recovering_state ||
       query.pending_state ||
       query.has_conflict ||
       query.population ||
       query.powerplay_state ||
-      query.cf_in_conflict
+      query.cf_in_conflict ||
+      query.near ||
+      query.thargoid_state ||
+      query.has_thargoid_war ||
+      query.q
 
     // If no filters and no path system name, return error response
     if (!hasFilters && Option.isNone(systemName)) {
@@ -132,108 +290,86 @@ export const handleGetSystemSummary = (
 
     // If filters provided or no path system name, return filtered list
     if (hasFilters || Option.isNone(systemName)) {
-      let systems: Set<string> | null = null
-
-      // System name filter
-      if (query.system_name) {
-        const matches = yield* eddnRepo.findSystemsByNamePattern(query.system_name)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
+      const page = parseSearchPage(query)
+      if (typeof page === "string") {
+        return new SystemSearchErrorResponse({ error: page, count: 0, systems: [] })
       }
 
-      // Faction presence
-      if (query.faction) {
-        const matches = yield* eddnRepo.findSystemsByFaction(query.faction)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Controlling faction
-      if (query.controlling_faction) {
-        const matches = yield* eddnRepo.findSystemsByControllingFaction(query.controlling_faction)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Controlling power
-      if (query.controlling_power) {
-        const matches = yield* eddnRepo.findSystemsByControllingPower(query.controlling_power)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Government
-      if (query.government) {
-        const matches = yield* eddnRepo.findSystemsByGovernment(query.government)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
+      const sections = parseSections(query.fields)
+      if (typeof sections === "string") {
+        return new SystemSearchErrorResponse({ error: sections, count: 0, systems: [] })
       }
 
       // State Government (state:government format)
+      let stateGovernment: SystemSearchCriteria["stateGovernment"]
       if (query.state_government) {
         const parts = query.state_government.split(":")
-        if (parts.length === 2) {
-          const stateVal = parts[0]!
-          const govVal = parts[1]!
-          const matches = yield* eddnRepo.findSystemsByStateAndGovernment(stateVal, govVal)
-          systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
+        if (parts.length !== 2) {
+          return new SystemSearchErrorResponse({
+            error: `Invalid state_government '${query.state_government}'. Expected "state:government".`,
+            count: 0,
+            systems: [],
+          })
         }
+        stateGovernment = { state: parts[0]!, government: parts[1]! }
       }
 
-      // Power (from system_info or powerplay)
-      if (query.power) {
-        const matches = yield* eddnRepo.findSystemsByPower(query.power)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // State (from faction state or active_states)
-      if (query.state) {
-        const matches = yield* eddnRepo.findSystemsByState(query.state)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Recovering state
-      if (query.recovering_state) {
-        const matches = yield* eddnRepo.findSystemsByRecoveringState(query.recovering_state)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Pending state
-      if (query.pending_state) {
-        const matches = yield* eddnRepo.findSystemsByPendingState(query.pending_state)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Has conflict
-      if (isTruthy(query.has_conflict)) {
-        const matches = yield* eddnRepo.findSystemsWithConflicts()
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Population filter
-      if (query.population) {
-        const matches = yield* eddnRepo.findSystemsByPopulation(query.population)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
-
-      // Powerplay state
-      if (query.powerplay_state) {
-        const matches = yield* eddnRepo.findSystemsByPowerplayState(query.powerplay_state)
-        systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
-      }
+      // Within radius of a reference system
+      let near: SystemSearchCriteria["near"]
+      if (query.near) {
+        const radius = query.radius === undefined ? DEFAULT_RADIUS_LY : Number(query.radius)
+        if (!Number.isFinite(radius) || radius <= 0) {
+          return new SystemSearchErrorResponse({
+            error: `Invalid radius '${query.radius}'. Expected a positive number of light years.`,
+            count: 0,
+            systems: [],
+          })
+        }
 
-      // CF in conflict
-      if (isTruthy(query.cf_in_conflict)) {
-        if (query.controlling_faction) {
-          // Specific controlling faction in conflict
-          const cfSystems = yield* eddnRepo.findSystemsByControllingFaction(query.controlling_faction)
-          const conflictSystems = yield* eddnRepo.findSystemsWithConflictsForFaction(query.controlling_faction)
-          const cfInConflictSystems = cfSystems.filter((s) => conflictSystems.includes(s))
-          systems = systems === null ? new Set(cfInConflictSystems) : new Set([...systems].filter((s) => cfInConflictSystems.includes(s)))
-        } else {
-          // Any controlling faction in conflict
-          const matches = yield* eddnRepo.findSystemsWithControllingFactionInConflict()
-          systems = systems === null ? new Set(matches) : new Set([...systems].filter((s) => matches.includes(s)))
+        const reference = yield* eddnRepo.getSystemInfo(query.near)
+        const center = Option.flatMap(reference, (info) =>
+          Option.all({ x: info.x, y: info.y, z: info.z })
+        )
+        if (Option.isNone(center)) {
+          return new SystemSearchErrorResponse({
+            error: `No coordinates known for reference system '${query.near}'.`,
+            count: 0,
+            systems: [],
+          })
         }
+        near = { center: center.value, radius }
       }
 
-      // If still no systems found, return error response
-      if (systems === null || systems.size === 0) {
+      // Filter expression; parse errors fail the request with a 400
+      const expression = query.q === undefined ? undefined : yield* parseFilterExpression(query.q)
+
+      const result = yield* eddnRepo.searchSystems(
+        {
+          namePattern: query.system_name,
+          faction: query.faction,
+          controllingFaction: query.controlling_faction,
+          controllingPower: query.controlling_power,
+          government: query.government,
+          economy: query.economy,
+          happiness: query.happiness,
+          stateGovernment,
+          power: query.power,
+          state: query.state,
+          recoveringState: query.recovering_state,
+          pendingState: query.pending_state,
+          hasConflict: isTruthy(query.has_conflict),
+          population: query.population,
+          powerplayState: query.powerplay_state,
+          thargoidState: query.thargoid_state,
+          hasThargoidWar: isTruthy(query.has_thargoid_war),
+          cfInConflict: isTruthy(query.cf_in_conflict),
+          near,
+          expression,
+        },
+        page
+      )
+
+      if (result.total === 0) {
         return new SystemSearchErrorResponse({
           error: "No systems found matching the provided filters.",
           count: 0,
@@ -241,46 +377,49 @@ export const handleGetSystemSummary = (
         })
       }
 
-      // If too many systems, return error with limited list
-      if (systems.size > MAX_SYSTEMS) {
-        return new SystemSearchErrorResponse({
-          error: "Too many systems found. Please narrow down your filters.",
-          count: systems.size,
-          systems: Array.from(systems).sort().slice(0, MAX_SYSTEMS),
-        })
-      }
-
-      // Fetch details for all systems
-      const systemDetails = yield* Effect.all(
-        Array.from(systems).map((sysName) =>
-          Effect.gen(function* () {
-            const systemInfo = yield* eddnRepo.getSystemInfo(sysName)
-            if (Option.isNone(systemInfo)) {
-              return Option.none()
-            }
-
-            const conflicts = yield* eddnRepo.getConflictsForSystem(sysName)
-            const factions = yield* eddnRepo.getFactionsForSystem(sysName)
-            const powerplays = yield* eddnRepo.getPowerplayForSystem(sysName)
-
-            return Option.some(
-              new SystemDetailResponse({
-                system_info: mapSystemInfo(Option.getOrThrow(systemInfo)),
-                conflicts: conflicts.map(mapConflict) as readonly EddnConflictDTO[],
-                factions: factions.map(mapFaction) as readonly EddnFactionDTO[],
-                powerplays: powerplays.map(mapPowerplay) as readonly EddnPowerplayDTO[],
-              })
-            )
+      // Fetch the requested sections for the whole page in one batch
+      const batch = yield* eddnRepo.getSystemDetailsBatch(result.systems.map(({ systemName }) => systemName))
+      const client = yield* TursoClient
+      const contributions = sections.has("thargoid_war")
+        ? yield* Effect.tryPromise({
+            try: () => loadAxContributions(client, batch.thargoidWars.map((war) => war.systemName)),
+            catch: (error) => new DatabaseError({ operation: "loadAxContributions.systemSearch", error }),
           })
-        ),
-        { concurrency: 10 }
-      )
+        : undefined
+      const currentTick = yield* tickRepo.getCurrent()
+      const now = new Date()
+
+      const systemInfos = groupBySystem(batch.systemInfos)
+      const conflicts = groupBySystem(batch.conflicts)
+      const factions = groupBySystem(batch.factions)
+      const powerplays = groupBySystem(batch.powerplays)
+      const thargoidWars = groupBySystem(batch.thargoidWars)
+
+      const validSystems: Array<SystemListItem> = []
+      for (const { systemName: sysName } of result.systems) {
+        const key = sysName.toLowerCase()
+        const systemInfo = systemInfos.get(key)?.[0]
+        if (!systemInfo) continue
+
+        const war = thargoidWars.get(key)?.[0]
+        validSystems.push(
+          new SystemListItem({
+            system_info: mapSystemInfo(systemInfo, currentTick, now),
+            conflicts: sections.has("conflicts") ? (conflicts.get(key) ?? []).map(mapConflict) : undefined,
+            factions: sections.has("factions") ? (factions.get(key) ?? []).map(mapFaction) : undefined,
+            powerplays: sections.has("powerplays") ? (powerplays.get(key) ?? []).map(mapPowerplay) : undefined,
+            thargoid_war: contributions && war ? mapThargoidWar(war, contributions.get(key) ?? null) : undefined,
+          })
+        )
+      }
 
-      const validSystems = systemDetails.filter(Option.isSome).map(Option.getOrThrow)
+      const last = result.systems.at(-1)
 
       return new SystemListResponse({
-        systems: validSystems as readonly SystemDetailResponse[],
+        systems: validSystems,
         count: validSystems.length,
+        total: result.total,
+        next_cursor: result.hasMore && last ? encodeCursor(page, last.sortValue, last.systemName) : undefined,
       })
     }
 
@@ -299,13 +438,66 @@ export const handleGetSystemSummary = (
     const conflicts = yield* eddnRepo.getConflictsForSystem(sysName)
     const factions = yield* eddnRepo.getFactionsForSystem(sysName)
     const powerplays = yield* eddnRepo.getPowerplayForSystem(sysName)
+    const thargoidWar = yield* getThargoidWar(sysName)
+    const currentTick = yield* tickRepo.getCurrent()
 
     return new SystemDetailResponse({
-      system_info: mapSystemInfo(Option.getOrThrow(systemInfo)),
+      system_info: mapSystemInfo(Option.getOrThrow(systemInfo), currentTick, new Date()),
       conflicts: conflicts.map(mapConflict) as readonly EddnConflictDTO[],
       factions: factions.map(mapFaction) as readonly EddnFactionDTO[],
       powerplays: powerplays.map(mapPowerplay) as readonly EddnPowerplayDTO[],
+      thargoid_war: thargoidWar,
+    })
+  })
+
+export const handleGetSystemsBulk = (request: SystemBulkRequest) =>
+  Effect.gen(function* () {
+    const eddnRepo = yield* EddnRepository
+    const tickRepo = yield* TickRepository
+    const client = yield* TursoClient
+
+    // Case-insensitive de-duplication, first spelling wins
+    const names = [...new Map(request.system_names.map((name) => [name.trim().toLowerCase(), name.trim()])).values()]
+      .filter((name) => name !== "")
+
+    const batch = yield* eddnRepo.getSystemDetailsBatch(names)
+    const warSystems = batch.thargoidWars.map((war) => war.systemName)
+    const contributions = yield* Effect.tryPromise({
+      try: () => loadAxContributions(client, warSystems),
+      catch: (error) => new DatabaseError({ operation: "loadAxContributions.systemBulk", error }),
     })
+    const currentTick = yield* tickRepo.getCurrent()
+    const now = new Date()
+
+    const systemInfos = groupBySystem(batch.systemInfos)
+    const conflicts = groupBySystem(batch.conflicts)
+    const factions = groupBySystem(batch.factions)
+    const powerplays = groupBySystem(batch.powerplays)
+    const thargoidWars = groupBySystem(batch.thargoidWars)
+
+    const systems: Array<SystemDetailResponse> = []
+    const unknown: Array<string> = []
+    for (const name of names) {
+      const key = name.toLowerCase()
+      const systemInfo = systemInfos.get(key)?.[0]
+      if (!systemInfo) {
+        unknown.push(name)
+        continue
+      }
+
+      const war = thargoidWars.get(key)?.[0]
+      systems.push(
+        new SystemDetailResponse({
+          system_info: mapSystemInfo(systemInfo, currentTick, now),
+          conflicts: (conflicts.get(key) ?? []).map(mapConflict),
+          factions: (factions.get(key) ?? []).map(mapFaction),
+          powerplays: (powerplays.get(key) ?? []).map(mapPowerplay),
+          thargoid_war: war ? mapThargoidWar(war, contributions.get(key) ?? null) : undefined,
+        })
+      )
+    }
+
+    return new SystemBulkResponse({ systems, unknown, count: systems.length })
   })
 
 // Handler wrappers for HTTP API endpoints
@@ -328,3 +520,7 @@ export const SystemApiLive = HttpApiBuilder.group(Api, "system", (handlers) =>
     .handle("getSystemSummary", getSystemSummaryHandler)
     .handle("getSystemSummaryNoParam", getSystemSummaryNoParamHandler)
 )
+
+export const SystemBulkApiLive = HttpApiBuilder.group(Api, "systemBulk", (handlers) =>
+  handlers.handle("getSystemsBulk", ({ payload }) => handleGetSystemsBulk(payload))
+)
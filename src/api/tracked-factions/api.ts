@@ -0,0 +1,87 @@
+import { HttpApiGroup, HttpApiEndpoint, OpenApi } from "@effect/platform";
+import {
+  TrackedFactionIdParam,
+  CreateTrackedFactionRequest,
+  CreateTrackedFactionResponse,
+  UpdateTrackedFactionRequest,
+  StatusResponse,
+  TrackedFactionsListResponse,
+  TrackedFactionResponse,
+} from "./dtos.ts";
+import { DatabaseError, TrackedFactionNotFoundError, TrackedFactionAlreadyExistsError } from "../../domain/errors.ts";
+import { ApiKeyAuth, ApiKeyError } from "../middleware/apikey.ts";
+
+/**
+ * Tracked Factions API Group
+ *
+ * CRUD operations for the factions whose BGS state is followed by schedulers
+ * and notifications (our main faction plus allied squadron factions).
+ */
+export const TrackedFactionsApi = HttpApiGroup.make("tracked-factions")
+  // GET /api/tracked-factions - Get all tracked factions
+  .add(
+    HttpApiEndpoint.get("getAllTrackedFactions", "/")
+      .addSuccess(TrackedFactionsListResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get All Tracked Factions")
+      .annotate(
+        OpenApi.Description,
+        "Retrieve the tracked factions. The main faction (FACTION_NAME) is always tracked; " +
+          "a row for it is only needed to set a webhook override."
+      )
+  )
+  // POST /api/tracked-factions - Create a new tracked faction
+  .add(
+    HttpApiEndpoint.post("createTrackedFaction", "/")
+      .addSuccess(CreateTrackedFactionResponse, { status: 201 })
+      .addError(ApiKeyError, { status: 401 })
+      .addError(TrackedFactionAlreadyExistsError, { status: 400 })
+      .addError(DatabaseError, { status: 500 })
+      .setPayload(CreateTrackedFactionRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Create Tracked Faction")
+      .annotate(
+        OpenApi.Description,
+        "Start tracking a faction. webhook_url replaces the default Discord webhook for notifications about it."
+      )
+  )
+  // GET /api/tracked-factions/:id - Get tracked faction by ID
+  .add(
+    HttpApiEndpoint.get("getTrackedFactionById", "/:id")
+      .addSuccess(TrackedFactionResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(TrackedFactionNotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(TrackedFactionIdParam)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Get Tracked Faction by ID")
+      .annotate(OpenApi.Description, "Retrieve a specific tracked faction by its ID.")
+  )
+  // PUT /api/tracked-factions/:id - Update tracked faction
+  .add(
+    HttpApiEndpoint.put("updateTrackedFaction", "/:id")
+      .addSuccess(StatusResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(TrackedFactionAlreadyExistsError, { status: 400 })
+      .addError(TrackedFactionNotFoundError, { status: 404 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(TrackedFactionIdParam)
+      .setPayload(UpdateTrackedFactionRequest)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Update Tracked Faction")
+      .annotate(OpenApi.Description, "Update a tracked faction. Omitted fields are left unchanged.")
+  )
+  // DELETE /api/tracked-factions/:id - Delete tracked faction
+  .add(
+    HttpApiEndpoint.del("deleteTrackedFaction", "/:id")
+      .addSuccess(StatusResponse)
+      .addError(ApiKeyError, { status: 401 })
+      .addError(DatabaseError, { status: 500 })
+      .setPath(TrackedFactionIdParam)
+      .middleware(ApiKeyAuth)
+      .annotate(OpenApi.Title, "Delete Tracked Faction")
+      .annotate(OpenApi.Description, "Stop tracking a faction. The main faction stays tracked.")
+  )
+  .prefix("/api/tracked-factions");
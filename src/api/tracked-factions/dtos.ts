@@ -0,0 +1,78 @@
+import { Schema } from "effect";
+import { TrackedFactionId } from "../../domain/ids.ts";
+
+/**
+ * Request DTO for POST /api/tracked-factions
+ */
+export const CreateTrackedFactionRequest = Schema.Struct({
+  name: Schema.String,
+  webhook_url: Schema.optional(Schema.NullOr(Schema.String)), // null = default channel webhooks
+  description: Schema.optional(Schema.NullOr(Schema.String)),
+});
+
+export type CreateTrackedFactionRequest = typeof CreateTrackedFactionRequest.Type;
+
+/**
+ * Request DTO for PUT /api/tracked-factions/:id
+ */
+export const UpdateTrackedFactionRequest = Schema.Struct({
+  name: Schema.optional(Schema.String),
+  webhook_url: Schema.optional(Schema.NullOr(Schema.String)),
+  description: Schema.optional(Schema.NullOr(Schema.String)),
+});
+
+export type UpdateTrackedFactionRequest = typeof UpdateTrackedFactionRequest.Type;
+
+/**
+ * Path parameter for tracked faction ID
+ */
+export const TrackedFactionIdParam = Schema.Struct({
+  id: TrackedFactionId,
+});
+
+export type TrackedFactionIdParam = typeof TrackedFactionIdParam.Type;
+
+/**
+ * Response DTO for tracked faction operations
+ */
+export const TrackedFactionResponse = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  webhook_url: Schema.NullOr(Schema.String),
+  description: Schema.NullOr(Schema.String),
+  primary: Schema.Boolean, // true for the FACTION_NAME faction
+  created_at: Schema.String,
+  updated_at: Schema.String,
+});
+
+export type TrackedFactionResponse = typeof TrackedFactionResponse.Type;
+
+/**
+ * Response for GET /api/tracked-factions
+ *
+ * primary_faction is always tracked, whether or not it has a row in factions.
+ */
+export const TrackedFactionsListResponse = Schema.Struct({
+  primary_faction: Schema.String,
+  factions: Schema.Array(TrackedFactionResponse),
+});
+
+export type TrackedFactionsListResponse = typeof TrackedFactionsListResponse.Type;
+
+/**
+ * Response for POST /api/tracked-factions
+ */
+export const CreateTrackedFactionResponse = Schema.Struct({
+  id: Schema.String,
+});
+
+export type CreateTrackedFactionResponse = typeof CreateTrackedFactionResponse.Type;
+
+/**
+ * Response for PUT/DELETE operations
+ */
+export const StatusResponse = Schema.Struct({
+  status: Schema.String,
+});
+
+export type StatusResponse = typeof StatusResponse.Type;
@@ -0,0 +1,157 @@
+import { Effect, Option } from "effect";
+import { HttpApiBuilder } from "@effect/platform";
+import { v4 as uuid } from "uuid";
+import { Api } from "../index.js";
+import { TrackedFactionRepository } from "../../domain/repositories.js";
+import { TrackedFaction } from "../../domain/models.js";
+import type { TrackedFactionId } from "../../domain/ids.js";
+import { TrackedFactionNotFoundError } from "../../domain/errors.js";
+import { AppConfig } from "../../lib/config.js";
+
+/**
+ * Convert TrackedFaction domain model to response DTO
+ */
+const factionToResponse = (faction: TrackedFaction, primaryFaction: string) => ({
+  id: faction.id,
+  name: faction.name,
+  webhook_url: Option.getOrNull(faction.webhookUrl),
+  description: Option.getOrNull(faction.description),
+  primary: faction.name === primaryFaction,
+  created_at: faction.createdAt.toISOString(),
+  updated_at: faction.updatedAt.toISOString(),
+});
+
+/**
+ * Handler for GET /api/tracked-factions - Get all tracked factions
+ */
+export const getAllTrackedFactions = HttpApiBuilder.handler(
+  Api,
+  "tracked-factions",
+  "getAllTrackedFactions",
+  () =>
+    Effect.gen(function* () {
+      const factionRepo = yield* TrackedFactionRepository;
+      const config = yield* AppConfig;
+      const factions = yield* factionRepo.findAll();
+      return {
+        primary_faction: config.faction.name,
+        factions: factions.map((f) => factionToResponse(f, config.faction.name)),
+      };
+    })
+);
+
+/**
+ * Handler for POST /api/tracked-factions - Create a new tracked faction
+ */
+export const createTrackedFaction = HttpApiBuilder.handler(
+  Api,
+  "tracked-factions",
+  "createTrackedFaction",
+  ({ payload }) =>
+    Effect.gen(function* () {
+      const factionRepo = yield* TrackedFactionRepository;
+      const now = new Date();
+
+      const newFaction = new TrackedFaction({
+        id: uuid() as TrackedFactionId,
+        name: payload.name,
+        webhookUrl: Option.fromNullable(payload.webhook_url),
+        description: Option.fromNullable(payload.description),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      yield* factionRepo.create(newFaction);
+
+      return {
+        id: newFaction.id,
+      };
+    })
+);
+
+/**
+ * Handler for GET /api/tracked-factions/:id - Get tracked faction by ID
+ */
+export const getTrackedFactionById = HttpApiBuilder.handler(
+  Api,
+  "tracked-factions",
+  "getTrackedFactionById",
+  ({ path }) =>
+    Effect.gen(function* () {
+      const factionRepo = yield* TrackedFactionRepository;
+      const config = yield* AppConfig;
+      const factionOption = yield* factionRepo.findById(path.id);
+
+      if (Option.isNone(factionOption)) {
+        return yield* Effect.fail(new TrackedFactionNotFoundError({ id: path.id }));
+      }
+
+      return factionToResponse(factionOption.value, config.faction.name);
+    })
+);
+
+/**
+ * Handler for PUT /api/tracked-factions/:id - Update tracked faction
+ */
+export const updateTrackedFaction = HttpApiBuilder.handler(
+  Api,
+  "tracked-factions",
+  "updateTrackedFaction",
+  ({ path, payload }) =>
+    Effect.gen(function* () {
+      const factionRepo = yield* TrackedFactionRepository;
+      const factionOption = yield* factionRepo.findById(path.id);
+
+      if (Option.isNone(factionOption)) {
+        return yield* Effect.fail(new TrackedFactionNotFoundError({ id: path.id }));
+      }
+
+      const existing = factionOption.value;
+      const updated = new TrackedFaction({
+        id: existing.id,
+        name: payload.name ?? existing.name,
+        webhookUrl:
+          payload.webhook_url !== undefined ? Option.fromNullable(payload.webhook_url) : existing.webhookUrl,
+        description:
+          payload.description !== undefined ? Option.fromNullable(payload.description) : existing.description,
+        createdAt: existing.createdAt,
+        updatedAt: new Date(),
+      });
+
+      yield* factionRepo.update(updated);
+
+      return {
+        status: "updated",
+      };
+    })
+);
+
+/**
+ * Handler for DELETE /api/tracked-factions/:id - Delete tracked faction
+ */
+export const deleteTrackedFaction = HttpApiBuilder.handler(
+  Api,
+  "tracked-factions",
+  "deleteTrackedFaction",
+  ({ path }) =>
+    Effect.gen(function* () {
+      const factionRepo = yield* TrackedFactionRepository;
+      yield* factionRepo.delete(path.id);
+
+      return {
+        status: "deleted",
+      };
+    })
+);
+
+export const TrackedFactionsApiLive = HttpApiBuilder.group(
+  Api,
+  "tracked-factions",
+  (handlers) =>
+    handlers
+      .handle("getAllTrackedFactions", getAllTrackedFactions)
+      .handle("createTrackedFaction", createTrackedFaction)
+      .handle("getTrackedFactionById", getTrackedFactionById)
+      .handle("updateTrackedFaction", updateTrackedFaction)
+      .handle("deleteTrackedFaction", deleteTrackedFaction)
+);
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Layer, Option } from "effect"
+import { AlertRuleRepository } from "../../domain/repositories.ts"
+import { AlertRuleRepositoryLive } from "./AlertRuleRepository.ts"
+import { TursoClient } from "../client.ts"
+import { createClient } from "@libsql/client"
+import { AlertRuleId } from "../../domain/ids.ts"
+import { AlertRule } from "../../domain/models.ts"
+
+// Helper to provide a fresh Test Layer for each test
+const ClientLayer = Layer.effect(
+  TursoClient,
+  Effect.gen(function* () {
+    const client = createClient({
+      url: "file::memory:",
+    })
+
+    // Initialize Schema
+    yield* Effect.tryPromise(() =>
+      client.executeMultiple(`
+        CREATE TABLE IF NOT EXISTS alert_rule (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          rule_type TEXT NOT NULL,
+          faction_name TEXT,
+          system_name TEXT,
+          threshold REAL,
+          state TEXT,
+          webhook_url TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS alert_firing (
+          rule_id TEXT NOT NULL,
+          system_name TEXT NOT NULL,
+          faction_name TEXT NOT NULL,
+          first_fired_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL,
+          PRIMARY KEY (rule_id, system_name, faction_name)
+        );
+      `)
+    )
+
+    return client
+  })
+)
+
+// provideMerge keeps TursoClient available for inspecting alert_firing
+const TestLayer = AlertRuleRepositoryLive.pipe(
+    Layer.provideMerge(ClientLayer)
+)
+
+const makeRule = (id: string, overrides: Partial<ConstructorParameters<typeof AlertRule>[0]> = {}) =>
+  new AlertRule({
+    id: AlertRuleId.make(id),
+    name: "Low influence",
+    ruleType: "influence_below",
+    factionName: Option.some("Test Faction"),
+    systemName: Option.none(),
+    threshold: Option.some(5),
+    state: Option.none(),
+    webhookUrl: Option.none(),
+    enabled: true,
+    createdAt: new Date("2026-03-01T00:00:00Z"),
+    updatedAt: new Date("2026-03-01T00:00:00Z"),
+    ...overrides,
+  })
+
+describe("AlertRuleRepository", () => {
+  const runTest = (effect: Effect.Effect<any, any, AlertRuleRepository | TursoClient>) =>
+    Effect.runPromise(Effect.provide(effect, TestLayer))
+
+  it("should create and retrieve an alert rule by ID", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* AlertRuleRepository
+        yield* repo.create(makeRule("rule_1"))
+
+        const result = yield* repo.findById(AlertRuleId.make("rule_1"))
+        expect(Option.isSome(result)).toBe(true)
+        if (Option.isSome(result)) {
+            expect(result.value.ruleType).toBe("influence_below")
+            expect(Option.getOrNull(result.value.threshold)).toBe(5)
+            expect(Option.isNone(result.value.systemName)).toBe(true)
+            expect(result.value.enabled).toBe(true)
+        }
+      })
+    )
+  })
+
+  it("should only return enabled rules from findEnabled", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* AlertRuleRepository
+        yield* repo.create(makeRule("rule_on"))
+        yield* repo.create(makeRule("rule_off", { enabled: false }))
+
+        const all = yield* repo.findAll()
+        expect(all).toHaveLength(2)
+
+        const enabled = yield* repo.findEnabled()
+        expect(enabled.map((r) => r.id)).toEqual([AlertRuleId.make("rule_on")])
+      })
+    )
+  })
+
+  it("should update an alert rule and fail for unknown IDs", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* AlertRuleRepository
+        yield* repo.create(makeRule("rule_2"))
+
+        yield* repo.update(makeRule("rule_2", {
+          ruleType: "pending_state",
+          threshold: Option.none(),
+          state: Option.some("Retreat"),
+        }))
+        const result = yield* repo.findById(AlertRuleId.make("rule_2"))
+        expect(Option.isSome(result) && Option.getOrNull(result.value.state)).toBe("Retreat")
+
+        const missing = yield* repo.update(makeRule("rule_missing")).pipe(Effect.flip)
+        expect(missing._tag).toBe("AlertRuleNotFoundError")
+      })
+    )
+  })
+
+  it("should delete an alert rule together with its firing state", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* AlertRuleRepository
+        const client = yield* TursoClient
+        yield* repo.create(makeRule("rule_3"))
+        yield* Effect.promise(() =>
+          client.execute("INSERT INTO alert_firing VALUES ('rule_3', 'Sol', 'Test Faction', 'x', 'x')")
+        )
+
+        yield* repo.delete(AlertRuleId.make("rule_3"))
+
+        const result = yield* repo.findById(AlertRuleId.make("rule_3"))
+        expect(Option.isNone(result)).toBe(true)
+        const firing = yield* Effect.promise(() => client.execute("SELECT * FROM alert_firing"))
+        expect(firing.rows).toHaveLength(0)
+      })
+    )
+  })
+})
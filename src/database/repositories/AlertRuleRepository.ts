@@ -0,0 +1,132 @@
+import { Effect, Layer, Option, Schema } from "effect";
+import { TursoClient } from "../client.ts";
+import { AlertRuleRepository } from "../../domain/repositories.ts";
+import { AlertRule } from "../../domain/models.ts";
+import { DatabaseError, AlertRuleNotFoundError } from "../../domain/errors.ts";
+import { mapRowToAlertRule } from "../../lib/utils.ts";
+
+export const AlertRuleRepositoryLive = Layer.effect(
+    AlertRuleRepository,
+    Effect.gen(function* () {
+        const client = yield* TursoClient
+        const decodeAlertRule = Schema.decodeUnknown(AlertRule)
+
+        const decodeRows = (rows: ReadonlyArray<unknown>) =>
+            Effect.forEach(rows.map(mapRowToAlertRule), (raw) =>
+                decodeAlertRule(raw).pipe(
+                    Effect.mapError((error) => new DatabaseError({
+                        operation: 'decode.alertRule', error
+                    }))
+                )
+            )
+
+        return AlertRuleRepository.of({
+            create: (rule) => Effect.tryPromise({
+                try: () => client.execute({
+                    sql: `INSERT INTO alert_rule (id, name, rule_type, faction_name, system_name, threshold, state, webhook_url, enabled, created_at, updated_at)
+                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    args: [
+                        rule.id,
+                        rule.name,
+                        rule.ruleType,
+                        Option.getOrNull(rule.factionName),
+                        Option.getOrNull(rule.systemName),
+                        Option.getOrNull(rule.threshold),
+                        Option.getOrNull(rule.state),
+                        Option.getOrNull(rule.webhookUrl),
+                        rule.enabled ? 1 : 0, // Boolean to INTEGER
+                        rule.createdAt.toISOString(),
+                        rule.updatedAt.toISOString(),
+                    ],
+                }),
+                catch: (error) => new DatabaseError({
+                    operation: 'create.alertRule', error
+                })
+            }).pipe(Effect.asVoid),
+
+            findById: (id) => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({
+                        sql: "SELECT * FROM alert_rule WHERE id = ?",
+                        args: [id]
+                    }),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findById.alertRule', error
+                    })
+                })
+
+                const row = result.rows[0]
+                if (!row) return Option.none()
+
+                const rule = yield* decodeAlertRule(mapRowToAlertRule(row)).pipe(
+                    Effect.mapError((error) => new DatabaseError({
+                        operation: 'decode.alertRule', error
+                    }))
+                )
+
+                return Option.some(rule)
+            }),
+
+            findAll: () => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute("SELECT * FROM alert_rule ORDER BY name"),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findAll.alertRule', error
+                    })
+                })
+
+                return yield* decodeRows(result.rows)
+            }),
+
+            findEnabled: () => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute("SELECT * FROM alert_rule WHERE enabled = 1 ORDER BY name"),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findEnabled.alertRule', error
+                    })
+                })
+
+                return yield* decodeRows(result.rows)
+            }),
+
+            update: (rule) => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({
+                        sql: `UPDATE alert_rule
+                              SET name = ?, rule_type = ?, faction_name = ?, system_name = ?, threshold = ?,
+                                  state = ?, webhook_url = ?, enabled = ?, updated_at = ?
+                              WHERE id = ?`,
+                        args: [
+                            rule.name,
+                            rule.ruleType,
+                            Option.getOrNull(rule.factionName),
+                            Option.getOrNull(rule.systemName),
+                            Option.getOrNull(rule.threshold),
+                            Option.getOrNull(rule.state),
+                            Option.getOrNull(rule.webhookUrl),
+                            rule.enabled ? 1 : 0,
+                            rule.updatedAt.toISOString(),
+                            rule.id
+                        ]
+                    }),
+                    catch: (error) => new DatabaseError({
+                        operation: "update.alertRule", error
+                    })
+                })
+
+                if (result.rowsAffected === 0) {
+                    return yield* Effect.fail(new AlertRuleNotFoundError({ id: rule.id }))
+                }
+            }),
+
+            // alert_firing rows go with the rule (no FK enforcement without PRAGMA foreign_keys)
+            delete: (id) => Effect.tryPromise({
+                try: () => client.batch([
+                    { sql: "DELETE FROM alert_firing WHERE rule_id = ?", args: [id] },
+                    { sql: "DELETE FROM alert_rule WHERE id = ?", args: [id] },
+                ], "write"),
+                catch: (error) => new DatabaseError({ operation: 'delete.alertRule', error })
+            }).pipe(Effect.asVoid)
+        })
+    })
+)
@@ -9,7 +9,8 @@ import {
     EddnSystemInfoId,
     EddnFactionId,
     EddnConflictId,
-    EddnPowerplayId
+    EddnPowerplayId,
+    EddnFactionHistoryId
 } from "../../domain/ids.ts"
 
 // Helper to provide a fresh Test Layer for each test
@@ -42,6 +43,12 @@ const ClientLayer = Layer.effect(
           security TEXT,
           government TEXT,
           allegiance TEXT,
+          economy TEXT,
+          second_economy TEXT,
+          system_address INTEGER,
+          x REAL,
+          y REAL,
+          z REAL,
           updated_at TEXT NOT NULL,
           FOREIGN KEY (eddn_message_id) REFERENCES eddn_message(id) ON DELETE SET NULL
         );
@@ -55,6 +62,8 @@ const ClientLayer = Layer.effect(
           state TEXT,
           allegiance TEXT,
           government TEXT,
+          happiness TEXT,
+          my_reputation REAL,
           recovering_states TEXT,
           active_states TEXT,
           pending_states TEXT,
@@ -90,6 +99,20 @@ const ClientLayer = Layer.effect(
           updated_at TEXT NOT NULL,
           FOREIGN KEY (eddn_message_id) REFERENCES eddn_message(id) ON DELETE SET NULL
         );
+
+        CREATE TABLE IF NOT EXISTS eddn_faction_history (
+          id TEXT PRIMARY KEY,
+          system_name TEXT NOT NULL,
+          faction_name TEXT NOT NULL,
+          tick_id TEXT NOT NULL,
+          influence REAL,
+          state TEXT,
+          active_states TEXT,
+          pending_states TEXT,
+          recovering_states TEXT,
+          observed_at TEXT NOT NULL,
+          UNIQUE (system_name, faction_name, tick_id)
+        );
       `)
     )
 
@@ -135,6 +158,12 @@ describe("EddnRepository", () => {
       security: Option.some("High"),
       government: Option.some("Democracy"),
       allegiance: Option.some("Federation"),
+      economy: Option.some("Refinery"),
+      secondEconomy: Option.some("Service"),
+      systemAddress: Option.none(),
+      x: Option.none(),
+      y: Option.none(),
+      z: Option.none(),
       updatedAt: new Date("2024-01-15T10:00:00Z"),
     }
 
@@ -152,6 +181,8 @@ describe("EddnRepository", () => {
             expect(result.value.systemName).toBe("Sol")
             expect(Option.getOrNull(result.value.controllingFaction)).toBe("Federation")
             expect(Option.getOrNull(result.value.population)).toBe(100000000)
+            expect(Option.getOrNull(result.value.economy)).toBe("Refinery")
+            expect(Option.getOrNull(result.value.secondEconomy)).toBe("Service")
         }
       })
     )
@@ -168,6 +199,12 @@ describe("EddnRepository", () => {
       security: Option.none(),
       government: Option.none(),
       allegiance: Option.none(),
+      economy: Option.none(),
+      secondEconomy: Option.none(),
+      systemAddress: Option.none(),
+      x: Option.none(),
+      y: Option.none(),
+      z: Option.none(),
       updatedAt: new Date("2024-01-15T10:00:00Z"),
     }
 
@@ -205,6 +242,8 @@ describe("EddnRepository", () => {
       state: Option.some("Boom"),
       allegiance: Option.some("Independent"),
       government: Option.some("Democracy"),
+      happiness: Option.some("Happy"),
+      myReputation: Option.some(25),
       recoveringStates: Option.some([{ state: "War" }]),
       activeStates: Option.some([{ state: "Boom" }]),
       pendingStates: Option.none(),
@@ -220,6 +259,8 @@ describe("EddnRepository", () => {
       state: Option.some("None"),
       allegiance: Option.none(),
       government: Option.none(),
+      happiness: Option.none(),
+      myReputation: Option.none(),
       recoveringStates: Option.none(),
       activeStates: Option.none(),
       pendingStates: Option.none(),
@@ -244,11 +285,57 @@ describe("EddnRepository", () => {
         if (factionA) {
             expect(Option.isSome(factionA.recoveringStates)).toBe(true)
             expect(Option.isSome(factionA.activeStates)).toBe(true)
+            expect(Option.getOrNull(factionA.happiness)).toBe("Happy")
+            expect(Option.getOrNull(factionA.myReputation)).toBe(25)
         }
       })
     )
   })
 
+  it("should keep one faction history point per system and tick", async () => {
+    const point = (id: string, systemName: string, tickId: string, influence: number, observedAt: string) => ({
+      id: EddnFactionHistoryId.make(id),
+      systemName,
+      factionName: "Faction A",
+      tickId,
+      influence: Option.some(influence),
+      state: Option.some("Boom"),
+      activeStates: Option.some([{ State: "Boom" }]),
+      pendingStates: Option.none(),
+      recoveringStates: Option.none(),
+      observedAt: new Date(observedAt),
+    })
+
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* EddnRepository
+
+        yield* repo.upsertFactionHistory(point("hist_1", "LHS 3447", "tick_1", 0.40, "2024-01-14T10:00:00Z"))
+        // Same tick again: latest observation replaces the earlier one
+        yield* repo.upsertFactionHistory(point("hist_2", "LHS 3447", "tick_1", 0.42, "2024-01-14T18:00:00Z"))
+        yield* repo.upsertFactionHistory(point("hist_3", "LHS 3447", "tick_2", 0.45, "2024-01-15T10:00:00Z"))
+        yield* repo.upsertFactionHistory(point("hist_4", "Sol", "tick_2", 0.10, "2024-01-15T11:00:00Z"))
+
+        const all = yield* repo.getFactionHistory("faction a", {})
+        expect(all.length).toBe(3)
+        expect(all.map(h => h.systemName)).toEqual(["LHS 3447", "LHS 3447", "Sol"])
+        expect(Option.getOrNull(all[0]!.influence)).toBe(0.42)
+        expect(Option.isSome(all[0]!.activeStates)).toBe(true)
+
+        const lhs = yield* repo.getFactionHistory("Faction A", { systemName: "LHS 3447" })
+        expect(lhs.map(h => h.tickId)).toEqual(["tick_1", "tick_2"])
+
+        const ranged = yield* repo.getFactionHistory("Faction A", {
+          from: "2024-01-15T00:00:00.000Z",
+          to: "2024-01-15T10:30:00.000Z",
+        })
+        expect(ranged.length).toBe(1)
+        expect(ranged[0]!.tickId).toBe("tick_2")
+        expect(ranged[0]!.systemName).toBe("LHS 3447")
+      })
+    )
+  })
+
   it("should upsert and find conflicts in system", async () => {
     const conflict = {
       id: EddnConflictId.make("conflict_1"),
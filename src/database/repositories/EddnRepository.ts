@@ -1,15 +1,246 @@
 import { Effect, Layer, Option, Schema } from "effect";
 import { TursoClient } from "../client.ts";
-import { EddnRepository } from "../../domain/repositories.ts";
-import { EddnSystemInfo, EddnFaction, EddnConflict, EddnPowerplay } from "../../domain/models.ts";
+import { EddnRepository, type SystemSearchCriteria } from "../../domain/repositories.ts";
+import { EddnSystemInfo, EddnFaction, EddnConflict, EddnPowerplay, EddnFactionHistory, EddnStation, EddnThargoidWar } from "../../domain/models.ts";
 import { DatabaseError } from "../../domain/errors.ts";
+import type { FilterExpression } from "../../services/filter-expression.ts";
 import {
     mapRowToEddnSystemInfo,
     mapRowToEddnFaction,
     mapRowToEddnConflict,
-    mapRowToEddnPowerplay
+    mapRowToEddnPowerplay,
+    mapRowToEddnFactionHistory,
+    mapRowToEddnStation,
+    mapRowToEddnThargoidWar
 } from "../../lib/utils.ts";
 
+// Condition for a controlling faction fighting in the system
+const CF_IN_CONFLICT_SQL = `EXISTS (SELECT 1 FROM eddn_conflict c WHERE c.system_name = si.system_name
+                            AND (c.faction1 = si.controlling_faction COLLATE NOCASE OR c.faction2 = si.controlling_faction COLLATE NOCASE))`
+
+// Influence of the faction filter, else the controlling faction (bind the faction filter or null)
+const INFLUENCE_SQL = `(SELECT MAX(f.influence) FROM eddn_faction f
+                        WHERE f.system_name = si.system_name
+                          AND f.name = COALESCE(?, si.controlling_faction) COLLATE NOCASE)`
+
+type SqlArg = string | number | null
+type SqlFragment = { sql: string; args: Array<SqlArg> }
+
+// Compile a q= expression to a condition over si; every comparison yields 0/1, never NULL, so NOT is exact
+const compileFilterExpression = (expression: FilterExpression, influenceFaction: string | null): SqlFragment => {
+    switch (expression.kind) {
+        case "and":
+        case "or": {
+            const left = compileFilterExpression(expression.left, influenceFaction)
+            const right = compileFilterExpression(expression.right, influenceFaction)
+            return {
+                sql: `(${left.sql} ${expression.kind === "and" ? "AND" : "OR"} ${right.sql})`,
+                args: [...left.args, ...right.args],
+            }
+        }
+        case "not": {
+            const operand = compileFilterExpression(expression.operand, influenceFaction)
+            return { sql: `NOT ${operand.sql}`, args: operand.args }
+        }
+        case "flag":
+            switch (expression.flag) {
+                case "conflict":
+                    return { sql: "EXISTS (SELECT 1 FROM eddn_conflict c WHERE c.system_name = si.system_name)", args: [] }
+                case "cf_in_conflict":
+                    return { sql: CF_IN_CONFLICT_SQL, args: [] }
+                case "thargoid_war":
+                    return { sql: "EXISTS (SELECT 1 FROM eddn_thargoid_war w WHERE w.system_name = si.system_name AND COALESCE(w.current_state, '') != '')", args: [] }
+            }
+        case "compare": {
+            const { field, op, value } = expression
+
+            // Numbers and dates compare directly; unknown values match nothing
+            if (field === "population" || field === "updated_at") {
+                return { sql: `COALESCE(si.${field} ${op} ?, 0)`, args: [value] }
+            }
+            if (field === "influence") {
+                return { sql: `COALESCE(${INFLUENCE_SQL} ${op} ?, 0)`, args: [influenceFaction, value] }
+            }
+
+            // String fields: != is the negation of =
+            const equals = ((): SqlFragment => {
+                switch (field) {
+                    case "controlling_faction":
+                    case "controlling_power":
+                    case "government":
+                    case "allegiance":
+                    case "system_name":
+                        return { sql: `COALESCE(si.${field} = ? COLLATE NOCASE, 0)`, args: [value] }
+                    case "faction":
+                        return { sql: "EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.name = ? COLLATE NOCASE)", args: [value] }
+                    case "economy":
+                        return {
+                            sql: "(COALESCE(si.economy = ? COLLATE NOCASE, 0) OR COALESCE(si.second_economy = ? COLLATE NOCASE, 0))",
+                            args: [value, value],
+                        }
+                    case "happiness":
+                        return { sql: "EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.happiness = ? COLLATE NOCASE)", args: [value] }
+                    case "state":
+                        return {
+                            sql: `EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name
+                                          AND (f.state = ? COLLATE NOCASE OR f.active_states LIKE ?))`,
+                            args: [value, `%${value}%`],
+                        }
+                    case "pending_state":
+                    case "recovering_state":
+                        return {
+                            sql: `EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.${field}s LIKE ?)`,
+                            args: [`%${value}%`],
+                        }
+                    case "power":
+                        return {
+                            sql: `(COALESCE(si.controlling_power = ? COLLATE NOCASE, 0)
+                                   OR EXISTS (SELECT 1 FROM eddn_powerplay p WHERE p.system_name = si.system_name
+                                              AND (json_extract(p.power, '$[0]') = ? COLLATE NOCASE OR p.power LIKE ?)))`,
+                            args: [value, value, `%${value}%`],
+                        }
+                    case "powerplay_state":
+                        return { sql: "EXISTS (SELECT 1 FROM eddn_powerplay p WHERE p.system_name = si.system_name AND p.powerplay_state = ? COLLATE NOCASE)", args: [value] }
+                    case "thargoid_state":
+                        return {
+                            sql: `EXISTS (SELECT 1 FROM eddn_thargoid_war w WHERE w.system_name = si.system_name
+                                          AND (w.current_state = ? COLLATE NOCASE OR w.current_state = 'Thargoid_' || ? COLLATE NOCASE))`,
+                            args: [value, value],
+                        }
+                }
+            })()
+
+            return op === "!=" ? { sql: `NOT ${equals.sql}`, args: equals.args } : equals
+        }
+    }
+}
+
+// WHERE clause over the latest eddn_system_info row per system (alias si) for a system search
+const buildSystemSearchFilter = (criteria: SystemSearchCriteria): { where: string; args: Array<SqlArg> } => {
+    const clauses = [
+        `si.rowid = (SELECT latest.rowid FROM eddn_system_info latest
+                     WHERE latest.system_name = si.system_name
+                     ORDER BY latest.updated_at DESC LIMIT 1)`,
+    ]
+    const args: Array<SqlArg> = []
+    const add = (clause: string, ...values: Array<SqlArg>) => {
+        clauses.push(clause)
+        args.push(...values)
+    }
+
+    if (criteria.namePattern) {
+        add("si.system_name LIKE ? COLLATE NOCASE", `%${criteria.namePattern}%`)
+    }
+    if (criteria.faction) {
+        add("EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.name = ? COLLATE NOCASE)", criteria.faction)
+    }
+    if (criteria.controllingFaction) {
+        add("si.controlling_faction = ? COLLATE NOCASE", criteria.controllingFaction)
+    }
+    if (criteria.controllingPower) {
+        add("si.controlling_power = ? COLLATE NOCASE", criteria.controllingPower)
+    }
+    if (criteria.government) {
+        add("si.government = ? COLLATE NOCASE", criteria.government)
+    }
+    if (criteria.economy) {
+        add("(si.economy = ? COLLATE NOCASE OR si.second_economy = ? COLLATE NOCASE)", criteria.economy, criteria.economy)
+    }
+    if (criteria.happiness) {
+        add("EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.happiness = ? COLLATE NOCASE)", criteria.happiness)
+    }
+    if (criteria.stateGovernment) {
+        const { state, government } = criteria.stateGovernment
+        add(
+            `EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name
+                     AND f.government = ? COLLATE NOCASE
+                     AND (f.state = ? COLLATE NOCASE OR f.active_states LIKE ?))`,
+            government, state, `%${state}%`
+        )
+    }
+    if (criteria.power) {
+        add(
+            `(si.controlling_power = ? COLLATE NOCASE
+              OR EXISTS (SELECT 1 FROM eddn_powerplay p WHERE p.system_name = si.system_name
+                         AND (json_extract(p.power, '$[0]') = ? COLLATE NOCASE OR p.power LIKE ?)))`,
+            criteria.power, criteria.power, `%${criteria.power}%`
+        )
+    }
+    if (criteria.state) {
+        add(
+            `EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name
+                     AND (f.state = ? COLLATE NOCASE OR f.active_states LIKE ?))`,
+            criteria.state, `%${criteria.state}%`
+        )
+    }
+    if (criteria.recoveringState) {
+        add("EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.recovering_states LIKE ?)", `%${criteria.recoveringState}%`)
+    }
+    if (criteria.pendingState) {
+        add("EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = si.system_name AND f.pending_states LIKE ?)", `%${criteria.pendingState}%`)
+    }
+    if (criteria.hasConflict) {
+        add("EXISTS (SELECT 1 FROM eddn_conflict c WHERE c.system_name = si.system_name)")
+    }
+    if (criteria.population) {
+        const population = criteria.population
+        if (population.startsWith("<")) {
+            add("si.population < ?", parseInt(population.slice(1), 10))
+        } else if (population.startsWith(">")) {
+            add("si.population > ?", parseInt(population.slice(1), 10))
+        } else if (population.includes("-")) {
+            const [minStr, maxStr] = population.split("-")
+            add("si.population >= ? AND si.population <= ?", parseInt(minStr!, 10), parseInt(maxStr!, 10))
+        } else {
+            add("si.population = ?", parseInt(population, 10))
+        }
+    }
+    if (criteria.powerplayState) {
+        add("EXISTS (SELECT 1 FROM eddn_powerplay p WHERE p.system_name = si.system_name AND p.powerplay_state = ? COLLATE NOCASE)", criteria.powerplayState)
+    }
+    if (criteria.thargoidState) {
+        // Accept both the journal value ("Thargoid_Controlled") and the bare name ("Controlled")
+        add(
+            `EXISTS (SELECT 1 FROM eddn_thargoid_war w WHERE w.system_name = si.system_name
+                     AND (w.current_state = ? COLLATE NOCASE OR w.current_state = 'Thargoid_' || ? COLLATE NOCASE))`,
+            criteria.thargoidState, criteria.thargoidState
+        )
+    }
+    if (criteria.hasThargoidWar) {
+        add("EXISTS (SELECT 1 FROM eddn_thargoid_war w WHERE w.system_name = si.system_name AND COALESCE(w.current_state, '') != '')")
+    }
+    if (criteria.cfInConflict) {
+        if (criteria.controllingFaction) {
+            // Controlled by this faction (filtered above) and it is fighting in the system
+            add(
+                `EXISTS (SELECT 1 FROM eddn_conflict c WHERE c.system_name = si.system_name
+                         AND (c.faction1 = ? COLLATE NOCASE OR c.faction2 = ? COLLATE NOCASE))`,
+                criteria.controllingFaction, criteria.controllingFaction
+            )
+        } else {
+            add(CF_IN_CONFLICT_SQL)
+        }
+    }
+    if (criteria.expression) {
+        const compiled = compileFilterExpression(criteria.expression, criteria.faction ?? null)
+        add(compiled.sql, ...compiled.args)
+    }
+    if (criteria.near) {
+        const { center, radius } = criteria.near
+        add(
+            `si.x BETWEEN ? AND ? AND si.y BETWEEN ? AND ? AND si.z BETWEEN ? AND ?
+             AND (si.x - ?) * (si.x - ?) + (si.y - ?) * (si.y - ?) + (si.z - ?) * (si.z - ?) <= ?`,
+            center.x - radius, center.x + radius,
+            center.y - radius, center.y + radius,
+            center.z - radius, center.z + radius,
+            center.x, center.x, center.y, center.y, center.z, center.z,
+            radius * radius
+        )
+    }
+
+    return { where: clauses.join(" AND "), args }
+}
+
 export const EddnRepositoryLive = Layer.effect(
     EddnRepository,
     Effect.gen(function* () {
@@ -18,6 +249,9 @@ export const EddnRepositoryLive = Layer.effect(
         const decodeEddnFaction = Schema.decodeUnknown(EddnFaction)
         const decodeEddnConflict = Schema.decodeUnknown(EddnConflict)
         const decodeEddnPowerplay = Schema.decodeUnknown(EddnPowerplay)
+        const decodeEddnFactionHistory = Schema.decodeUnknown(EddnFactionHistory)
+        const decodeEddnStation = Schema.decodeUnknown(EddnStation)
+        const decodeEddnThargoidWar = Schema.decodeUnknown(EddnThargoidWar)
 
         return EddnRepository.of({
             saveMessage: (message) => Effect.tryPromise({
@@ -43,8 +277,8 @@ export const EddnRepositoryLive = Layer.effect(
 
             upsertSystemInfo: (info) => Effect.tryPromise({
                 try: () => client.execute({
-                    sql: `INSERT INTO eddn_system_info (id, eddn_message_id, system_name, controlling_faction, controlling_power, population, security, government, allegiance, updated_at)
-                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    sql: `INSERT INTO eddn_system_info (id, eddn_message_id, system_name, controlling_faction, controlling_power, population, security, government, allegiance, economy, second_economy, system_address, x, y, z, updated_at)
+                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                           ON CONFLICT(id) DO UPDATE SET
                             system_name = excluded.system_name,
                             controlling_faction = excluded.controlling_faction,
@@ -53,6 +287,12 @@ export const EddnRepositoryLive = Layer.effect(
                             security = excluded.security,
                             government = excluded.government,
                             allegiance = excluded.allegiance,
+                            economy = excluded.economy,
+                            second_economy = excluded.second_economy,
+                            system_address = excluded.system_address,
+                            x = excluded.x,
+                            y = excluded.y,
+                            z = excluded.z,
                             updated_at = excluded.updated_at`,
                     args: [
                         info.id,
@@ -64,6 +304,12 @@ export const EddnRepositoryLive = Layer.effect(
                         Option.getOrNull(info.security),
                         Option.getOrNull(info.government),
                         Option.getOrNull(info.allegiance),
+                        Option.getOrNull(info.economy),
+                        Option.getOrNull(info.secondEconomy),
+                        Option.getOrNull(info.systemAddress),
+                        Option.getOrNull(info.x),
+                        Option.getOrNull(info.y),
+                        Option.getOrNull(info.z),
                         info.updatedAt.toISOString(),
                     ],
                 }),
@@ -74,8 +320,8 @@ export const EddnRepositoryLive = Layer.effect(
 
             upsertFaction: (faction) => Effect.tryPromise({
                 try: () => client.execute({
-                    sql: `INSERT INTO eddn_faction (id, eddn_message_id, system_name, name, influence, state, allegiance, government, recovering_states, active_states, pending_states, updated_at)
-                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    sql: `INSERT INTO eddn_faction (id, eddn_message_id, system_name, name, influence, state, allegiance, government, happiness, my_reputation, recovering_states, active_states, pending_states, updated_at)
+                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                           ON CONFLICT(id) DO UPDATE SET
                             system_name = excluded.system_name,
                             name = excluded.name,
@@ -83,6 +329,8 @@ export const EddnRepositoryLive = Layer.effect(
                             state = excluded.state,
                             allegiance = excluded.allegiance,
                             government = excluded.government,
+                            happiness = excluded.happiness,
+                            my_reputation = excluded.my_reputation,
                             recovering_states = excluded.recovering_states,
                             active_states = excluded.active_states,
                             pending_states = excluded.pending_states,
@@ -96,6 +344,8 @@ export const EddnRepositoryLive = Layer.effect(
                         Option.getOrNull(faction.state),
                         Option.getOrNull(faction.allegiance),
                         Option.getOrNull(faction.government),
+                        Option.getOrNull(faction.happiness),
+                        Option.getOrNull(faction.myReputation),
                         // Serialize JSON fields to TEXT
                         Option.match(faction.recoveringStates, {
                             onNone: () => null,
@@ -185,6 +435,82 @@ export const EddnRepositoryLive = Layer.effect(
                 })
             }).pipe(Effect.asVoid),
 
+            upsertFactionHistory: (entry) => Effect.tryPromise({
+                try: () => client.execute({
+                    sql: `INSERT INTO eddn_faction_history (id, system_name, faction_name, tick_id, influence, state, active_states, pending_states, recovering_states, observed_at)
+                          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                          ON CONFLICT(system_name, faction_name, tick_id) DO UPDATE SET
+                            influence = excluded.influence,
+                            state = excluded.state,
+                            active_states = excluded.active_states,
+                            pending_states = excluded.pending_states,
+                            recovering_states = excluded.recovering_states,
+                            observed_at = excluded.observed_at`,
+                    args: [
+                        entry.id,
+                        entry.systemName,
+                        entry.factionName,
+                        entry.tickId,
+                        Option.getOrNull(entry.influence),
+                        Option.getOrNull(entry.state),
+                        // Serialize JSON fields to TEXT
+                        Option.match(entry.activeStates, {
+                            onNone: () => null,
+                            onSome: (val) => JSON.stringify(val),
+                        }),
+                        Option.match(entry.pendingStates, {
+                            onNone: () => null,
+                            onSome: (val) => JSON.stringify(val),
+                        }),
+                        Option.match(entry.recoveringStates, {
+                            onNone: () => null,
+                            onSome: (val) => JSON.stringify(val),
+                        }),
+                        entry.observedAt.toISOString(),
+                    ],
+                }),
+                catch: (error) => new DatabaseError({
+                    operation: 'upsertFactionHistory.eddn', error
+                })
+            }).pipe(Effect.asVoid),
+
+            getFactionHistory: (factionName, filter) => Effect.gen(function* () {
+                let sql = "SELECT * FROM eddn_faction_history WHERE faction_name = ? COLLATE NOCASE"
+                const args: Array<string> = [factionName]
+
+                if (filter.systemName) {
+                    sql += " AND system_name = ? COLLATE NOCASE"
+                    args.push(filter.systemName)
+                }
+                if (filter.from) {
+                    sql += " AND observed_at >= ?"
+                    args.push(filter.from)
+                }
+                if (filter.to) {
+                    sql += " AND observed_at <= ?"
+                    args.push(filter.to)
+                }
+                sql += " ORDER BY system_name, observed_at"
+
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({ sql, args }),
+                    catch: (error) => new DatabaseError({
+                        operation: 'getFactionHistory.eddn', error
+                    })
+                })
+
+                const rawEntries = result.rows.map(mapRowToEddnFactionHistory)
+                const entries = yield* Effect.forEach(rawEntries, (raw) =>
+                    decodeEddnFactionHistory(raw).pipe(
+                        Effect.mapError((error) => new DatabaseError({
+                            operation: 'decode.eddnFactionHistory', error
+                        }))
+                    )
+                )
+
+                return entries
+            }),
+
             findSystemInfo: (systemName) => Effect.gen(function* () {
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
@@ -377,277 +703,221 @@ export const EddnRepositoryLive = Layer.effect(
                 return powerplays
             }),
 
-            findSystemsByNamePattern: (pattern) => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_system_info WHERE system_name LIKE ? COLLATE NOCASE",
-                        args: [`%${pattern}%`]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByNamePattern.eddn', error
-                    })
-                })
-
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByFaction: (factionName) => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE name = ? COLLATE NOCASE",
-                        args: [factionName]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByFaction.eddn', error
-                    })
-                })
-
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByControllingFaction: (factionName) => Effect.gen(function* () {
+            getStationsForSystem: (systemName) => Effect.gen(function* () {
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_system_info WHERE controlling_faction = ? COLLATE NOCASE",
-                        args: [factionName]
+                        sql: "SELECT * FROM eddn_station WHERE system_name = ? COLLATE NOCASE ORDER BY station_name",
+                        args: [systemName]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByControllingFaction.eddn', error
+                        operation: 'getStationsForSystem.eddn', error
                     })
                 })
 
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByControllingPower: (power) => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_system_info WHERE controlling_power = ? COLLATE NOCASE",
-                        args: [power]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByControllingPower.eddn', error
-                    })
-                })
+                const rawStations = result.rows.map(mapRowToEddnStation)
+                const stations = yield* Effect.forEach(rawStations, (raw) =>
+                    decodeEddnStation(raw).pipe(
+                        Effect.mapError((error) => new DatabaseError({
+                            operation: 'decode.eddnStation', error
+                        }))
+                    )
+                )
 
-                return result.rows.map((row) => row.system_name as string)
+                return stations
             }),
 
-            findSystemsByGovernment: (government) => Effect.gen(function* () {
+            getThargoidWarForSystem: (systemName) => Effect.gen(function* () {
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_system_info WHERE government = ? COLLATE NOCASE",
-                        args: [government]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByGovernment.eddn', error
-                    })
-                })
-
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByStateAndGovernment: (state, government) => Effect.gen(function* () {
-                const resultState = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE government = ? COLLATE NOCASE AND state = ? COLLATE NOCASE",
-                        args: [government, state]
+                        sql: "SELECT * FROM eddn_thargoid_war WHERE system_name = ? COLLATE NOCASE",
+                        args: [systemName]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByStateAndGovernment.state.eddn', error
+                        operation: 'getThargoidWarForSystem.eddn', error
                     })
                 })
 
-                const resultActive = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE government = ? COLLATE NOCASE AND active_states LIKE ?",
-                        args: [government, `%${state}%`]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByStateAndGovernment.active.eddn', error
-                    })
-                })
+                const row = result.rows[0]
+                if (!row) return Option.none()
 
-                const systems1 = resultState.rows.map((row) => row.system_name as string)
-                const systems2 = resultActive.rows.map((row) => row.system_name as string)
+                const war = yield* decodeEddnThargoidWar(mapRowToEddnThargoidWar(row)).pipe(
+                    Effect.mapError((error) => new DatabaseError({
+                        operation: 'decode.eddnThargoidWar', error
+                    }))
+                )
 
-                return Array.from(new Set([...systems1, ...systems2]))
+                return Option.some(war)
             }),
 
-            findSystemsByPower: (power) => Effect.gen(function* () {
-                const resultSi = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_system_info WHERE controlling_power = ? COLLATE NOCASE",
-                        args: [power]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByPower.systemInfo.eddn', error
-                    })
-                })
+            getSystemDetailsBatch: (systemNames) => Effect.gen(function* () {
+                if (systemNames.length === 0) {
+                    return { systemInfos: [], conflicts: [], factions: [], powerplays: [], thargoidWars: [] }
+                }
 
-                const resultPp = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: `SELECT DISTINCT system_name FROM eddn_powerplay WHERE json_extract(power, '$[0]') = ? COLLATE NOCASE OR power LIKE ?`,
-                        args: [power, `%${power}%`]
-                    }),
+                // One read batch (a single round-trip) with a statement per table
+                const inList = systemNames.map(() => "?").join(", ")
+                const args = [...systemNames]
+                const [systemInfoRows, conflictRows, factionRows, powerplayRows, thargoidWarRows] = yield* Effect.tryPromise({
+                    try: () => client.batch([
+                        { sql: `SELECT * FROM eddn_system_info WHERE system_name COLLATE NOCASE IN (${inList}) ORDER BY updated_at DESC`, args },
+                        { sql: `SELECT * FROM eddn_conflict WHERE system_name COLLATE NOCASE IN (${inList}) ORDER BY updated_at DESC`, args },
+                        { sql: `SELECT * FROM eddn_faction WHERE system_name COLLATE NOCASE IN (${inList}) ORDER BY updated_at DESC`, args },
+                        { sql: `SELECT * FROM eddn_powerplay WHERE system_name COLLATE NOCASE IN (${inList}) ORDER BY updated_at DESC`, args },
+                        { sql: `SELECT * FROM eddn_thargoid_war WHERE system_name COLLATE NOCASE IN (${inList})`, args },
+                    ], "read"),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByPower.powerplay.eddn', error
+                        operation: 'getSystemDetailsBatch.eddn', error
                     })
                 })
 
-                const systems1 = resultSi.rows.map((row) => row.system_name as string)
-                const systems2 = resultPp.rows.map((row) => row.system_name as string)
+                const decodeRows = <A>(
+                    rows: typeof systemInfoRows,
+                    map: (row: Record<string, unknown>) => unknown,
+                    decode: (raw: unknown) => Effect.Effect<A, unknown>,
+                    operation: string
+                ) => Effect.forEach(rows!.rows, (row) =>
+                    decode(map(row)).pipe(
+                        Effect.mapError((error) => new DatabaseError({ operation, error }))
+                    )
+                )
 
-                return Array.from(new Set([...systems1, ...systems2]))
+                return {
+                    systemInfos: yield* decodeRows(systemInfoRows, mapRowToEddnSystemInfo, decodeEddnSystemInfo, 'decode.eddnSystemInfo'),
+                    conflicts: yield* decodeRows(conflictRows, mapRowToEddnConflict, decodeEddnConflict, 'decode.eddnConflict'),
+                    factions: yield* decodeRows(factionRows, mapRowToEddnFaction, decodeEddnFaction, 'decode.eddnFaction'),
+                    powerplays: yield* decodeRows(powerplayRows, mapRowToEddnPowerplay, decodeEddnPowerplay, 'decode.eddnPowerplay'),
+                    thargoidWars: yield* decodeRows(thargoidWarRows, mapRowToEddnThargoidWar, decodeEddnThargoidWar, 'decode.eddnThargoidWar'),
+                }
             }),
 
-            findSystemsByState: (state) => Effect.gen(function* () {
-                const resultState = yield* Effect.tryPromise({
+            searchSystems: (criteria, page) => Effect.gen(function* () {
+                const filter = buildSystemSearchFilter(criteria)
+                const direction = page.order === "asc" ? "ASC" : "DESC"
+                const comparison = page.order === "asc" ? ">" : "<"
+
+                // Sort key computed once per row; unknown influence/population sort below every known value
+                const sortKey = {
+                    name: { sql: "si.system_name", args: [] },
+                    population: { sql: "COALESCE(si.population, -1)", args: [] },
+                    updated_at: { sql: "si.updated_at", args: [] },
+                    influence: { sql: `COALESCE(${INFLUENCE_SQL}, -1)`, args: [criteria.faction ?? null] },
+                }[page.sort]
+
+                const keyset = page.after
+                    ? `WHERE sort_key ${comparison} ? OR (sort_key = ? AND system_name > ?)`
+                    : ""
+                const keysetArgs = page.after
+                    ? [page.after.value, page.after.value, page.after.systemName]
+                    : []
+
+                const rows = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE state = ? COLLATE NOCASE",
-                        args: [state]
+                        sql: `SELECT system_name, sort_key FROM (
+                                  SELECT si.system_name, ${sortKey.sql} AS sort_key
+                                  FROM eddn_system_info si
+                                  WHERE ${filter.where}
+                              )
+                              ${keyset}
+                              ORDER BY sort_key ${direction}, system_name ASC
+                              LIMIT ?`,
+                        args: [...sortKey.args, ...filter.args, ...keysetArgs, page.limit + 1]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByState.state.eddn', error
+                        operation: 'searchSystems.eddn', error
                     })
                 })
 
-                const resultActive = yield* Effect.tryPromise({
+                const count = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE active_states LIKE ?",
-                        args: [`%${state}%`]
+                        sql: `SELECT COUNT(*) AS total FROM eddn_system_info si WHERE ${filter.where}`,
+                        args: filter.args
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByState.active.eddn', error
+                        operation: 'searchSystems.count.eddn', error
                     })
                 })
 
-                const systems1 = resultState.rows.map((row) => row.system_name as string)
-                const systems2 = resultActive.rows.map((row) => row.system_name as string)
-
-                return Array.from(new Set([...systems1, ...systems2]))
-            }),
-
-            findSystemsByRecoveringState: (state) => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE recovering_states LIKE ?",
-                        args: [`%${state}%`]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByRecoveringState.eddn', error
-                    })
-                })
+                const systems = rows.rows.slice(0, page.limit).map((row) => ({
+                    systemName: row.system_name as string,
+                    sortValue: row.sort_key as string | number,
+                }))
 
-                return result.rows.map((row) => row.system_name as string)
+                return {
+                    systems,
+                    total: Number(count.rows[0]?.total ?? 0),
+                    hasMore: rows.rows.length > page.limit,
+                }
             }),
 
-            findSystemsByPendingState: (state) => Effect.gen(function* () {
+            findSystemsWithinRadius: (center, radius) => Effect.gen(function* () {
+                // Bounding box narrows the scan via the coords index before the exact distance check
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_faction WHERE pending_states LIKE ?",
-                        args: [`%${state}%`]
+                        sql: `SELECT DISTINCT system_name FROM eddn_system_info
+                              WHERE x BETWEEN ? AND ?
+                                AND y BETWEEN ? AND ?
+                                AND z BETWEEN ? AND ?
+                                AND (x - ?) * (x - ?) + (y - ?) * (y - ?) + (z - ?) * (z - ?) <= ?`,
+                        args: [
+                            center.x - radius, center.x + radius,
+                            center.y - radius, center.y + radius,
+                            center.z - radius, center.z + radius,
+                            center.x, center.x, center.y, center.y, center.z, center.z,
+                            radius * radius,
+                        ]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByPendingState.eddn', error
+                        operation: 'findSystemsWithinRadius.eddn', error
                     })
                 })
 
                 return result.rows.map((row) => row.system_name as string)
             }),
 
-            findSystemsWithConflicts: () => Effect.gen(function* () {
+            findFactionPresence: (factionName) => Effect.gen(function* () {
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_conflict",
-                        args: []
+                        sql: "SELECT * FROM eddn_faction WHERE name = ? COLLATE NOCASE ORDER BY system_name",
+                        args: [factionName]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsWithConflicts.eddn', error
-                    })
-                })
-
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByPopulation: (populationFilter) => Effect.gen(function* () {
-                let sql: string
-                let args: Array<number>
-
-                if (populationFilter.startsWith("<")) {
-                    const popVal = parseInt(populationFilter.slice(1), 10)
-                    sql = "SELECT DISTINCT system_name FROM eddn_system_info WHERE population < ?"
-                    args = [popVal]
-                } else if (populationFilter.startsWith(">")) {
-                    const popVal = parseInt(populationFilter.slice(1), 10)
-                    sql = "SELECT DISTINCT system_name FROM eddn_system_info WHERE population > ?"
-                    args = [popVal]
-                } else if (populationFilter.includes("-")) {
-                    const [minStr, maxStr] = populationFilter.split("-")
-                    const popMin = parseInt(minStr!, 10)
-                    const popMax = parseInt(maxStr!, 10)
-                    sql = "SELECT DISTINCT system_name FROM eddn_system_info WHERE population >= ? AND population <= ?"
-                    args = [popMin, popMax]
-                } else {
-                    const popVal = parseInt(populationFilter, 10)
-                    sql = "SELECT DISTINCT system_name FROM eddn_system_info WHERE population = ?"
-                    args = [popVal]
-                }
-
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({ sql, args }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByPopulation.eddn', error
+                        operation: 'findFactionPresence.eddn', error
                     })
                 })
 
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsByPowerplayState: (state) => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_powerplay WHERE powerplay_state = ? COLLATE NOCASE",
-                        args: [state]
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsByPowerplayState.eddn', error
-                    })
-                })
+                const rawFactions = result.rows.map(mapRowToEddnFaction)
+                const factions = yield* Effect.forEach(rawFactions, (raw) =>
+                    decodeEddnFaction(raw).pipe(
+                        Effect.mapError((error) => new DatabaseError({
+                            operation: 'decode.eddnFaction', error
+                        }))
+                    )
+                )
 
-                return result.rows.map((row) => row.system_name as string)
+                return factions
             }),
 
-            findSystemsWithConflictsForFaction: (factionName) => Effect.gen(function* () {
+            findConflictsForFaction: (factionName) => Effect.gen(function* () {
                 const result = yield* Effect.tryPromise({
                     try: () => client.execute({
-                        sql: "SELECT DISTINCT system_name FROM eddn_conflict WHERE faction1 = ? COLLATE NOCASE OR faction2 = ? COLLATE NOCASE",
+                        sql: "SELECT * FROM eddn_conflict WHERE faction1 = ? COLLATE NOCASE OR faction2 = ? COLLATE NOCASE ORDER BY system_name",
                         args: [factionName, factionName]
                     }),
                     catch: (error) => new DatabaseError({
-                        operation: 'findSystemsWithConflictsForFaction.eddn', error
+                        operation: 'findConflictsForFaction.eddn', error
                     })
                 })
 
-                return result.rows.map((row) => row.system_name as string)
-            }),
-
-            findSystemsWithControllingFactionInConflict: () => Effect.gen(function* () {
-                const result = yield* Effect.tryPromise({
-                    try: () => client.execute({
-                        sql: `SELECT DISTINCT s.system_name 
-                              FROM eddn_system_info s
-                              JOIN eddn_conflict c ON s.system_name = c.system_name
-                              WHERE s.controlling_faction = c.faction1 COLLATE NOCASE
-                                 OR s.controlling_faction = c.faction2 COLLATE NOCASE`,
-                        args: []
-                    }),
-                    catch: (error) => new DatabaseError({
-                        operation: 'findSystemsWithControllingFactionInConflict.eddn', error
-                    })
-                })
+                const rawConflicts = result.rows.map(mapRowToEddnConflict)
+                const conflicts = yield* Effect.forEach(rawConflicts, (raw) =>
+                    decodeEddnConflict(raw).pipe(
+                        Effect.mapError((error) => new DatabaseError({
+                            operation: 'decode.eddnConflict', error
+                        }))
+                    )
+                )
 
-                return result.rows.map((row) => row.system_name as string)
+                return conflicts
             }),
         })
     })
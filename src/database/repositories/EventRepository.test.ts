@@ -37,7 +37,8 @@ const ClientLayer = Layer.effect(
           cmdr TEXT,
           starsystem TEXT,
           systemaddress INTEGER,
-          raw_json TEXT
+          raw_json TEXT,
+          fingerprint TEXT UNIQUE
         );
 
         CREATE INDEX idx_event_tickid ON event(tickid);
@@ -170,6 +171,7 @@ describe("EventRepository", () => {
       starsystem: Option.some("Sol"),
       systemaddress: Option.some(12345678),
       rawJson: Option.some('{"event":"MarketBuy"}'),
+      fingerprint: Option.none(),
     });
 
     await runTest(
@@ -204,6 +206,7 @@ describe("EventRepository", () => {
       starsystem: Option.some("Sol"),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     const marketBuyEvent = new MarketBuyEvent({
@@ -246,6 +249,7 @@ describe("EventRepository", () => {
       starsystem: Option.some("Alpha Centauri"),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     const marketSell = new MarketSellEvent({
@@ -293,6 +297,7 @@ describe("EventRepository", () => {
       starsystem: Option.none(),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     const event2 = new Event({
@@ -305,6 +310,7 @@ describe("EventRepository", () => {
       starsystem: Option.none(),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     await runTest(
@@ -333,6 +339,7 @@ describe("EventRepository", () => {
       starsystem: Option.none(),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     const event2 = new Event({
@@ -345,6 +352,7 @@ describe("EventRepository", () => {
       starsystem: Option.none(),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     const event3 = new Event({
@@ -357,6 +365,7 @@ describe("EventRepository", () => {
       starsystem: Option.none(),
       systemaddress: Option.none(),
       rawJson: Option.none(),
+      fingerprint: Option.none(),
     });
 
     await runTest(
@@ -397,4 +406,50 @@ describe("EventRepository", () => {
       })
     );
   });
+
+  it("should skip an event whose fingerprint is already stored", async () => {
+    const retry = (id: string, fingerprint: Option.Option<string>) =>
+      new Event({
+        id: EventId.make(id),
+        event: "MarketBuy",
+        timestamp: "2024-01-16T10:00:00Z",
+        tickid: "tick_retry",
+        ticktime: "2024-01-16T00:00:00Z",
+        cmdr: Option.some("TestCommander"),
+        starsystem: Option.some("Sol"),
+        systemaddress: Option.none(),
+        rawJson: Option.none(),
+        fingerprint,
+      });
+
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* EventRepository;
+
+        expect(yield* repo.createEvent(retry("evt_retry_1", Option.some("fp_1")))).toBe(true);
+        // A client retry sends the same entry again under a new id
+        expect(
+          yield* repo.createEvent(retry("evt_retry_2", Option.some("fp_1")), {
+            marketBuy: [
+              new MarketBuyEvent({
+                id: MarketBuyEventId.make("mbe_retry"),
+                eventId: EventId.make("evt_retry_2"),
+                stock: Option.none(),
+                stockBracket: Option.none(),
+                value: Option.some(5000),
+                count: Option.some(10),
+              }),
+            ],
+          })
+        ).toBe(false);
+        // Events without a fingerprint are never considered duplicates
+        expect(yield* repo.createEvent(retry("evt_retry_3", Option.none()))).toBe(true);
+        expect(yield* repo.createEvent(retry("evt_retry_4", Option.none()))).toBe(true);
+
+        const stored = yield* repo.findByTickId("tick_retry");
+        expect(stored.map((e) => String(e.id)).sort()).toEqual(["evt_retry_1", "evt_retry_3", "evt_retry_4"]);
+        expect(Option.isNone(yield* repo.findById(EventId.make("evt_retry_2")))).toBe(true);
+      })
+    );
+  });
 });
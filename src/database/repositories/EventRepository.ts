@@ -15,6 +15,7 @@ const mapRowToEvent = (row: any): unknown => ({
   starsystem: row.starsystem === null ? undefined : row.starsystem,
   systemaddress: row.systemaddress === null ? undefined : row.systemaddress,
   rawJson: row.raw_json === null ? undefined : row.raw_json,
+  fingerprint: row.fingerprint == null ? undefined : row.fingerprint,
 });
 
 export const EventRepositoryLive = Layer.effect(
@@ -26,12 +27,13 @@ export const EventRepositoryLive = Layer.effect(
     return EventRepository.of({
       createEvent: (event, subEvents) =>
         Effect.gen(function* () {
-          // Insert main event
-          yield* Effect.tryPromise({
+          // Insert main event; an entry already stored (a client retry) is skipped with its sub-events
+          const inserted = yield* Effect.tryPromise({
             try: () =>
               client.execute({
-                sql: `INSERT INTO event (id, event, timestamp, tickid, ticktime, cmdr, starsystem, systemaddress, raw_json)
-                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                sql: `INSERT INTO event (id, event, timestamp, tickid, ticktime, cmdr, starsystem, systemaddress, raw_json, fingerprint)
+                      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                      ON CONFLICT(fingerprint) DO NOTHING`,
                 args: [
                   event.id,
                   event.event,
@@ -42,11 +44,13 @@ export const EventRepositoryLive = Layer.effect(
                   Option.getOrNull(event.starsystem),
                   Option.getOrNull(event.systemaddress),
                   Option.getOrNull(event.rawJson),
+                  Option.getOrNull(event.fingerprint),
                 ],
               }),
             catch: (error) =>
               new DatabaseError({ operation: "create.event", error }),
           });
+          if (inserted.rowsAffected === 0) return false;
 
           // Insert sub-events if provided
           if (subEvents?.marketBuy) {
@@ -345,6 +349,8 @@ export const EventRepositoryLive = Layer.effect(
               });
             }
           }
+
+          return true;
         }),
 
       findById: (id) =>
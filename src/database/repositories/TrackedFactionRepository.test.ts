@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Layer, Option } from "effect"
+import { TrackedFactionRepository } from "../../domain/repositories.ts"
+import { TrackedFactionRepositoryLive } from "./TrackedFactionRepository.ts"
+import { TursoClient } from "../client.ts"
+import { createClient } from "@libsql/client"
+import { TrackedFactionId } from "../../domain/ids.ts"
+import { TrackedFaction } from "../../domain/models.ts"
+
+// Helper to provide a fresh Test Layer for each test
+const ClientLayer = Layer.effect(
+  TursoClient,
+  Effect.gen(function* () {
+    const client = createClient({
+      url: "file::memory:",
+    })
+
+    // Initialize Schema
+    yield* Effect.tryPromise(() =>
+      client.executeMultiple(`
+        CREATE TABLE IF NOT EXISTS tracked_faction (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          webhook_url TEXT,
+          description TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `)
+    )
+
+    return client
+  })
+)
+
+const TestLayer = TrackedFactionRepositoryLive.pipe(
+    Layer.provide(ClientLayer)
+)
+
+const makeFaction = (id: string, name: string, webhookUrl: Option.Option<string> = Option.none()) =>
+  new TrackedFaction({
+    id: TrackedFactionId.make(id),
+    name,
+    webhookUrl,
+    description: Option.none(),
+    createdAt: new Date("2026-03-01T00:00:00Z"),
+    updatedAt: new Date("2026-03-01T00:00:00Z"),
+  })
+
+describe("TrackedFactionRepository", () => {
+  const runTest = (effect: Effect.Effect<any, any, TrackedFactionRepository>) =>
+    Effect.runPromise(Effect.provide(effect, TestLayer))
+
+  it("should create and retrieve a tracked faction by ID and name", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* TrackedFactionRepository
+        yield* repo.create(makeFaction("tf_1", "Allied Faction", Option.some("https://discord.com/webhook/1")))
+
+        const byId = yield* repo.findById(TrackedFactionId.make("tf_1"))
+        expect(Option.isSome(byId)).toBe(true)
+        if (Option.isSome(byId)) {
+            expect(byId.value.name).toBe("Allied Faction")
+            expect(Option.getOrNull(byId.value.webhookUrl)).toBe("https://discord.com/webhook/1")
+        }
+
+        const byName = yield* repo.findByName("Allied Faction")
+        expect(Option.isSome(byName)).toBe(true)
+      })
+    )
+  })
+
+  it("should reject duplicate names", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* TrackedFactionRepository
+        yield* repo.create(makeFaction("tf_2", "Duplicate Faction"))
+
+        const error = yield* repo.create(makeFaction("tf_3", "Duplicate Faction")).pipe(Effect.flip)
+        expect(error._tag).toBe("TrackedFactionAlreadyExistsError")
+      })
+    )
+  })
+
+  it("should update, list and delete tracked factions", async () => {
+    await runTest(
+      Effect.gen(function* () {
+        const repo = yield* TrackedFactionRepository
+        yield* repo.create(makeFaction("tf_4", "Zeta Faction"))
+        yield* repo.create(makeFaction("tf_5", "Alpha Faction"))
+
+        yield* repo.update(makeFaction("tf_4", "Zeta Faction", Option.some("https://discord.com/webhook/2")))
+        const all = yield* repo.findAll()
+        expect(all.map((f) => f.name)).toEqual(["Alpha Faction", "Zeta Faction"])
+        expect(Option.getOrNull(all[1]!.webhookUrl)).toBe("https://discord.com/webhook/2")
+
+        const missing = yield* repo.update(makeFaction("tf_missing", "Nobody")).pipe(Effect.flip)
+        expect(missing._tag).toBe("TrackedFactionNotFoundError")
+
+        yield* repo.delete(TrackedFactionId.make("tf_4"))
+        const remaining = yield* repo.findAll()
+        expect(remaining).toHaveLength(1)
+      })
+    )
+  })
+})
@@ -0,0 +1,131 @@
+import { Effect, Layer, Option, Schema } from "effect";
+import { TursoClient } from "../client.ts";
+import { TrackedFactionRepository } from "../../domain/repositories.ts";
+import { TrackedFaction } from "../../domain/models.ts";
+import { DatabaseError, TrackedFactionNotFoundError, TrackedFactionAlreadyExistsError } from "../../domain/errors.ts";
+import { mapRowToTrackedFaction } from "../../lib/utils.ts";
+
+export const TrackedFactionRepositoryLive = Layer.effect(
+    TrackedFactionRepository,
+    Effect.gen(function* () {
+        const client = yield* TursoClient
+        const decodeTrackedFaction = Schema.decodeUnknown(TrackedFaction)
+
+        const isDuplicateName = (error: any) =>
+            error?.message?.includes("UNIQUE constraint failed: tracked_faction.name")
+
+        const decodeRow = (row: unknown) =>
+            decodeTrackedFaction(mapRowToTrackedFaction(row)).pipe(
+                Effect.mapError((error) => new DatabaseError({
+                    operation: 'decode.trackedFaction', error
+                }))
+            )
+
+        return TrackedFactionRepository.of({
+            create: (faction) => Effect.tryPromise({
+                try: () => client.execute({
+                    sql: `INSERT INTO tracked_faction (id, name, webhook_url, description, created_at, updated_at)
+                          VALUES (?, ?, ?, ?, ?, ?)`,
+                    args: [
+                        faction.id,
+                        faction.name,
+                        Option.getOrNull(faction.webhookUrl),
+                        Option.getOrNull(faction.description),
+                        faction.createdAt.toISOString(),
+                        faction.updatedAt.toISOString(),
+                    ],
+                }),
+                catch: (error: any) => {
+                    if (isDuplicateName(error)) {
+                        return new TrackedFactionAlreadyExistsError({ name: faction.name })
+                    }
+                    return new DatabaseError({
+                        operation: 'create.trackedFaction', error
+                    })
+                }
+            }).pipe(Effect.asVoid),
+
+            findById: (id) => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({
+                        sql: "SELECT * FROM tracked_faction WHERE id = ?",
+                        args: [id]
+                    }),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findById.trackedFaction', error
+                    })
+                })
+
+                const row = result.rows[0]
+                if (!row) return Option.none()
+
+                return Option.some(yield* decodeRow(row))
+            }),
+
+            findByName: (name) => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({
+                        sql: "SELECT * FROM tracked_faction WHERE name = ?",
+                        args: [name]
+                    }),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findByName.trackedFaction', error
+                    })
+                })
+
+                const row = result.rows[0]
+                if (!row) return Option.none()
+
+                return Option.some(yield* decodeRow(row))
+            }),
+
+            findAll: () => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute("SELECT * FROM tracked_faction ORDER BY name"),
+                    catch: (error) => new DatabaseError({
+                        operation: 'findAll.trackedFaction', error
+                    })
+                })
+
+                return yield* Effect.forEach(result.rows, decodeRow)
+            }),
+
+            update: (faction) => Effect.gen(function* () {
+                const result = yield* Effect.tryPromise({
+                    try: () => client.execute({
+                        sql: `UPDATE tracked_faction
+                              SET name = ?, webhook_url = ?, description = ?, updated_at = ?
+                              WHERE id = ?`,
+                        args: [
+                            faction.name,
+                            Option.getOrNull(faction.webhookUrl),
+                            Option.getOrNull(faction.description),
+                            faction.updatedAt.toISOString(),
+                            faction.id
+                        ]
+                    }),
+                    catch: (error: any) => {
+                        if (isDuplicateName(error)) {
+                            return new TrackedFactionAlreadyExistsError({ name: faction.name })
+                        }
+                        return new DatabaseError({
+                            operation: "update.trackedFaction", error
+                        })
+                    }
+                })
+
+                if(result.rowsAffected === 0) {
+                    return yield* Effect.fail(new TrackedFactionNotFoundError({ id: faction.id }))
+                }
+            }),
+
+            delete: (id) => Effect.tryPromise({
+                try: () => client.execute({
+                    sql: "DELETE FROM tracked_faction WHERE id = ?",
+                    args: [id]
+                }),
+                catch: (error) => new DatabaseError({ operation: 'delete.trackedFaction', error })
+            }).pipe(Effect.asVoid)
+        })
+    })
+)
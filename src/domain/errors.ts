@@ -6,6 +6,8 @@ import {
   EventId,
   ObjectiveId,
   ProtectedFactionId,
+  AlertRuleId,
+  TrackedFactionId,
   RateId,
   UserId,
 } from "./ids.ts"
@@ -26,6 +28,16 @@ export class ValidationError extends Schema.TaggedError<ValidationError>()(
   }
 ) {}
 
+// Invalid system search `q=` expression; position is the 0-based offset of the offending token
+export class FilterExpressionError extends Schema.TaggedError<FilterExpressionError>()(
+  "FilterExpressionError",
+  {
+    expression: Schema.String,
+    position: Schema.Number,
+    message: Schema.String,
+  }
+) {}
+
 export class DatabaseError extends Schema.TaggedError<DatabaseError>()(
   "DatabaseError",
   {
@@ -151,6 +163,20 @@ export class ProtectedFactionNotFoundError extends Schema.TaggedError<ProtectedF
   }
 ) {}
 
+export class TrackedFactionNotFoundError extends Schema.TaggedError<TrackedFactionNotFoundError>()(
+  "TrackedFactionNotFoundError",
+  {
+    id: TrackedFactionId,
+  }
+) {}
+
+export class AlertRuleNotFoundError extends Schema.TaggedError<AlertRuleNotFoundError>()(
+  "AlertRuleNotFoundError",
+  {
+    id: AlertRuleId,
+  }
+) {}
+
 // External API Errors
 export class DiscordApiError extends Schema.TaggedError<DiscordApiError>()(
   "DiscordApiError",
@@ -192,9 +218,17 @@ export class ProtectedFactionAlreadyExistsError extends Schema.TaggedError<Prote
   }
 ) {}
 
+export class TrackedFactionAlreadyExistsError extends Schema.TaggedError<TrackedFactionAlreadyExistsError>()(
+  "TrackedFactionAlreadyExistsError",
+  {
+    name: Schema.String,
+  }
+) {}
+
 export const DomainError = Schema.Union(
   NotFoundError,
   ValidationError,
+  FilterExpressionError,
   DatabaseError,
   UserNotFoundError,
   UserAlreadyExistsError,
@@ -206,10 +240,13 @@ export const DomainError = Schema.Union(
   CmdrNotFoundError,
   ColonyNotFoundError,
   ProtectedFactionNotFoundError,
+  TrackedFactionNotFoundError,
+  AlertRuleNotFoundError,
   DiscordApiError,
   InaraApiError,
   EddnConnectionError,
   CmdrAlreadyExistsError,
-  ProtectedFactionAlreadyExistsError
+  ProtectedFactionAlreadyExistsError,
+  TrackedFactionAlreadyExistsError
 )
 export type DomainError = typeof DomainError.Type
\ No newline at end of file
@@ -57,6 +57,12 @@ export type ColonyId = typeof ColonyId.Type
 export const ProtectedFactionId = Schema.String.pipe(Schema.brand("ProtectedFactionId"))
 export type ProtectedFactionId = typeof ProtectedFactionId.Type
 
+export const AlertRuleId = Schema.String.pipe(Schema.brand("AlertRuleId"))
+export type AlertRuleId = typeof AlertRuleId.Type
+
+export const TrackedFactionId = Schema.String.pipe(Schema.brand("TrackedFactionId"))
+export type TrackedFactionId = typeof TrackedFactionId.Type
+
 // Event sub-type IDs
 export const MarketBuyEventId = Schema.String.pipe(Schema.brand("MarketBuyEventId"))
 export type MarketBuyEventId = typeof MarketBuyEventId.Type
@@ -110,6 +116,15 @@ export type EddnConflictId = typeof EddnConflictId.Type
 export const EddnPowerplayId = Schema.String.pipe(Schema.brand("EddnPowerplayId"))
 export type EddnPowerplayId = typeof EddnPowerplayId.Type
 
+export const EddnFactionHistoryId = Schema.String.pipe(Schema.brand("EddnFactionHistoryId"))
+export type EddnFactionHistoryId = typeof EddnFactionHistoryId.Type
+
+export const EddnStationId = Schema.String.pipe(Schema.brand("EddnStationId"))
+export type EddnStationId = typeof EddnStationId.Type
+
+export const EddnThargoidWarId = Schema.String.pipe(Schema.brand("EddnThargoidWarId"))
+export type EddnThargoidWarId = typeof EddnThargoidWarId.Type
+
 // Tick state
 export const TickId = Schema.String.pipe(Schema.brand("TickId"))
 export type TickId = typeof TickId.Type
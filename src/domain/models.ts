@@ -7,10 +7,13 @@ import {
   ColonyId,
   CommitCrimeEventId,
   EddnConflictId,
+  EddnFactionHistoryId,
+  EddnStationId,
   EddnFactionId,
   EddnMessageId,
   EddnPowerplayId,
   EddnSystemInfoId,
+  EddnThargoidWarId,
   Email,
   EventId,
   FactionId,
@@ -28,6 +31,8 @@ import {
   ObjectiveTargetId,
   ObjectiveTargetSettlementId,
   ProtectedFactionId,
+  AlertRuleId,
+  TrackedFactionId,
   RedeemVoucherEventId,
   SellExplorationDataEventId,
   SyntheticCZId,
@@ -93,6 +98,7 @@ export class Event extends Schema.Class<Event>("Event")({
   starsystem: Schema.optionalWith(Schema.String, { as: "Option" }),
   systemaddress: Schema.optionalWith(Schema.Number, { as: "Option" }),
   rawJson: Schema.optionalWith(Schema.String, { as: "Option" }),
+  fingerprint: Schema.optionalWith(Schema.String, { as: "Option" }), // Of the journal entry, unique
 }) {}
 
 export class MarketBuyEvent extends Schema.Class<MarketBuyEvent>("MarketBuyEvent")({
@@ -427,6 +433,38 @@ export class ProtectedFaction extends Schema.Class<ProtectedFaction>("ProtectedF
   protected: Schema.Boolean,
 }) {}
 
+export class TrackedFaction extends Schema.Class<TrackedFaction>("TrackedFaction")({
+  id: TrackedFactionId,
+  name: Schema.String,
+  webhookUrl: Schema.optionalWith(Schema.String, { as: "Option" }),
+  description: Schema.optionalWith(Schema.String, { as: "Option" }),
+  createdAt: Schema.Date,
+  updatedAt: Schema.Date,
+}) {}
+
+// Alert Rules
+export const AlertRuleType = Schema.Literal(
+  "influence_below",
+  "influence_above",
+  "gap_to_controller_below",
+  "pending_state"
+)
+export type AlertRuleType = typeof AlertRuleType.Type
+
+export class AlertRule extends Schema.Class<AlertRule>("AlertRule")({
+  id: AlertRuleId,
+  name: Schema.String,
+  ruleType: AlertRuleType,
+  factionName: Schema.optionalWith(Schema.String, { as: "Option" }), // None = every protected faction
+  systemName: Schema.optionalWith(Schema.String, { as: "Option" }), // None = any system
+  threshold: Schema.optionalWith(Schema.Number, { as: "Option" }), // Percent (0-100)
+  state: Schema.optionalWith(Schema.String, { as: "Option" }),
+  webhookUrl: Schema.optionalWith(Schema.String, { as: "Option" }),
+  enabled: Schema.Boolean,
+  createdAt: Schema.Date,
+  updatedAt: Schema.Date,
+}) {}
+
 // EDDN Models
 export class EddnMessage extends Schema.Class<EddnMessage>("EddnMessage")({
   id: EddnMessageId,
@@ -447,6 +485,12 @@ export class EddnSystemInfo extends Schema.Class<EddnSystemInfo>("EddnSystemInfo
   security: Schema.optionalWith(Schema.String, { as: "Option" }),
   government: Schema.optionalWith(Schema.String, { as: "Option" }),
   allegiance: Schema.optionalWith(Schema.String, { as: "Option" }),
+  economy: Schema.optionalWith(Schema.String, { as: "Option" }),
+  secondEconomy: Schema.optionalWith(Schema.String, { as: "Option" }),
+  systemAddress: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  x: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  y: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  z: Schema.optionalWith(Schema.Number, { as: "Option" }),
   updatedAt: Schema.Date,
 }) {}
 
@@ -459,6 +503,8 @@ export class EddnFaction extends Schema.Class<EddnFaction>("EddnFaction")({
   state: Schema.optionalWith(Schema.String, { as: "Option" }),
   allegiance: Schema.optionalWith(Schema.String, { as: "Option" }),
   government: Schema.optionalWith(Schema.String, { as: "Option" }),
+  happiness: Schema.optionalWith(Schema.String, { as: "Option" }),
+  myReputation: Schema.optionalWith(Schema.Number, { as: "Option" }), // Only from our commanders' journals
   recoveringStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
   activeStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
   pendingStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
@@ -492,6 +538,58 @@ export class EddnPowerplay extends Schema.Class<EddnPowerplay>("EddnPowerplay")(
   updatedAt: Schema.Date,
 }) {}
 
+// Per-tick influence/state snapshot of a faction in a system
+export class EddnFactionHistory extends Schema.Class<EddnFactionHistory>("EddnFactionHistory")({
+  id: EddnFactionHistoryId,
+  systemName: Schema.String,
+  factionName: Schema.String,
+  tickId: Schema.String,
+  influence: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  state: Schema.optionalWith(Schema.String, { as: "Option" }),
+  activeStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
+  pendingStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
+  recoveringStates: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
+  observedAt: Schema.Date,
+}) {}
+
+// Station (or settlement / fleet carrier) from the latest Docked event for its MarketID
+export class EddnStation extends Schema.Class<EddnStation>("EddnStation")({
+  id: EddnStationId,
+  eddnMessageId: Schema.optionalWith(EddnMessageId, { as: "Option" }),
+  marketId: Schema.Number,
+  systemName: Schema.String,
+  systemAddress: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  stationName: Schema.String,
+  stationType: Schema.optionalWith(Schema.String, { as: "Option" }),
+  controllingFaction: Schema.optionalWith(Schema.String, { as: "Option" }),
+  factionState: Schema.optionalWith(Schema.String, { as: "Option" }),
+  government: Schema.optionalWith(Schema.String, { as: "Option" }),
+  allegiance: Schema.optionalWith(Schema.String, { as: "Option" }),
+  economy: Schema.optionalWith(Schema.String, { as: "Option" }),
+  economies: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
+  services: Schema.optionalWith(Schema.Unknown, { as: "Option" }), // JSON
+  landingPadsSmall: Schema.optionalWith(Schema.Int, { as: "Option" }),
+  landingPadsMedium: Schema.optionalWith(Schema.Int, { as: "Option" }),
+  landingPadsLarge: Schema.optionalWith(Schema.Int, { as: "Option" }),
+  distFromStarLs: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  updatedAt: Schema.Date,
+}) {}
+
+// Thargoid war state of a system from the latest snapshot carrying a ThargoidWar block
+export class EddnThargoidWar extends Schema.Class<EddnThargoidWar>("EddnThargoidWar")({
+  id: EddnThargoidWarId,
+  eddnMessageId: Schema.optionalWith(EddnMessageId, { as: "Option" }),
+  systemName: Schema.String,
+  currentState: Schema.optionalWith(Schema.String, { as: "Option" }),
+  nextStateSuccess: Schema.optionalWith(Schema.String, { as: "Option" }),
+  nextStateFailure: Schema.optionalWith(Schema.String, { as: "Option" }),
+  successStateReached: Schema.optionalWith(Schema.Boolean, { as: "Option" }),
+  warProgress: Schema.optionalWith(Schema.Number, { as: "Option" }),
+  remainingPorts: Schema.optionalWith(Schema.Int, { as: "Option" }),
+  estimatedRemainingTime: Schema.optionalWith(Schema.String, { as: "Option" }),
+  updatedAt: Schema.Date,
+}) {}
+
 // Tick State
 export class TickState extends Schema.Class<TickState>("TickState")({
   id: TickId,
@@ -18,6 +18,8 @@ import type {
   SyntheticCZ,
   Objective,
   ProtectedFaction,
+  TrackedFaction,
+  AlertRule,
   TickState,
   User,
   FlaskUser,
@@ -27,6 +29,9 @@ import type {
   EddnFaction,
   EddnConflict,
   EddnPowerplay,
+  EddnFactionHistory,
+  EddnStation,
+  EddnThargoidWar,
 } from "./models.ts";
 import type {
   ActivityId,
@@ -38,6 +43,8 @@ import type {
   EventId,
   ObjectiveId,
   ProtectedFactionId,
+  TrackedFactionId,
+  AlertRuleId,
   TickId,
   UserId,
 } from "./ids.ts";
@@ -50,11 +57,64 @@ import type {
   ObjectiveNotFoundError,
   ProtectedFactionAlreadyExistsError,
   ProtectedFactionNotFoundError,
+  TrackedFactionAlreadyExistsError,
+  TrackedFactionNotFoundError,
+  AlertRuleNotFoundError,
   UserAlreadyExistsError,
   UserNotFoundError,
 } from "./errors.ts";
+import type { FilterExpression } from "../services/filter-expression.ts";
 
 
+// System summary search: every set criterion must match (string matches are case-insensitive)
+export interface SystemSearchCriteria {
+    namePattern?: string | undefined
+    faction?: string | undefined
+    controllingFaction?: string | undefined
+    controllingPower?: string | undefined
+    government?: string | undefined
+    economy?: string | undefined // Primary or secondary economy
+    happiness?: string | undefined // Of any faction in the system
+    stateGovernment?: { state: string; government: string } | undefined
+    power?: string | undefined
+    state?: string | undefined
+    recoveringState?: string | undefined
+    pendingState?: string | undefined
+    hasConflict?: boolean | undefined
+    population?: string | undefined // Exact, range (min-max), or comparison (<val, >val)
+    powerplayState?: string | undefined
+    thargoidState?: string | undefined
+    hasThargoidWar?: boolean | undefined
+    cfInConflict?: boolean | undefined // Controlling faction (or the controllingFaction criterion) in a conflict
+    near?: { center: { x: number; y: number; z: number }; radius: number } | undefined
+    expression?: FilterExpression | undefined // Parsed q= expression
+}
+
+export type SystemSearchSort = "influence" | "population" | "updated_at" | "name"
+
+// Keyset page: rows strictly after `after` in (sort value, system name) order
+export interface SystemSearchPage {
+    sort: SystemSearchSort
+    order: "asc" | "desc"
+    limit: number
+    after?: { value: string | number; systemName: string } | undefined
+}
+
+export interface SystemSearchResult {
+    systems: Array<{ systemName: string; sortValue: string | number }>
+    total: number
+    hasMore: boolean
+}
+
+// Everything the system summary shows for a batch of systems, matched case-insensitively
+export interface SystemDetailsBatch {
+    systemInfos: Array<EddnSystemInfo> // Latest snapshot first when a system has several
+    conflicts: Array<EddnConflict>
+    factions: Array<EddnFaction>
+    powerplays: Array<EddnPowerplay>
+    thargoidWars: Array<EddnThargoidWar>
+}
+
 export class UserRepository extends Context.Tag('UserRepository')<
     UserRepository,
     {
@@ -107,7 +167,7 @@ export class EventRepository extends Context.Tag('EventRepository')<
             factionKillBond?: FactionKillBondEvent[]
             syntheticGroundCZ?: SyntheticGroundCZ[]
             syntheticCZ?: SyntheticCZ[]
-        }): Effect.Effect<void, DatabaseError>
+        }): Effect.Effect<boolean, DatabaseError> // false when an event with the same fingerprint is already stored
         findById(id: EventId): Effect.Effect<Option.Option<Event>, DatabaseError>
         findByTickId(tickId: string): Effect.Effect<Array<Event>, DatabaseError>
         findByDateRange(startDate: string, endDate: string): Effect.Effect<Array<Event>, DatabaseError>
@@ -177,6 +237,30 @@ export class ProtectedFactionRepository extends Context.Tag('ProtectedFactionRep
     }
 >() {}
 
+export class TrackedFactionRepository extends Context.Tag('TrackedFactionRepository')<
+    TrackedFactionRepository,
+    {
+        create(faction: TrackedFaction): Effect.Effect<void, DatabaseError | TrackedFactionAlreadyExistsError>
+        findById(id: TrackedFactionId): Effect.Effect<Option.Option<TrackedFaction>, DatabaseError>
+        findByName(name: string): Effect.Effect<Option.Option<TrackedFaction>, DatabaseError>
+        findAll(): Effect.Effect<Array<TrackedFaction>, DatabaseError>
+        update(faction: TrackedFaction): Effect.Effect<void, DatabaseError | TrackedFactionNotFoundError | TrackedFactionAlreadyExistsError>
+        delete(id: TrackedFactionId): Effect.Effect<void, DatabaseError>
+    }
+>() {}
+
+export class AlertRuleRepository extends Context.Tag('AlertRuleRepository')<
+    AlertRuleRepository,
+    {
+        create(rule: AlertRule): Effect.Effect<void, DatabaseError>
+        findById(id: AlertRuleId): Effect.Effect<Option.Option<AlertRule>, DatabaseError>
+        findAll(): Effect.Effect<Array<AlertRule>, DatabaseError>
+        findEnabled(): Effect.Effect<Array<AlertRule>, DatabaseError>
+        update(rule: AlertRule): Effect.Effect<void, DatabaseError | AlertRuleNotFoundError>
+        delete(id: AlertRuleId): Effect.Effect<void, DatabaseError>
+    }
+>() {}
+
 export class TickRepository extends Context.Tag('TickRepository')<
     TickRepository,
     {
@@ -194,6 +278,8 @@ export class EddnRepository extends Context.Tag('EddnRepository')<
         upsertFaction(faction: EddnFaction): Effect.Effect<void, DatabaseError>
         upsertConflict(conflict: EddnConflict): Effect.Effect<void, DatabaseError>
         upsertPowerplay(powerplay: EddnPowerplay): Effect.Effect<void, DatabaseError>
+        upsertFactionHistory(entry: EddnFactionHistory): Effect.Effect<void, DatabaseError>
+        getFactionHistory(factionName: string, filter: { systemName?: string | undefined; from?: string | undefined; to?: string | undefined }): Effect.Effect<Array<EddnFactionHistory>, DatabaseError>
         findSystemInfo(systemName: string): Effect.Effect<Option.Option<EddnSystemInfo>, DatabaseError>
         findFactionsInSystem(systemName: string): Effect.Effect<Array<EddnFaction>, DatabaseError>
         findConflictsInSystem(systemName: string): Effect.Effect<Array<EddnConflict>, DatabaseError>
@@ -204,20 +290,13 @@ export class EddnRepository extends Context.Tag('EddnRepository')<
         getConflictsForSystem(systemName: string): Effect.Effect<Array<EddnConflict>, DatabaseError>
         getFactionsForSystem(systemName: string): Effect.Effect<Array<EddnFaction>, DatabaseError>
         getPowerplayForSystem(systemName: string): Effect.Effect<Array<EddnPowerplay>, DatabaseError>
-        findSystemsByNamePattern(pattern: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByFaction(factionName: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByControllingFaction(factionName: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByControllingPower(power: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByGovernment(government: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByStateAndGovernment(state: string, government: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByPower(power: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByState(state: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByRecoveringState(state: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByPendingState(state: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsWithConflicts(): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByPopulation(populationFilter: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsByPowerplayState(state: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsWithConflictsForFaction(factionName: string): Effect.Effect<Array<string>, DatabaseError>
-        findSystemsWithControllingFactionInConflict(): Effect.Effect<Array<string>, DatabaseError>
+        getStationsForSystem(systemName: string): Effect.Effect<Array<EddnStation>, DatabaseError>
+        getThargoidWarForSystem(systemName: string): Effect.Effect<Option.Option<EddnThargoidWar>, DatabaseError>
+        getSystemDetailsBatch(systemNames: ReadonlyArray<string>): Effect.Effect<SystemDetailsBatch, DatabaseError>
+        searchSystems(criteria: SystemSearchCriteria, page: SystemSearchPage): Effect.Effect<SystemSearchResult, DatabaseError>
+        findSystemsWithinRadius(center: { x: number; y: number; z: number }, radius: number): Effect.Effect<Array<string>, DatabaseError>
+        // Faction profile query methods
+        findFactionPresence(factionName: string): Effect.Effect<Array<EddnFaction>, DatabaseError>
+        findConflictsForFaction(factionName: string): Effect.Effect<Array<EddnConflict>, DatabaseError>
     }
 >() {}
\ No newline at end of file
@@ -0,0 +1,81 @@
+/**
+ * EDDN ingestion module
+ *
+ * Shared by the Node worker (scripts/eddn-worker.ts, run with
+ * --experimental-strip-types) and the in-process Bun client: keep imports in
+ * this folder to packages and relative `.ts` files so both runtimes load it.
+ */
+
+import type { Client } from "@libsql/client"
+import { ingestRawEddnMessage, cleanupOldMessages, type IngestOptions } from "./ingest.ts"
+import type { EddnTransport } from "./transports.ts"
+
+export * from "./schema.ts"
+export * from "./presence.ts"
+export * from "./ingest.ts"
+export * from "./policy.ts"
+export * from "./powerplay.ts"
+export * from "./transports.ts"
+export * from "./replay.ts"
+
+export interface IngestLoopLogger {
+  info: (message: string) => void
+  warn: (message: string) => void
+  debug: (message: string) => void
+}
+
+export interface IngestLoopOptions extends IngestOptions {
+  cleanupIntervalMs: number
+  retentionMs: number
+  log: IngestLoopLogger
+}
+
+export interface IngestStats {
+  saved: number
+  skipped: number
+  failed: number
+}
+
+/**
+ * Consume a transport until it ends, persisting every message and pruning old
+ * raw messages on the cleanup interval. Per-message failures are logged and
+ * counted; a transport failure rejects so the caller can reconnect.
+ */
+export const runIngestLoop = async (
+  client: Client,
+  transport: EddnTransport,
+  options: IngestLoopOptions
+): Promise<IngestStats> => {
+  const { log } = options
+  const stats: IngestStats = { saved: 0, skipped: 0, failed: 0 }
+  let lastCleanup = Date.now()
+
+  log.info(`Receiving messages from ${transport.name}`)
+
+  for await (const raw of transport.messages()) {
+    try {
+      const result = await ingestRawEddnMessage(client, raw, options)
+      if (result.status === "saved") {
+        stats.saved++
+      } else {
+        stats.skipped++
+        // Most of the feed is events we don't ingest; only log malformed ones
+        if (result.cause !== "unsupported") log.debug(`Skip: ${result.reason}`)
+      }
+    } catch (e) {
+      stats.failed++
+      log.warn(`Save failed: ${e instanceof Error ? e.message : e}`)
+    }
+
+    if (Date.now() - lastCleanup > options.cleanupIntervalMs) {
+      lastCleanup = Date.now()
+      cleanupOldMessages(client, options.retentionMs)
+        .then((n) => {
+          if (n > 0) log.info(`Cleaned up ${n} old messages`)
+        })
+        .catch((e) => log.warn(`Cleanup error: ${e}`))
+    }
+  }
+
+  return stats
+}
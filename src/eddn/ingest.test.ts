@@ -0,0 +1,834 @@
+/**
+ * EDDN ingest — fixture-based tests
+ *
+ * Feeds captured EDDN payloads (./fixtures) through the shared ingest module
+ * against an in-memory SQLite database:
+ *   1. FSDJump — system info, factions, per-tick history, conflicts, powerplay
+ *   2. Location replacing a snapshot — stale rows removed, presence events recorded
+ *   3. Unsupported event (Scan) — skipped, nothing written
+ *   4. Supported event failing its schema — skipped with the offending path
+ *   5. Not JSON / not an EDDN envelope — skipped
+ *   6. JSONL file transport through runIngestLoop
+ *
+ * Replay (replayEddnFile):
+ *   7. Gzipped capture — dated by message time, older messages skipped as stale
+ *   8. Archived messages never roll back state from the live feed
+ *
+ * Out-of-order delivery:
+ *   9.  Delayed upload older than the stored snapshot — skipped as stale, history kept
+ *   10. Client clock running ahead — dated no later than the gateway
+ *
+ * Ingest policy:
+ *   11. Legacy galaxy data — rejected and counted, Live data untouched
+ *   12. Uploader software deny and allow lists
+ *
+ * Other journal events:
+ *   13. CarrierJump — updates the system snapshot like FSDJump
+ *   14. Docked — station upserted by MarketID, fleet carriers follow their jumps
+ *   15. ApproachSettlement — settlement upserted by body and name
+ *
+ * Asset ownership:
+ *   16. Station changing owner — asset_lost recorded, nothing on replay
+ *   17. Settlement changing owner — reported once, by its station when docked at
+ *
+ * Commander journals (POST /events):
+ *   18. FSDJump from one of our commanders — same snapshot, attributed to "cmdr"
+ *
+ * Powerplay history:
+ *   19. One row per system and cycle — latest observation in a cycle wins, even delayed
+ *
+ * Thargoid war:
+ *   20. ThargoidWar block stored per system, cleared by a snapshot without one
+ *
+ * Economies and happiness:
+ *   21. Journal symbols stored as readable names, reputation from our commanders kept across snapshots
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { createClient, type Client } from "@libsql/client"
+import { mkdtemp, readFile, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { gzipSync } from "node:zlib"
+import {
+  ingestJournalEvent,
+  ingestRawEddnMessage,
+  isLegacyGameVersion,
+  jsonlFileTransport,
+  loadPowerSystems,
+  loadRejectionStats,
+  replayEddnFile,
+  runIngestLoop,
+  type IngestPolicy,
+} from "./index.ts"
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const FACTION = "Communism Interstellar Union"
+const RIVAL = "Rival Corp"
+const SYSTEM = "Alpha Centauri"
+const TICK = "zoy-test000000000000000000"
+const NOW = new Date("2026-02-26T16:00:00.000Z")
+
+const fixture = (name: string) => readFile(join(import.meta.dir, "fixtures", name), "utf-8")
+
+/** Fixtures as JSON lines, the way captures are archived */
+const captureLines = (names: string[]) =>
+  Promise.all(names.map(async (name) => JSON.stringify(JSON.parse(await fixture(name)))))
+
+const tempFile = async (name: string) => join(await mkdtemp(join(tmpdir(), "eddn-")), name)
+
+// ---------------------------------------------------------------------------
+// DB helpers
+// ---------------------------------------------------------------------------
+
+const SCHEMA = `
+  CREATE TABLE eddn_message (
+    id TEXT PRIMARY KEY,
+    schema_ref TEXT NOT NULL,
+    header_gateway_timestamp TEXT,
+    message_type TEXT,
+    message_json TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'eddn',
+    timestamp TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_system_info (
+    id TEXT PRIMARY KEY,
+    eddn_message_id TEXT,
+    system_name TEXT NOT NULL,
+    controlling_faction TEXT,
+    controlling_power TEXT,
+    population INTEGER,
+    security TEXT,
+    government TEXT,
+    allegiance TEXT,
+    economy TEXT,
+    second_economy TEXT,
+    updated_at TEXT NOT NULL,
+    system_address INTEGER,
+    x REAL,
+    y REAL,
+    z REAL,
+    source TEXT NOT NULL DEFAULT 'eddn'
+  );
+
+  CREATE TABLE eddn_faction (
+    id TEXT PRIMARY KEY,
+    eddn_message_id TEXT,
+    system_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    influence REAL,
+    state TEXT,
+    allegiance TEXT,
+    government TEXT,
+    happiness TEXT,
+    my_reputation REAL,
+    recovering_states TEXT,
+    active_states TEXT,
+    pending_states TEXT,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_conflict (
+    id TEXT PRIMARY KEY,
+    eddn_message_id TEXT,
+    system_name TEXT NOT NULL,
+    faction1 TEXT,
+    faction2 TEXT,
+    stake1 TEXT,
+    stake2 TEXT,
+    won_days1 INTEGER,
+    won_days2 INTEGER,
+    status TEXT,
+    war_type TEXT,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_powerplay (
+    id TEXT PRIMARY KEY,
+    eddn_message_id TEXT,
+    system_name TEXT NOT NULL,
+    power TEXT,
+    powerplay_state TEXT,
+    control_progress INTEGER,
+    reinforcement INTEGER,
+    undermining INTEGER,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_powerplay_history (
+    id                TEXT PRIMARY KEY,
+    system_name       TEXT NOT NULL,
+    cycle             TEXT NOT NULL,
+    controlling_power TEXT,
+    powers            TEXT,
+    powerplay_state   TEXT,
+    control_progress  REAL,
+    reinforcement     INTEGER,
+    undermining       INTEGER,
+    conflict_progress TEXT,
+    observed_at       TEXT NOT NULL,
+    UNIQUE (system_name, cycle)
+  );
+
+  CREATE TABLE eddn_thargoid_war (
+    id                       TEXT PRIMARY KEY,
+    eddn_message_id          TEXT,
+    system_name              TEXT NOT NULL UNIQUE,
+    current_state            TEXT,
+    next_state_success       TEXT,
+    next_state_failure       TEXT,
+    success_state_reached    INTEGER,
+    war_progress             REAL,
+    remaining_ports          INTEGER,
+    estimated_remaining_time TEXT,
+    updated_at               TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_faction_history (
+    id                TEXT PRIMARY KEY,
+    system_name       TEXT NOT NULL,
+    faction_name      TEXT NOT NULL,
+    tick_id           TEXT NOT NULL,
+    influence         REAL,
+    state             TEXT,
+    active_states     TEXT,
+    pending_states    TEXT,
+    recovering_states TEXT,
+    observed_at       TEXT NOT NULL,
+    UNIQUE (system_name, faction_name, tick_id)
+  );
+
+  CREATE TABLE faction_presence_event (
+    id                  TEXT PRIMARY KEY,
+    system_name         TEXT NOT NULL,
+    faction_name        TEXT NOT NULL,
+    event_type          TEXT NOT NULL,
+    previous_controller TEXT,
+    new_controller      TEXT,
+    influence           REAL,
+    asset_name          TEXT,
+    detected_at         TEXT NOT NULL,
+    delivered_at        TEXT
+  );
+
+  CREATE TABLE tick_state (
+    id TEXT PRIMARY KEY,
+    tickid TEXT NOT NULL UNIQUE,
+    ticktime TEXT NOT NULL,
+    last_updated TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_station (
+    id                  TEXT PRIMARY KEY,
+    eddn_message_id     TEXT,
+    market_id           INTEGER NOT NULL UNIQUE,
+    system_name         TEXT NOT NULL,
+    system_address      INTEGER,
+    station_name        TEXT NOT NULL,
+    station_type        TEXT,
+    controlling_faction TEXT,
+    faction_state       TEXT,
+    government          TEXT,
+    allegiance          TEXT,
+    economy             TEXT,
+    economies           TEXT,
+    services            TEXT,
+    landing_pads_small  INTEGER,
+    landing_pads_medium INTEGER,
+    landing_pads_large  INTEGER,
+    dist_from_star_ls   REAL,
+    updated_at          TEXT NOT NULL
+  );
+
+  CREATE TABLE eddn_settlement (
+    id                  TEXT PRIMARY KEY,
+    eddn_message_id     TEXT,
+    system_name         TEXT NOT NULL,
+    system_address      INTEGER,
+    name                TEXT NOT NULL,
+    market_id           INTEGER,
+    body_name           TEXT NOT NULL,
+    body_id             INTEGER,
+    latitude            REAL,
+    longitude           REAL,
+    controlling_faction TEXT,
+    faction_state       TEXT,
+    government          TEXT,
+    allegiance          TEXT,
+    economy             TEXT,
+    updated_at          TEXT NOT NULL,
+    UNIQUE (system_name, body_name, name)
+  );
+
+  CREATE TABLE eddn_rejection (
+    reason        TEXT NOT NULL,
+    software_name TEXT NOT NULL,
+    count         INTEGER NOT NULL DEFAULT 0,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at  TEXT NOT NULL,
+    PRIMARY KEY (reason, software_name)
+  );
+
+  CREATE TABLE tracked_faction (
+    id          TEXT PRIMARY KEY,
+    name        TEXT NOT NULL UNIQUE,
+    webhook_url TEXT,
+    description TEXT,
+    created_at  TEXT NOT NULL,
+    updated_at  TEXT NOT NULL
+  );
+`
+
+let client: Client
+
+const count = async (table: string) => {
+  const result = await client.execute(`SELECT COUNT(*) AS n FROM ${table}`)
+  return Number(result.rows[0]!.n)
+}
+
+const ingest = async (raw: string, policy?: IngestPolicy) =>
+  ingestRawEddnMessage(client, raw, { primaryFaction: FACTION, now: NOW, ...(policy ? { policy } : {}) })
+
+/** A fixture with message fields overridden, observed at the given time */
+const withMessage = async (name: string, at: string, message: Record<string, unknown>) => {
+  const parsed = JSON.parse(await fixture(name))
+  return JSON.stringify({
+    ...parsed,
+    header: { ...parsed.header, gatewayTimestamp: at },
+    message: { ...parsed.message, timestamp: at, ...message },
+  })
+}
+
+/** A fixture with header fields overridden */
+const withHeader = async (name: string, header: Record<string, string>) => {
+  const message = JSON.parse(await fixture(name))
+  return JSON.stringify({ ...message, header: { ...message.header, ...header } })
+}
+
+beforeEach(async () => {
+  client = createClient({ url: "file::memory:" })
+  await client.executeMultiple(SCHEMA)
+  await client.execute({
+    sql: "INSERT INTO tick_state (id, tickid, ticktime, last_updated) VALUES (?, ?, ?, ?)",
+    args: ["t1", TICK, "2026-02-26T12:00:00.000Z", "2026-02-26T12:00:00.000Z"],
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("ingestRawEddnMessage", () => {
+  it("1. persists an FSDJump snapshot", async () => {
+    const result = await ingest(await fixture("fsdjump.json"))
+
+    expect(result).toMatchObject({ status: "saved", messageType: "FSDJump", systemName: SYSTEM })
+
+    const message = (await client.execute("SELECT * FROM eddn_message")).rows[0]!
+    expect(message.schema_ref).toBe("https://eddn.edcd.io/schemas/journal/1")
+    expect(message.header_gateway_timestamp).toBe("2026-02-26T14:03:11.482913Z")
+    expect(message.timestamp).toBe(NOW.toISOString())
+    // Raw payload is kept whole, including fields we don't model
+    expect(JSON.parse(String(message.message_json)).message.SystemEconomy).toBe("$economy_HighTech;")
+
+    const info = (await client.execute("SELECT * FROM eddn_system_info")).rows[0]!
+    expect(info.controlling_faction).toBe(FACTION)
+    expect(info.controlling_power).toBe("Nakato Kaine")
+    expect(info.population).toBe(1400000)
+    expect(info.system_address).toBe(1178708478315)
+    expect([info.x, info.y, info.z]).toEqual([3.03125, -0.09375, 3.15625])
+
+    const factions = await client.execute("SELECT * FROM eddn_faction ORDER BY influence DESC")
+    expect(factions.rows.map((r) => r.name)).toEqual([FACTION, RIVAL, "Alpha Centauri Free"])
+    expect(JSON.parse(String(factions.rows[0]!.pending_states))).toEqual([{ State: "Expansion", Trend: 0 }])
+    expect(factions.rows[1]!.pending_states).toBeNull()
+
+    const history = await client.execute("SELECT DISTINCT tick_id FROM eddn_faction_history")
+    expect(history.rows.map((r) => r.tick_id)).toEqual([TICK])
+    expect(await count("eddn_faction_history")).toBe(3)
+
+    const conflict = (await client.execute("SELECT * FROM eddn_conflict")).rows[0]!
+    expect(conflict).toMatchObject({ faction1: FACTION, faction2: RIVAL, stake1: "Hutton Orbital", won_days1: 2, won_days2: 1, war_type: "war" })
+
+    const powerplay = (await client.execute("SELECT * FROM eddn_powerplay")).rows[0]!
+    expect(JSON.parse(String(powerplay.power))).toEqual(["Nakato Kaine", "Edmund Mahon"])
+    expect(powerplay.powerplay_state).toBe("Fortified")
+
+    // First sighting of the system: nothing to diff against
+    expect(await count("faction_presence_event")).toBe(0)
+  })
+
+  it("2. replaces the previous snapshot and records presence changes", async () => {
+    await ingest(await fixture("fsdjump.json"))
+    await ingest(await fixture("location.json"))
+
+    expect(await count("eddn_message")).toBe(2)
+    expect(await count("eddn_system_info")).toBe(1)
+    expect(await count("eddn_faction")).toBe(2)
+    expect(await count("eddn_conflict")).toBe(0)
+    // Both observations fall in the same tick: upserted, not duplicated
+    expect(await count("eddn_faction_history")).toBe(3)
+
+    const powerplay = (await client.execute("SELECT power FROM eddn_powerplay")).rows[0]!
+    expect(JSON.parse(String(powerplay.power))).toEqual(["Nakato Kaine"])
+
+    const events = await client.execute("SELECT faction_name, event_type, previous_controller, new_controller, influence FROM faction_presence_event ORDER BY event_type")
+    expect(events.rows.map((r) => [r.faction_name, r.event_type, r.previous_controller, r.new_controller, r.influence])).toEqual([
+      [FACTION, "control_lost", FACTION, RIVAL, null],
+      [FACTION, "presence_lost", FACTION, RIVAL, 0.412],
+    ])
+  })
+
+  it("3. skips events without a handler", async () => {
+    const result = await ingest(await fixture("scan.json"))
+
+    expect(result).toEqual({ status: "skipped", cause: "unsupported", reason: "unsupported event: Scan" })
+    expect(await count("eddn_message")).toBe(0)
+  })
+
+  it("4. skips supported events that fail their schema", async () => {
+    const result = await ingest(await fixture("fsdjump-invalid.json"))
+
+    expect(result.status).toBe("skipped")
+    if (result.status === "skipped") expect(result.reason).toStartWith("FSDJump: Factions.0.Influence")
+    expect(await count("eddn_message")).toBe(0)
+    expect(await count("eddn_system_info")).toBe(0)
+  })
+
+  it("5. skips payloads that are not EDDN envelopes", async () => {
+    const notJson = await ingest("{ not json")
+    expect(notJson.status).toBe("skipped")
+    if (notJson.status === "skipped") expect(notJson.reason).toStartWith("invalid JSON")
+
+    const noSchemaRef = await ingest(JSON.stringify({ header: {}, message: { event: "FSDJump" } }))
+    expect(noSchemaRef.status).toBe("skipped")
+    if (noSchemaRef.status === "skipped") expect(noSchemaRef.reason).toContain("$schemaRef")
+
+    expect(await count("eddn_message")).toBe(0)
+  })
+})
+
+describe("runIngestLoop", () => {
+  it("6. ingests a JSONL capture through the file transport", async () => {
+    const lines = await captureLines(["fsdjump.json", "scan.json", "fsdjump-invalid.json", "location.json"])
+    const path = await tempFile("capture.jsonl")
+    await writeFile(path, [lines[0], "garbage", ...lines.slice(1)].join("\n"))
+
+    const logged: string[] = []
+    const log = { info: () => {}, warn: (m: string) => logged.push(m), debug: (m: string) => logged.push(m) }
+
+    const stats = await runIngestLoop(client, jsonlFileTransport(path), {
+      primaryFaction: FACTION,
+      cleanupIntervalMs: 3_600_000,
+      retentionMs: 86_400_000,
+      log,
+    })
+
+    expect(stats).toEqual({ saved: 2, skipped: 3, failed: 0 })
+    expect(await count("eddn_message")).toBe(2)
+    // Unsupported events are routine and not logged; malformed payloads are
+    expect(logged).toHaveLength(2)
+  })
+})
+
+describe("replayEddnFile", () => {
+  it("7. replays a gzipped capture, skipping messages older than the stored state", async () => {
+    // The second FSDJump (14:03) is older than the Location (15:20) replayed before it
+    const path = await tempFile("capture.jsonl.gz")
+    const lines = await captureLines(["fsdjump.json", "location.json", "scan.json", "fsdjump.json"])
+    await writeFile(path, gzipSync(lines.join("\n")))
+
+    const stats = await replayEddnFile(client, path, { primaryFaction: FACTION })
+
+    expect(stats).toEqual({ lines: 4, saved: 2, stale: 1, unsupported: 1, invalid: 0, rejected: 0, failed: 0 })
+
+    const info = (await client.execute("SELECT controlling_faction, updated_at FROM eddn_system_info")).rows[0]!
+    expect(info.controlling_faction).toBe(RIVAL)
+    expect(info.updated_at).toBe("2026-02-26T15:20:41.000Z") // journal time, not replay time
+
+    const history = await client.execute({
+      sql: "SELECT observed_at FROM eddn_faction_history WHERE faction_name = ?",
+      args: [RIVAL],
+    })
+    expect(history.rows[0]!.observed_at).toBe("2026-02-26T15:20:41.000Z")
+
+    // Control changed hands between the two snapshots, but that is history: no presence notifications
+    expect(await count("faction_presence_event")).toBe(0)
+  })
+
+  it("8. never rolls back state received from the live feed", async () => {
+    await ingest(await fixture("location.json")) // live, observed 15:20
+
+    const path = await tempFile("capture.jsonl")
+    await writeFile(path, (await captureLines(["fsdjump.json"])).join("\n"))
+
+    const stats = await replayEddnFile(client, path, { primaryFaction: FACTION })
+
+    expect(stats.stale).toBe(1)
+    const info = (await client.execute("SELECT controlling_faction FROM eddn_system_info")).rows[0]!
+    expect(info.controlling_faction).toBe(RIVAL)
+    expect(await count("eddn_message")).toBe(1)
+  })
+})
+
+describe("out-of-order messages", () => {
+  it("9. skips a delayed upload older than the stored snapshot but keeps its history", async () => {
+    // A tick at 15:00 separates the two observations
+    await client.execute({
+      sql: "INSERT INTO tick_state (id, tickid, ticktime, last_updated) VALUES (?, ?, ?, ?)",
+      args: ["t2", "zoy-later", "2026-02-26T15:00:00.000Z", "2026-02-26T15:00:00.000Z"],
+    })
+    await ingest(await fixture("location.json")) // observed 15:20
+    const result = await ingest(await fixture("fsdjump.json")) // observed 14:03, arriving later
+
+    expect(result).toEqual({
+      status: "skipped",
+      cause: "stale",
+      reason: "stale: observed 2026-02-26T14:03:09.000Z, holding 2026-02-26T15:20:41.000Z",
+    })
+    const info = (await client.execute("SELECT controlling_faction FROM eddn_system_info")).rows[0]!
+    expect(info.controlling_faction).toBe(RIVAL)
+    expect(await count("eddn_message")).toBe(1)
+    expect(await count("eddn_faction")).toBe(2)
+
+    // The delayed upload is still the latest observation of the earlier tick
+    const history = await client.execute("SELECT tick_id, COUNT(*) AS factions FROM eddn_faction_history GROUP BY tick_id ORDER BY tick_id")
+    expect(history.rows.map((r) => [r.tick_id, r.factions])).toEqual([
+      ["zoy-later", 2],
+      [TICK, 3],
+    ])
+  })
+
+  it("10. dates a message from a clock running ahead no later than the gateway", async () => {
+    const message = JSON.parse(await fixture("fsdjump.json"))
+    message.message.timestamp = "2027-01-01T00:00:00Z"
+    await ingest(JSON.stringify(message))
+
+    const info = (await client.execute("SELECT updated_at FROM eddn_system_info")).rows[0]!
+    expect(info.updated_at).toBe("2026-02-26T14:03:11.482Z")
+
+    // Without any timestamp a live message is as fresh as its arrival
+    delete message.message.timestamp
+    delete message.header.gatewayTimestamp
+    await ingest(JSON.stringify(message))
+    const fresh = (await client.execute("SELECT updated_at FROM eddn_system_info")).rows[0]!
+    expect(fresh.updated_at).toBe(NOW.toISOString())
+  })
+})
+
+describe("ingest policy", () => {
+  it("11. rejects and counts Legacy galaxy data", async () => {
+    expect(isLegacyGameVersion("3.8.0.407")).toBe(true)
+    expect(isLegacyGameVersion("CAPI-Legacy-market")).toBe(true)
+    expect(isLegacyGameVersion("4.1.0.100")).toBe(false)
+    expect(isLegacyGameVersion("CAPI-Live-market")).toBe(false)
+    expect(isLegacyGameVersion(undefined)).toBe(false)
+
+    await ingest(await fixture("location.json"))
+    const legacy = await withHeader("fsdjump.json", { gameversion: "3.8.0.407", gamebuild: "r269979/r0 " })
+
+    const result = await ingest(legacy)
+    expect(result).toEqual({
+      status: "skipped",
+      cause: "rejected",
+      reason: "FSDJump: legacy game version 3.8.0.407 (r269979/r0 )",
+    })
+
+    // A replayed capture mixing both galaxies keeps only Live data
+    const path = await tempFile("capture.jsonl")
+    await writeFile(path, [legacy, legacy].join("\n"))
+    const stats = await replayEddnFile(client, path, { primaryFaction: FACTION })
+    expect(stats.rejected).toBe(2)
+
+    const info = (await client.execute("SELECT controlling_faction FROM eddn_system_info")).rows[0]!
+    expect(info.controlling_faction).toBe(RIVAL)
+    expect(await count("eddn_message")).toBe(1)
+
+    const rejections = await loadRejectionStats(client)
+    expect(rejections).toHaveLength(1)
+    expect(rejections[0]).toMatchObject({ reason: "legacy", softwareName: "E:D Market Connector [Windows]", count: 3 })
+  })
+
+  it("12. filters uploader software by deny and allow lists", async () => {
+    const deny: IngestPolicy = { softwareAllow: [], softwareDeny: ["e:d market connector"] }
+    const denied = await ingest(await fixture("fsdjump.json"), deny)
+    expect(denied).toMatchObject({ status: "skipped", cause: "rejected", reason: "FSDJump: software denied: E:D Market Connector [Windows]" })
+    expect((await ingest(await fixture("location.json"), deny)).status).toBe("saved")
+
+    const allow: IngestPolicy = { softwareAllow: ["EDDiscovery"], softwareDeny: [] }
+    const notAllowed = await ingest(await withHeader("fsdjump.json", { softwareName: "SomeTool" }), allow)
+    expect(notAllowed).toMatchObject({ status: "skipped", cause: "rejected", reason: "FSDJump: software not allowed: SomeTool" })
+
+    // Unsupported events are dropped before the policy and not counted
+    expect(await ingest(await fixture("scan.json"), deny)).toMatchObject({ cause: "unsupported" })
+
+    const rejections = await loadRejectionStats(client)
+    expect(rejections.map((r) => [r.reason, r.softwareName, r.count])).toEqual([
+      ["software_denied", "E:D Market Connector [Windows]", 1],
+      ["software_not_allowed", "SomeTool", 1],
+    ])
+  })
+})
+
+describe("other journal events", () => {
+  it("13. updates the system snapshot from a CarrierJump", async () => {
+    await ingest(await fixture("fsdjump.json"))
+    const result = await ingest(await fixture("carrierjump.json"))
+
+    expect(result).toMatchObject({ status: "saved", messageType: "CarrierJump", systemName: SYSTEM })
+
+    const info = (await client.execute("SELECT updated_at FROM eddn_system_info")).rows[0]!
+    expect(info.updated_at).toBe("2026-02-26T15:40:10.000Z")
+
+    const faction = await client.execute({ sql: "SELECT influence FROM eddn_faction WHERE name = ?", args: [FACTION] })
+    expect(faction.rows[0]!.influence).toBe(0.432)
+    expect(await count("eddn_conflict")).toBe(1)
+    // Same tick as the FSDJump: history upserted with the later observation
+    expect(await count("eddn_faction_history")).toBe(3)
+    // The carrier itself is a station only once someone docks at it
+    expect(await count("eddn_station")).toBe(0)
+  })
+
+  it("14. records stations from Docked, keyed by MarketID", async () => {
+    const result = await ingest(await fixture("docked.json"))
+    expect(result).toMatchObject({ status: "saved", messageType: "Docked", systemName: SYSTEM })
+
+    const station = (await client.execute("SELECT * FROM eddn_station")).rows[0]!
+    expect(station).toMatchObject({
+      market_id: 128000000,
+      station_name: "Hutton Orbital",
+      station_type: "Outpost",
+      controlling_faction: FACTION,
+      faction_state: "War",
+      economy: "$economy_Industrial;",
+      landing_pads_large: 0,
+      dist_from_star_ls: 6784.4,
+      updated_at: "2026-02-26T15:21:00.000Z",
+    })
+    expect(JSON.parse(String(station.services))).toContain("outfitting")
+    // Docking never touches the system snapshot
+    expect(await count("eddn_system_info")).toBe(0)
+
+    // A fleet carrier moves: its row follows it rather than lingering in the old system
+    const carrier = JSON.parse(await fixture("docked.json"))
+    Object.assign(carrier.message, { StationName: "X9Z-B4K", StationType: "FleetCarrier", MarketID: 3709999872 })
+    await ingest(JSON.stringify(carrier))
+    carrier.message.StarSystem = "Sol"
+    carrier.message.timestamp = "2026-02-26T15:50:00Z"
+    carrier.header.gatewayTimestamp = "2026-02-26T15:50:02Z"
+    await ingest(JSON.stringify(carrier))
+
+    const rows = await client.execute("SELECT station_name, system_name FROM eddn_station ORDER BY station_name")
+    expect(rows.rows.map((r) => [r.station_name, r.system_name])).toEqual([
+      ["Hutton Orbital", SYSTEM],
+      ["X9Z-B4K", "Sol"],
+    ])
+
+    // An older docking report for the same station is stale
+    const older = JSON.parse(await fixture("docked.json"))
+    older.message.timestamp = "2026-02-26T15:00:00Z"
+    older.message.StationFaction.Name = RIVAL
+    expect(await ingest(JSON.stringify(older))).toMatchObject({ status: "skipped", cause: "stale" })
+  })
+
+  it("15. records settlements from ApproachSettlement", async () => {
+    const result = await ingest(await fixture("approachsettlement.json"))
+    expect(result).toMatchObject({ status: "saved", messageType: "ApproachSettlement", systemName: SYSTEM })
+
+    const settlement = (await client.execute("SELECT * FROM eddn_settlement")).rows[0]!
+    expect(settlement).toMatchObject({
+      name: "Kirk Vision Facility",
+      body_name: "Alpha Centauri B 2",
+      market_id: 3950500864,
+      latitude: -12.401,
+      longitude: 148.23,
+      controlling_faction: FACTION,
+      economy: "$economy_Military;",
+      updated_at: "2026-02-26T15:30:02.000Z",
+    })
+
+    // Approaching again later updates the same row
+    await ingest(await withMessage("approachsettlement.json", "2026-02-26T15:45:00Z", { StationFaction: { Name: FACTION, FactionState: "None" } }))
+    const updated = await client.execute("SELECT faction_state FROM eddn_settlement")
+    expect(updated.rows.map((r) => r.faction_state)).toEqual(["None"])
+    expect(await count("eddn_system_info")).toBe(0)
+  })
+})
+
+describe("asset ownership", () => {
+  const rivalOwned = { StationFaction: { Name: RIVAL, FactionState: "None" } }
+
+  it("16. records an asset_lost event when a station changes owner", async () => {
+    await ingest(await fixture("docked.json"))
+    await ingest(await withMessage("docked.json", "2026-02-26T15:45:00Z", rivalOwned))
+
+    const events = await client.execute("SELECT faction_name, event_type, previous_controller, new_controller, asset_name FROM faction_presence_event")
+    expect(events.rows.length).toBe(1)
+    expect(events.rows[0]).toMatchObject({
+      faction_name: FACTION,
+      event_type: "asset_lost",
+      previous_controller: FACTION,
+      new_controller: RIVAL,
+      asset_name: "Hutton Orbital",
+    })
+
+    // Archived data never alerts
+    const path = await tempFile("capture.jsonl")
+    await writeFile(path, `${await withMessage("docked.json", "2026-02-26T15:50:00Z", { StationFaction: { Name: FACTION } })}\n`)
+    await replayEddnFile(client, path, { primaryFaction: FACTION })
+    expect(await count("faction_presence_event")).toBe(1)
+  })
+
+  it("17. reports a settlement changing owner once, through its station when docked at", async () => {
+    await ingest(await fixture("approachsettlement.json"))
+    await ingest(await withMessage("approachsettlement.json", "2026-02-26T15:40:00Z", rivalOwned))
+
+    const events = await client.execute("SELECT event_type, asset_name FROM faction_presence_event")
+    expect(events.rows.map((r) => [r.event_type, r.asset_name])).toEqual([["asset_lost", "Kirk Vision Facility"]])
+
+    // Once docked at, the station row reports ownership and the settlement stays quiet
+    const port = { StationName: "Kirk Vision Facility", StationType: "OnFootSettlement", MarketID: 3950500864 }
+    await ingest(await withMessage("docked.json", "2026-02-26T15:45:00Z", { ...port, ...rivalOwned }))
+    await ingest(await withMessage("approachsettlement.json", "2026-02-26T15:50:00Z", {}))
+    expect(await count("faction_presence_event")).toBe(1)
+  })
+})
+
+describe("ingestJournalEvent", () => {
+  it("18. persists a commander's FSDJump like EDDN data, attributed to the commander", async () => {
+    const { message } = JSON.parse(await fixture("fsdjump.json"))
+    // Our commanders are trusted: no uploader software to vet
+    const deny: IngestPolicy = { softwareAllow: ["EDDiscovery"], softwareDeny: [] }
+    const result = await ingestJournalEvent(client, message, { primaryFaction: FACTION, now: NOW, policy: deny, cmdr: "CMDR Test" })
+
+    expect(result).toMatchObject({ status: "saved", messageType: "FSDJump", systemName: SYSTEM })
+
+    const stored = (await client.execute("SELECT source, header_gateway_timestamp, message_json FROM eddn_message")).rows[0]!
+    expect(stored.source).toBe("cmdr")
+    expect(stored.header_gateway_timestamp).toBeNull()
+    expect(JSON.parse(String(stored.message_json)).header).toEqual({ uploaderID: "CMDR Test" })
+
+    const info = (await client.execute("SELECT controlling_faction, source, updated_at FROM eddn_system_info")).rows[0]!
+    expect(info).toMatchObject({ controlling_faction: FACTION, source: "cmdr", updated_at: "2026-02-26T14:03:09.000Z" })
+    expect(await count("eddn_faction")).toBe(3)
+
+    // Newer EDDN data takes over the snapshot
+    await ingest(await fixture("location.json"))
+    const refreshed = (await client.execute("SELECT source FROM eddn_system_info")).rows[0]!
+    expect(refreshed.source).toBe("eddn")
+  })
+})
+
+describe("powerplay history", () => {
+  // Received as soon as observed, so the gateway clamp never applies
+  const ingestAt = async (at: string, message: Record<string, unknown>) =>
+    ingestRawEddnMessage(client, await withMessage("fsdjump.json", at, message), { primaryFaction: FACTION, now: new Date(at) })
+
+  it("19. keeps one row per system and cycle, the latest observation winning", async () => {
+    // 2026-02-26 is a Thursday: the cycle starts at 07:00 UTC
+    await ingestAt("2026-02-26T14:00:00Z", { PowerplayStateControlProgress: 0.3, PowerplayStateReinforcement: 200 })
+    await ingestAt("2026-03-04T20:00:00Z", {
+      PowerplayStateControlProgress: 0.1,
+      PowerplayStateReinforcement: 900,
+      PowerplayStateUndermining: 4000,
+    })
+    // Delayed past the current snapshot, but still the only observation of the previous cycle
+    const delayed = await ingestAt("2026-02-26T06:00:00Z", { PowerplayStateControlProgress: 0.5, PowerplayStateReinforcement: 100 })
+    expect(delayed).toMatchObject({ status: "skipped", cause: "stale" })
+
+    const rows = await client.execute("SELECT cycle, control_progress, reinforcement FROM eddn_powerplay_history ORDER BY cycle")
+    expect(rows.rows.map((r) => [r.cycle, r.control_progress, r.reinforcement])).toEqual([
+      ["2026-02-19", 0.5, 100],
+      ["2026-02-26", 0.1, 900],
+    ])
+
+    const [system] = await loadPowerSystems(client, "nakato kaine")
+    expect(system).toMatchObject({
+      systemName: SYSTEM,
+      cycle: "2026-02-26",
+      controllingPower: "Nakato Kaine",
+      state: "Fortified",
+      controlProgress: 0.1,
+      previousControlProgress: 0.5,
+      undermining: 4000,
+    })
+    expect(await loadPowerSystems(client, "Edmund Mahon")).toHaveLength(1)
+    expect(await loadPowerSystems(client, "Aisling Duval")).toEqual([])
+  })
+})
+
+describe("Thargoid war", () => {
+  const thargoidWar = {
+    CurrentState: "Thargoid_Controlled",
+    NextStateSuccess: "Thargoid_Recovery",
+    NextStateFailure: "Thargoid_Controlled",
+    SuccessStateReached: false,
+    WarProgress: 0.37,
+    RemainingPorts: 2,
+    EstimatedRemainingTime: "14 Days",
+  }
+
+  it("20. stores the ThargoidWar block per system and clears it with the next snapshot without one", async () => {
+    await ingest(await withMessage("fsdjump.json", "2026-02-26T15:00:00Z", { ThargoidWar: thargoidWar }))
+
+    const war = (await client.execute("SELECT * FROM eddn_thargoid_war")).rows[0]!
+    expect(war).toMatchObject({
+      system_name: SYSTEM,
+      current_state: "Thargoid_Controlled",
+      next_state_success: "Thargoid_Recovery",
+      success_state_reached: 0,
+      war_progress: 0.37,
+      remaining_ports: 2,
+      estimated_remaining_time: "14 Days",
+      updated_at: "2026-02-26T15:00:00.000Z",
+    })
+
+    await ingest(await withMessage("fsdjump.json", "2026-02-26T15:30:00Z", {}))
+    expect(await count("eddn_thargoid_war")).toBe(0)
+  })
+})
+
+describe("economies and happiness", () => {
+  it("21. stores economies and happiness by name, and keeps our reputation from commander journals", async () => {
+    await ingest(await fixture("fsdjump.json"))
+
+    const info = (await client.execute("SELECT economy, second_economy FROM eddn_system_info")).rows[0]!
+    expect(info).toMatchObject({ economy: "High Tech", second_economy: "Tourism" })
+    const happiness = await client.execute("SELECT DISTINCT happiness, my_reputation FROM eddn_faction")
+    expect(happiness.rows.map((r) => [r.happiness, r.my_reputation])).toEqual([["Happy", null]])
+
+    // Journals carry the same symbols plus MyReputation; an empty band is stored as null
+    const { message } = JSON.parse(await fixture("fsdjump.json"))
+    await ingestJournalEvent(
+      client,
+      {
+        ...message,
+        timestamp: "2026-02-26T15:00:00Z",
+        SystemEconomy: "$economy_Agri;",
+        SystemSecondEconomy: "$economy_None;",
+        Factions: [
+          { ...message.Factions[0], Happiness: "$Faction_HappinessBand3;", MyReputation: 42.5 },
+          { ...message.Factions[1], Happiness: "" },
+        ],
+      },
+      { primaryFaction: FACTION, now: NOW, cmdr: "CMDR Test" }
+    )
+
+    const updated = (await client.execute("SELECT economy, second_economy FROM eddn_system_info")).rows[0]!
+    expect(updated).toMatchObject({ economy: "Agriculture", second_economy: "None" })
+    const factions = await client.execute("SELECT name, happiness, my_reputation FROM eddn_faction ORDER BY influence DESC")
+    expect(factions.rows.map((r) => [r.name, r.happiness, r.my_reputation])).toEqual([
+      [FACTION, "Discontented", 42.5],
+      [RIVAL, null, null],
+    ])
+
+    // EDDN strips MyReputation: the next snapshot keeps the last value our commanders reported
+    await ingest(await withMessage("fsdjump.json", "2026-02-26T15:30:00Z", {}))
+    const kept = await client.execute({ sql: "SELECT my_reputation FROM eddn_faction WHERE name = ?", args: [FACTION] })
+    expect(kept.rows[0]!.my_reputation).toBe(42.5)
+  })
+})
@@ -0,0 +1,761 @@
+/**
+ * EDDN ingest
+ *
+ * Parses one raw EDDN payload and persists it. Shared by the Node worker
+ * (scripts/eddn-worker.ts) and the in-process Bun client so both runtimes
+ * write identical rows.
+ *
+ * Each supported journal event has a handler in EVENT_HANDLERS that decodes
+ * the message with its schema and returns the statements to run; everything
+ * for one message (raw row, replaced system data, history, presence events)
+ * is written in a single batch. A new message type is supported by adding a
+ * handler here, and its decoded message to JournalMessages.
+ *
+ * Rows are dated by when the game observed the data (messageObservedAt), not
+ * when it reached us, and a message older than the state already stored is
+ * skipped: delayed uploads, bad client clocks and pre-tick data arriving after
+ * a post-tick scan cannot roll state back. Its history rows are still written,
+ * as it may be the latest observation of an earlier tick or powerplay cycle.
+ *
+ * Supported events first pass the ingest policy (policy.ts): Legacy galaxy
+ * data and untrusted uploader software are rejected and counted.
+ *
+ * Our own commanders' FSDJump/Location events (POST /events) go through the
+ * same handlers via ingestJournalEvent, attributed with source 'cmdr', so the
+ * systems they visit stay fresh without an EDDN uploader or the ZMQ worker.
+ */
+
+import { Either } from "effect"
+import type { Client, InStatement } from "@libsql/client"
+import { loadTrackedFactions } from "../services/tracked-factions.ts"
+import {
+  ApproachSettlementMessageSchema,
+  decodeEnvelope,
+  decodeWith,
+  DockedMessageSchema,
+  SystemSnapshotMessageSchema,
+  type ApproachSettlementMessage,
+  type DockedMessage,
+  type EddnEnvelope,
+  type SystemSnapshotMessage,
+} from "./schema.ts"
+import { detectAssetOwnerChanges, detectPresenceChanges, loadSystemSnapshot, type PresenceChange } from "./presence.ts"
+import { checkIngestPolicy, DEFAULT_INGEST_POLICY, recordRejection, type IngestPolicy } from "./policy.ts"
+import { powerplayCycle } from "./powerplay.ts"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a message came from: the EDDN feed or our own commanders' journals */
+export type IngestSource = "eddn" | "cmdr"
+
+export interface IngestOptions {
+  /** Main faction (FACTION_NAME); always tracked for presence changes */
+  primaryFaction: string
+  /** Defaults to "eddn"; "cmdr" messages are trusted and skip the ingest policy */
+  source?: IngestSource
+  /** Override the arrival time, for tests */
+  now?: Date
+  /** Game version and uploader software filtering; Legacy data is always rejected */
+  policy?: IngestPolicy
+  /**
+   * Archived message (backfill): messages without a usable timestamp are
+   * skipped, and no presence events are raised for changes that are already
+   * history.
+   */
+  replay?: boolean
+}
+
+export type SkipCause = "invalid" | "unsupported" | "stale" | "rejected"
+
+export type IngestResult =
+  | { status: "saved"; messageId: string; messageType: string; systemName: string; statements: number }
+  | { status: "skipped"; cause: SkipCause; reason: string }
+
+interface HandlerContext {
+  client: Client
+  envelope: EddnEnvelope
+  messageId: string
+  /** When the observation was made; rows are dated with it (ISO 8601) */
+  observedAt: string
+  primaryFaction: string
+  recordPresence: boolean
+  source: IngestSource
+}
+
+interface EventHandler<A> {
+  decode: (message: unknown) => Either.Either<A, string>
+  systemName: (message: A) => string
+  /** Observation time of the stored state this message replaces, if any */
+  storedAt: (client: Client, message: A) => Promise<string | null>
+  statements: (ctx: HandlerContext, message: A) => Promise<InStatement[]>
+  /** History upserts, also written for a stale message; each keeps the latest observation of its period */
+  history?: (message: A, observedAt: string) => InStatement[]
+}
+
+// ---------------------------------------------------------------------------
+// SQL helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the tick an observation belongs to: the latest known tick at or
+ * before the observation time. Falls back to "untracked" before the first tick
+ * has been recorded.
+ */
+export const HISTORY_TICK_SQL =
+  "COALESCE((SELECT tickid FROM tick_state WHERE ticktime <= ? ORDER BY ticktime DESC LIMIT 1), 'untracked')"
+
+/** Delete all derived data for a system before re-inserting */
+const deleteSystemData = (systemName: string): InStatement[] => [
+  { sql: "DELETE FROM eddn_system_info WHERE system_name = ?", args: [systemName] },
+  { sql: "DELETE FROM eddn_faction WHERE system_name = ?", args: [systemName] },
+  { sql: "DELETE FROM eddn_conflict WHERE system_name = ?", args: [systemName] },
+  { sql: "DELETE FROM eddn_powerplay WHERE system_name = ?", args: [systemName] },
+  { sql: "DELETE FROM eddn_thargoid_war WHERE system_name = ?", args: [systemName] },
+]
+
+const jsonOrNull = (value: unknown) => (value ? JSON.stringify(value) : null)
+
+/** Per-tick history: latest observation within a tick wins, whatever the arrival order */
+const factionHistoryStatements = (msg: SystemSnapshotMessage, observedAt: string): InStatement[] =>
+  (msg.Factions ?? []).map((f) => ({
+    sql: `INSERT INTO eddn_faction_history (id, system_name, faction_name, tick_id, influence, state, active_states, pending_states, recovering_states, observed_at)
+          VALUES (?, ?, ?, ${HISTORY_TICK_SQL}, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(system_name, faction_name, tick_id) DO UPDATE SET
+            influence = excluded.influence,
+            state = excluded.state,
+            active_states = excluded.active_states,
+            pending_states = excluded.pending_states,
+            recovering_states = excluded.recovering_states,
+            observed_at = excluded.observed_at
+          WHERE excluded.observed_at >= eddn_faction_history.observed_at`,
+    args: [
+      crypto.randomUUID(),
+      msg.StarSystem,
+      f.Name,
+      observedAt,
+      f.Influence ?? null,
+      f.FactionState ?? null,
+      jsonOrNull(f.ActiveStates),
+      jsonOrNull(f.PendingStates),
+      jsonOrNull(f.RecoveringStates),
+      observedAt,
+    ],
+  }))
+
+const presenceEventStatement = (systemName: string, change: PresenceChange, observedAt: string): InStatement => ({
+  sql: `INSERT INTO faction_presence_event (id, system_name, faction_name, event_type, previous_controller, new_controller, influence, asset_name, detected_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  args: [
+    crypto.randomUUID(),
+    systemName,
+    change.factionName,
+    change.eventType,
+    change.previousController,
+    change.newController,
+    change.influence,
+    change.assetName ?? null,
+    observedAt,
+  ],
+})
+
+/**
+ * Our reputation with each faction of a system, as stored before this message.
+ * Only our commanders' journals carry MyReputation, so a snapshot without it
+ * keeps the last known value.
+ */
+const storedReputations = async (client: Client, msg: SystemSnapshotMessage): Promise<Map<string, number>> => {
+  if ((msg.Factions ?? []).every((f) => f.MyReputation !== undefined)) return new Map()
+  const result = await client.execute({
+    sql: "SELECT name, my_reputation FROM eddn_faction WHERE system_name = ? AND my_reputation IS NOT NULL",
+    args: [msg.StarSystem],
+  })
+  return new Map(result.rows.map((r) => [String(r.name), Number(r.my_reputation)]))
+}
+
+/** Owner changes of a station or settlement, against the owner stored before this message */
+const assetOwnerChanges = async (
+  { client, primaryFaction, recordPresence }: HandlerContext,
+  assetName: string,
+  prevOwner: unknown,
+  newOwner: string | null
+): Promise<PresenceChange[]> => {
+  if (!recordPresence || prevOwner == null || newOwner === null || prevOwner === newOwner) return []
+  const { names } = await loadTrackedFactions(client, primaryFaction)
+  return detectAssetOwnerChanges(assetName, String(prevOwner), newOwner, names)
+}
+
+const powersJson = (msg: SystemSnapshotMessage) => {
+  const powers = msg.Powers
+  return powers ? JSON.stringify(typeof powers === "string" ? [powers] : powers) : null
+}
+
+/** Per-cycle history: latest observation within a cycle wins, whatever the arrival order */
+const powerplayHistoryStatements = (msg: SystemSnapshotMessage, observedAt: string): InStatement[] =>
+  msg.Powers === undefined && msg.PowerplayState === undefined
+    ? []
+    : [
+        {
+          sql: `INSERT INTO eddn_powerplay_history (id, system_name, cycle, controlling_power, powers, powerplay_state, control_progress, reinforcement, undermining, conflict_progress, observed_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT(system_name, cycle) DO UPDATE SET
+                  controlling_power = excluded.controlling_power,
+                  powers = excluded.powers,
+                  powerplay_state = excluded.powerplay_state,
+                  control_progress = excluded.control_progress,
+                  reinforcement = excluded.reinforcement,
+                  undermining = excluded.undermining,
+                  conflict_progress = excluded.conflict_progress,
+                  observed_at = excluded.observed_at
+                WHERE excluded.observed_at >= eddn_powerplay_history.observed_at`,
+          args: [
+            crypto.randomUUID(),
+            msg.StarSystem,
+            powerplayCycle(observedAt),
+            msg.ControllingPower ?? null,
+            powersJson(msg),
+            msg.PowerplayState ?? null,
+            msg.PowerplayStateControlProgress ?? null,
+            msg.PowerplayStateReinforcement ?? null,
+            msg.PowerplayStateUndermining ?? null,
+            jsonOrNull(msg.PowerplayConflictProgress),
+            observedAt,
+          ],
+        },
+      ]
+
+// ---------------------------------------------------------------------------
+// Journal symbols
+// ---------------------------------------------------------------------------
+
+/** Economy symbols whose readable name is not the symbol itself */
+const ECONOMY_NAMES: Record<string, string> = {
+  Agri: "Agriculture",
+  HighTech: "High Tech",
+  Carrier: "Private Enterprise",
+  Engineer: "Engineering",
+  Undefined: "None",
+}
+
+/** "$economy_HighTech;" -> "High Tech"; values that are already readable pass through */
+const economyName = (value: string | undefined): string | null => {
+  const symbol = value?.match(/^\$economy_(.*);$/)?.[1]
+  if (symbol === undefined) return value || null
+  return ECONOMY_NAMES[symbol] ?? symbol
+}
+
+const HAPPINESS_BANDS = ["Elated", "Happy", "Discontented", "Unhappy", "Despondent"]
+
+/** "$Faction_HappinessBand3;" -> "Discontented"; empty when the band is unknown */
+const happinessName = (value: string | undefined): string | null => {
+  const band = value?.match(/^\$Faction_HappinessBand(\d);$/)?.[1]
+  if (band === undefined) return value || null
+  return HAPPINESS_BANDS[Number(band) - 1] ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Location / FSDJump / CarrierJump
+// ---------------------------------------------------------------------------
+
+const systemSnapshotHandler: EventHandler<SystemSnapshotMessage> = {
+  decode: decodeWith(SystemSnapshotMessageSchema),
+  systemName: (msg) => msg.StarSystem,
+  storedAt: async (client, msg) => {
+    const result = await client.execute({
+      sql: "SELECT MAX(updated_at) AS updated_at FROM eddn_system_info WHERE system_name = ?",
+      args: [msg.StarSystem],
+    })
+    const updatedAt = result.rows[0]?.updated_at
+    return updatedAt == null ? null : String(updatedAt)
+  },
+  statements: async ({ client, messageId, observedAt, primaryFaction, recordPresence, source }, msg) => {
+    const systemName = msg.StarSystem
+    const statements: InStatement[] = []
+
+    // Diff against the stored snapshot before it is replaced
+    const presenceChanges = recordPresence
+      ? detectPresenceChanges(
+          await loadSystemSnapshot(client, systemName),
+          {
+            controllingFaction: msg.SystemFaction?.Name ?? null,
+            factions: msg.Factions ? new Map(msg.Factions.map((f) => [f.Name, f.Influence ?? null])) : null,
+          },
+          (await loadTrackedFactions(client, primaryFaction)).names
+        )
+      : []
+
+    const reputations = await storedReputations(client, msg)
+
+    statements.push(...deleteSystemData(systemName))
+
+    statements.push({
+      sql: `INSERT INTO eddn_system_info (id, eddn_message_id, system_name, controlling_faction, controlling_power, population, security, government, allegiance, economy, second_economy, system_address, x, y, z, source, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        crypto.randomUUID(),
+        messageId,
+        systemName,
+        msg.SystemFaction?.Name ?? null,
+        msg.ControllingPower ?? null,
+        msg.Population ?? null,
+        msg.SystemSecurity ?? null,
+        msg.SystemGovernment ?? null,
+        msg.SystemAllegiance ?? null,
+        economyName(msg.SystemEconomy),
+        economyName(msg.SystemSecondEconomy),
+        msg.SystemAddress ?? null,
+        msg.StarPos?.[0] ?? null,
+        msg.StarPos?.[1] ?? null,
+        msg.StarPos?.[2] ?? null,
+        source,
+        observedAt,
+      ],
+    })
+
+    for (const f of msg.Factions ?? []) {
+      statements.push({
+        sql: `INSERT INTO eddn_faction (id, eddn_message_id, system_name, name, influence, state, allegiance, government, happiness, my_reputation, recovering_states, active_states, pending_states, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          systemName,
+          f.Name,
+          f.Influence ?? null,
+          f.FactionState ?? null,
+          f.Allegiance ?? null,
+          f.Government ?? null,
+          happinessName(f.Happiness),
+          f.MyReputation ?? reputations.get(f.Name) ?? null,
+          jsonOrNull(f.RecoveringStates),
+          jsonOrNull(f.ActiveStates),
+          jsonOrNull(f.PendingStates),
+          observedAt,
+        ],
+      })
+    }
+
+    for (const c of msg.Conflicts ?? []) {
+      statements.push({
+        sql: `INSERT INTO eddn_conflict (id, eddn_message_id, system_name, faction1, faction2, stake1, stake2, won_days1, won_days2, status, war_type, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          systemName,
+          c.Faction1.Name,
+          c.Faction2.Name,
+          c.Faction1.Stake ?? null,
+          c.Faction2.Stake ?? null,
+          c.Faction1.WonDays ?? null,
+          c.Faction2.WonDays ?? null,
+          c.Status ?? null,
+          c.WarType ?? null,
+          observedAt,
+        ],
+      })
+    }
+
+    if (msg.Powers !== undefined || msg.PowerplayState !== undefined) {
+      statements.push({
+        sql: `INSERT INTO eddn_powerplay (id, eddn_message_id, system_name, power, powerplay_state, control_progress, reinforcement, undermining, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          systemName,
+          powersJson(msg),
+          msg.PowerplayState ?? null,
+          msg.PowerplayStateControlProgress ?? null,
+          msg.PowerplayStateReinforcement ?? null,
+          msg.PowerplayStateUndermining ?? null,
+          observedAt,
+        ],
+      })
+    }
+
+    const war = msg.ThargoidWar
+    if (war !== undefined) {
+      statements.push({
+        sql: `INSERT INTO eddn_thargoid_war (id, eddn_message_id, system_name, current_state, next_state_success, next_state_failure, success_state_reached, war_progress, remaining_ports, estimated_remaining_time, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          systemName,
+          war.CurrentState ?? null,
+          war.NextStateSuccess ?? null,
+          war.NextStateFailure ?? null,
+          war.SuccessStateReached === undefined ? null : war.SuccessStateReached ? 1 : 0,
+          war.WarProgress ?? null,
+          war.RemainingPorts ?? null,
+          war.EstimatedRemainingTime ?? null,
+          observedAt,
+        ],
+      })
+    }
+
+    for (const change of presenceChanges) {
+      statements.push(presenceEventStatement(systemName, change, observedAt))
+    }
+
+    return statements
+  },
+  history: (msg, observedAt) => [...factionHistoryStatements(msg, observedAt), ...powerplayHistoryStatements(msg, observedAt)],
+}
+
+// ---------------------------------------------------------------------------
+// Docked
+// ---------------------------------------------------------------------------
+
+/** One row per MarketID: a fleet carrier's row moves with it to its new system */
+const dockedHandler: EventHandler<DockedMessage> = {
+  decode: decodeWith(DockedMessageSchema),
+  systemName: (msg) => msg.StarSystem,
+  storedAt: async (client, msg) => {
+    const result = await client.execute({
+      sql: "SELECT updated_at FROM eddn_station WHERE market_id = ?",
+      args: [msg.MarketID],
+    })
+    const updatedAt = result.rows[0]?.updated_at
+    return updatedAt == null ? null : String(updatedAt)
+  },
+  statements: async (ctx, msg) => {
+    const { client, messageId, observedAt } = ctx
+
+    const stored = await client.execute({
+      sql: "SELECT controlling_faction FROM eddn_station WHERE market_id = ?",
+      args: [msg.MarketID],
+    })
+    const ownerChanges = await assetOwnerChanges(
+      ctx,
+      msg.StationName,
+      stored.rows[0]?.controlling_faction,
+      msg.StationFaction?.Name ?? null
+    )
+
+    return [
+      {
+        sql: `INSERT INTO eddn_station (id, eddn_message_id, market_id, system_name, system_address, station_name, station_type, controlling_faction, faction_state, government, allegiance, economy, economies, services, landing_pads_small, landing_pads_medium, landing_pads_large, dist_from_star_ls, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(market_id) DO UPDATE SET
+                eddn_message_id = excluded.eddn_message_id,
+                system_name = excluded.system_name,
+                system_address = excluded.system_address,
+                station_name = excluded.station_name,
+                station_type = excluded.station_type,
+                controlling_faction = excluded.controlling_faction,
+                faction_state = excluded.faction_state,
+                government = excluded.government,
+                allegiance = excluded.allegiance,
+                economy = excluded.economy,
+                economies = excluded.economies,
+                services = excluded.services,
+                landing_pads_small = excluded.landing_pads_small,
+                landing_pads_medium = excluded.landing_pads_medium,
+                landing_pads_large = excluded.landing_pads_large,
+                dist_from_star_ls = excluded.dist_from_star_ls,
+                updated_at = excluded.updated_at
+              WHERE excluded.updated_at >= eddn_station.updated_at`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          msg.MarketID,
+          msg.StarSystem,
+          msg.SystemAddress ?? null,
+          msg.StationName,
+          msg.StationType ?? null,
+          msg.StationFaction?.Name ?? null,
+          msg.StationFaction?.FactionState ?? null,
+          msg.StationGovernment ?? null,
+          msg.StationAllegiance ?? null,
+          msg.StationEconomy ?? null,
+          jsonOrNull(msg.StationEconomies),
+          jsonOrNull(msg.StationServices),
+          msg.LandingPads?.Small ?? null,
+          msg.LandingPads?.Medium ?? null,
+          msg.LandingPads?.Large ?? null,
+          msg.DistFromStarLS ?? null,
+          observedAt,
+        ],
+      },
+      ...ownerChanges.map((change) => presenceEventStatement(msg.StarSystem, change, observedAt)),
+    ]
+  },
+}
+
+// ---------------------------------------------------------------------------
+// ApproachSettlement
+// ---------------------------------------------------------------------------
+
+/**
+ * One row per settlement name on a body. Owner changes of a settlement that
+ * also has a station row (docked at, same MarketID) are reported from Docked
+ * only, so one change is not announced twice.
+ */
+const approachSettlementHandler: EventHandler<ApproachSettlementMessage> = {
+  decode: decodeWith(ApproachSettlementMessageSchema),
+  systemName: (msg) => msg.StarSystem,
+  storedAt: async (client, msg) => {
+    const result = await client.execute({
+      sql: "SELECT updated_at FROM eddn_settlement WHERE system_name = ? AND body_name = ? AND name = ?",
+      args: [msg.StarSystem, msg.BodyName, msg.Name],
+    })
+    const updatedAt = result.rows[0]?.updated_at
+    return updatedAt == null ? null : String(updatedAt)
+  },
+  statements: async (ctx, msg) => {
+    const { client, messageId, observedAt } = ctx
+
+    const stored = await client.execute({
+      sql: `SELECT controlling_faction,
+                   EXISTS (SELECT 1 FROM eddn_station WHERE market_id = ?) AS has_station
+            FROM eddn_settlement WHERE system_name = ? AND body_name = ? AND name = ?`,
+      args: [msg.MarketID ?? null, msg.StarSystem, msg.BodyName, msg.Name],
+    })
+    const row = stored.rows[0]
+    const ownerChanges =
+      row && !Number(row.has_station)
+        ? await assetOwnerChanges(ctx, msg.Name, row.controlling_faction, msg.StationFaction?.Name ?? null)
+        : []
+
+    return [
+      {
+        sql: `INSERT INTO eddn_settlement (id, eddn_message_id, system_name, system_address, name, market_id, body_name, body_id, latitude, longitude, controlling_faction, faction_state, government, allegiance, economy, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(system_name, body_name, name) DO UPDATE SET
+                eddn_message_id = excluded.eddn_message_id,
+                system_address = excluded.system_address,
+                market_id = excluded.market_id,
+                body_id = excluded.body_id,
+                latitude = excluded.latitude,
+                longitude = excluded.longitude,
+                controlling_faction = excluded.controlling_faction,
+                faction_state = excluded.faction_state,
+                government = excluded.government,
+                allegiance = excluded.allegiance,
+                economy = excluded.economy,
+                updated_at = excluded.updated_at
+              WHERE excluded.updated_at >= eddn_settlement.updated_at`,
+        args: [
+          crypto.randomUUID(),
+          messageId,
+          msg.StarSystem,
+          msg.SystemAddress ?? null,
+          msg.Name,
+          msg.MarketID ?? null,
+          msg.BodyName,
+          msg.BodyID ?? null,
+          msg.Latitude ?? null,
+          msg.Longitude ?? null,
+          msg.StationFaction?.Name ?? null,
+          msg.StationFaction?.FactionState ?? null,
+          msg.StationGovernment ?? null,
+          msg.StationAllegiance ?? null,
+          msg.StationEconomy ?? null,
+          observedAt,
+        ],
+      },
+      ...ownerChanges.map((change) => presenceEventStatement(msg.StarSystem, change, observedAt)),
+    ]
+  },
+}
+
+/** Decoded message of each supported journal event */
+interface JournalMessages {
+  Location: SystemSnapshotMessage
+  FSDJump: SystemSnapshotMessage
+  CarrierJump: SystemSnapshotMessage
+  Docked: DockedMessage
+  ApproachSettlement: ApproachSettlementMessage
+}
+
+type JournalEventName = keyof JournalMessages
+
+/** Journal event name → handler. Events not listed here are skipped. */
+const EVENT_HANDLERS: { [K in JournalEventName]: EventHandler<JournalMessages[K]> } = {
+  Location: systemSnapshotHandler,
+  FSDJump: systemSnapshotHandler,
+  CarrierJump: systemSnapshotHandler,
+  Docked: dockedHandler,
+  ApproachSettlement: approachSettlementHandler,
+}
+
+export const SUPPORTED_EVENTS: ReadonlyArray<string> = Object.keys(EVENT_HANDLERS)
+
+const isJournalEvent = (name: string): name is JournalEventName => Object.hasOwn(EVENT_HANDLERS, name)
+
+// The handler decoding an event's message is the one consuming it
+const handlerFor = <K extends JournalEventName>(name: K): EventHandler<JournalMessages[K]> => EVENT_HANDLERS[name]
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+/** Parse raw EDDN text (one JSON document) into a validated envelope */
+export const parseEddnMessage = (raw: string): Either.Either<EddnEnvelope, string> => {
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch (e) {
+    return Either.left(`invalid JSON: ${e instanceof Error ? e.message : e}`)
+  }
+  return decodeEnvelope(data)
+}
+
+/** Normalise an EDDN timestamp (microsecond precision, any offset) to ISO 8601, or null */
+const toIso = (value: unknown): string | null => {
+  if (typeof value !== "string") return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+const earliest = (...times: Array<string | null>): string | null =>
+  times.reduce<string | null>((min, t) => (t !== null && (min === null || t < min) ? t : min), null)
+
+/**
+ * When a message was observed: the journal timestamp written by the game
+ * client, so delayed uploads keep their real age. A client clock running ahead
+ * cannot date data later than the gateway received it (or than we did); without
+ * a journal timestamp the gateway time is used. Null when neither is usable.
+ */
+export const messageObservedAt = (envelope: EddnEnvelope, receivedAt: string): string | null => {
+  const journal = toIso(envelope.message.timestamp)
+  const gateway = toIso(envelope.header.gatewayTimestamp)
+  if (journal === null && gateway === null) return null
+  return earliest(journal ?? gateway, gateway, receivedAt)
+}
+
+/**
+ * Persist one EDDN envelope. Unsupported events, messages rejected by the
+ * ingest policy or failing their schema, and messages older than the state we
+ * hold are skipped with a reason rather than treated as errors; database
+ * failures reject.
+ */
+export const ingestEddnMessage = async (
+  client: Client,
+  envelope: EddnEnvelope,
+  options: IngestOptions
+): Promise<IngestResult> => {
+  const messageType = typeof envelope.message.event === "string" ? envelope.message.event : ""
+  if (!isJournalEvent(messageType)) {
+    return { status: "skipped", cause: "unsupported", reason: `unsupported event: ${messageType || "(none)"}` }
+  }
+  const handler = handlerFor(messageType)
+
+  const receivedAt = (options.now ?? new Date()).toISOString()
+  const source = options.source ?? "eddn"
+
+  const rejection = source === "eddn" ? checkIngestPolicy(envelope, options.policy ?? DEFAULT_INGEST_POLICY) : null
+  if (rejection !== null) {
+    await recordRejection(client, rejection.reason, envelope.header.softwareName ?? "", receivedAt)
+    return { status: "skipped", cause: "rejected", reason: `${messageType}: ${rejection.detail}` }
+  }
+
+  const decoded = handler.decode(envelope.message)
+  if (Either.isLeft(decoded)) return { status: "skipped", cause: "invalid", reason: `${messageType}: ${decoded.left}` }
+
+  const replay = options.replay ?? false
+
+  // Live messages without timestamps are as fresh as their arrival; archived ones are unusable
+  const messageTime = messageObservedAt(envelope, receivedAt)
+  if (messageTime === null && replay) {
+    return { status: "skipped", cause: "invalid", reason: `${messageType}: no usable timestamp` }
+  }
+  const observedAt = messageTime ?? receivedAt
+
+  const history = handler.history?.(decoded.right, observedAt) ?? []
+
+  // Out-of-order delivery: never replace state observed later than this message
+  const storedAt = await handler.storedAt(client, decoded.right)
+  if (storedAt !== null && storedAt > observedAt) {
+    if (history.length > 0) await client.batch(history, "write")
+    return { status: "skipped", cause: "stale", reason: `stale: observed ${observedAt}, holding ${storedAt}` }
+  }
+
+  const messageId = crypto.randomUUID()
+
+  const statements: InStatement[] = [
+    {
+      sql: `INSERT INTO eddn_message (id, schema_ref, header_gateway_timestamp, message_type, message_json, source, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        messageId,
+        envelope.$schemaRef,
+        envelope.header.gatewayTimestamp ?? null,
+        messageType,
+        JSON.stringify(envelope),
+        source,
+        receivedAt,
+      ],
+    },
+    ...(await handler.statements(
+      {
+        client,
+        envelope,
+        messageId,
+        observedAt,
+        primaryFaction: options.primaryFaction,
+        recordPresence: !replay,
+        source,
+      },
+      decoded.right
+    )),
+    ...history,
+  ]
+
+  await client.batch(statements, "write")
+
+  return {
+    status: "saved",
+    messageId,
+    messageType,
+    systemName: handler.systemName(decoded.right),
+    statements: statements.length,
+  }
+}
+
+/** Parse and persist raw EDDN text in one step */
+export const ingestRawEddnMessage = async (
+  client: Client,
+  raw: string,
+  options: IngestOptions
+): Promise<IngestResult> => {
+  const parsed = parseEddnMessage(raw)
+  if (Either.isLeft(parsed)) return { status: "skipped", cause: "invalid", reason: parsed.left }
+  return ingestEddnMessage(client, parsed.right, options)
+}
+
+/** EDDN schema our commanders' journal events are stored under */
+const JOURNAL_SCHEMA_REF = "https://eddn.edcd.io/schemas/journal/1"
+
+/**
+ * Persist a journal event posted by one of our commanders (POST /events) as
+ * if it had come from EDDN, attributed with source "cmdr". The commander is
+ * recorded as the uploader; there is no gateway, so the journal timestamp
+ * (capped at arrival) dates the data.
+ */
+export const ingestJournalEvent = async (
+  client: Client,
+  event: Record<string, unknown>,
+  options: IngestOptions & { cmdr?: string }
+): Promise<IngestResult> => {
+  const { cmdr, ...ingestOptions } = options
+  const envelope: EddnEnvelope = {
+    $schemaRef: JOURNAL_SCHEMA_REF,
+    header: cmdr ? { uploaderID: cmdr } : {},
+    message: event,
+  }
+  return ingestEddnMessage(client, envelope, { ...ingestOptions, source: "cmdr" })
+}
+
+/** Delete eddn_message rows older than retentionMs; returns the number removed */
+export const cleanupOldMessages = async (client: Client, retentionMs: number): Promise<number> => {
+  const cutoff = new Date(Date.now() - retentionMs).toISOString()
+  const result = await client.execute({
+    sql: "DELETE FROM eddn_message WHERE timestamp < ?",
+    args: [cutoff],
+  })
+  return result.rowsAffected
+}
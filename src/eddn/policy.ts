@@ -0,0 +1,125 @@
+/**
+ * EDDN ingest policy
+ *
+ * Decides whether a message may touch BGS state at all, before it is decoded:
+ *   - Legacy (3.8) galaxy data is rejected. Legacy runs its own BGS, so its
+ *     influence and states must never mix with Live. The `horizons`/`odyssey`
+ *     message flags cannot tell the two apart; `header.gameversion` can.
+ *   - Uploader software can be denied (known-bad tools) or, with an allow list,
+ *     restricted to trusted tools only.
+ *
+ * Rejections are counted per reason and software in eddn_rejection so admins
+ * can see what is being dropped (GET /api/eddn/rejections).
+ */
+
+import type { Client } from "@libsql/client"
+import type { EddnEnvelope } from "./schema.ts"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface IngestPolicy {
+  /** When non-empty, only software whose name starts with one of these is accepted */
+  softwareAllow: ReadonlyArray<string>
+  /** Software whose name starts with one of these is rejected */
+  softwareDeny: ReadonlyArray<string>
+}
+
+export type RejectReason = "legacy" | "software_denied" | "software_not_allowed"
+
+export interface Rejection {
+  reason: RejectReason
+  detail: string
+}
+
+export interface RejectionStats {
+  reason: string
+  softwareName: string
+  count: number
+  firstSeenAt: string
+  lastSeenAt: string
+}
+
+/** Legacy filtering only; every uploader accepted */
+export const DEFAULT_INGEST_POLICY: IngestPolicy = { softwareAllow: [], softwareDeny: [] }
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Legacy galaxy versions: 3.x clients ("3.8.0.407") and CAPI data fetched from
+ * the Legacy endpoint ("CAPI-Legacy-market"). Live clients report 4.x or
+ * "CAPI-Live-*". Messages without a gameversion cannot be classified and are
+ * accepted.
+ */
+export const isLegacyGameVersion = (gameversion: string | undefined): boolean => {
+  if (gameversion === undefined || gameversion === "") return false
+  if (gameversion.startsWith("CAPI-")) return gameversion.startsWith("CAPI-Legacy-")
+  const major = Number.parseInt(gameversion, 10)
+  return Number.isFinite(major) && major < 4
+}
+
+/** Split a comma-separated list (EDDN_SOFTWARE_ALLOW / EDDN_SOFTWARE_DENY) */
+export const parseSoftwareList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s !== "")
+
+/** Case-insensitive prefix match, so "E:D Market Connector" covers every platform build */
+const matchesSoftware = (softwareName: string, list: ReadonlyArray<string>) => {
+  const name = softwareName.toLowerCase()
+  return list.some((entry) => name.startsWith(entry.toLowerCase()))
+}
+
+/** Why the policy rejects a message, or null when it may be ingested */
+export const checkIngestPolicy = (envelope: EddnEnvelope, policy: IngestPolicy): Rejection | null => {
+  const { gameversion, gamebuild, softwareName = "" } = envelope.header
+
+  if (isLegacyGameVersion(gameversion)) {
+    return { reason: "legacy", detail: `legacy game version ${gameversion}${gamebuild ? ` (${gamebuild})` : ""}` }
+  }
+  if (matchesSoftware(softwareName, policy.softwareDeny)) {
+    return { reason: "software_denied", detail: `software denied: ${softwareName}` }
+  }
+  if (policy.softwareAllow.length > 0 && !matchesSoftware(softwareName, policy.softwareAllow)) {
+    return { reason: "software_not_allowed", detail: `software not allowed: ${softwareName || "(none)"}` }
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Rejection counts
+// ---------------------------------------------------------------------------
+
+export const recordRejection = async (
+  client: Client,
+  reason: RejectReason,
+  softwareName: string,
+  at: string
+): Promise<void> => {
+  await client.execute({
+    sql: `INSERT INTO eddn_rejection (reason, software_name, count, first_seen_at, last_seen_at)
+          VALUES (?, ?, 1, ?, ?)
+          ON CONFLICT(reason, software_name) DO UPDATE SET
+            count = count + 1,
+            last_seen_at = excluded.last_seen_at`,
+    args: [reason, softwareName, at, at],
+  })
+}
+
+/** Rejection counts, most frequent first */
+export const loadRejectionStats = async (client: Client): Promise<RejectionStats[]> => {
+  const result = await client.execute(
+    "SELECT reason, software_name, count, first_seen_at, last_seen_at FROM eddn_rejection ORDER BY count DESC, reason, software_name"
+  )
+  return result.rows.map((row) => ({
+    reason: String(row.reason),
+    softwareName: String(row.software_name),
+    count: Number(row.count),
+    firstSeenAt: String(row.first_seen_at),
+    lastSeenAt: String(row.last_seen_at),
+  }))
+}
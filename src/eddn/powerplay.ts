@@ -0,0 +1,91 @@
+/**
+ * Powerplay 2.0 cycles and history
+ *
+ * Powerplay runs in weekly cycles starting Thursday 07:00 UTC; reinforcement
+ * and undermining reset at each cycle start. Every system snapshot carrying
+ * powerplay data is kept in eddn_powerplay_history, one row per system and
+ * cycle (the latest observation within the cycle wins), so movements can be
+ * compared across cycles after eddn_powerplay itself has been replaced.
+ */
+
+import type { Client } from "@libsql/client"
+
+const CYCLE_START_WEEKDAY = 4  // Thursday
+const CYCLE_START_HOUR_UTC = 7
+
+/** Cycle an observation belongs to: the date its cycle started (YYYY-MM-DD) */
+export const powerplayCycle = (at: string | Date): string => {
+  const shifted = new Date(new Date(at).getTime() - CYCLE_START_HOUR_UTC * 3_600_000)
+  const daysSinceStart = (shifted.getUTCDay() - CYCLE_START_WEEKDAY + 7) % 7
+  shifted.setUTCDate(shifted.getUTCDate() - daysSinceStart)
+  return shifted.toISOString().slice(0, 10)
+}
+
+export interface PowerConflictProgress {
+  power: string
+  progress: number
+}
+
+export interface PowerplaySystemState {
+  systemName: string
+  cycle: string
+  controllingPower: string | null
+  powers: string[]
+  state: string | null
+  controlProgress: number | null
+  reinforcement: number | null
+  undermining: number | null
+  conflictProgress: PowerConflictProgress[]
+  /** Control progress at the end of the last cycle observed before this one */
+  previousControlProgress: number | null
+  observedAt: string
+}
+
+const parseJsonArray = (value: unknown): unknown[] => {
+  if (value == null) return []
+  try {
+    const parsed = JSON.parse(String(value))
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+const mapHistoryRow = (row: Record<string, unknown>): PowerplaySystemState => ({
+  systemName: String(row.system_name),
+  cycle: String(row.cycle),
+  controllingPower: row.controlling_power == null ? null : String(row.controlling_power),
+  powers: parseJsonArray(row.powers).map(String),
+  state: row.powerplay_state == null ? null : String(row.powerplay_state),
+  controlProgress: row.control_progress == null ? null : Number(row.control_progress),
+  reinforcement: row.reinforcement == null ? null : Number(row.reinforcement),
+  undermining: row.undermining == null ? null : Number(row.undermining),
+  conflictProgress: parseJsonArray(row.conflict_progress).flatMap((entry: any) =>
+    typeof entry?.Power === "string" && typeof entry?.ConflictProgress === "number"
+      ? [{ power: entry.Power, progress: entry.ConflictProgress }]
+      : []
+  ),
+  previousControlProgress: row.previous_control_progress == null ? null : Number(row.previous_control_progress),
+  observedAt: String(row.observed_at),
+})
+
+/**
+ * Latest known powerplay state of every system the power controls or has a
+ * presence in (Powers list or conflict progress), ordered by system name.
+ */
+export const loadPowerSystems = async (client: Client, power: string): Promise<PowerplaySystemState[]> => {
+  const result = await client.execute({
+    sql: `SELECT h.*,
+            (SELECT p.control_progress FROM eddn_powerplay_history p
+             WHERE p.system_name = h.system_name AND p.cycle < h.cycle
+             ORDER BY p.cycle DESC LIMIT 1) AS previous_control_progress
+          FROM eddn_powerplay_history h
+          WHERE h.cycle = (SELECT MAX(cycle) FROM eddn_powerplay_history WHERE system_name = h.system_name)
+            AND (h.controlling_power = ?1 COLLATE NOCASE
+              OR EXISTS (SELECT 1 FROM json_each(h.powers) WHERE value = ?1 COLLATE NOCASE)
+              OR EXISTS (SELECT 1 FROM json_each(h.conflict_progress) WHERE json_extract(value, '$.Power') = ?1 COLLATE NOCASE))
+          ORDER BY h.system_name`,
+    args: [power],
+  })
+  return result.rows.map(mapHistoryRow)
+}
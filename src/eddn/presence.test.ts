@@ -0,0 +1,132 @@
+/**
+ * EDDN presence — detectPresenceChanges / detectAssetOwnerChanges unit tests
+ *
+ * Pure diff between the stored snapshot of a system and an incoming one:
+ *   1. First sighting of a system — no events
+ *   2. Tracked faction appears — presence_gained with new influence
+ *   3. Tracked faction disappears — presence_lost with last known influence
+ *   4. Control flips between factions — control_lost / control_gained
+ *   5. Untracked factions and missing faction lists are ignored
+ *   6. Tracked names match whatever their casing
+ *
+ * Station / settlement ownership:
+ *   7. Owner changes — asset_lost / asset_gained whatever the casing, nothing without a known owner
+ */
+
+import { describe, it, expect } from "bun:test"
+import { detectAssetOwnerChanges, detectPresenceChanges, type SystemSnapshot } from "./presence.ts"
+
+const FACTION = "Communism Interstellar Union"
+const RIVAL = "Rival Corp"
+const tracked = new Set([FACTION])
+
+const snapshot = (controllingFaction: string | null, factions: Record<string, number> | null): SystemSnapshot => ({
+  controllingFaction,
+  factions: factions === null ? null : new Map(Object.entries(factions)),
+})
+
+describe("detectPresenceChanges", () => {
+  it("1. returns nothing for a system seen for the first time", () => {
+    const changes = detectPresenceChanges(null, snapshot(FACTION, { [FACTION]: 0.6 }), tracked)
+    expect(changes).toEqual([])
+  })
+
+  it("2. detects a tracked faction appearing", () => {
+    const changes = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 1 }),
+      snapshot(RIVAL, { [RIVAL]: 0.95, [FACTION]: 0.05 }),
+      tracked
+    )
+    expect(changes).toEqual([
+      {
+        factionName: FACTION,
+        eventType: "presence_gained",
+        previousController: RIVAL,
+        newController: RIVAL,
+        influence: 0.05,
+      },
+    ])
+  })
+
+  it("3. detects a tracked faction retreating", () => {
+    const changes = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 0.98, [FACTION]: 0.02 }),
+      snapshot(RIVAL, { [RIVAL]: 1 }),
+      tracked
+    )
+    expect(changes.length).toBe(1)
+    expect(changes[0]!.eventType).toBe("presence_lost")
+    expect(changes[0]!.influence).toBe(0.02)
+  })
+
+  it("4. detects control changing hands in both directions", () => {
+    const gained = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 0.5, [FACTION]: 0.4 }),
+      snapshot(FACTION, { [RIVAL]: 0.4, [FACTION]: 0.5 }),
+      tracked
+    )
+    expect(gained.map((c) => c.eventType)).toEqual(["control_gained"])
+    expect(gained[0]!.previousController).toBe(RIVAL)
+    expect(gained[0]!.influence).toBe(0.5)
+
+    const lost = detectPresenceChanges(
+      snapshot(FACTION, { [RIVAL]: 0.4, [FACTION]: 0.5 }),
+      snapshot(RIVAL, { [RIVAL]: 0.5, [FACTION]: 0.4 }),
+      tracked
+    )
+    expect(lost.map((c) => c.eventType)).toEqual(["control_lost"])
+    expect(lost[0]!.newController).toBe(RIVAL)
+  })
+
+  it("5. ignores untracked factions and messages without a faction list", () => {
+    const untracked = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 1 }),
+      snapshot("Someone Else", { "Someone Else": 1 }),
+      tracked
+    )
+    expect(untracked).toEqual([])
+
+    const noFactionList = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 0.9, [FACTION]: 0.1 }),
+      snapshot(RIVAL, null),
+      tracked
+    )
+    expect(noFactionList).toEqual([])
+  })
+
+  it("6. matches tracked factions case-insensitively and reports the EDDN name", () => {
+    const changes = detectPresenceChanges(
+      snapshot(RIVAL, { [RIVAL]: 1 }),
+      snapshot(FACTION, { [RIVAL]: 0.4, [FACTION]: 0.6 }),
+      new Set([FACTION.toLowerCase()])
+    )
+    expect(changes.map((c) => [c.eventType, c.factionName])).toEqual([
+      ["presence_gained", FACTION],
+      ["control_gained", FACTION],
+    ])
+  })
+})
+
+describe("detectAssetOwnerChanges", () => {
+  it("7. reports tracked factions losing or taking over an asset", () => {
+    expect(detectAssetOwnerChanges("Hutton Orbital", FACTION, RIVAL, tracked)).toEqual([
+      {
+        factionName: FACTION,
+        eventType: "asset_lost",
+        previousController: FACTION,
+        newController: RIVAL,
+        influence: null,
+        assetName: "Hutton Orbital",
+      },
+    ])
+    const gained = detectAssetOwnerChanges("Hutton Orbital", RIVAL, FACTION, tracked)
+    expect(gained.map((c) => c.eventType)).toEqual(["asset_gained"])
+
+    expect(detectAssetOwnerChanges("Hutton Orbital", RIVAL, "Other Corp", tracked)).toEqual([])
+    expect(detectAssetOwnerChanges("Hutton Orbital", null, FACTION, tracked)).toEqual([])
+    expect(detectAssetOwnerChanges("Hutton Orbital", FACTION, FACTION, tracked)).toEqual([])
+
+    const lowerCased = detectAssetOwnerChanges("Hutton Orbital", FACTION, RIVAL, new Set([FACTION.toLowerCase()]))
+    expect(lowerCased.map((c) => [c.eventType, c.factionName])).toEqual([["asset_lost", FACTION]])
+  })
+})
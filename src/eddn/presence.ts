@@ -0,0 +1,160 @@
+/**
+ * Presence / control / asset change detection
+ *
+ * Before a system snapshot is replaced it is compared with the incoming one
+ * for tracked factions (FACTION_NAME + tracked_faction); the resulting changes
+ * are recorded in faction_presence_event for the presence notifier. Stations
+ * and settlements are compared the same way for ownership changes.
+ */
+
+import type { Client } from "@libsql/client"
+import type { PresenceEventType } from "../services/PresenceBus.ts"
+import { trackedFactionMatcher } from "../services/tracked-factions.ts"
+
+export interface SystemSnapshot {
+  controllingFaction: string | null
+  /** Faction name → influence; null when the message carried no faction list */
+  factions: Map<string, number | null> | null
+}
+
+export interface PresenceChange {
+  factionName: string
+  eventType: PresenceEventType
+  previousController: string | null
+  newController: string | null
+  influence: number | null
+  /** Station or settlement that changed owner (asset_* events) */
+  assetName?: string
+}
+
+// Lower-cased name → faction name as reported and its influence
+const byLowerName = (factions: Map<string, number | null>) =>
+  new Map([...factions].map(([name, influence]) => [name.toLowerCase(), { name, influence }]))
+
+/**
+ * Compare the stored snapshot of a system with an incoming one and list the
+ * presence/control changes affecting tracked factions. A system seen for the
+ * first time (no previous snapshot) yields nothing, and each side of the diff
+ * is only compared when both snapshots carry that information.
+ */
+export const detectPresenceChanges = (
+  prev: SystemSnapshot | null,
+  next: SystemSnapshot,
+  factionNames: ReadonlySet<string>
+): PresenceChange[] => {
+  if (prev === null) return []
+
+  const isTracked = trackedFactionMatcher(factionNames)
+  const changes: PresenceChange[] = []
+  const prevController = prev.controllingFaction
+  const newController = next.controllingFaction
+
+  if (prev.factions !== null && next.factions !== null) {
+    const before = byLowerName(prev.factions)
+    const after = byLowerName(next.factions)
+    for (const [key, { name }] of new Map([...before, ...after])) {
+      if (!isTracked(name)) continue
+      const was = before.get(key)
+      const is = after.get(key)
+      if (!was && is) {
+        changes.push({
+          factionName: is.name,
+          eventType: "presence_gained",
+          previousController: prevController,
+          newController,
+          influence: is.influence ?? null,
+        })
+      } else if (was && !is) {
+        changes.push({
+          factionName: was.name,
+          eventType: "presence_lost",
+          previousController: prevController,
+          newController,
+          influence: was.influence ?? null,
+        })
+      }
+    }
+  }
+
+  if (prevController !== null && newController !== null && prevController !== newController) {
+    if (isTracked(prevController)) {
+      changes.push({
+        factionName: prevController,
+        eventType: "control_lost",
+        previousController: prevController,
+        newController,
+        influence: next.factions?.get(prevController) ?? null,
+      })
+    }
+    if (isTracked(newController)) {
+      changes.push({
+        factionName: newController,
+        eventType: "control_gained",
+        previousController: prevController,
+        newController,
+        influence: next.factions?.get(newController) ?? null,
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * List ownership changes of a station or settlement affecting tracked
+ * factions. Nothing is reported for an asset seen for the first time or
+ * without a known owner on either side.
+ */
+export const detectAssetOwnerChanges = (
+  assetName: string,
+  prevOwner: string | null,
+  newOwner: string | null,
+  factionNames: ReadonlySet<string>
+): PresenceChange[] => {
+  if (prevOwner === null || newOwner === null || prevOwner === newOwner) return []
+
+  const isTracked = trackedFactionMatcher(factionNames)
+  const changes: PresenceChange[] = []
+  if (isTracked(prevOwner)) {
+    changes.push({
+      factionName: prevOwner,
+      eventType: "asset_lost",
+      previousController: prevOwner,
+      newController: newOwner,
+      influence: null,
+      assetName,
+    })
+  }
+  if (isTracked(newOwner)) {
+    changes.push({
+      factionName: newOwner,
+      eventType: "asset_gained",
+      previousController: prevOwner,
+      newController: newOwner,
+      influence: null,
+      assetName,
+    })
+  }
+  return changes
+}
+
+/** Load the snapshot currently stored for a system, or null if never seen */
+export const loadSystemSnapshot = async (client: Client, systemName: string): Promise<SystemSnapshot | null> => {
+  const info = await client.execute({
+    sql: "SELECT controlling_faction FROM eddn_system_info WHERE system_name = ? LIMIT 1",
+    args: [systemName],
+  })
+  if (info.rows.length === 0) return null
+
+  const factions = await client.execute({
+    sql: "SELECT name, influence FROM eddn_faction WHERE system_name = ?",
+    args: [systemName],
+  })
+
+  return {
+    controllingFaction: info.rows[0]!.controlling_faction == null ? null : String(info.rows[0]!.controlling_faction),
+    factions: new Map(
+      factions.rows.map((r) => [String(r.name), r.influence == null ? null : Number(r.influence)])
+    ),
+  }
+}
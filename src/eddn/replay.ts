@@ -0,0 +1,59 @@
+/**
+ * EDDN replay / backfill
+ *
+ * Feeds an archived capture of raw EDDN envelopes (JSON lines, plain or .gz)
+ * through the same ingest as the live feed, in replay mode: rows are dated by
+ * each message's own timestamp and messages older than the state we already
+ * hold are skipped, so replaying a dump never rolls back newer data.
+ */
+
+import type { Client } from "@libsql/client"
+import { ingestRawEddnMessage } from "./ingest.ts"
+import type { IngestPolicy } from "./policy.ts"
+import { jsonlFileTransport } from "./transports.ts"
+
+export interface ReplayStats {
+  lines: number
+  saved: number
+  stale: number
+  unsupported: number
+  invalid: number
+  rejected: number
+  failed: number
+}
+
+export interface ReplayOptions {
+  primaryFaction: string
+  /** Captures carry Legacy data too; it is rejected whatever the policy */
+  policy?: IngestPolicy
+  /** Called every progressEvery lines with the running totals */
+  onProgress?: (stats: ReplayStats) => void
+  progressEvery?: number
+  /** Called for each message that failed to save */
+  onError?: (error: string) => void
+}
+
+export const replayEddnFile = async (client: Client, path: string, options: ReplayOptions): Promise<ReplayStats> => {
+  const stats: ReplayStats = { lines: 0, saved: 0, stale: 0, unsupported: 0, invalid: 0, rejected: 0, failed: 0 }
+  const progressEvery = options.progressEvery ?? 10_000
+
+  for await (const raw of jsonlFileTransport(path).messages()) {
+    stats.lines++
+    try {
+      const result = await ingestRawEddnMessage(client, raw, {
+        primaryFaction: options.primaryFaction,
+        replay: true,
+        ...(options.policy ? { policy: options.policy } : {}),
+      })
+      if (result.status === "saved") stats.saved++
+      else stats[result.cause]++
+    } catch (e) {
+      stats.failed++
+      options.onError?.(e instanceof Error ? e.message : String(e))
+    }
+
+    if (options.onProgress && stats.lines % progressEvery === 0) options.onProgress(stats)
+  }
+
+  return stats
+}
@@ -0,0 +1,212 @@
+/**
+ * EDDN message schemas
+ *
+ * Typed view of the EDDN envelope and the journal events we ingest. Unknown
+ * keys are ignored on decode; the raw payload is stored untouched in
+ * eddn_message.message_json.
+ *
+ * Imported by the Node worker through --experimental-strip-types: keep imports
+ * to packages and relative `.ts` files only.
+ */
+
+import { Either, ParseResult, Schema } from "effect"
+import type { ParseOptions } from "effect/SchemaAST"
+
+// ---------------------------------------------------------------------------
+// Envelope
+// ---------------------------------------------------------------------------
+
+export const EddnHeaderSchema = Schema.Struct({
+  gatewayTimestamp: Schema.optional(Schema.String),
+  softwareName: Schema.optional(Schema.String),
+  softwareVersion: Schema.optional(Schema.String),
+  uploaderID: Schema.optional(Schema.String),
+  gameversion: Schema.optional(Schema.String),
+  gamebuild: Schema.optional(Schema.String),
+})
+
+export const EddnEnvelopeSchema = Schema.Struct({
+  $schemaRef: Schema.String,
+  header: Schema.optionalWith(EddnHeaderSchema, { default: () => ({}) }),
+  message: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+})
+
+export type EddnEnvelope = typeof EddnEnvelopeSchema.Type
+
+// ---------------------------------------------------------------------------
+// Journal events (https://eddn.edcd.io/schemas/journal/1)
+// ---------------------------------------------------------------------------
+
+export const FactionStateEntrySchema = Schema.Struct({
+  State: Schema.String,
+  Trend: Schema.optional(Schema.Number),
+})
+
+export const JournalFactionSchema = Schema.Struct({
+  Name: Schema.String,
+  Influence: Schema.optional(Schema.Number),
+  FactionState: Schema.optional(Schema.String),
+  Allegiance: Schema.optional(Schema.String),
+  Government: Schema.optional(Schema.String),
+  ActiveStates: Schema.optional(Schema.Array(FactionStateEntrySchema)),
+  PendingStates: Schema.optional(Schema.Array(FactionStateEntrySchema)),
+  RecoveringStates: Schema.optional(Schema.Array(FactionStateEntrySchema)),
+  /** Symbol such as "$Faction_HappinessBand2;" */
+  Happiness: Schema.optional(Schema.String),
+  /** Only in our commanders' journals: EDDN strips it */
+  MyReputation: Schema.optional(Schema.Number),
+})
+
+export type JournalFaction = typeof JournalFactionSchema.Type
+
+export const ConflictSideSchema = Schema.Struct({
+  Name: Schema.String,
+  Stake: Schema.optional(Schema.String),
+  WonDays: Schema.optional(Schema.Number),
+})
+
+export const JournalConflictSchema = Schema.Struct({
+  WarType: Schema.optional(Schema.String),
+  Status: Schema.optional(Schema.String),
+  Faction1: ConflictSideSchema,
+  Faction2: ConflictSideSchema,
+})
+
+export type JournalConflict = typeof JournalConflictSchema.Type
+
+export const ThargoidWarSchema = Schema.Struct({
+  CurrentState: Schema.optional(Schema.String),
+  NextStateSuccess: Schema.optional(Schema.String),
+  NextStateFailure: Schema.optional(Schema.String),
+  SuccessStateReached: Schema.optional(Schema.Boolean),
+  WarProgress: Schema.optional(Schema.Number),
+  RemainingPorts: Schema.optional(Schema.Number),
+  EstimatedRemainingTime: Schema.optional(Schema.String),
+})
+
+/**
+ * Location / FSDJump / CarrierJump: full system snapshot with factions,
+ * conflicts, powerplay and Thargoid war state (CarrierJump is written when the carrier you are
+ * docked on arrives, with the same system blocks as FSDJump)
+ */
+export const SystemSnapshotMessageSchema = Schema.Struct({
+  event: Schema.Literal("Location", "FSDJump", "CarrierJump"),
+  timestamp: Schema.optional(Schema.String),
+  StarSystem: Schema.NonEmptyString,
+  SystemAddress: Schema.optional(Schema.Number),
+  StarPos: Schema.optional(Schema.Tuple(Schema.Number, Schema.Number, Schema.Number)),
+  SystemFaction: Schema.optional(
+    Schema.Struct({
+      Name: Schema.String,
+      FactionState: Schema.optional(Schema.String),
+    })
+  ),
+  ControllingPower: Schema.optional(Schema.String),
+  Population: Schema.optional(Schema.Number),
+  SystemSecurity: Schema.optional(Schema.String),
+  SystemGovernment: Schema.optional(Schema.String),
+  SystemAllegiance: Schema.optional(Schema.String),
+  /** Symbols such as "$economy_HighTech;" */
+  SystemEconomy: Schema.optional(Schema.String),
+  SystemSecondEconomy: Schema.optional(Schema.String),
+  Factions: Schema.optional(Schema.Array(JournalFactionSchema)),
+  Conflicts: Schema.optional(Schema.Array(JournalConflictSchema)),
+  Powers: Schema.optional(Schema.Union(Schema.String, Schema.Array(Schema.String))),
+  PowerplayState: Schema.optional(Schema.String),
+  PowerplayStateControlProgress: Schema.optional(Schema.Number),
+  PowerplayStateReinforcement: Schema.optional(Schema.Number),
+  PowerplayStateUndermining: Schema.optional(Schema.Number),
+  /** Contested (unoccupied) systems: each power's progress towards acquiring it */
+  PowerplayConflictProgress: Schema.optional(
+    Schema.Array(Schema.Struct({ Power: Schema.String, ConflictProgress: Schema.Number }))
+  ),
+  ThargoidWar: Schema.optional(ThargoidWarSchema),
+})
+
+export type SystemSnapshotMessage = typeof SystemSnapshotMessageSchema.Type
+
+export const StationEconomySchema = Schema.Struct({
+  Name: Schema.String,
+  Proportion: Schema.Number,
+})
+
+/** Docked: one station, outpost, planetary port, settlement or fleet carrier */
+export const DockedMessageSchema = Schema.Struct({
+  event: Schema.Literal("Docked"),
+  timestamp: Schema.optional(Schema.String),
+  StarSystem: Schema.NonEmptyString,
+  SystemAddress: Schema.optional(Schema.Number),
+  StationName: Schema.NonEmptyString,
+  StationType: Schema.optional(Schema.String),
+  /** Unique per station; follows a fleet carrier from system to system */
+  MarketID: Schema.Number,
+  StationFaction: Schema.optional(
+    Schema.Struct({
+      Name: Schema.String,
+      FactionState: Schema.optional(Schema.String),
+    })
+  ),
+  StationGovernment: Schema.optional(Schema.String),
+  StationAllegiance: Schema.optional(Schema.String),
+  StationServices: Schema.optional(Schema.Array(Schema.String)),
+  StationEconomy: Schema.optional(Schema.String),
+  StationEconomies: Schema.optional(Schema.Array(StationEconomySchema)),
+  DistFromStarLS: Schema.optional(Schema.Number),
+  LandingPads: Schema.optional(
+    Schema.Struct({
+      Small: Schema.Number,
+      Medium: Schema.Number,
+      Large: Schema.Number,
+    })
+  ),
+})
+
+export type DockedMessage = typeof DockedMessageSchema.Type
+
+/**
+ * ApproachSettlement (https://eddn.edcd.io/schemas/approachsettlement/1):
+ * Odyssey settlement or planetary port on approach, with its owner and body.
+ * Fires for settlements nobody can dock at too, so MarketID is optional.
+ */
+export const ApproachSettlementMessageSchema = Schema.Struct({
+  event: Schema.Literal("ApproachSettlement"),
+  timestamp: Schema.optional(Schema.String),
+  StarSystem: Schema.NonEmptyString,
+  SystemAddress: Schema.optional(Schema.Number),
+  Name: Schema.NonEmptyString,
+  MarketID: Schema.optional(Schema.Number),
+  BodyID: Schema.optional(Schema.Number),
+  BodyName: Schema.NonEmptyString,
+  Latitude: Schema.optional(Schema.Number),
+  Longitude: Schema.optional(Schema.Number),
+  StationFaction: Schema.optional(
+    Schema.Struct({
+      Name: Schema.String,
+      FactionState: Schema.optional(Schema.String),
+    })
+  ),
+  StationGovernment: Schema.optional(Schema.String),
+  StationAllegiance: Schema.optional(Schema.String),
+  StationEconomy: Schema.optional(Schema.String),
+})
+
+export type ApproachSettlementMessage = typeof ApproachSettlementMessageSchema.Type
+
+// ---------------------------------------------------------------------------
+// Decoding helpers
+// ---------------------------------------------------------------------------
+
+/** Decode with a one-line error message, for logging and rejection reasons */
+export const decodeWith =
+  <A, I>(schema: Schema.Schema<A, I, never>, options?: ParseOptions) =>
+  (input: unknown): Either.Either<A, string> =>
+    Schema.decodeUnknownEither(schema, options)(input).pipe(
+      Either.mapLeft((error) => {
+        const issue = ParseResult.ArrayFormatter.formatErrorSync(error)[0]
+        if (!issue) return "invalid message"
+        return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      })
+    )
+
+/** Envelope keys we don't model are kept so the stored raw message is complete */
+export const decodeEnvelope = decodeWith(EddnEnvelopeSchema, { onExcessProperty: "preserve" })
@@ -0,0 +1,221 @@
+/**
+ * EDDN transports
+ *
+ * A transport yields raw EDDN JSON documents, one per message, regardless of
+ * where they come from:
+ *   - zmqTransport: the live EDDN relay (zlib-compressed ZMQ frames)
+ *   - jsonlFileTransport: a local JSON-lines file (plain or .gz, as archived by
+ *     community dumps), optionally tailed as it grows
+ *   - httpPushTransport: an HTTP endpoint accepting POSTed messages (plain,
+ *     gzip or deflate; one document per request, or JSON lines when sent as
+ *     application/x-ndjson)
+ *
+ * Iteration ends when the source is exhausted (file without follow) and throws
+ * when the source fails, so callers can retry.
+ */
+
+import { createReadStream } from "node:fs"
+import { open } from "node:fs/promises"
+import { createServer } from "node:http"
+import { createGunzip, gunzipSync, inflateSync } from "node:zlib"
+
+export interface EddnTransport {
+  readonly name: string
+  messages: () => AsyncIterable<string>
+}
+
+export interface TransportOptions {
+  /** Called for frames that cannot be decoded; they are dropped */
+  onError?: (error: string) => void
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter((line) => line.length > 0)
+
+// ---------------------------------------------------------------------------
+// ZMQ
+// ---------------------------------------------------------------------------
+
+export const zmqTransport = (url: string, options: TransportOptions = {}): EddnTransport => ({
+  name: `zmq ${url}`,
+  messages: async function* () {
+    // Dynamic import so missing native bindings only fail this transport
+    const zmq = await import("zeromq")
+    const socket = new zmq.Subscriber()
+    socket.connect(url)
+    socket.subscribe("") // subscribe to all topics
+
+    try {
+      for await (const [raw] of socket) {
+        try {
+          yield inflateSync(raw!).toString("utf-8")
+        } catch (e) {
+          options.onError?.(`decompress failed: ${e}`)
+        }
+      }
+    } finally {
+      socket.close()
+    }
+  },
+})
+
+// ---------------------------------------------------------------------------
+// JSON-lines file
+// ---------------------------------------------------------------------------
+
+export interface JsonlFileOptions extends TransportOptions {
+  /** Keep reading as lines are appended (like `tail -f`); ignored for .gz files */
+  follow?: boolean
+  pollIntervalMs?: number
+}
+
+export const jsonlFileTransport = (path: string, options: JsonlFileOptions = {}): EddnTransport => ({
+  name: `jsonl ${path}${options.follow && !path.endsWith(".gz") ? " (follow)" : ""}`,
+  messages: async function* () {
+    if (path.endsWith(".gz")) {
+      const gunzip = createGunzip()
+      const file = createReadStream(path).on("error", (e) => gunzip.destroy(e))
+      const decoder = new TextDecoder()
+      let pending = ""
+      // Iterating the stream (rather than readline) surfaces missing or corrupt archives as errors
+      for await (const chunk of file.pipe(gunzip)) {
+        pending += decoder.decode(chunk as Buffer, { stream: true })
+        const end = pending.lastIndexOf("\n")
+        if (end >= 0) {
+          yield* splitLines(pending.slice(0, end))
+          pending = pending.slice(end + 1)
+        }
+      }
+      yield* splitLines(pending + decoder.decode())
+      return
+    }
+
+    const pollIntervalMs = options.pollIntervalMs ?? 1000
+    const handle = await open(path, "r")
+    const decoder = new TextDecoder()
+    const buffer = Buffer.alloc(64 * 1024)
+    let position = 0
+    let pending = ""
+
+    try {
+      while (true) {
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+        if (bytesRead > 0) {
+          position += bytesRead
+          pending += decoder.decode(buffer.subarray(0, bytesRead), { stream: true })
+          const end = pending.lastIndexOf("\n")
+          if (end >= 0) {
+            yield* splitLines(pending.slice(0, end))
+            pending = pending.slice(end + 1)
+          }
+          continue
+        }
+
+        if (!options.follow) break
+
+        // Truncated or rotated in place: start over
+        const { size } = await handle.stat()
+        if (size < position) {
+          position = 0
+          pending = ""
+        }
+        await sleep(pollIntervalMs)
+      }
+
+      // Last line without a trailing newline
+      yield* splitLines(pending + decoder.decode())
+    } finally {
+      await handle.close()
+    }
+  },
+})
+
+// ---------------------------------------------------------------------------
+// HTTP push
+// ---------------------------------------------------------------------------
+
+export interface HttpPushOptions extends TransportOptions {
+  port: number
+  host?: string
+  /** Only requests to this path are accepted */
+  path?: string
+  maxBodyBytes?: number
+}
+
+const decodeBody = (body: Buffer, encoding: string | undefined): string => {
+  if (encoding === "gzip") return gunzipSync(body).toString("utf-8")
+  if (encoding === "deflate") return inflateSync(body).toString("utf-8")
+  return body.toString("utf-8")
+}
+
+export const httpPushTransport = (options: HttpPushOptions): EddnTransport => {
+  const host = options.host ?? "0.0.0.0"
+  const path = options.path ?? "/upload"
+  const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024
+
+  return {
+    name: `http ${host}:${options.port}${path}`,
+    messages: async function* () {
+      const queue: string[] = []
+      let failure: Error | null = null
+      let wake: (() => void) | null = null
+      const notify = () => {
+        wake?.()
+        wake = null
+      }
+
+      const server = createServer((req, res) => {
+        if (req.method !== "POST" || req.url?.split("?")[0] !== path) {
+          res.writeHead(404).end()
+          return
+        }
+
+        const chunks: Buffer[] = []
+        let size = 0
+        req.on("data", (chunk: Buffer) => {
+          size += chunk.length
+          if (size > maxBodyBytes) {
+            res.writeHead(413).end()
+            req.destroy()
+            return
+          }
+          chunks.push(chunk)
+        })
+        req.on("end", () => {
+          if (res.writableEnded) return
+          try {
+            const text = decodeBody(Buffer.concat(chunks), req.headers["content-encoding"])
+            const ndjson = req.headers["content-type"]?.includes("ndjson") ?? false
+            queue.push(...(ndjson ? splitLines(text) : splitLines(text.replace(/\n/g, " "))))
+            notify()
+            res.writeHead(202).end()
+          } catch (e) {
+            options.onError?.(`decompress failed: ${e}`)
+            res.writeHead(400).end()
+          }
+        })
+      })
+
+      server.on("error", (e) => {
+        failure = e
+        notify()
+      })
+      server.listen(options.port, host)
+
+      try {
+        while (true) {
+          const next = queue.shift()
+          if (next !== undefined) {
+            yield next
+            continue
+          }
+          if (failure) throw failure
+          await new Promise<void>((resolve) => (wake = resolve))
+        }
+      } finally {
+        server.close()
+      }
+    },
+  }
+}
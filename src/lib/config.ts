@@ -92,6 +92,24 @@ export const EddnMessageRetentionMs = Config.integer(
   "EDDN_MESSAGE_RETENTION_MS"
 ).pipe(Config.withDefault(86400000)) // 24 hours
 
+// Directory the replay endpoint may read EDDN captures from
+export const EddnReplayDir = Config.string("EDDN_REPLAY_DIR").pipe(
+  Config.withDefault("./data/eddn")
+)
+
+// EDDN uploader software filters: comma-separated, case-insensitive name prefixes
+const softwareList = (name: string) =>
+  Config.string(name).pipe(
+    Config.withDefault(""),
+    Config.map((value) => value.split(",").map((s) => s.trim()).filter((s) => s !== ""))
+  )
+
+// Ingest policy (src/eddn/policy.ts); Legacy galaxy data is always rejected
+export const EddnIngestPolicy = Config.all({
+  softwareAllow: softwareList("EDDN_SOFTWARE_ALLOW"), // empty: any software
+  softwareDeny: softwareList("EDDN_SOFTWARE_DENY"),
+})
+
 // Tick Monitor Config
 export const TickPollIntervalMs = Config.integer("TICK_POLL_INTERVAL_MS").pipe(
   Config.withDefault(300000)
@@ -52,6 +52,36 @@ export const mapRowToProtectedFaction = (row: any): unknown => {
     }
 }
 
+// Helper to map TrackedFaction DB columns (snake_case) to Domain Model (camelCase)
+export const mapRowToTrackedFaction = (row: any): unknown => {
+    return {
+        id: row.id,
+        name: row.name,
+        webhookUrl: row.webhook_url === null ? undefined : row.webhook_url,
+        description: row.description === null ? undefined : row.description,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }
+}
+
+// Helper to map AlertRule DB columns (snake_case) to Domain Model (camelCase)
+export const mapRowToAlertRule = (row: any): unknown => {
+    return {
+        id: row.id,
+        name: row.name,
+        ruleType: row.rule_type,
+        factionName: row.faction_name === null ? undefined : row.faction_name,
+        systemName: row.system_name === null ? undefined : row.system_name,
+        threshold: row.threshold === null ? undefined : row.threshold,
+        state: row.state === null ? undefined : row.state,
+        webhookUrl: row.webhook_url === null ? undefined : row.webhook_url,
+        // SQLite uses INTEGER for booleans: 0 = false, 1 = true
+        enabled: row.enabled === 1,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    }
+}
+
 // Helper to map TickState DB columns (snake_case) to Domain Model (camelCase)
 export const mapRowToTickState = (row: any): unknown => {
     return {
@@ -87,6 +117,12 @@ export const mapRowToEddnSystemInfo = (row: any): unknown => {
         security: row.security === null ? undefined : row.security,
         government: row.government === null ? undefined : row.government,
         allegiance: row.allegiance === null ? undefined : row.allegiance,
+        economy: row.economy === null ? undefined : row.economy,
+        secondEconomy: row.second_economy === null ? undefined : row.second_economy,
+        systemAddress: row.system_address === null ? undefined : row.system_address,
+        x: row.x === null ? undefined : row.x,
+        y: row.y === null ? undefined : row.y,
+        z: row.z === null ? undefined : row.z,
         updatedAt: row.updated_at,
     }
 }
@@ -102,6 +138,8 @@ export const mapRowToEddnFaction = (row: any): unknown => {
         state: row.state === null ? undefined : row.state,
         allegiance: row.allegiance === null ? undefined : row.allegiance,
         government: row.government === null ? undefined : row.government,
+        happiness: row.happiness === null ? undefined : row.happiness,
+        myReputation: row.my_reputation === null ? undefined : row.my_reputation,
         // JSON fields - parse from TEXT
         recoveringStates: row.recovering_states === null ? undefined : JSON.parse(row.recovering_states),
         activeStates: row.active_states === null ? undefined : JSON.parse(row.active_states),
@@ -142,4 +180,64 @@ export const mapRowToEddnPowerplay = (row: any): unknown => {
         undermining: row.undermining === null ? undefined : row.undermining,
         updatedAt: row.updated_at,
     }
+}
+
+// Helper to map EddnFactionHistory DB columns (snake_case) to Domain Model (camelCase)
+export const mapRowToEddnFactionHistory = (row: any): unknown => {
+    return {
+        id: row.id,
+        systemName: row.system_name,
+        factionName: row.faction_name,
+        tickId: row.tick_id,
+        influence: row.influence === null ? undefined : row.influence,
+        state: row.state === null ? undefined : row.state,
+        // JSON fields - parse from TEXT
+        activeStates: row.active_states === null ? undefined : JSON.parse(row.active_states),
+        pendingStates: row.pending_states === null ? undefined : JSON.parse(row.pending_states),
+        recoveringStates: row.recovering_states === null ? undefined : JSON.parse(row.recovering_states),
+        observedAt: row.observed_at,
+    }
+}
+
+// Helper to map EddnStation DB columns (snake_case) to Domain Model (camelCase)
+export const mapRowToEddnStation = (row: any): unknown => {
+    return {
+        id: row.id,
+        eddnMessageId: row.eddn_message_id === null ? undefined : row.eddn_message_id,
+        marketId: row.market_id,
+        systemName: row.system_name,
+        systemAddress: row.system_address === null ? undefined : row.system_address,
+        stationName: row.station_name,
+        stationType: row.station_type === null ? undefined : row.station_type,
+        controllingFaction: row.controlling_faction === null ? undefined : row.controlling_faction,
+        factionState: row.faction_state === null ? undefined : row.faction_state,
+        government: row.government === null ? undefined : row.government,
+        allegiance: row.allegiance === null ? undefined : row.allegiance,
+        economy: row.economy === null ? undefined : row.economy,
+        // JSON fields - parse from TEXT
+        economies: row.economies === null ? undefined : JSON.parse(row.economies),
+        services: row.services === null ? undefined : JSON.parse(row.services),
+        landingPadsSmall: row.landing_pads_small === null ? undefined : row.landing_pads_small,
+        landingPadsMedium: row.landing_pads_medium === null ? undefined : row.landing_pads_medium,
+        landingPadsLarge: row.landing_pads_large === null ? undefined : row.landing_pads_large,
+        distFromStarLs: row.dist_from_star_ls === null ? undefined : row.dist_from_star_ls,
+        updatedAt: row.updated_at,
+    }
+}
+
+export const mapRowToEddnThargoidWar = (row: any): unknown => {
+    return {
+        id: row.id,
+        eddnMessageId: row.eddn_message_id === null ? undefined : row.eddn_message_id,
+        systemName: row.system_name,
+        currentState: row.current_state === null ? undefined : row.current_state,
+        nextStateSuccess: row.next_state_success === null ? undefined : row.next_state_success,
+        nextStateFailure: row.next_state_failure === null ? undefined : row.next_state_failure,
+        // Stored as 0/1
+        successStateReached: row.success_state_reached === null ? undefined : Boolean(row.success_state_reached),
+        warProgress: row.war_progress === null ? undefined : row.war_progress,
+        remainingPorts: row.remaining_ports === null ? undefined : row.remaining_ports,
+        estimatedRemainingTime: row.estimated_remaining_time === null ? undefined : row.estimated_remaining_time,
+        updatedAt: row.updated_at,
+    }
 }
\ No newline at end of file
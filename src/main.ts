@@ -10,7 +10,7 @@ import { ObjectivesApiLive } from "./api/objectives/handlers.ts"
 import { SummaryApiLive } from "./api/summary/handlers.ts"
 import { ColoniesApiLive } from "./api/colonies/handlers.ts"
 import { ProtectedFactionsApiLive } from "./api/protected-factions/handlers.ts"
-import { SystemApiLive } from "./api/system/handlers.ts"
+import { SystemApiLive, SystemBulkApiLive } from "./api/system/handlers.ts"
 import { AuthApiLive } from "./api/auth/handlers.ts"
 import { DiscordSummaryApiLive } from "./api/discord-summary/handlers.ts"
 import { CommandersApiLive } from "./api/commanders/handlers.ts"
@@ -20,6 +20,14 @@ import { CmdrLocationApiLive } from "./api/cmdr-location/handlers.ts"
 import { CZApiLive } from "./api/cz/handlers.ts"
 import { BountyVouchersApiLive } from "./api/bounty-vouchers/handlers.ts"
 import { FactionVisitedSystemsApiLive } from "./api/faction-visited-systems/handlers.ts"
+import { FactionApiLive } from "./api/faction/handlers.ts"
+import { AlertRulesApiLive } from "./api/alert-rules/handlers.ts"
+import { TrackedFactionsApiLive } from "./api/tracked-factions/handlers.ts"
+import { EddnApiLive } from "./api/eddn/handlers.ts"
+import { StationsApiLive } from "./api/stations/handlers.ts"
+import { PowerplayApiLive } from "./api/powerplay/handlers.ts"
+import { ScoutingApiLive } from "./api/scouting/handlers.ts"
+import { AutocompleteApiLive } from "./api/autocomplete/handlers.ts"
 
 // Repositories
 import { EventRepositoryLive } from "./database/repositories/EventRepository.ts"
@@ -30,6 +38,9 @@ import { ColonyRepositoryLive } from "./database/repositories/ColonyRepository.t
 import { ProtectedFactionRepositoryLive } from "./database/repositories/ProtectedFactionRepository.ts"
 import { EddnRepositoryLive } from "./database/repositories/EddnRepository.ts"
 import { FlaskUserRepositoryLive } from "./database/repositories/FlaskUserRepository.ts"
+import { AlertRuleRepositoryLive } from "./database/repositories/AlertRuleRepository.ts"
+import { TickRepositoryLive } from "./database/repositories/TickRepository.ts"
+import { TrackedFactionRepositoryLive } from "./database/repositories/TrackedFactionRepository.ts"
 
 // Middleware & Infrastructure
 import { ApiKeyAuthLive } from "./api/middleware/apikey.ts"
@@ -54,6 +65,7 @@ const ApiHandlersLayer = Layer.mergeAll(
   ColoniesApiLive,
   ProtectedFactionsApiLive,
   SystemApiLive,
+  SystemBulkApiLive,
   AuthApiLive,
   DiscordSummaryApiLive,
   CommandersApiLive,
@@ -62,7 +74,15 @@ const ApiHandlersLayer = Layer.mergeAll(
   CmdrLocationApiLive,
   CZApiLive,
   BountyVouchersApiLive,
-  FactionVisitedSystemsApiLive
+  FactionVisitedSystemsApiLive,
+  FactionApiLive,
+  AlertRulesApiLive,
+  TrackedFactionsApiLive,
+  EddnApiLive,
+  StationsApiLive,
+  PowerplayApiLive,
+  ScoutingApiLive,
+  AutocompleteApiLive
 )
 
 const RepositoriesLayer = Layer.mergeAll(
@@ -73,7 +93,10 @@ const RepositoriesLayer = Layer.mergeAll(
   ColonyRepositoryLive,
   ProtectedFactionRepositoryLive,
   EddnRepositoryLive,
-  FlaskUserRepositoryLive
+  FlaskUserRepositoryLive,
+  AlertRuleRepositoryLive,
+  TrackedFactionRepositoryLive,
+  TickRepositoryLive
 )
 
 const ServicesLayer = Layer.mergeAll(JwtServiceLive, ApiKeyAuthLive)
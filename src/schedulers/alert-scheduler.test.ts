@@ -0,0 +1,149 @@
+/**
+ * Alert Scheduler — rule evaluation and de-duplication tests
+ *
+ *   1. influence_below / influence_above against percent thresholds
+ *   2. Rules without a faction apply to every tracked faction only
+ *   3. gap_to_controller_below uses the controller, or the runner-up when we control
+ *   4. pending_state matches the state name case-insensitively
+ *   5. runAlertCheck announces a match once and re-arms it after it clears
+ */
+
+import { describe, it, expect } from "bun:test"
+import { Effect } from "effect"
+import { createClient } from "@libsql/client"
+import {
+  evaluateAlertRules,
+  runAlertCheck,
+  type AlertRuleSpec,
+  type SystemFactions,
+} from "./alert-scheduler.js"
+
+const FACTION = "Communism Interstellar Union"
+const RIVAL = "Rival Corp"
+const OTHER = "Bystander Party"
+
+const rule = (overrides: Partial<AlertRuleSpec>): AlertRuleSpec => ({
+  id: "rule-1",
+  name: "Test rule",
+  ruleType: "influence_below",
+  factionName: null,
+  systemName: null,
+  threshold: 10,
+  state: null,
+  webhookUrl: null,
+  ...overrides,
+})
+
+const systems: SystemFactions[] = [
+  {
+    systemName: "Alpha Centauri",
+    controllingFaction: RIVAL,
+    factions: [
+      { name: RIVAL, influence: 0.4, pendingStates: [] },
+      { name: FACTION, influence: 0.37, pendingStates: ["Election"] },
+      { name: OTHER, influence: 0.05, pendingStates: [] },
+    ],
+  },
+  {
+    systemName: "Sol",
+    controllingFaction: FACTION,
+    factions: [
+      { name: FACTION, influence: 0.75, pendingStates: [] },
+      { name: RIVAL, influence: 0.2, pendingStates: [] },
+    ],
+  },
+]
+
+const tracked = new Set([FACTION])
+
+describe("evaluateAlertRules", () => {
+  it("1. compares influence fractions against percent thresholds", () => {
+    const below = evaluateAlertRules([rule({ threshold: 40, factionName: FACTION })], systems, tracked)
+    expect(below.map((m) => m.systemName)).toEqual(["Alpha Centauri"])
+    expect(below[0]!.message).toContain("37.0%")
+
+    const above = evaluateAlertRules([rule({ ruleType: "influence_above", threshold: 70 })], systems, tracked)
+    expect(above.map((m) => m.systemName)).toEqual(["Sol"])
+  })
+
+  it("2. rules without a faction only cover tracked factions", () => {
+    const matches = evaluateAlertRules([rule({ threshold: 10 })], systems, tracked)
+    expect(matches).toHaveLength(0)
+
+    const explicit = evaluateAlertRules([rule({ threshold: 10, factionName: OTHER })], systems, tracked)
+    expect(explicit.map((m) => m.factionName)).toEqual([OTHER])
+  })
+
+  it("3. gap is measured to the controller, or to the runner-up when we control", () => {
+    const close = evaluateAlertRules([rule({ ruleType: "gap_to_controller_below", threshold: 5 })], systems, tracked)
+    expect(close.map((m) => m.systemName)).toEqual(["Alpha Centauri"])
+    expect(close[0]!.message).toContain(RIVAL)
+
+    const wide = evaluateAlertRules([rule({ ruleType: "gap_to_controller_below", threshold: 60 })], systems, tracked)
+    expect(wide.map((m) => m.systemName)).toEqual(["Alpha Centauri", "Sol"])
+  })
+
+  it("4. pending_state matches the state name and honours the system filter", () => {
+    const matches = evaluateAlertRules(
+      [rule({ ruleType: "pending_state", state: "election", threshold: null })],
+      systems,
+      tracked
+    )
+    expect(matches.map((m) => m.systemName)).toEqual(["Alpha Centauri"])
+
+    const filtered = evaluateAlertRules(
+      [rule({ ruleType: "pending_state", state: "Election", threshold: null, systemName: "Sol" })],
+      systems,
+      tracked
+    )
+    expect(filtered).toHaveLength(0)
+  })
+})
+
+describe("runAlertCheck", () => {
+  const SCHEMA = `
+    CREATE TABLE tracked_faction (id TEXT PRIMARY KEY, name TEXT NOT NULL UNIQUE, webhook_url TEXT, description TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+    CREATE TABLE eddn_system_info (id TEXT PRIMARY KEY, system_name TEXT NOT NULL, controlling_faction TEXT);
+    CREATE TABLE eddn_faction (id TEXT PRIMARY KEY, system_name TEXT NOT NULL, name TEXT NOT NULL, influence REAL, pending_states TEXT, updated_at TEXT NOT NULL);
+    CREATE TABLE alert_rule (id TEXT PRIMARY KEY, name TEXT NOT NULL, rule_type TEXT NOT NULL, faction_name TEXT, system_name TEXT, threshold REAL, state TEXT, webhook_url TEXT, enabled INTEGER NOT NULL DEFAULT 1, created_at TEXT NOT NULL, updated_at TEXT NOT NULL);
+    CREATE TABLE alert_firing (rule_id TEXT NOT NULL, system_name TEXT NOT NULL, faction_name TEXT NOT NULL, first_fired_at TEXT NOT NULL, last_seen_at TEXT NOT NULL, PRIMARY KEY (rule_id, system_name, faction_name));
+  `
+
+  it("5. announces a match once and re-arms after the condition clears", async () => {
+    const client = createClient({ url: "file::memory:" })
+    await client.executeMultiple(SCHEMA)
+    const now = new Date().toISOString()
+    await client.execute({
+      sql: "INSERT INTO eddn_system_info (id, system_name, controlling_faction) VALUES ('si-1', 'Alpha Centauri', ?)",
+      args: [RIVAL],
+    })
+    await client.execute({
+      sql: `INSERT INTO eddn_faction (id, system_name, name, influence, pending_states, updated_at) VALUES
+            ('f-1', 'Alpha Centauri', ?, 0.08, '[{"State":"Retreat","Trend":0}]', ?),
+            ('f-2', 'Alpha Centauri', ?, 0.92, NULL, ?)`,
+      args: [FACTION, now, RIVAL, now],
+    })
+    await client.execute({
+      sql: `INSERT INTO alert_rule (id, name, rule_type, threshold, state, enabled, created_at, updated_at) VALUES
+            ('low', 'Low influence', 'influence_below', 10, NULL, 1, ?, ?),
+            ('retreat', 'Retreat pending', 'pending_state', NULL, 'Retreat', 1, ?, ?),
+            ('off', 'Disabled', 'influence_below', 50, NULL, 0, ?, ?)`,
+      args: [now, now, now, now, now, now],
+    })
+
+    expect(await Effect.runPromise(runAlertCheck(client, null, FACTION))).toBe(2)
+    // Still firing — no repeat announcement
+    expect(await Effect.runPromise(runAlertCheck(client, null, FACTION))).toBe(0)
+    const firing = await client.execute("SELECT rule_id FROM alert_firing ORDER BY rule_id")
+    expect(firing.rows.map((r) => r.rule_id)).toEqual(["low", "retreat"])
+
+    // Influence recovers: the low-influence alert clears and can fire again later
+    await client.execute("UPDATE eddn_faction SET influence = 0.15 WHERE id = 'f-1'")
+    expect(await Effect.runPromise(runAlertCheck(client, null, FACTION))).toBe(0)
+    const afterClear = await client.execute("SELECT rule_id FROM alert_firing")
+    expect(afterClear.rows.map((r) => r.rule_id)).toEqual(["retreat"])
+
+    await client.execute("UPDATE eddn_faction SET influence = 0.07 WHERE id = 'f-1'")
+    expect(await Effect.runPromise(runAlertCheck(client, null, FACTION))).toBe(1)
+  })
+})
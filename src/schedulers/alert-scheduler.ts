@@ -0,0 +1,351 @@
+/**
+ * Alert Scheduler (event-driven)
+ *
+ * Subscribes to TickBus. On each new tick:
+ *  1. Loads enabled alert_rule rows and the tracked factions
+ *  2. Evaluates every rule against the current EDDN faction snapshot
+ *     (eddn_faction + eddn_system_info.controlling_faction)
+ *  3. Posts a Discord message for each match that is not already in
+ *     alert_firing (rule webhook, then the faction's tracked_faction
+ *     override, then the BGS webhook)
+ *  4. Refreshes last_seen_at for matches still firing and deletes
+ *     alert_firing rows whose condition has cleared, re-arming the alert
+ *
+ * Thresholds are stored in percent; EDDN influence is a 0-1 fraction.
+ */
+
+import { Effect, Option, PubSub, Queue } from "effect"
+import type { Client } from "@libsql/client"
+import { AppConfig } from "../lib/config.js"
+import { TursoClient } from "../database/client.js"
+import { TickBus } from "../services/TickBus.js"
+import type { AlertRuleType } from "../domain/models.js"
+import { loadTrackedFactions, webhookForFactions } from "../services/tracked-factions.js"
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AlertRuleSpec {
+  id: string
+  name: string
+  ruleType: AlertRuleType
+  factionName: string | null // null = every tracked faction
+  systemName: string | null // null = any system
+  threshold: number | null // percent
+  state: string | null
+  webhookUrl: string | null
+}
+
+export interface FactionSnapshot {
+  name: string
+  influence: number | null
+  pendingStates: string[]
+}
+
+export interface SystemFactions {
+  systemName: string
+  controllingFaction: string | null
+  factions: FactionSnapshot[]
+}
+
+export interface AlertMatch {
+  ruleId: string
+  systemName: string
+  factionName: string
+  message: string
+}
+
+// ---------------------------------------------------------------------------
+// Rule evaluation (pure)
+// ---------------------------------------------------------------------------
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+
+const pct = (fraction: number): string => `${(fraction * 100).toFixed(1)}%`
+
+/**
+ * Influence gap (fraction) between a faction and the controlling faction.
+ * When the faction itself controls the system the gap is to the runner-up.
+ * Returns null when the controller or the faction's influence is unknown.
+ */
+const controllerGap = (
+  system: SystemFactions,
+  faction: FactionSnapshot
+): { gap: number; other: string } | null => {
+  if (faction.influence === null || !system.controllingFaction) return null
+
+  if (sameName(system.controllingFaction, faction.name)) {
+    const runnerUp = system.factions
+      .filter((f) => !sameName(f.name, faction.name) && f.influence !== null)
+      .sort((a, b) => (b.influence ?? 0) - (a.influence ?? 0))[0]
+    if (!runnerUp || runnerUp.influence === null) return null
+    return { gap: faction.influence - runnerUp.influence, other: runnerUp.name }
+  }
+
+  const controller = system.factions.find((f) => sameName(f.name, system.controllingFaction!))
+  if (!controller || controller.influence === null) return null
+  return { gap: controller.influence - faction.influence, other: controller.name }
+}
+
+const evaluateRule = (
+  rule: AlertRuleSpec,
+  system: SystemFactions,
+  faction: FactionSnapshot
+): string | null => {
+  const header = `🔔 **${rule.name}** — **${faction.name}** in **${system.systemName}**`
+  const threshold = rule.threshold ?? 0
+
+  switch (rule.ruleType) {
+    case "influence_below":
+      if (faction.influence === null || faction.influence * 100 >= threshold) return null
+      return `${header}\nInfluence ${pct(faction.influence)} is below ${threshold}%`
+    case "influence_above":
+      if (faction.influence === null || faction.influence * 100 <= threshold) return null
+      return `${header}\nInfluence ${pct(faction.influence)} is above ${threshold}%`
+    case "gap_to_controller_below": {
+      const result = controllerGap(system, faction)
+      if (!result || Math.abs(result.gap) * 100 >= threshold) return null
+      return `${header}\nInfluence gap to ${result.other} is ${pct(Math.abs(result.gap))} (below ${threshold}%)`
+    }
+    case "pending_state":
+      if (!rule.state || !faction.pendingStates.some((s) => sameName(s, rule.state!))) return null
+      return `${header}\n${rule.state} is pending`
+  }
+}
+
+/**
+ * Evaluate rules against the EDDN snapshot.
+ * Rules without a faction apply to every tracked faction; rules without a
+ * system apply to every system the faction is present in.
+ */
+export const evaluateAlertRules = (
+  rules: ReadonlyArray<AlertRuleSpec>,
+  systems: ReadonlyArray<SystemFactions>,
+  trackedFactions: ReadonlySet<string>
+): AlertMatch[] => {
+  const tracked = [...trackedFactions]
+  const matches: AlertMatch[] = []
+
+  for (const rule of rules) {
+    const factionNames = rule.factionName ? [rule.factionName] : tracked
+    for (const system of systems) {
+      if (rule.systemName && !sameName(rule.systemName, system.systemName)) continue
+      for (const faction of system.factions) {
+        if (!factionNames.some((n) => sameName(n, faction.name))) continue
+        const message = evaluateRule(rule, system, faction)
+        if (message) {
+          matches.push({ ruleId: rule.id, systemName: system.systemName, factionName: faction.name, message })
+        }
+      }
+    }
+  }
+
+  return matches
+}
+
+// ---------------------------------------------------------------------------
+// DB helpers
+// ---------------------------------------------------------------------------
+
+const loadEnabledRules = async (client: Client): Promise<AlertRuleSpec[]> => {
+  const result = await client.execute("SELECT * FROM alert_rule WHERE enabled = 1")
+  return result.rows.map((row) => ({
+    id: String(row.id),
+    name: String(row.name),
+    ruleType: String(row.rule_type) as AlertRuleType,
+    factionName: row.faction_name == null ? null : String(row.faction_name),
+    systemName: row.system_name == null ? null : String(row.system_name),
+    threshold: row.threshold == null ? null : Number(row.threshold),
+    state: row.state == null ? null : String(row.state),
+    webhookUrl: row.webhook_url == null ? null : String(row.webhook_url),
+  }))
+}
+
+const parsePendingStates = (raw: unknown): string[] => {
+  if (raw == null) return []
+  try {
+    const parsed = JSON.parse(String(raw))
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .map((s: any) => (typeof s === "string" ? s : s?.State))
+      .filter((s: unknown): s is string => typeof s === "string")
+  } catch {
+    return []
+  }
+}
+
+const loadSystemFactions = async (client: Client): Promise<SystemFactions[]> => {
+  const result = await client.execute(
+    `SELECT f.system_name, f.name, f.influence, f.pending_states, s.controlling_faction
+     FROM eddn_faction f
+     LEFT JOIN eddn_system_info s ON s.system_name = f.system_name
+     ORDER BY f.system_name`
+  )
+
+  const bySystem = new Map<string, SystemFactions>()
+  for (const row of result.rows) {
+    const systemName = String(row.system_name)
+    let system = bySystem.get(systemName)
+    if (!system) {
+      system = {
+        systemName,
+        controllingFaction: row.controlling_faction == null ? null : String(row.controlling_faction),
+        factions: [],
+      }
+      bySystem.set(systemName, system)
+    }
+    system.factions.push({
+      name: String(row.name),
+      influence: row.influence == null ? null : Number(row.influence),
+      pendingStates: parsePendingStates(row.pending_states),
+    })
+  }
+  return [...bySystem.values()]
+}
+
+const firingKey = (ruleId: string, systemName: string, factionName: string): string =>
+  `${ruleId}|${systemName}|${factionName}`
+
+const loadFiringKeys = async (client: Client): Promise<Set<string>> => {
+  const result = await client.execute("SELECT rule_id, system_name, faction_name FROM alert_firing")
+  return new Set(
+    result.rows.map((r) => firingKey(String(r.rule_id), String(r.system_name), String(r.faction_name)))
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Discord helper
+// ---------------------------------------------------------------------------
+
+const postToDiscord = (webhookUrl: string, content: string): Effect.Effect<void> =>
+  Effect.tryPromise({
+    try: () =>
+      fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        signal: AbortSignal.timeout(10_000),
+      }),
+    catch: (e) => new Error(`Discord post failed: ${e}`),
+  }).pipe(
+    Effect.asVoid,
+    Effect.catchAll((e) => Effect.logWarning(`Alert Discord error: ${e}`))
+  )
+
+// ---------------------------------------------------------------------------
+// Per-tick evaluation + de-duplication
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate all enabled rules and post new matches.
+ * Returns the number of alerts posted (or that would have been posted without a webhook).
+ */
+export const runAlertCheck = (
+  client: Client,
+  defaultWebhookUrl: string | null,
+  primaryFaction: string
+): Effect.Effect<number> =>
+  Effect.gen(function* () {
+    const loaded = yield* Effect.tryPromise({
+      try: async () => {
+        const rules = await loadEnabledRules(client)
+        const tracked = await loadTrackedFactions(client, primaryFaction)
+        const systems = await loadSystemFactions(client)
+        const firing = await loadFiringKeys(client)
+        return { rules, tracked, systems, firing }
+      },
+      catch: (e) => new Error(`Load alert rules failed: ${e}`),
+    }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as(null))))
+
+    if (!loaded) return 0
+
+    const { rules, tracked, systems, firing } = loaded
+    const ruleWebhooks = new Map(rules.map((r) => [r.id, r.webhookUrl]))
+    const matches = evaluateAlertRules(rules, systems, tracked.names)
+    const now = new Date().toISOString()
+    const stillFiring = new Set<string>()
+    let posted = 0
+
+    for (const match of matches) {
+      const key = firingKey(match.ruleId, match.systemName, match.factionName)
+      stillFiring.add(key)
+
+      if (firing.has(key)) {
+        yield* Effect.tryPromise({
+          try: () =>
+            client.execute({
+              sql: "UPDATE alert_firing SET last_seen_at = ? WHERE rule_id = ? AND system_name = ? AND faction_name = ?",
+              args: [now, match.ruleId, match.systemName, match.factionName],
+            }),
+          catch: (e) => new Error(`Alert firing update failed: ${e}`),
+        }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
+        continue
+      }
+
+      const webhookUrl =
+        ruleWebhooks.get(match.ruleId) ??
+        webhookForFactions(tracked.webhooks, [match.factionName], defaultWebhookUrl)
+      if (webhookUrl) {
+        yield* postToDiscord(webhookUrl, match.message)
+      }
+      yield* Effect.tryPromise({
+        try: () =>
+          client.execute({
+            sql: `INSERT INTO alert_firing (rule_id, system_name, faction_name, first_fired_at, last_seen_at)
+                  VALUES (?, ?, ?, ?, ?)`,
+            args: [match.ruleId, match.systemName, match.factionName, now, now],
+          }),
+        catch: (e) => new Error(`Alert firing insert failed: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
+      posted++
+    }
+
+    // Conditions that cleared (or whose rule was disabled/deleted) re-arm
+    for (const key of firing) {
+      if (stillFiring.has(key)) continue
+      const [ruleId, systemName, factionName] = key.split("|")
+      yield* Effect.tryPromise({
+        try: () =>
+          client.execute({
+            sql: "DELETE FROM alert_firing WHERE rule_id = ? AND system_name = ? AND faction_name = ?",
+            args: [ruleId ?? "", systemName ?? "", factionName ?? ""],
+          }),
+        catch: (e) => new Error(`Alert firing delete failed: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
+    }
+
+    return posted
+  })
+
+// ---------------------------------------------------------------------------
+// Main fiber — subscribes to TickBus
+// ---------------------------------------------------------------------------
+
+export const runAlertScheduler: Effect.Effect<
+  never,
+  never,
+  AppConfig | TursoClient | TickBus
+> = Effect.gen(function* () {
+  const config = yield* AppConfig
+  const client = yield* TursoClient
+  const bus = yield* TickBus
+  const webhookUrl = Option.getOrNull(config.discord.webhooks.bgs)
+
+  yield* Effect.logInfo("Alert scheduler started (event-driven, subscribed to TickBus)")
+
+  return yield* Effect.scoped(
+    Effect.gen(function* () {
+      const sub = yield* PubSub.subscribe(bus)
+      return yield* Effect.forever(
+        Effect.gen(function* () {
+          const currentTick = yield* Queue.take(sub)
+          const posted = yield* runAlertCheck(client, webhookUrl, config.faction.name)
+          yield* Effect.logInfo(`Alert scheduler: tick ${currentTick} — ${posted} new alert(s)`)
+        })
+      )
+    })
+  )
+}).pipe(
+  Effect.catchAll((e) => Effect.logError(`Alert scheduler fatal: ${e}`))
+) as Effect.Effect<never, never, AppConfig | TursoClient | TickBus>
@@ -0,0 +1,39 @@
+/**
+ * Autocomplete Indexer (every 10 minutes)
+ *
+ * Tops up autocomplete_name / autocomplete_fts with system, faction, commander
+ * and station names that appeared since the last run, so GET /api/autocomplete
+ * suggests newly seen names without rebuilding the index.
+ */
+
+import { Effect, Duration } from "effect"
+import { TursoClient } from "../database/client.js"
+import { refreshAutocompleteIndex } from "../services/autocomplete.js"
+
+const REFRESH_INTERVAL = Duration.minutes(10)
+
+export const runAutocompleteIndexer: Effect.Effect<never, never, TursoClient> =
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+
+    yield* Effect.logInfo("Autocomplete indexer started (every 10 minutes)")
+
+    const refreshOnce = Effect.gen(function* () {
+      const added = yield* Effect.tryPromise({
+        try: () => refreshAutocompleteIndex(client),
+        catch: (e) => new Error(`Autocomplete index refresh failed: ${e}`),
+      }).pipe(
+        Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as(0)))
+      )
+
+      if (added > 0) {
+        yield* Effect.logInfo(`Autocomplete indexer: added ${added} name(s)`)
+      }
+
+      yield* Effect.sleep(REFRESH_INTERVAL)
+    })
+
+    return yield* Effect.forever(refreshOnce)
+  }).pipe(
+    Effect.catchAll((e) => Effect.logError(`Autocomplete indexer fatal: ${e}`))
+  ) as Effect.Effect<never, never, TursoClient>
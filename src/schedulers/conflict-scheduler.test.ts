@@ -9,12 +9,22 @@
  *   4. War lost  (rival faction reaches 4 wins)
  *   5. Unchanged (wonDays same — silently refreshes state, no Discord post)
  *   6. Silent cleanup (system disappears from current tick — delete, no post)
+ *
+ * Pending-state early warning (parsePendingConflicts / runPendingConflictDiff):
+ *   9.  Opponent matched by the same pending state in the system, tracked names in any case
+ *   10. New pending state announced once, cleared silently when gone
+ *
+ * Tracked factions:
+ *   11. Allied tracked_faction conflicts are reported to the faction's webhook override
+ *
+ * Stakes:
+ *   12. Stakes resolved to a known station or settlement are described in the message
  */
 
 import { describe, it, expect, mock, beforeEach } from "bun:test"
 import { Effect } from "effect"
 import { createClient } from "@libsql/client"
-import { runConflictCheck } from "./conflict-scheduler.js"
+import { runConflictCheck, parsePendingConflicts, runPendingConflictDiff } from "./conflict-scheduler.js"
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -57,22 +67,55 @@ const SCHEMA = `
     updated_at    TEXT NOT NULL
   );
 
-  CREATE TABLE IF NOT EXISTS protected_faction (
+  CREATE TABLE IF NOT EXISTS pending_conflict_state (
+    system      TEXT NOT NULL,
+    faction     TEXT NOT NULL,
+    state       TEXT NOT NULL,
+    opponent    TEXT,
+    detected_at TEXT NOT NULL,
+    updated_at  TEXT NOT NULL,
+    PRIMARY KEY (system, faction, state)
+  );
+
+  CREATE TABLE IF NOT EXISTS tracked_faction (
     id          TEXT PRIMARY KEY,
     name        TEXT NOT NULL UNIQUE,
+    webhook_url TEXT,
     description TEXT,
-    protected   INTEGER NOT NULL DEFAULT 1
+    created_at  TEXT NOT NULL,
+    updated_at  TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS eddn_station (
+    id                  TEXT PRIMARY KEY,
+    market_id           INTEGER NOT NULL UNIQUE,
+    system_name         TEXT NOT NULL,
+    station_name        TEXT NOT NULL,
+    station_type        TEXT,
+    controlling_faction TEXT,
+    faction_state       TEXT,
+    landing_pads_large  INTEGER,
+    updated_at          TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS eddn_settlement (
+    id                  TEXT PRIMARY KEY,
+    system_name         TEXT NOT NULL,
+    name                TEXT NOT NULL,
+    market_id           INTEGER,
+    body_name           TEXT NOT NULL,
+    controlling_faction TEXT,
+    faction_state       TEXT,
+    updated_at          TEXT NOT NULL,
+    UNIQUE (system_name, body_name, name)
   );
 `
 
+// FACTION is passed to runConflictCheck as the main faction, so it is tracked
+// without a tracked_faction row
 const makeClient = async () => {
   const client = createClient({ url: "file::memory:" })
   await client.executeMultiple(SCHEMA)
-  // Seed the tracked faction so runConflictCheck finds it in protected_faction
-  await client.execute({
-    sql: "INSERT INTO protected_faction (id, name, protected) VALUES (?, ?, 1)",
-    args: [crypto.randomUUID(), FACTION],
-  })
   return client
 }
 
@@ -159,7 +202,7 @@ describe("runConflictCheck", () => {
     // Current tick has a conflict; no previous state
     await insertEvent(client, SYSTEM, 0, 0)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(1)
     expect(calls[0]).toContain("⚔️")
@@ -182,7 +225,7 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, SYSTEM, 1, 0)
     await insertEvent(client, SYSTEM, 2, 0)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(1)
     expect(calls[0]).toContain("📅")
@@ -203,7 +246,7 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, SYSTEM, 3, 1)
     await insertEvent(client, SYSTEM, 4, 1)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(1)
     expect(calls[0]).toContain("🏆")
@@ -223,7 +266,7 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, SYSTEM, 1, 3)
     await insertEvent(client, SYSTEM, 1, 4)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(1)
     expect(calls[0]).toContain("💀")
@@ -243,7 +286,7 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, SYSTEM, 2, 1)
     await insertEvent(client, SYSTEM, 2, 1)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(0)
 
@@ -261,7 +304,7 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, SYSTEM, 2, 1)
     // (no insertEvent — empty tick)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(0)
 
@@ -276,7 +319,7 @@ describe("runConflictCheck", () => {
 
     await insertEvent(client, SYSTEM, 0, 0)
 
-    await Effect.runPromise(runConflictCheck(client, null, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, null, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(0)
 
@@ -295,10 +338,161 @@ describe("runConflictCheck", () => {
     await insertPrevState(client, "Deciat", 1, 0)
     await insertEvent(client, "Deciat", 2, 0)
 
-    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK))
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
 
     expect(calls).toHaveLength(2)
     expect(calls.some((m) => m.includes("⚔️") && m.includes("Sol"))).toBe(true)
     expect(calls.some((m) => m.includes("📅") && m.includes("Deciat"))).toBe(true)
   })
 })
+
+describe("pending conflict states", () => {
+  beforeEach(() => {
+    mock.restore()
+  })
+
+  // -------------------------------------------------------------------------
+  it("9. parsePendingConflicts — matches the opponent by pending state", () => {
+    const pending = parsePendingConflicts(
+      [
+        { system: SYSTEM, faction: FACTION, pendingStates: ["War", "Expansion"] },
+        { system: SYSTEM, faction: RIVAL, pendingStates: ["War"] },
+        { system: SYSTEM, faction: "Bystander Party", pendingStates: ["Election"] },
+        { system: "Sol", faction: FACTION, pendingStates: ["Election", "Boom"] },
+        { system: "Sol", faction: RIVAL, pendingStates: ["Election"] },
+        { system: "Sol", faction: "Bystander Party", pendingStates: ["Election"] },
+      ],
+      new Set([FACTION])
+    )
+
+    expect([...pending.values()]).toEqual([
+      { system: SYSTEM, faction: FACTION, state: "War", opponent: RIVAL },
+      { system: SYSTEM, faction: FACTION, state: "Expansion", opponent: null },
+      // Two candidates in Sol — ambiguous opponent
+      { system: "Sol", faction: FACTION, state: "Election", opponent: null },
+    ])
+
+    // Tracked names match regardless of case; entries keep the EDDN spelling
+    const upper = parsePendingConflicts(
+      [
+        { system: SYSTEM, faction: FACTION, pendingStates: ["War"] },
+        { system: SYSTEM, faction: RIVAL, pendingStates: ["War"] },
+      ],
+      new Set([FACTION.toUpperCase()])
+    )
+    expect([...upper.values()]).toEqual([{ system: SYSTEM, faction: FACTION, state: "War", opponent: RIVAL }])
+  })
+
+  // -------------------------------------------------------------------------
+  it("10. runPendingConflictDiff — announces once, clears silently", async () => {
+    const client = await makeClient()
+    const calls = mockFetch()
+    const pending = parsePendingConflicts(
+      [
+        { system: SYSTEM, faction: FACTION, pendingStates: ["CivilWar"] },
+        { system: SYSTEM, faction: RIVAL, pendingStates: ["CivilWar"] },
+      ],
+      new Set([FACTION])
+    )
+    const observed = new Set([SYSTEM])
+
+    await Effect.runPromise(runPendingConflictDiff(client, WEBHOOK, pending, observed, "test"))
+    await Effect.runPromise(runPendingConflictDiff(client, WEBHOOK, pending, observed, "test"))
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0]).toContain("⏳ Conflict pending")
+    expect(calls[0]).toContain(`${FACTION} vs ${RIVAL} (Civil War)`)
+
+    // Not pending any more — row removed without a post
+    await Effect.runPromise(runPendingConflictDiff(client, WEBHOOK, new Map(), observed, "test"))
+    const rows = await client.execute("SELECT * FROM pending_conflict_state")
+    expect(rows.rows).toHaveLength(0)
+    expect(calls).toHaveLength(1)
+  })
+})
+
+describe("tracked factions", () => {
+  beforeEach(() => {
+    mock.restore()
+  })
+
+  // -------------------------------------------------------------------------
+  it("11. allied faction conflict — posted to its webhook override", async () => {
+    const client = await makeClient()
+    const ALLY = "Allied Squadron Faction"
+    const ALLY_WEBHOOK = "https://discord.com/api/webhooks/ally/token"
+    await client.execute({
+      sql: `INSERT INTO tracked_faction (id, name, webhook_url, created_at, updated_at)
+            VALUES (?, ?, ?, datetime('now'), datetime('now'))`,
+      args: [crypto.randomUUID(), ALLY, ALLY_WEBHOOK],
+    })
+
+    const urls: string[] = []
+    ;(globalThis as any).fetch = mock(async (url: string) => {
+      urls.push(url)
+      return new Response(null, { status: 204 })
+    })
+
+    await client.execute({
+      sql: `INSERT INTO event (id, event, timestamp, tickid, ticktime, raw_json)
+            VALUES (?, 'FSDJump', ?, ?, ?, ?)`,
+      args: [
+        crypto.randomUUID(),
+        new Date().toISOString(),
+        TICK,
+        TICK,
+        JSON.stringify({
+          event: "FSDJump",
+          StarSystem: "Deciat",
+          Conflicts: [
+            {
+              WarType: "war",
+              Faction1: { Name: RIVAL, Stake: "", WonDays: 0 },
+              Faction2: { Name: ALLY, Stake: "", WonDays: 0 },
+            },
+          ],
+        }),
+      ],
+    })
+    await insertEvent(client, SYSTEM, 0, 0)
+
+    await Effect.runPromise(runConflictCheck(client, WEBHOOK, TICK, CURRENT_TICK, FACTION))
+
+    expect(urls.sort()).toEqual([ALLY_WEBHOOK, WEBHOOK].sort())
+  })
+
+})
+
+describe("stakes", () => {
+  beforeEach(() => {
+    mock.restore()
+  })
+
+  // -------------------------------------------------------------------------
+  it("12. stakes — names what the station or settlement at stake is", async () => {
+    const calls = mockFetch()
+
+    const station = await makeClient()
+    await station.execute({
+      sql: `INSERT INTO eddn_station (id, market_id, system_name, station_name, station_type, controlling_faction, landing_pads_large, updated_at)
+            VALUES (?, 3221, ?, 'Our Station', 'Outpost', ?, 0, datetime('now'))`,
+      args: [crypto.randomUUID(), SYSTEM, FACTION],
+    })
+    await insertEvent(station, SYSTEM, 0, 0)
+    await Effect.runPromise(runConflictCheck(station, WEBHOOK, TICK, CURRENT_TICK, FACTION))
+
+    // Only known from ApproachSettlement, never docked at
+    const settlement = await makeClient()
+    await settlement.execute({
+      sql: `INSERT INTO eddn_settlement (id, system_name, name, body_name, controlling_faction, updated_at)
+            VALUES (?, ?, 'Our Station', 'Alpha Centauri A 1', ?, datetime('now'))`,
+      args: [crypto.randomUUID(), SYSTEM, FACTION],
+    })
+    await insertEvent(settlement, SYSTEM, 0, 0)
+    await Effect.runPromise(runConflictCheck(settlement, WEBHOOK, TICK, CURRENT_TICK, FACTION))
+
+    expect(calls).toHaveLength(2)
+    expect(calls[0]).toContain("Stake: Our Station (outpost — our only asset)")
+    expect(calls[1]).toContain("Stake: Our Station (settlement — our only asset)")
+  })
+})
@@ -8,6 +8,8 @@
  *     - New conflict started
  *     - Day scored (wonDays incremented)
  *     - War won/lost (either faction reaches 4 wins)
+ *     Stakes that resolve to a known station or settlement (EDDN Docked /
+ *     ApproachSettlement) are described, e.g. "our only large-pad station".
  *  4. Upserts/deletes conflict_state accordingly
  *
  * Replaces the previous 6-hourly bulk-notification approach.
@@ -18,6 +20,8 @@ import type { Client } from "@libsql/client"
 import { AppConfig } from "../lib/config.js"
 import { TursoClient } from "../database/client.js"
 import { TickBus } from "../services/TickBus.js"
+import { loadTrackedFactions, trackedFactionMatcher, webhookForFactions, type TrackedFactions } from "../services/tracked-factions.js"
+import { loadStakeDescriptions } from "../services/faction-assets.js"
 
 // ---------------------------------------------------------------------------
 // Types
@@ -34,6 +38,19 @@ export interface ConflictEntry {
   updatedAt?: string  // ISO string from conflict_state.updated_at, if loaded from DB
 }
 
+export interface PendingConflictEntry {
+  system: string
+  faction: string
+  state: string
+  opponent: string | null  // null for Expansion/Retreat, or when no single match exists
+}
+
+export interface FactionPendingStates {
+  system: string
+  faction: string
+  pendingStates: ReadonlyArray<string>
+}
+
 // ---------------------------------------------------------------------------
 // Conflict detection (from raw EDDN events)
 // ---------------------------------------------------------------------------
@@ -113,6 +130,64 @@ const extractConflicts = async (
   return parseConflictsFromEntries(entries, factionNames)
 }
 
+// ---------------------------------------------------------------------------
+// Pending-state detection (from EDDN faction snapshots)
+// ---------------------------------------------------------------------------
+
+/** Pending states that warn about an upcoming conflict or a presence change */
+export const PENDING_CONFLICT_STATES = ["War", "CivilWar", "Election", "Expansion", "Retreat"] as const
+
+/** Pending states fought against another faction in the same system */
+const OPPOSED_STATES = new Set(["War", "CivilWar", "Election"])
+
+export const pendingConflictKey = (entry: { system: string; faction: string; state: string }): string =>
+  `${entry.system}|${entry.faction}|${entry.state}`
+
+/**
+ * Extract pending conflict states for tracked factions, keyed by pendingConflictKey.
+ * The opponent of a pending War/CivilWar/Election is the one other faction in the
+ * system with the same pending state; with zero or several candidates it is left null.
+ * When two tracked factions are about to fight each other, one entry is kept.
+ */
+export const parsePendingConflicts = (
+  rows: ReadonlyArray<FactionPendingStates>,
+  factionNames: Set<string>
+): Map<string, PendingConflictEntry> => {
+  const watched = new Set<string>(PENDING_CONFLICT_STATES)
+  const isTracked = trackedFactionMatcher(factionNames)
+  const out = new Map<string, PendingConflictEntry>()
+
+  for (const row of rows) {
+    if (!isTracked(row.faction)) continue
+
+    for (const state of row.pendingStates) {
+      if (!watched.has(state)) continue
+
+      let opponent: string | null = null
+      if (OPPOSED_STATES.has(state)) {
+        const candidates = rows.filter(
+          (r) => r.system === row.system && r.faction !== row.faction && r.pendingStates.includes(state)
+        )
+        opponent = candidates.length === 1 ? candidates[0]!.faction : null
+      }
+
+      // Same fight seen from the other tracked side — already recorded
+      if (
+        opponent &&
+        isTracked(opponent) &&
+        out.has(pendingConflictKey({ system: row.system, faction: opponent, state }))
+      ) {
+        continue
+      }
+
+      const entry = { system: row.system, faction: row.faction, state, opponent }
+      out.set(pendingConflictKey(entry), entry)
+    }
+  }
+
+  return out
+}
+
 // ---------------------------------------------------------------------------
 // DB persistence
 // ---------------------------------------------------------------------------
@@ -177,10 +252,47 @@ const deleteConflictState = async (client: Client, system: string): Promise<void
   })
 }
 
+const loadPendingConflictState = async (client: Client): Promise<Map<string, PendingConflictEntry>> => {
+  const result = await client.execute("SELECT * FROM pending_conflict_state")
+  const map = new Map<string, PendingConflictEntry>()
+  for (const row of result.rows) {
+    const entry = {
+      system: String(row.system),
+      faction: String(row.faction),
+      state: String(row.state),
+      opponent: row.opponent == null ? null : String(row.opponent),
+    }
+    map.set(pendingConflictKey(entry), entry)
+  }
+  return map
+}
+
+const upsertPendingConflictState = async (client: Client, entry: PendingConflictEntry): Promise<void> => {
+  const now = new Date().toISOString()
+  await client.execute({
+    sql: `INSERT INTO pending_conflict_state (system, faction, state, opponent, detected_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(system, faction, state) DO UPDATE SET
+            opponent   = excluded.opponent,
+            updated_at = excluded.updated_at`,
+    args: [entry.system, entry.faction, entry.state, entry.opponent, now, now],
+  })
+}
+
+const deletePendingConflictState = async (client: Client, entry: PendingConflictEntry): Promise<void> => {
+  await client.execute({
+    sql: "DELETE FROM pending_conflict_state WHERE system = ? AND faction = ? AND state = ?",
+    args: [entry.system, entry.faction, entry.state],
+  })
+}
+
 // ---------------------------------------------------------------------------
 // Message formatters
 // ---------------------------------------------------------------------------
 
+/** Stake name → description of the asset at stake */
+type StakeNotes = ReadonlyMap<string, string>
+
 const typeLabel = (warType: string): string => {
   if (warType === "war") return "War"
   if (warType === "election") return "Election"
@@ -188,25 +300,32 @@ const typeLabel = (warType: string): string => {
   return warType
 }
 
-const formatNewConflict = (system: string, entry: ConflictEntry): string =>
+/** Stake name, with what it is when the asset is known: "Hutton Orbital (outpost — our only asset)" */
+const stakeLabel = (stake: string, stakeNotes: StakeNotes): string => {
+  const note = stakeNotes.get(stake)
+  return note ? `${stake} (${note})` : stake
+}
+
+const formatNewConflict = (system: string, entry: ConflictEntry, stakeNotes: StakeNotes = new Map()): string =>
   [
     `⚔️ New conflict in **${system}**`,
     `${entry.faction1} vs ${entry.faction2} (${typeLabel(entry.warType)})`,
-    `Score: ${entry.wonDays1} – ${entry.wonDays2}${entry.stake1 ? ` | Stake: ${entry.stake1}` : ""}`,
+    `Score: ${entry.wonDays1} – ${entry.wonDays2}${entry.stake1 ? ` | Stake: ${stakeLabel(entry.stake1, stakeNotes)}` : ""}`,
   ].join("\n")
 
 const formatDayScored = (
   system: string,
   current: ConflictEntry,
-  prev: ConflictEntry
+  prev: ConflictEntry,
+  stakeNotes: StakeNotes = new Map()
 ): string => {
   const f1Arrow = current.wonDays1 > prev.wonDays1 ? " ←" : ""
   const f2Arrow = current.wonDays2 > prev.wonDays2 ? " ←" : ""
-  const stakeLabel = current.stake1 || current.stake2
+  const stake = current.stake1 || current.stake2
   return [
     `📅 Day scored in **${system}**`,
     `${current.faction1}: ${current.wonDays1} day${current.wonDays1 !== 1 ? "s" : ""}${f1Arrow} | ${current.faction2}: ${current.wonDays2} day${current.wonDays2 !== 1 ? "s" : ""}${f2Arrow}`,
-    stakeLabel ? `Stake: ${stakeLabel}` : "",
+    stake ? `Stake: ${stakeLabel(stake, stakeNotes)}` : "",
   ]
     .filter(Boolean)
     .join("\n")
@@ -215,7 +334,8 @@ const formatDayScored = (
 const formatConflictResolved = (
   system: string,
   entry: ConflictEntry,
-  factionNames: Set<string>
+  factionNames: Set<string>,
+  stakeNotes: StakeNotes = new Map()
 ): string => {
   const ourSide = factionNames.has(entry.faction1) ? 1 : 2
   const winner = entry.wonDays1 >= 4 ? 1 : 2
@@ -229,7 +349,7 @@ const formatConflictResolved = (
     return [
       `🏆 Conflict resolved in **${system}**`,
       `${winnerName} wins (${winScore} – ${loseScore})`,
-      stake ? `Won: ${stake}` : "",
+      stake ? `Won: ${stakeLabel(stake, stakeNotes)}` : "",
     ]
       .filter(Boolean)
       .join("\n")
@@ -237,7 +357,7 @@ const formatConflictResolved = (
     return [
       `💀 Conflict resolved in **${system}**`,
       `${winnerName} wins (${winScore} – ${loseScore})`,
-      stake ? `Lost: ${stake}` : "",
+      stake ? `Lost: ${stakeLabel(stake, stakeNotes)}` : "",
     ]
       .filter(Boolean)
       .join("\n")
@@ -247,7 +367,8 @@ const formatConflictResolved = (
 const formatConflictEnded = (
   system: string,
   entry: ConflictEntry,
-  factionNames: Set<string>
+  factionNames: Set<string>,
+  stakeNotes: StakeNotes = new Map()
 ): string => {
   const ourSide = factionNames.has(entry.faction1) ? 1 : 2
   const ourDays = ourSide === 1 ? entry.wonDays1 : entry.wonDays2
@@ -260,12 +381,28 @@ const formatConflictEnded = (
   return [
     `${emoji} Conflict ended in **${system}** (last known score)`,
     `${ourFaction}: ${ourDays} day${ourDays !== 1 ? "s" : ""} | ${theirFaction}: ${theirDays} day${theirDays !== 1 ? "s" : ""}`,
-    stake ? `Stake: ${stake}` : "",
+    stake ? `Stake: ${stakeLabel(stake, stakeNotes)}` : "",
   ]
     .filter(Boolean)
     .join("\n")
 }
 
+const pendingLabel = (state: string): string => (state === "CivilWar" ? "Civil War" : state)
+
+export const formatConflictPending = (entry: PendingConflictEntry): string => {
+  if (entry.state === "Expansion") {
+    return `⏳ Expansion pending for **${entry.faction}** from **${entry.system}**`
+  }
+  if (entry.state === "Retreat") {
+    return `⏳ Retreat pending for **${entry.faction}** in **${entry.system}**`
+  }
+  return [
+    `⏳ Conflict pending in **${entry.system}**`,
+    `${entry.faction} vs ${entry.opponent ?? "unknown opponent"} (${pendingLabel(entry.state)})`,
+    "Expected to become active at the next tick",
+  ].join("\n")
+}
+
 // ---------------------------------------------------------------------------
 // Discord helper
 // ---------------------------------------------------------------------------
@@ -309,9 +446,24 @@ export const runConflictDiff = (
      *   undefined   — no cleanup; caller has partial knowledge (tick scheduler)
      */
     cleanupScope?: "all" | Set<string>
+    /** Per-faction webhook overrides (tracked_faction.webhook_url) */
+    webhookOverrides?: ReadonlyMap<string, string>
   } = {}
 ): Effect.Effect<void> =>
   Effect.gen(function* () {
+    const overrides = options.webhookOverrides ?? new Map<string, string>()
+    const webhookFor = (entry: ConflictEntry) =>
+      webhookForFactions(overrides, [entry.faction1, entry.faction2], webhookUrl)
+    const describeStakes = (system: string, entry: ConflictEntry) =>
+      Effect.tryPromise({
+        try: () => loadStakeDescriptions(client, system, [entry.stake1, entry.stake2], factionNames),
+        catch: (e) => new Error(`Load stake assets failed: ${e}`),
+      }).pipe(
+        Effect.catchAll((e) =>
+          Effect.logWarning(`${e}`).pipe(Effect.as<StakeNotes>(new Map()))
+        )
+      )
+
     const prevState = yield* Effect.tryPromise({
       try: () => loadConflictState(client),
       catch: (e) => new Error(`Load conflict state failed: ${e}`),
@@ -331,8 +483,10 @@ export const runConflictDiff = (
           catch: (e) => new Error(`Upsert failed: ${e}`),
         }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
 
-        if (webhookUrl) {
-          yield* postToDiscord(webhookUrl, formatNewConflict(system, current))
+        const target = webhookFor(current)
+        if (target) {
+          const stakeNotes = yield* describeStakes(system, current)
+          yield* postToDiscord(target, formatNewConflict(system, current, stakeNotes))
         }
         yield* Effect.logInfo(`${logPrefix}: new conflict in ${system}`)
         continue
@@ -345,8 +499,10 @@ export const runConflictDiff = (
           catch: (e) => new Error(`Delete failed: ${e}`),
         }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
 
-        if (webhookUrl) {
-          yield* postToDiscord(webhookUrl, formatConflictResolved(system, current, factionNames))
+        const target = webhookFor(current)
+        if (target) {
+          const stakeNotes = yield* describeStakes(system, current)
+          yield* postToDiscord(target, formatConflictResolved(system, current, factionNames, stakeNotes))
         }
         yield* Effect.logInfo(`${logPrefix}: conflict resolved in ${system}`)
         continue
@@ -359,8 +515,10 @@ export const runConflictDiff = (
           catch: (e) => new Error(`Upsert failed: ${e}`),
         }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
 
-        if (webhookUrl) {
-          yield* postToDiscord(webhookUrl, formatDayScored(system, current, prev))
+        const target = webhookFor(current)
+        if (target) {
+          const stakeNotes = yield* describeStakes(system, current)
+          yield* postToDiscord(target, formatDayScored(system, current, prev, stakeNotes))
         }
         yield* Effect.logInfo(`${logPrefix}: day scored in ${system}`)
         continue
@@ -396,8 +554,10 @@ export const runConflictDiff = (
           prev.updatedAt !== undefined &&
           Date.now() - new Date(prev.updatedAt).getTime() < oneDayMs
 
-        if (recentlyActive && webhookUrl) {
-          yield* postToDiscord(webhookUrl, formatConflictEnded(system, prev, factionNames))
+        const target = webhookFor(prev)
+        if (recentlyActive && target) {
+          const stakeNotes = yield* describeStakes(system, prev)
+          yield* postToDiscord(target, formatConflictEnded(system, prev, factionNames, stakeNotes))
         }
         yield* Effect.logInfo(
           `${logPrefix}: conflict ended in ${system}${recentlyActive ? " (notification sent)" : " (stale, silent)"}`
@@ -408,6 +568,58 @@ export const runConflictDiff = (
     yield* Effect.logInfo(`${logPrefix}: processed — ${currentConflicts.size} active conflict(s)`)
   })
 
+/**
+ * Diff pending conflict states against pending_conflict_state and post a
+ * "conflict pending" notification for each new one. Entries that are no longer
+ * pending are removed silently: the conflict either became active (reported by
+ * runConflictDiff) or was cancelled. Only systems in observedSystems are
+ * cleaned up, so systems without fresh data keep their state.
+ */
+export const runPendingConflictDiff = (
+  client: Client,
+  webhookUrl: string | null,
+  currentPending: Map<string, PendingConflictEntry>,
+  observedSystems: Set<string>,
+  logPrefix: string,
+  webhookOverrides: ReadonlyMap<string, string> = new Map()
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const prevState = yield* Effect.tryPromise({
+      try: () => loadPendingConflictState(client),
+      catch: (e) => new Error(`Load pending conflict state failed: ${e}`),
+    }).pipe(
+      Effect.catchAll((e) =>
+        Effect.logWarning(`${e}`).pipe(Effect.as(new Map<string, PendingConflictEntry>()))
+      )
+    )
+
+    for (const [key, entry] of currentPending.entries()) {
+      yield* Effect.tryPromise({
+        try: () => upsertPendingConflictState(client, entry),
+        catch: (e) => new Error(`Pending upsert failed: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
+
+      if (prevState.has(key)) continue
+
+      const target = webhookForFactions(webhookOverrides, [entry.faction], webhookUrl)
+      if (target) {
+        yield* postToDiscord(target, formatConflictPending(entry))
+      }
+      yield* Effect.logInfo(`${logPrefix}: ${entry.state} pending for ${entry.faction} in ${entry.system}`)
+    }
+
+    for (const [key, prev] of prevState.entries()) {
+      if (currentPending.has(key) || !observedSystems.has(prev.system)) continue
+
+      yield* Effect.tryPromise({
+        try: () => deletePendingConflictState(client, prev),
+        catch: (e) => new Error(`Pending delete failed: ${e}`),
+      }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`)))
+    }
+
+    yield* Effect.logInfo(`${logPrefix}: processed — ${currentPending.size} pending conflict state(s)`)
+  })
+
 // ---------------------------------------------------------------------------
 // Per-tick diff + notification logic
 // ---------------------------------------------------------------------------
@@ -416,26 +628,27 @@ export const runConflictCheck = (
   client: Client,
   webhookUrl: string | null,
   previousTick: string,
-  currentTick: string
+  currentTick: string,
+  primaryFaction: string
 ): Effect.Effect<void> =>
   Effect.gen(function* () {
     yield* Effect.logInfo(`Conflict scheduler: processing tick ${currentTick} (data from ${previousTick})`)
 
     // Load all tracked faction names fresh each tick so changes via dashboard take effect immediately
-    const factionNames = yield* Effect.tryPromise({
-      try: async () => {
-        const result = await client.execute("SELECT name FROM protected_faction")
-        return new Set(result.rows.map((r) => String(r.name)))
-      },
-      catch: (e) => new Error(`Load protected factions failed: ${e}`),
+    const tracked = yield* Effect.tryPromise({
+      try: () => loadTrackedFactions(client, primaryFaction),
+      catch: (e) => new Error(`Load tracked factions failed: ${e}`),
     }).pipe(
       Effect.catchAll((e) =>
-        Effect.logWarning(`${e}`).pipe(Effect.as(new Set<string>()))
+        Effect.logWarning(`${e}`).pipe(
+          Effect.as<TrackedFactions>({ names: new Set([primaryFaction]), webhooks: new Map() })
+        )
       )
     )
+    const factionNames = tracked.names
 
     if (factionNames.size === 0) {
-      yield* Effect.logWarning("Conflict scheduler: no protected factions found, skipping")
+      yield* Effect.logWarning("Conflict scheduler: no tracked factions found, skipping")
       return
     }
 
@@ -452,7 +665,15 @@ export const runConflictCheck = (
 
     // No cleanupScope: tick scheduler sees only events from commanders who submitted
     // journals, so it has a partial view. Cleanup is delegated to the EDDN hourly scan.
-    yield* runConflictDiff(client, webhookUrl, currentConflicts, factionNames, currentTick, "Conflict scheduler")
+    yield* runConflictDiff(
+      client,
+      webhookUrl,
+      currentConflicts,
+      factionNames,
+      currentTick,
+      "Conflict scheduler",
+      { webhookOverrides: tracked.webhooks }
+    )
   })
 
 // ---------------------------------------------------------------------------
@@ -496,7 +717,7 @@ export const runConflictScheduler: Effect.Effect<
             )
             return
           }
-          yield* runConflictCheck(client, webhookUrl, completedTickHash, currentTick)
+          yield* runConflictCheck(client, webhookUrl, completedTickHash, currentTick, config.faction.name)
         })
       )
     })
@@ -11,14 +11,18 @@
  *
  * Both this scanner and the tick-based scheduler share conflict_state, so
  * Discord notifications are only sent when something actually changes.
+ *
+ * The scan also reads eddn_faction.pending_states to warn about wars, elections,
+ * expansions and retreats a tick before they become active (pending_conflict_state).
  */
 
 import { Effect, Option, Duration } from "effect"
 import type { Client } from "@libsql/client"
 import { AppConfig } from "../lib/config.js"
 import { TursoClient } from "../database/client.js"
-import type { ConflictEntry } from "./conflict-scheduler.js"
-import { runConflictDiff } from "./conflict-scheduler.js"
+import type { ConflictEntry, FactionPendingStates } from "./conflict-scheduler.js"
+import { runConflictDiff, runPendingConflictDiff, parsePendingConflicts } from "./conflict-scheduler.js"
+import { loadTrackedFactions, type TrackedFactions } from "../services/tracked-factions.js"
 
 // ---------------------------------------------------------------------------
 // Extract conflicts from eddn_conflict for tracked factions
@@ -28,17 +32,22 @@ const extractEddnConflicts = async (
   client: Client,
   factionNames: Set<string>
 ): Promise<Map<string, ConflictEntry>> => {
-  // JOIN with protected_faction to get only conflicts involving our factions.
+  // Filter on tracked factions to get only conflicts involving our factions.
   // eddn_conflict has one row per conflict per system; a system may have
   // multiple rows if multiple conflicts exist, but we only keep the one
   // involving a tracked faction.
-  const result = await client.execute(`
-    SELECT ec.system_name, ec.faction1, ec.faction2,
-           ec.stake1, ec.stake2, ec.won_days1, ec.won_days2, ec.war_type
-    FROM eddn_conflict ec
-    WHERE ec.faction1 IN (SELECT name FROM protected_faction)
-       OR ec.faction2 IN (SELECT name FROM protected_faction)
-  `)
+  const names = [...factionNames]
+  const placeholders = names.map(() => "?").join(", ")
+  const result = await client.execute({
+    sql: `
+      SELECT ec.system_name, ec.faction1, ec.faction2,
+             ec.stake1, ec.stake2, ec.won_days1, ec.won_days2, ec.war_type
+      FROM eddn_conflict ec
+      WHERE ec.faction1 IN (${placeholders})
+         OR ec.faction2 IN (${placeholders})
+    `,
+    args: [...names, ...names],
+  })
 
   const map = new Map<string, ConflictEntry>()
   for (const row of result.rows) {
@@ -63,6 +72,50 @@ const extractEddnConflicts = async (
   return map
 }
 
+// ---------------------------------------------------------------------------
+// Extract pending states from eddn_faction
+// ---------------------------------------------------------------------------
+
+const parseStateNames = (raw: unknown): string[] => {
+  if (raw == null) return []
+  try {
+    const parsed = JSON.parse(String(raw))
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .map((s: any) => s?.State)
+      .filter((s: unknown): s is string => typeof s === "string")
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Load pending states for every faction in systems where a tracked faction is
+ * present — opponents are needed too, to match the other side of a pending war.
+ */
+const extractEddnPendingStates = async (
+  client: Client,
+  factionNames: Set<string>
+): Promise<FactionPendingStates[]> => {
+  const names = [...factionNames]
+  const result = await client.execute({
+    sql: `
+      SELECT ef.system_name, ef.name, ef.pending_states
+      FROM eddn_faction ef
+      WHERE ef.system_name IN (
+        SELECT system_name FROM eddn_faction WHERE name IN (${names.map(() => "?").join(", ")})
+      )
+    `,
+    args: names,
+  })
+
+  return result.rows.map((row) => ({
+    system: String(row.system_name ?? ""),
+    faction: String(row.name ?? ""),
+    pendingStates: parseStateNames(row.pending_states),
+  }))
+}
+
 // ---------------------------------------------------------------------------
 // Main fiber — runs every hour
 // ---------------------------------------------------------------------------
@@ -77,23 +130,43 @@ export const runEddnConflictScan: Effect.Effect<never, never, AppConfig | TursoC
 
     const scanOnce = Effect.gen(function* () {
 
-      const factionNames = yield* Effect.tryPromise({
-        try: async () => {
-          const result = await client.execute("SELECT name FROM protected_faction")
-          return new Set(result.rows.map((r) => String(r.name)))
-        },
-        catch: (e) => new Error(`Load protected factions failed: ${e}`),
+      const tracked = yield* Effect.tryPromise({
+        try: () => loadTrackedFactions(client, config.faction.name),
+        catch: (e) => new Error(`Load tracked factions failed: ${e}`),
       }).pipe(
         Effect.catchAll((e) =>
-          Effect.logWarning(`EDDN conflict scan: ${e}`).pipe(Effect.as(new Set<string>()))
+          Effect.logWarning(`EDDN conflict scan: ${e}`).pipe(
+            Effect.as<TrackedFactions>({ names: new Set([config.faction.name]), webhooks: new Map() })
+          )
         )
       )
+      const factionNames = tracked.names
 
       if (factionNames.size === 0) {
-        yield* Effect.logWarning("EDDN conflict scan: no protected factions found, skipping")
+        yield* Effect.logWarning("EDDN conflict scan: no tracked factions found, skipping")
         return
       }
 
+      const pendingRows = yield* Effect.tryPromise({
+        try: () => extractEddnPendingStates(client, factionNames),
+        catch: (e) => new Error(`EDDN pending state extraction failed: ${e}`),
+      }).pipe(
+        Effect.catchAll((e) =>
+          Effect.logWarning(`${e}`).pipe(Effect.as([] as FactionPendingStates[]))
+        )
+      )
+
+      // Runs before the conflict diff, which skips the rest of the scan when
+      // there are no active conflicts
+      yield* runPendingConflictDiff(
+        client,
+        webhookUrl,
+        parsePendingConflicts(pendingRows, factionNames),
+        new Set(pendingRows.map((r) => r.system)),
+        "EDDN conflict scan",
+        tracked.webhooks
+      )
+
       const currentConflicts = yield* Effect.tryPromise({
         try: () => extractEddnConflicts(client, factionNames),
         catch: (e) => new Error(`EDDN conflict extraction failed: ${e}`),
@@ -124,7 +197,7 @@ export const runEddnConflictScan: Effect.Effect<never, never, AppConfig | TursoC
         factionNames,
         new Date().toISOString(),
         "EDDN conflict scan",
-        { cleanupScope: "all" }
+        { cleanupScope: "all", webhookOverrides: tracked.webhooks }
       )
 
       yield* Effect.sleep(Duration.hours(1))
@@ -9,11 +9,16 @@ import { Effect, Layer, PubSub } from "effect"
 import { AppConfig } from "../lib/config.js"
 import { TursoClient } from "../database/client.js"
 import { TickBus } from "../services/TickBus.js"
+import { PresenceBus, type FactionPresenceEvent } from "../services/PresenceBus.js"
 import { runTickMonitor } from "./tick-monitor.js"
 import { runShoutoutScheduler } from "./shoutout-scheduler.js"
 import { runConflictScheduler } from "./conflict-scheduler.js"
 import { runInaraSync } from "./inara-sync.js"
 import { runEddnConflictScan } from "./eddn-conflict-scan.js"
+import { runPresencePoller, runPresenceNotifier } from "./presence-notifier.js"
+import { runAlertScheduler } from "./alert-scheduler.js"
+import { runScoutingScheduler } from "./scouting-scheduler.js"
+import { runAutocompleteIndexer } from "./autocomplete-indexer.js"
 
 export const SchedulersLive: Layer.Layer<never, never, AppConfig | TursoClient> =
   Layer.effectDiscard(
@@ -37,8 +42,25 @@ export const SchedulersLive: Layer.Layer<never, never, AppConfig | TursoClient>
       yield* Effect.forkDaemon(
         Effect.provideService(runConflictScheduler, TickBus, bus)
       )
+      yield* Effect.forkDaemon(
+        Effect.provideService(runAlertScheduler, TickBus, bus)
+      )
+      yield* Effect.forkDaemon(
+        Effect.provideService(runScoutingScheduler, TickBus, bus)
+      )
       yield* Effect.forkDaemon(runInaraSync)
       yield* Effect.forkDaemon(runEddnConflictScan)
+      yield* Effect.forkDaemon(runAutocompleteIndexer)
+
+      // PresenceBus — presence-poller → presence-notifier
+      const presenceBus = yield* PubSub.unbounded<FactionPresenceEvent>()
+
+      yield* Effect.forkDaemon(
+        Effect.provideService(runPresenceNotifier, PresenceBus, presenceBus)
+      )
+      yield* Effect.forkDaemon(
+        Effect.provideService(runPresencePoller, PresenceBus, presenceBus)
+      )
 
       yield* Effect.logInfo("All schedulers forked")
     })
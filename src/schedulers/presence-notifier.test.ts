@@ -0,0 +1,132 @@
+/**
+ * Presence Notifier — delivery and formatting tests
+ *
+ * Uses an in-memory SQLite database:
+ *   1. Undelivered rows are published on the bus in detection order and stamped
+ *   2. Already delivered rows are not published again
+ *   3. Discord messages for each event type
+ */
+
+import { describe, it, expect } from "bun:test"
+import { Effect, PubSub, Queue } from "effect"
+import { createClient } from "@libsql/client"
+import type { FactionPresenceEvent } from "../services/PresenceBus.js"
+import { publishPendingPresenceEvents, formatPresenceEvent } from "./presence-notifier.js"
+
+const FACTION = "Communism Interstellar Union"
+const RIVAL = "Rival Corp"
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS faction_presence_event (
+    id                  TEXT PRIMARY KEY,
+    system_name         TEXT NOT NULL,
+    faction_name        TEXT NOT NULL,
+    event_type          TEXT NOT NULL,
+    previous_controller TEXT,
+    new_controller      TEXT,
+    influence           REAL,
+    asset_name          TEXT,
+    detected_at         TEXT NOT NULL,
+    delivered_at        TEXT
+  );
+`
+
+const makeClient = async () => {
+  const client = createClient({ url: "file::memory:" })
+  await client.executeMultiple(SCHEMA)
+  return client
+}
+
+const insertEvent = (
+  client: Awaited<ReturnType<typeof makeClient>>,
+  id: string,
+  eventType: string,
+  detectedAt: string,
+  deliveredAt: string | null = null
+) =>
+  client.execute({
+    sql: `INSERT INTO faction_presence_event (id, system_name, faction_name, event_type, previous_controller, new_controller, influence, detected_at, delivered_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [id, "Alpha Centauri", FACTION, eventType, RIVAL, FACTION, 0.45, detectedAt, deliveredAt],
+  })
+
+const event = (overrides: Partial<FactionPresenceEvent>): FactionPresenceEvent => ({
+  id: "evt",
+  systemName: "Alpha Centauri",
+  factionName: FACTION,
+  eventType: "presence_gained",
+  previousController: RIVAL,
+  newController: RIVAL,
+  influence: 0.052,
+  assetName: null,
+  detectedAt: "2026-02-26T12:00:00Z",
+  ...overrides,
+})
+
+describe("publishPendingPresenceEvents", () => {
+  it("1. publishes undelivered events in order and marks them delivered", async () => {
+    const client = await makeClient()
+    await insertEvent(client, "evt-2", "control_gained", "2026-02-26T13:00:00Z")
+    await insertEvent(client, "evt-1", "presence_gained", "2026-02-26T12:00:00Z")
+
+    const received = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const bus = yield* PubSub.unbounded<FactionPresenceEvent>()
+          const sub = yield* PubSub.subscribe(bus)
+          const count = yield* publishPendingPresenceEvents(client, bus)
+          expect(count).toBe(2)
+          return yield* Queue.takeAll(sub)
+        })
+      )
+    )
+
+    const events = Array.from(received)
+    expect(events.map((e) => e.id)).toEqual(["evt-1", "evt-2"])
+    expect(events[1]!.eventType).toBe("control_gained")
+    expect(events[1]!.previousController).toBe(RIVAL)
+    expect(events[1]!.influence).toBe(0.45)
+
+    const pending = await client.execute("SELECT COUNT(*) AS n FROM faction_presence_event WHERE delivered_at IS NULL")
+    expect(Number(pending.rows[0]!.n)).toBe(0)
+  })
+
+  it("2. skips events that were already delivered", async () => {
+    const client = await makeClient()
+    await insertEvent(client, "evt-1", "presence_lost", "2026-02-26T12:00:00Z", "2026-02-26T12:01:00Z")
+
+    const count = await Effect.runPromise(
+      Effect.gen(function* () {
+        const bus = yield* PubSub.unbounded<FactionPresenceEvent>()
+        return yield* publishPendingPresenceEvents(client, bus)
+      })
+    )
+    expect(count).toBe(0)
+  })
+})
+
+describe("formatPresenceEvent", () => {
+  it("3. formats each event type", () => {
+    expect(formatPresenceEvent(event({}))).toBe(
+      `🚩 **${FACTION}** is now present in **Alpha Centauri** (5.2%)`
+    )
+    expect(formatPresenceEvent(event({ eventType: "presence_lost", influence: 0.021 }))).toBe(
+      `🏳️ **${FACTION}** has left **Alpha Centauri** (last known 2.1%)`
+    )
+    expect(formatPresenceEvent(event({ eventType: "presence_lost", influence: null }))).toBe(
+      `🏳️ **${FACTION}** has left **Alpha Centauri**`
+    )
+    expect(formatPresenceEvent(event({ eventType: "control_gained", newController: FACTION, influence: 0.5 }))).toBe(
+      `👑 **${FACTION}** now controls **Alpha Centauri** (50.0%)\nPreviously controlled by ${RIVAL}`
+    )
+    expect(formatPresenceEvent(event({ eventType: "control_lost", previousController: FACTION }))).toBe(
+      `⚠️ **${FACTION}** lost control of **Alpha Centauri**\nNow controlled by ${RIVAL}`
+    )
+    expect(formatPresenceEvent(event({ eventType: "asset_gained", newController: FACTION, assetName: "Hutton Orbital" }))).toBe(
+      `🏢 **${FACTION}** took over **Hutton Orbital** in **Alpha Centauri**\nPreviously owned by ${RIVAL}`
+    )
+    expect(formatPresenceEvent(event({ eventType: "asset_lost", previousController: FACTION, assetName: "Hutton Orbital" }))).toBe(
+      `⚠️ **${FACTION}** lost **Hutton Orbital** in **Alpha Centauri**\nNow owned by ${RIVAL}`
+    )
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * Presence Notifier
+ *
+ * Two fibers around the PresenceBus:
+ *  1. Poller — every minute, reads faction_presence_event rows that have not
+ *     been delivered yet (written by EDDN ingest, possibly in the separate
+ *     worker process), publishes them on the PresenceBus and stamps
+ *     delivered_at so each change is published once.
+ *  2. Discord subscriber — posts every published change to the faction's
+ *     tracked_faction webhook override, or the BGS webhook.
+ *
+ * Changes covered: our faction appearing in a system (expansion / invasion),
+ * disappearing from one (retreat), control of a system changing hands and a
+ * station or settlement changing owner.
+ */
+
+import { Effect, Option, PubSub, Queue, Duration } from "effect"
+import type { Client } from "@libsql/client"
+import { AppConfig } from "../lib/config.js"
+import { TursoClient } from "../database/client.js"
+import { PresenceBus, type FactionPresenceEvent, type PresenceEventType } from "../services/PresenceBus.js"
+import { loadTrackedFactions, webhookForFactions } from "../services/tracked-factions.js"
+
+const POLL_INTERVAL = Duration.minutes(1)
+
+// ---------------------------------------------------------------------------
+// DB helpers
+// ---------------------------------------------------------------------------
+
+const loadUndeliveredEvents = async (client: Client): Promise<FactionPresenceEvent[]> => {
+  const result = await client.execute(
+    "SELECT * FROM faction_presence_event WHERE delivered_at IS NULL ORDER BY detected_at"
+  )
+  return result.rows.map((row) => ({
+    id: String(row.id),
+    systemName: String(row.system_name),
+    factionName: String(row.faction_name),
+    eventType: String(row.event_type) as PresenceEventType,
+    previousController: row.previous_controller == null ? null : String(row.previous_controller),
+    newController: row.new_controller == null ? null : String(row.new_controller),
+    influence: row.influence == null ? null : Number(row.influence),
+    assetName: row.asset_name == null ? null : String(row.asset_name),
+    detectedAt: String(row.detected_at),
+  }))
+}
+
+const markDelivered = async (client: Client, id: string): Promise<void> => {
+  await client.execute({
+    sql: "UPDATE faction_presence_event SET delivered_at = ? WHERE id = ?",
+    args: [new Date().toISOString(), id],
+  })
+}
+
+/**
+ * Publish every undelivered presence event on the bus and mark it delivered.
+ * Returns the number of events published.
+ */
+export const publishPendingPresenceEvents = (
+  client: Client,
+  bus: PubSub.PubSub<FactionPresenceEvent>
+): Effect.Effect<number> =>
+  Effect.gen(function* () {
+    const events = yield* Effect.tryPromise({
+      try: () => loadUndeliveredEvents(client),
+      catch: (e) => new Error(`Load presence events failed: ${e}`),
+    }).pipe(
+      Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as([] as FactionPresenceEvent[])))
+    )
+
+    let published = 0
+    for (const event of events) {
+      const marked = yield* Effect.tryPromise({
+        try: () => markDelivered(client, event.id),
+        catch: (e) => new Error(`Mark presence event delivered failed: ${e}`),
+      }).pipe(
+        Effect.as(true),
+        Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as(false)))
+      )
+      // Only publish what we could mark, otherwise the next poll would publish it again
+      if (!marked) continue
+
+      yield* PubSub.publish(bus, event)
+      published++
+    }
+    return published
+  })
+
+// ---------------------------------------------------------------------------
+// Message formatter
+// ---------------------------------------------------------------------------
+
+const formatInfluence = (influence: number | null): string =>
+  influence === null ? "" : ` (${(influence * 100).toFixed(1)}%)`
+
+export const formatPresenceEvent = (event: FactionPresenceEvent): string => {
+  switch (event.eventType) {
+    case "presence_gained":
+      return `🚩 **${event.factionName}** is now present in **${event.systemName}**${formatInfluence(event.influence)}`
+    case "presence_lost":
+      return `🏳️ **${event.factionName}** has left **${event.systemName}**${event.influence === null ? "" : ` (last known ${(event.influence * 100).toFixed(1)}%)`}`
+    case "control_gained":
+      return [
+        `👑 **${event.factionName}** now controls **${event.systemName}**${formatInfluence(event.influence)}`,
+        event.previousController ? `Previously controlled by ${event.previousController}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    case "control_lost":
+      return [
+        `⚠️ **${event.factionName}** lost control of **${event.systemName}**`,
+        event.newController ? `Now controlled by ${event.newController}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    case "asset_gained":
+      return [
+        `🏢 **${event.factionName}** took over **${event.assetName ?? "an asset"}** in **${event.systemName}**`,
+        event.previousController ? `Previously owned by ${event.previousController}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    case "asset_lost":
+      return [
+        `⚠️ **${event.factionName}** lost **${event.assetName ?? "an asset"}** in **${event.systemName}**`,
+        event.newController ? `Now owned by ${event.newController}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Discord helper
+// ---------------------------------------------------------------------------
+
+const postToDiscord = (webhookUrl: string, content: string): Effect.Effect<void> =>
+  Effect.tryPromise({
+    try: () =>
+      fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        signal: AbortSignal.timeout(10_000),
+      }),
+    catch: (e) => new Error(`Discord post failed: ${e}`),
+  }).pipe(
+    Effect.asVoid,
+    Effect.catchAll((e) => Effect.logWarning(`Presence Discord error: ${e}`))
+  )
+
+// ---------------------------------------------------------------------------
+// Fibers
+// ---------------------------------------------------------------------------
+
+export const runPresencePoller: Effect.Effect<never, never, TursoClient | PresenceBus> =
+  Effect.gen(function* () {
+    const client = yield* TursoClient
+    const bus = yield* PresenceBus
+
+    yield* Effect.logInfo("Presence poller started (every minute)")
+
+    return yield* Effect.forever(
+      Effect.gen(function* () {
+        // Sleep first so the Discord subscriber is attached before the first publish
+        yield* Effect.sleep(POLL_INTERVAL)
+        const published = yield* publishPendingPresenceEvents(client, bus)
+        if (published > 0) {
+          yield* Effect.logInfo(`Presence poller: published ${published} presence event(s)`)
+        }
+      })
+    )
+  }).pipe(
+    Effect.catchAll((e) => Effect.logError(`Presence poller fatal: ${e}`))
+  ) as Effect.Effect<never, never, TursoClient | PresenceBus>
+
+export const runPresenceNotifier: Effect.Effect<never, never, AppConfig | TursoClient | PresenceBus> =
+  Effect.gen(function* () {
+    const config = yield* AppConfig
+    const client = yield* TursoClient
+    const bus = yield* PresenceBus
+    const webhookUrl = Option.getOrNull(config.discord.webhooks.bgs)
+
+    yield* Effect.logInfo("Presence notifier started (subscribed to PresenceBus)")
+
+    return yield* Effect.scoped(
+      Effect.gen(function* () {
+        const sub = yield* PubSub.subscribe(bus)
+        return yield* Effect.forever(
+          Effect.gen(function* () {
+            const event = yield* Queue.take(sub)
+            yield* Effect.logInfo(
+              `Presence notifier: ${event.eventType} for ${event.factionName} in ${event.systemName}`
+            )
+            // Overrides are read per event so API changes apply without a restart
+            const overrides = yield* Effect.tryPromise({
+              try: async () => (await loadTrackedFactions(client, config.faction.name)).webhooks,
+              catch: (e) => new Error(`Load tracked factions failed: ${e}`),
+            }).pipe(
+              Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as(new Map<string, string>())))
+            )
+            const target = webhookForFactions(overrides, [event.factionName], webhookUrl)
+            if (target) {
+              yield* postToDiscord(target, formatPresenceEvent(event))
+            }
+          })
+        )
+      })
+    )
+  }).pipe(
+    Effect.catchAll((e) => Effect.logError(`Presence notifier fatal: ${e}`))
+  ) as Effect.Effect<never, never, AppConfig | TursoClient | PresenceBus>
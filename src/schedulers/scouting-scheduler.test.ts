@@ -0,0 +1,134 @@
+/**
+ * Scouting — queue ranking and post formatting tests
+ *
+ *   1. Only systems of tracked factions with a snapshot older than the tick
+ *   2. Ranked by conflicts, objectives and influence margin, then data age
+ *   3. Post lists the queue with reasons and age; nothing to post when empty
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { createClient, type Client } from "@libsql/client"
+import { loadScoutingQueue } from "../services/scouting.js"
+import { formatScoutingPost } from "./scouting-scheduler.js"
+
+const FACTION = "Communism Interstellar Union"
+const ALLY = "Allied Squadron"
+const RIVAL = "Rival Corp"
+const TICK = "2026-02-26T12:00:00.000Z"
+const tracked = new Set([FACTION, ALLY])
+
+describe("Scouting queue", () => {
+  let db: Client
+
+  beforeEach(async () => {
+    db = createClient({ url: ":memory:" })
+
+    await db.executeMultiple(`
+      CREATE TABLE eddn_system_info (
+        id TEXT PRIMARY KEY,
+        system_name TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE eddn_faction (
+        id TEXT PRIMARY KEY,
+        system_name TEXT NOT NULL,
+        name TEXT NOT NULL,
+        influence REAL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE eddn_conflict (
+        id TEXT PRIMARY KEY,
+        system_name TEXT NOT NULL,
+        faction1 TEXT,
+        faction2 TEXT
+      );
+
+      CREATE TABLE objective (
+        id TEXT PRIMARY KEY,
+        system TEXT,
+        startdate TEXT,
+        enddate TEXT
+      );
+
+      CREATE TABLE objective_target (
+        id TEXT PRIMARY KEY,
+        objective_id TEXT NOT NULL,
+        system TEXT
+      );
+
+      INSERT INTO eddn_system_info (id, system_name, updated_at)
+      VALUES ('s1', 'Alpha Centauri', '2026-02-25T10:00:00.000Z'),
+             ('s2', 'Sol', '2026-02-24T10:00:00.000Z'),
+             ('s3', 'Wolf 359', '2026-02-20T10:00:00.000Z'),
+             ('s4', 'Ross 128', '2026-02-26T13:00:00.000Z'),
+             ('s5', 'Lave', '2026-02-22T10:00:00.000Z'),
+             ('s6', 'Diso', '2026-02-10T10:00:00.000Z');
+
+      INSERT INTO eddn_faction (id, system_name, name, influence, updated_at)
+      VALUES ('f1', 'Alpha Centauri', '${FACTION}', 0.40, '2026-02-25T10:00:00.000Z'),
+             ('f2', 'Alpha Centauri', '${RIVAL}', 0.38, '2026-02-25T10:00:00.000Z'),
+             ('f3', 'Sol', '${ALLY}', 0.30, '2026-02-24T10:00:00.000Z'),
+             ('f4', 'Sol', '${RIVAL}', 0.60, '2026-02-24T10:00:00.000Z'),
+             ('f5', 'Wolf 359', '${FACTION}', 0.50, '2026-02-20T10:00:00.000Z'),
+             ('f6', 'Wolf 359', '${RIVAL}', 0.20, '2026-02-20T10:00:00.000Z'),
+             ('f7', 'Ross 128', '${FACTION}', 0.50, '2026-02-26T13:00:00.000Z'),
+             ('f8', 'Lave', '${RIVAL}', 0.90, '2026-02-22T10:00:00.000Z'),
+             ('f9', 'Diso', '${FACTION}', 0.70, '2026-02-10T10:00:00.000Z'),
+             ('f10', 'Diso', '${RIVAL}', 0.30, '2026-02-10T10:00:00.000Z');
+
+      INSERT INTO eddn_conflict (id, system_name, faction1, faction2)
+      VALUES ('c1', 'Sol', '${RIVAL}', '${ALLY}'),
+             ('c2', 'Lave', '${RIVAL}', 'Bystander Party');
+
+      INSERT INTO objective (id, system, startdate, enddate)
+      VALUES ('o1', NULL, '2026-01-01T00:00:00.000Z', '2099-01-01T00:00:00.000Z'),
+             ('o2', 'Diso', '2020-01-01T00:00:00.000Z', '2020-02-01T00:00:00.000Z');
+
+      INSERT INTO objective_target (id, objective_id, system)
+      VALUES ('t1', 'o1', 'Wolf 359'),
+             ('t2', 'o1', 'wolf 359'),
+             ('t3', 'o2', 'Diso');
+    `)
+  })
+
+  it("should only list stale systems where a tracked faction is present", async () => {
+    const queue = await loadScoutingQueue(db, tracked, TICK)
+
+    // Ross 128 was refreshed after the tick, Lave has no tracked faction
+    expect(queue.map((e) => e.systemName).sort()).toEqual(["Alpha Centauri", "Diso", "Sol", "Wolf 359"])
+    expect(queue.find((e) => e.systemName === "Sol")?.factions).toEqual([ALLY])
+  })
+
+  it("should rank conflicts, then objectives, then tight margins, then the oldest data", async () => {
+    const queue = await loadScoutingQueue(db, tracked, TICK)
+
+    expect(queue.map((e) => [e.systemName, e.reasons])).toEqual([
+      ["Sol", ["conflict"]],
+      ["Wolf 359", ["objective"]],
+      ["Alpha Centauri", ["low_margin"]],
+      // Expired objectives don't count
+      ["Diso", []],
+    ])
+    expect(queue[1]?.objectives).toBe(1)
+    expect(queue[2]?.influenceMargin).toBeCloseTo(0.02)
+  })
+
+  it("should format the daily post", async () => {
+    const queue = await loadScoutingQueue(db, tracked, TICK)
+    const post = formatScoutingPost(queue, TICK, new Date("2026-02-26T13:00:00.000Z"))
+
+    expect(post).toBe(
+      [
+        `🔭 **Scouting run** · tick ${TICK}`,
+        "Please jump through these systems, our EDDN data predates the tick:",
+        "**Sol** — ⚔️ conflict · last seen 2d ago",
+        "**Wolf 359** — 🎯 objective · last seen 6d ago",
+        "**Alpha Centauri** — 📉 2.0% margin · last seen 27h ago",
+        "**Diso** — last seen 16d ago",
+      ].join("\n")
+    )
+    expect(formatScoutingPost([], TICK)).toBeNull()
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Scouting Scheduler (event-driven)
+ *
+ * Subscribes to TickBus. After each tick, waits an hour for commanders'
+ * first jumps to reach EDDN, then posts the scouting queue (systems of
+ * tracked factions whose EDDN snapshot still predates the tick, most
+ * important first) to the BGS webhook as a "please jump through these
+ * systems" list. Posts at most once per UTC day.
+ */
+
+import { Duration, Effect, Option, PubSub, Queue, Ref } from "effect"
+import { AppConfig } from "../lib/config.js"
+import { TursoClient } from "../database/client.js"
+import { TickBus } from "../services/TickBus.js"
+import { loadScoutingQueue, type ScoutingEntry } from "../services/scouting.js"
+import { loadTrackedFactions } from "../services/tracked-factions.js"
+
+const SCOUTING_DELAY = Duration.hours(1)
+// Keeps the post under Discord's 2000 character limit
+const MAX_LISTED_SYSTEMS = 15
+
+// ---------------------------------------------------------------------------
+// Formatting (pure)
+// ---------------------------------------------------------------------------
+
+const formatAge = (lastUpdated: string | null, now: Date): string => {
+  if (lastUpdated === null) return "never seen"
+  const hours = Math.floor((now.getTime() - new Date(lastUpdated).getTime()) / 3_600_000)
+  return hours < 48 ? `last seen ${hours}h ago` : `last seen ${Math.floor(hours / 24)}d ago`
+}
+
+const formatEntry = (entry: ScoutingEntry, now: Date): string => {
+  const notes: string[] = []
+  if (entry.conflicts > 0) notes.push("⚔️ conflict")
+  if (entry.objectives > 0) notes.push("🎯 objective")
+  if (entry.reasons.includes("low_margin") && entry.influenceMargin !== null) {
+    notes.push(`📉 ${(entry.influenceMargin * 100).toFixed(1)}% margin`)
+  }
+  notes.push(formatAge(entry.lastUpdated, now))
+  return `**${entry.systemName}** — ${notes.join(" · ")}`
+}
+
+/** Discord post for a scouting queue; null when there is nothing to scout */
+export const formatScoutingPost = (
+  queue: ReadonlyArray<ScoutingEntry>,
+  tickTime: string,
+  now: Date = new Date()
+): string | null => {
+  if (queue.length === 0) return null
+  const lines = [
+    `🔭 **Scouting run** · tick ${tickTime}`,
+    "Please jump through these systems, our EDDN data predates the tick:",
+    ...queue.slice(0, MAX_LISTED_SYSTEMS).map((entry) => formatEntry(entry, now)),
+  ]
+  if (queue.length > MAX_LISTED_SYSTEMS) {
+    lines.push(`…and ${queue.length - MAX_LISTED_SYSTEMS} more (GET /api/scouting)`)
+  }
+  return lines.join("\n")
+}
+
+// ---------------------------------------------------------------------------
+// Discord helper
+// ---------------------------------------------------------------------------
+
+const postToDiscord = (webhookUrl: string, content: string): Effect.Effect<void> =>
+  Effect.tryPromise({
+    try: () =>
+      fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        signal: AbortSignal.timeout(10_000),
+      }),
+    catch: (e) => new Error(`Discord post failed: ${e}`),
+  }).pipe(
+    Effect.asVoid,
+    Effect.catchAll((e) => Effect.logWarning(`Scouting Discord error: ${e}`))
+  )
+
+// ---------------------------------------------------------------------------
+// Main fiber — subscribes to TickBus
+// ---------------------------------------------------------------------------
+
+export const runScoutingScheduler: Effect.Effect<
+  never,
+  never,
+  AppConfig | TursoClient | TickBus
+> = Effect.gen(function* () {
+  const config = yield* AppConfig
+  const client = yield* TursoClient
+  const bus = yield* TickBus
+  const webhookUrl = Option.getOrNull(config.discord.webhooks.bgs)
+  const lastPostedDay = yield* Ref.make<string | null>(null)
+
+  yield* Effect.logInfo("Scouting scheduler started (event-driven, subscribed to TickBus)")
+
+  return yield* Effect.scoped(
+    Effect.gen(function* () {
+      const sub = yield* PubSub.subscribe(bus)
+      return yield* Effect.forever(
+        Effect.gen(function* () {
+          const currentTick = yield* Queue.take(sub)
+          yield* Effect.sleep(SCOUTING_DELAY)
+
+          const today = new Date().toISOString().slice(0, 10)
+          if ((yield* Ref.get(lastPostedDay)) === today) {
+            yield* Effect.logInfo(`Scouting scheduler: tick ${currentTick} — already posted today`)
+            return
+          }
+
+          const queue = yield* Effect.tryPromise({
+            try: async () => {
+              const tracked = await loadTrackedFactions(client, config.faction.name)
+              return loadScoutingQueue(client, tracked.names, currentTick)
+            },
+            catch: (e) => new Error(`Load scouting queue failed: ${e}`),
+          }).pipe(Effect.catchAll((e) => Effect.logWarning(`${e}`).pipe(Effect.as(null))))
+
+          if (!queue) return
+
+          const content = formatScoutingPost(queue, currentTick)
+          if (content && webhookUrl) {
+            yield* postToDiscord(webhookUrl, content)
+            yield* Ref.set(lastPostedDay, today)
+          }
+          yield* Effect.logInfo(`Scouting scheduler: tick ${currentTick} — ${queue.length} stale system(s)`)
+        })
+      )
+    })
+  )
+}).pipe(
+  Effect.catchAll((e) => Effect.logError(`Scouting scheduler fatal: ${e}`))
+) as Effect.Effect<never, never, AppConfig | TursoClient | TickBus>
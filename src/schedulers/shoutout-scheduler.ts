@@ -17,6 +17,7 @@ import type { Client } from "@libsql/client"
 import { AppConfig } from "../lib/config.js"
 import { TursoClient } from "../database/client.js"
 import { TickBus } from "../services/TickBus.js"
+import { loadTrackedFactions } from "../services/tracked-factions.js"
 
 // ---------------------------------------------------------------------------
 // Types
@@ -66,17 +67,24 @@ export const postEmbedsToDiscord = async (webhookUrl: string, embeds: DiscordEmb
 // EDDN context
 // ---------------------------------------------------------------------------
 
-/** Fetch our faction's influence % and active states per system. */
+type FactionContextEntry = { faction: string; influence: number | null; states: string[] }
+
+/** Fetch our tracked factions' influence % and active states per system. */
 const getOurFactionBySystem = async (
   client: Client,
-  factionName: string
-): Promise<Map<string, { influence: number | null; states: string[] }>> => {
+  factionNames: ReadonlySet<string>
+): Promise<Map<string, FactionContextEntry[]>> => {
+  const names = [...factionNames]
+  const map = new Map<string, FactionContextEntry[]>()
+  if (names.length === 0) return map
+
   const result = await client.execute({
-    sql: "SELECT system_name, influence, active_states FROM eddn_faction WHERE name = ?",
-    args: [factionName],
+    sql: `SELECT system_name, name, influence, active_states FROM eddn_faction
+          WHERE name IN (${names.map(() => "?").join(", ")})
+          ORDER BY system_name, influence DESC`,
+    args: names,
   })
 
-  const map = new Map<string, { influence: number | null; states: string[] }>()
   for (const row of result.rows) {
     const system = String(row.system_name)
     const influence = row.influence != null ? Number(row.influence) : null
@@ -87,21 +95,31 @@ const getOurFactionBySystem = async (
     } catch {
       // ignore malformed JSON
     }
-    map.set(system, { influence, states })
+    const entries = map.get(system) ?? []
+    entries.push({ faction: String(row.name), influence, states })
+    map.set(system, entries)
   }
   return map
 }
 
-/** Format EDDN context as a ↳ line, or empty string if no data. */
+/**
+ * Format EDDN context as ↳ lines, or empty string if no data.
+ * Faction names are only shown when several tracked factions share the system.
+ */
 const factionContext = (
   system: string,
-  eddnMap: Map<string, { influence: number | null; states: string[] }>
+  eddnMap: Map<string, FactionContextEntry[]>
 ): string => {
-  const entry = eddnMap.get(system)
-  if (!entry) return ""
-  const inf = entry.influence !== null ? `${entry.influence.toFixed(1)}%` : "?"
-  const states = entry.states.length > 0 ? entry.states.join(" · ") : "None"
-  return `_↳ ${inf} · ${states}_`
+  const entries = eddnMap.get(system)
+  if (!entries || entries.length === 0) return ""
+  return entries
+    .map((entry) => {
+      const inf = entry.influence !== null ? `${entry.influence.toFixed(1)}%` : "?"
+      const states = entry.states.length > 0 ? entry.states.join(" · ") : "None"
+      const label = entries.length > 1 ? `${entry.faction}: ` : ""
+      return `_↳ ${label}${inf} · ${states}_`
+    })
+    .join("\n")
 }
 
 // ---------------------------------------------------------------------------
@@ -130,7 +148,7 @@ const groupHeader = (label: string): string => `${DIVIDER}\n**${label}**`
 export const buildTickSummary = async (
   client: Client,
   tickId: string,
-  factionName: string
+  factionNames: ReadonlySet<string>
 ): Promise<DiscordEmbed[]> => {
   const [influenceRows, missionsRows, czRows, marketRows, eddnCtx] = await Promise.all([
     client.execute({
@@ -176,7 +194,7 @@ export const buildTickSummary = async (
             ORDER BY quantity DESC LIMIT 5`,
       args: [tickId],
     }),
-    getOurFactionBySystem(client, factionName),
+    getOurFactionBySystem(client, factionNames),
   ])
 
   const header = `📊 BGS Tick Summary · ${tickId}`
@@ -366,7 +384,8 @@ export const runShoutoutScheduler: Effect.Effect<
           if (bgsWebhook) {
             yield* Effect.tryPromise({
               try: async () => {
-                const embeds = await buildTickSummary(client, completedTickHash, factionName)
+                const tracked = await loadTrackedFactions(client, factionName)
+                const embeds = await buildTickSummary(client, completedTickHash, tracked.names)
                 if (embeds.length > 0) {
                   await postEmbedsToDiscord(bgsWebhook, embeds)
                   return embeds.length
@@ -0,0 +1,34 @@
+/**
+ * PresenceBus — shared PubSub for faction presence/control/asset changes
+ *
+ * EDDN ingest (worker process or in-process client) records changes in the
+ * faction_presence_event table. The presence poller in the main process reads
+ * undelivered rows and publishes them here, one message per change.
+ */
+
+import { Context, PubSub } from "effect"
+
+export type PresenceEventType =
+  | "presence_gained"
+  | "presence_lost"
+  | "control_gained"
+  | "control_lost"
+  | "asset_gained"  // a station or settlement changed owner to the faction
+  | "asset_lost"
+
+export interface FactionPresenceEvent {
+  id: string
+  systemName: string
+  factionName: string
+  eventType: PresenceEventType
+  previousController: string | null
+  newController: string | null
+  influence: number | null
+  assetName: string | null  // station or settlement, for asset_* events
+  detectedAt: string  // ISO 8601
+}
+
+export class PresenceBus extends Context.Tag("PresenceBus")<
+  PresenceBus,
+  PubSub.PubSub<FactionPresenceEvent>
+>() {}
@@ -0,0 +1,96 @@
+/**
+ * Autocomplete — index refresh and ranked name search tests
+ *
+ *   1. Refresh indexes new names once per type
+ *   2. Prefix, then substring, then tracked-faction relevance
+ *   3. Typos still find the name through shared trigrams
+ *   4. Short input matches prefixes; LIKE wildcards are literal
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { createClient, type Client } from "@libsql/client"
+import { refreshAutocompleteIndex, searchNames } from "./autocomplete.js"
+
+const FACTION = "Communism Interstellar Union"
+const tracked = new Set([FACTION])
+
+describe("Autocomplete", () => {
+  let db: Client
+
+  beforeEach(async () => {
+    db = createClient({ url: ":memory:" })
+
+    await db.executeMultiple(`
+      CREATE TABLE eddn_system_info (id TEXT PRIMARY KEY, system_name TEXT NOT NULL);
+      CREATE TABLE eddn_faction (id TEXT PRIMARY KEY, system_name TEXT NOT NULL, name TEXT NOT NULL);
+      CREATE TABLE eddn_station (
+        id TEXT PRIMARY KEY,
+        system_name TEXT NOT NULL,
+        station_name TEXT NOT NULL,
+        controlling_faction TEXT
+      );
+      CREATE TABLE cmdr (id TEXT PRIMARY KEY, name TEXT NOT NULL UNIQUE);
+
+      CREATE TABLE autocomplete_name (
+        id   INTEGER PRIMARY KEY,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        UNIQUE(type, name)
+      );
+      CREATE VIRTUAL TABLE autocomplete_fts USING fts5(name, tokenize = 'trigram');
+
+      INSERT INTO eddn_system_info (id, system_name)
+      VALUES ('s1', 'Shinrarta Dezhra'), ('s2', 'Sol'), ('s3', 'Solati'), ('s4', 'Sol'),
+             ('s5', 'HIP 4120'), ('s6', 'LHS 20'), ('s7', 'Col 285 Sector AB-C d1');
+
+      INSERT INTO eddn_faction (id, system_name, name)
+      VALUES ('f1', 'Solati', '${FACTION}'), ('f2', 'Solati', 'Solati Gold Mafia'), ('f3', 'Sol', 'Mother Gaia');
+
+      INSERT INTO eddn_station (id, system_name, station_name, controlling_faction)
+      VALUES ('st1', 'Solati', 'Haxel Port', '${FACTION}'), ('st2', 'Sol', 'Galileo', 'Mother Gaia');
+
+      INSERT INTO cmdr (id, name) VALUES ('c1', 'Hadesfire'), ('c2', 'Hadley');
+    `)
+  })
+
+  it("should add each new name once per type", async () => {
+    expect(await refreshAutocompleteIndex(db)).toBe(13)
+    expect(await refreshAutocompleteIndex(db)).toBe(0)
+
+    await db.execute("INSERT INTO eddn_system_info (id, system_name) VALUES ('s8', 'Achenar')")
+    expect(await refreshAutocompleteIndex(db)).toBe(1)
+    expect((await searchNames(db, "system", "achen", 10, tracked)).map((m) => m.name)).toEqual(["Achenar"])
+  })
+
+  it("should rank prefix matches, then substrings, then our factions' names", async () => {
+    await refreshAutocompleteIndex(db)
+
+    // Both are prefix matches; Solati ranks first as one of our systems
+    expect(await searchNames(db, "system", "sol", 10, tracked)).toEqual([
+      { name: "Solati", match: "prefix", relevant: true },
+      { name: "Sol", match: "prefix", relevant: false },
+    ])
+
+    const factions = await searchNames(db, "faction", "lati", 10, tracked)
+    expect(factions[0]).toEqual({ name: "Solati Gold Mafia", match: "substring", relevant: true })
+
+    expect(await searchNames(db, "station", "port", 10, tracked)).toEqual([
+      { name: "Haxel Port", match: "substring", relevant: true },
+    ])
+  })
+
+  it("should find names despite typos", async () => {
+    await refreshAutocompleteIndex(db)
+
+    const matches = await searchNames(db, "system", "shinrata", 3, tracked)
+    expect(matches[0]).toEqual({ name: "Shinrarta Dezhra", match: "fuzzy", relevant: false })
+  })
+
+  it("should match short input as a prefix and treat wildcards literally", async () => {
+    await refreshAutocompleteIndex(db)
+
+    expect((await searchNames(db, "cmdr", "ha", 10, tracked)).map((m) => m.name)).toEqual(["Hadley", "Hadesfire"])
+    expect(await searchNames(db, "system", "%", 10, tracked)).toEqual([])
+    expect(await searchNames(db, "system", "  ", 10, tracked)).toEqual([])
+  })
+})
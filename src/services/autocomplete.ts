@@ -0,0 +1,139 @@
+/**
+ * Autocomplete service
+ *
+ * Name suggestions for systems, factions, commanders and stations from the
+ * autocomplete_name table and its trigram FTS5 index (migration 0029). Queries
+ * of three or more characters match any of their trigrams, so a typo still
+ * finds the name; shorter ones fall back to a prefix match. Results are ranked
+ * prefix matches first, then substring matches, then names relevant to our
+ * tracked factions, then FTS rank.
+ */
+
+import type { Client } from "@libsql/client"
+
+export const AUTOCOMPLETE_TYPES = ["system", "faction", "cmdr", "station"] as const
+export type AutocompleteType = (typeof AUTOCOMPLETE_TYPES)[number]
+
+export interface AutocompleteMatch {
+  name: string
+  match: "prefix" | "substring" | "fuzzy"
+  relevant: boolean  // Tied to one of our tracked factions
+}
+
+// Where each type's names come from
+const SOURCES: Record<AutocompleteType, string> = {
+  system: "SELECT DISTINCT system_name AS name FROM eddn_system_info",
+  faction: "SELECT DISTINCT name FROM eddn_faction",
+  cmdr: "SELECT name FROM cmdr",
+  station: "SELECT DISTINCT station_name AS name FROM eddn_station",
+}
+
+// 1 when the candidate n.name is tied to a tracked faction (bound once per IN list)
+const relevanceSql = (type: AutocompleteType, inList: string): { sql: string; lists: number } => {
+  switch (type) {
+    case "system":
+      return {
+        sql: `EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = n.name AND f.name IN (${inList}))`,
+        lists: 1,
+      }
+    case "faction":
+      return {
+        sql: `(n.name IN (${inList})
+               OR EXISTS (SELECT 1 FROM eddn_faction f JOIN eddn_faction ours ON ours.system_name = f.system_name
+                          WHERE f.name = n.name AND ours.name IN (${inList})))`,
+        lists: 2,
+      }
+    case "station":
+      return {
+        sql: `EXISTS (SELECT 1 FROM eddn_station s WHERE s.station_name = n.name
+                      AND (s.controlling_faction IN (${inList})
+                           OR EXISTS (SELECT 1 FROM eddn_faction f WHERE f.system_name = s.system_name AND f.name IN (${inList}))))`,
+        lists: 2,
+      }
+    case "cmdr":
+      // Commanders are all ours
+      return { sql: "0", lists: 0 }
+  }
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`)
+
+// Distinct lower-cased trigrams as an FTS5 OR query of quoted strings
+const trigramQuery = (query: string): string => {
+  const lower = query.toLowerCase()
+  const trigrams = new Set<string>()
+  for (let i = 0; i + 3 <= lower.length; i++) trigrams.add(lower.slice(i, i + 3))
+  return [...trigrams].map((t) => `"${t.replace(/"/g, "\"\"")}"`).join(" OR ")
+}
+
+/**
+ * Add names that appeared in the source tables since the last refresh; returns how many were added
+ */
+export const refreshAutocompleteIndex = async (client: Client): Promise<number> => {
+  const results = await client.batch(
+    [
+      ...AUTOCOMPLETE_TYPES.map((type) => ({
+        sql: `INSERT OR IGNORE INTO autocomplete_name (type, name)
+              SELECT ?, name FROM (${SOURCES[type]}) WHERE name IS NOT NULL`,
+        args: [type],
+      })),
+      {
+        sql: `INSERT INTO autocomplete_fts (rowid, name)
+              SELECT id, name FROM autocomplete_name
+              WHERE id > (SELECT COALESCE(MAX(rowid), 0) FROM autocomplete_fts)`,
+        args: [],
+      },
+    ],
+    "write"
+  )
+  return results.at(-1)?.rowsAffected ?? 0
+}
+
+/**
+ * Top `limit` names of a type for what the user typed so far
+ */
+export const searchNames = async (
+  client: Client,
+  type: AutocompleteType,
+  query: string,
+  limit: number,
+  factionNames: ReadonlySet<string>
+): Promise<Array<AutocompleteMatch>> => {
+  const q = query.trim()
+  if (q === "") return []
+
+  const factions = [...factionNames]
+  const relevance = relevanceSql(type, factions.length > 0 ? factions.map(() => "?").join(", ") : "NULL")
+  const relevanceArgs = Array.from({ length: relevance.lists }, () => factions).flat()
+  const prefix = `${escapeLike(q)}%`
+  const substring = `%${escapeLike(q)}%`
+
+  // Trigrams need three characters; shorter input is matched as a prefix
+  const result = q.length >= 3
+    ? await client.execute({
+        sql: `SELECT n.name,
+                     n.name LIKE ? ESCAPE '\\' AS is_prefix,
+                     n.name LIKE ? ESCAPE '\\' AS is_substring,
+                     ${relevance.sql} AS relevant
+              FROM autocomplete_fts
+              JOIN autocomplete_name n ON n.id = autocomplete_fts.rowid
+              WHERE autocomplete_fts MATCH ? AND n.type = ?
+              ORDER BY is_prefix DESC, is_substring DESC, relevant DESC, bm25(autocomplete_fts), length(n.name), n.name
+              LIMIT ?`,
+        args: [prefix, substring, ...relevanceArgs, trigramQuery(q), type, limit],
+      })
+    : await client.execute({
+        sql: `SELECT n.name, 1 AS is_prefix, 1 AS is_substring, ${relevance.sql} AS relevant
+              FROM autocomplete_name n
+              WHERE n.type = ? AND n.name LIKE ? ESCAPE '\\'
+              ORDER BY relevant DESC, length(n.name), n.name
+              LIMIT ?`,
+        args: [...relevanceArgs, type, prefix, limit],
+      })
+
+  return result.rows.map((row) => ({
+    name: String(row.name),
+    match: Number(row.is_prefix) ? "prefix" : Number(row.is_substring) ? "substring" : "fuzzy",
+    relevant: Boolean(Number(row.relevant)),
+  }))
+}
@@ -0,0 +1,91 @@
+/**
+ * AX contribution service
+ *
+ * Our squadron's Thargoid war work in a system, summed over every activity
+ * submitted with PUT /activities: Thargoid kills and search-and-rescue hand-ins
+ * (system twkills / twsandr), station reactivations and AX massacre mission
+ * kills (faction_station twreactivate / twmassacre). Shown next to the EDDN
+ * war state by the system summary so the AX wing sees both in one place.
+ */
+
+import type { Client } from "@libsql/client"
+
+const KILL_TYPES = ["cyclops", "basilisk", "medusa", "hydra", "orthrus", "scout", "revenant", "banshee", "scythe_glaive"] as const
+const SANDR_TYPES = ["blackboxes", "damagedpods", "occupiedpods", "tissuesamples", "thargoidpods"] as const
+const MASSACRE_TYPES = ["cyclops", "basilisk", "medusa", "hydra", "orthrus", "scout"] as const
+
+export type AxKillType = (typeof KILL_TYPES)[number]
+export type AxSandrType = (typeof SANDR_TYPES)[number]
+export type AxMassacreType = (typeof MASSACRE_TYPES)[number]
+
+export interface AxContribution {
+  systemName: string
+  kills: Record<AxKillType, number>
+  sandr: Record<AxSandrType, number>
+  massacre: Record<AxMassacreType, number>  // Kills towards AX massacre missions
+  reactivations: number
+  cmdrs: number
+  lastActivity: string | null  // ISO 8601
+}
+
+const sumColumns = (prefix: string, types: ReadonlyArray<string>, suffix = "") =>
+  types.map((type) => `SUM(COALESCE(${prefix}_${type}${suffix}, 0)) AS ${prefix}_${type}`).join(", ")
+
+const pick = <K extends string>(row: Record<string, unknown> | undefined, prefix: string, types: ReadonlyArray<K>) =>
+  Object.fromEntries(types.map((type) => [type, Number(row?.[`${prefix}_${type}`] ?? 0)])) as Record<K, number>
+
+// Contributions are keyed by lower-cased system name
+const systemKey = (systemName: string) => systemName.toLowerCase()
+
+/** Everything our commanders reported for each system they reported activity in, in one query per table */
+export const loadAxContributions = async (
+  client: Client,
+  systemNames: ReadonlyArray<string>
+): Promise<Map<string, AxContribution>> => {
+  const contributions = new Map<string, AxContribution>()
+  if (systemNames.length === 0) return contributions
+  const inList = systemNames.map(() => "?").join(", ")
+
+  const systemTotals = await client.execute({
+    sql: `SELECT MIN(s.name) AS system_name, COUNT(DISTINCT a.cmdr) AS cmdrs, MAX(a.timestamp) AS last_activity,
+                 ${sumColumns("twkills", KILL_TYPES)}, ${sumColumns("twsandr", SANDR_TYPES)},
+                 SUM(COALESCE(s.twreactivate, 0)) AS twreactivate
+          FROM system s
+          JOIN activity a ON a.id = s.activity_id
+          WHERE s.name COLLATE NOCASE IN (${inList})
+          GROUP BY s.name COLLATE NOCASE`,
+    args: [...systemNames],
+  })
+
+  const stationTotals = await client.execute({
+    sql: `SELECT MIN(s.name) AS system_name, ${sumColumns("twmassacre", MASSACRE_TYPES, "_sum")},
+                 SUM(COALESCE(fs.twreactivate, 0)) AS twreactivate
+          FROM faction_station fs
+          JOIN faction f ON f.id = fs.faction_id
+          JOIN system s ON s.id = f.system_id
+          WHERE s.name COLLATE NOCASE IN (${inList})
+          GROUP BY s.name COLLATE NOCASE`,
+    args: [...systemNames],
+  })
+  const stationsBySystem = new Map(stationTotals.rows.map((row) => [systemKey(String(row.system_name)), row]))
+
+  for (const totals of systemTotals.rows) {
+    const systemName = String(totals.system_name)
+    const stations = stationsBySystem.get(systemKey(systemName))
+    contributions.set(systemKey(systemName), {
+      systemName,
+      kills: pick(totals, "twkills", KILL_TYPES),
+      sandr: pick(totals, "twsandr", SANDR_TYPES),
+      massacre: pick(stations, "twmassacre", MASSACRE_TYPES),
+      reactivations: Number(totals.twreactivate ?? 0) + Number(stations?.twreactivate ?? 0),
+      cmdrs: Number(totals.cmdrs),
+      lastActivity: totals.last_activity == null ? null : String(totals.last_activity),
+    })
+  }
+
+  return contributions
+}
+
+/** Everything our commanders reported for the system; null when they never reported activity there */
+export const loadAxContribution = async (client: Client, systemName: string): Promise<AxContribution | null> =>
+  (await loadAxContributions(client, [systemName])).get(systemKey(systemName)) ?? null
@@ -0,0 +1,112 @@
+/**
+ * Event deduplication — fingerprint and purge tests
+ *
+ *   1. Fingerprint ignores key order and client tick fields, not journal fields
+ *   2. Dry run counts duplicates without writing
+ *   3. Purge keeps the fingerprinted or else the oldest copy, deleting the others with their sub-events
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test"
+import { createClient, type Client } from "@libsql/client"
+import { eventFingerprint, purgeDuplicateEvents } from "./event-dedup.js"
+
+const KILL_BOND = {
+  event: "FactionKillBond",
+  timestamp: "2026-02-26T14:00:00Z",
+  Cmdr: "Hadesfire",
+  AwardingFaction: "Communism Interstellar Union",
+  VictimFaction: "Rival Corp",
+  Reward: 80000,
+}
+
+describe("Event deduplication", () => {
+  let db: Client
+
+  const insertEvent = (id: string, entry: Record<string, unknown>, fingerprint: string | null = null) =>
+    db.execute({
+      sql: `INSERT INTO event (id, event, timestamp, tickid, ticktime, cmdr, raw_json, fingerprint)
+            VALUES (?, ?, ?, 'zoy-1', '2026-02-26T12:00:00Z', ?, ?, ?)`,
+      args: [id, String(entry.event), String(entry.timestamp), String(entry.Cmdr ?? entry.cmdr ?? ""), JSON.stringify(entry), fingerprint],
+    })
+
+  const ids = async (table: string, column = "event_id") =>
+    (await db.execute(`SELECT ${column} AS id FROM ${table} ORDER BY ${column}`)).rows.map((r) => String(r.id))
+
+  beforeEach(async () => {
+    db = createClient({ url: ":memory:" })
+
+    await db.executeMultiple(`
+      CREATE TABLE event (
+        id TEXT PRIMARY KEY,
+        event TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        tickid TEXT NOT NULL,
+        ticktime TEXT NOT NULL,
+        cmdr TEXT,
+        starsystem TEXT,
+        systemaddress INTEGER,
+        raw_json TEXT,
+        fingerprint TEXT UNIQUE
+      );
+      CREATE TABLE market_buy_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE market_sell_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE mission_completed_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE mission_completed_influence (id TEXT PRIMARY KEY, mission_id TEXT NOT NULL);
+      CREATE TABLE faction_kill_bond_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE mission_failed_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE multi_sell_exploration_data_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE redeem_voucher_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE sell_exploration_data_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE commit_crime_event (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE synthetic_ground_cz (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+      CREATE TABLE synthetic_cz (id TEXT PRIMARY KEY, event_id TEXT NOT NULL);
+    `)
+  })
+
+  it("should fingerprint the journal entry, not its key order or client tick fields", () => {
+    const fingerprint = eventFingerprint(KILL_BOND)
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{64}$/)
+    const { event, ...rest } = KILL_BOND
+    expect(eventFingerprint({ ...rest, tickid: "zoy-2", ticktime: "2026-02-26T12:00:00Z", event })).toBe(fingerprint)
+    // Cmdr and cmdr name the same commander
+    const { Cmdr, ...withoutCmdr } = KILL_BOND
+    expect(eventFingerprint({ ...withoutCmdr, cmdr: Cmdr })).toBe(fingerprint)
+
+    expect(eventFingerprint({ ...KILL_BOND, Reward: 80001 })).not.toBe(fingerprint)
+    expect(eventFingerprint({ ...KILL_BOND, timestamp: "2026-02-26T14:00:01Z" })).not.toBe(fingerprint)
+    expect(eventFingerprint({ ...KILL_BOND, Cmdr: "Hadley" })).not.toBe(fingerprint)
+  })
+
+  it("should count duplicates on a dry run without writing", async () => {
+    await insertEvent("e1", KILL_BOND)
+    await insertEvent("e2", KILL_BOND)
+    await insertEvent("e3", { ...KILL_BOND, Reward: 1000 })
+
+    expect(await purgeDuplicateEvents(db, { dryRun: true })).toEqual({ scanned: 3, duplicates: 1, deleted: 0 })
+    expect(await ids("event", "id")).toEqual(["e1", "e2", "e3"])
+    expect(await ids("event WHERE fingerprint IS NOT NULL", "id")).toEqual([])
+  })
+
+  it("should keep the fingerprinted or else the oldest copy and delete the others with their sub-events", async () => {
+    // e4 was posted after fingerprinting and is kept over its older copy e5
+    await insertEvent("e1", KILL_BOND)
+    await insertEvent("e2", { ...KILL_BOND, tickid: "zoy-1" })
+    await insertEvent("e3", { ...KILL_BOND, Reward: 1000 })
+    await insertEvent("e5", { ...KILL_BOND, event: "MissionCompleted" })
+    await insertEvent("e4", { ...KILL_BOND, event: "MissionCompleted" }, eventFingerprint({ ...KILL_BOND, event: "MissionCompleted" }))
+    await db.executeMultiple(`
+      INSERT INTO faction_kill_bond_event (id, event_id) VALUES ('k1', 'e1'), ('k2', 'e2'), ('k3', 'e3');
+      INSERT INTO mission_completed_event (id, event_id) VALUES ('m4', 'e4'), ('m5', 'e5');
+      INSERT INTO mission_completed_influence (id, mission_id) VALUES ('i4', 'm4'), ('i5', 'm5');
+    `)
+
+    expect(await purgeDuplicateEvents(db, { dryRun: false })).toEqual({ scanned: 4, duplicates: 2, deleted: 2 })
+    expect(await ids("event", "id")).toEqual(["e1", "e3", "e4"])
+    expect(await ids("faction_kill_bond_event")).toEqual(["e1", "e3"])
+    expect(await ids("mission_completed_influence", "mission_id")).toEqual(["m4"])
+
+    // Every kept row is fingerprinted: a second run has nothing left to scan
+    expect(await purgeDuplicateEvents(db, { dryRun: false })).toEqual({ scanned: 0, duplicates: 0, deleted: 0 })
+  })
+})
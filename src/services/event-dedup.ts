@@ -0,0 +1,168 @@
+/**
+ * Event deduplication service
+ *
+ * Clients such as BGS-Tally retry POST /events on timeouts, resending journal
+ * entries we may already have stored. Each entry gets a deterministic
+ * fingerprint: a SHA-256 of its fields with keys sorted, so the same entry
+ * always hashes the same whatever the key order. The unique index on
+ * event.fingerprint (migration 0031) turns a repeated insert into a no-op.
+ *
+ * Rows stored before fingerprinting are handled by purgeDuplicateEvents, run
+ * on demand through POST /events/duplicates/purge.
+ */
+
+import type { Client } from "@libsql/client"
+import { createHash } from "node:crypto"
+
+const PAGE_SIZE = 500
+
+// Added by the client from its own tick tracking rather than the journal; the
+// commander is folded into a single cmdr field
+const IGNORED_FIELDS = new Set(["tickid", "ticktime", "cmdr", "Cmdr"])
+
+// Sub-event tables, keyed by event_id (no FK enforcement without PRAGMA foreign_keys)
+const SUB_EVENT_TABLES = [
+  "market_buy_event",
+  "market_sell_event",
+  "mission_completed_event",
+  "faction_kill_bond_event",
+  "mission_failed_event",
+  "multi_sell_exploration_data_event",
+  "redeem_voucher_event",
+  "sell_exploration_data_event",
+  "commit_crime_event",
+  "synthetic_ground_cz",
+  "synthetic_cz",
+]
+
+export interface DuplicatePurgeResult {
+  scanned: number     // Rows without a fingerprint
+  duplicates: number  // Of an entry already kept
+  deleted: number     // 0 on a dry run
+}
+
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+/**
+ * Fingerprint of one journal entry: commander, event, timestamp and every other field it carries
+ */
+export const eventFingerprint = (entry: Readonly<Record<string, unknown>>): string => {
+  const fields = Object.fromEntries(Object.entries(entry).filter(([key]) => !IGNORED_FIELDS.has(key)))
+  const cmdr = entry.cmdr ?? entry.Cmdr ?? null
+  return createHash("sha256").update(canonicalJson({ ...fields, cmdr })).digest("hex")
+}
+
+// The entry as POST /events stored it; older rows without raw JSON fall back to the columns
+const storedEntry = (row: Record<string, unknown>): Record<string, unknown> => {
+  if (typeof row.raw_json === "string") {
+    try {
+      const parsed: unknown = JSON.parse(row.raw_json)
+      if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>
+      }
+    } catch {
+      // Unreadable raw JSON: use the columns
+    }
+  }
+  return {
+    event: row.event,
+    timestamp: row.timestamp,
+    cmdr: row.cmdr ?? undefined,
+    StarSystem: row.starsystem ?? undefined,
+    SystemAddress: row.systemaddress == null ? undefined : Number(row.systemaddress),
+  }
+}
+
+const deleteEventsStatements = (ids: Array<string>) => {
+  const inList = ids.map(() => "?").join(", ")
+  return [
+    {
+      sql: `DELETE FROM mission_completed_influence
+            WHERE mission_id IN (SELECT id FROM mission_completed_event WHERE event_id IN (${inList}))`,
+      args: ids,
+    },
+    ...SUB_EVENT_TABLES.map((table) => ({ sql: `DELETE FROM ${table} WHERE event_id IN (${inList})`, args: ids })),
+    { sql: `DELETE FROM event WHERE id IN (${inList})`, args: ids },
+  ]
+}
+
+/**
+ * Fingerprint events stored before deduplication and delete the duplicate
+ * copies of an entry, with their sub-events. A copy already fingerprinted
+ * (posted since migration 0031) is kept, however recent; otherwise the oldest
+ * one is. A dry run only counts.
+ */
+export const purgeDuplicateEvents = async (
+  client: Client,
+  options: { dryRun: boolean }
+): Promise<DuplicatePurgeResult> => {
+  const result: DuplicatePurgeResult = { scanned: 0, duplicates: 0, deleted: 0 }
+  // Fingerprints kept during this run; a dry run writes none to check against
+  const kept = new Set<string>()
+  let afterRowid = 0
+
+  for (;;) {
+    const page = await client.execute({
+      sql: `SELECT rowid, id, event, timestamp, cmdr, starsystem, systemaddress, raw_json
+            FROM event
+            WHERE fingerprint IS NULL AND rowid > ?
+            ORDER BY rowid
+            LIMIT ?`,
+      args: [afterRowid, PAGE_SIZE],
+    })
+    if (page.rows.length === 0) break
+    afterRowid = Number(page.rows.at(-1)!.rowid)
+    result.scanned += page.rows.length
+
+    const rows = page.rows.map((row) => ({
+      id: String(row.id),
+      fingerprint: eventFingerprint(storedEntry(row as unknown as Record<string, unknown>)),
+    }))
+
+    // Entries already stored with their fingerprint (posted since migration 0031)
+    const fingerprints = [...new Set(rows.map((r) => r.fingerprint))]
+    const stored = await client.execute({
+      sql: `SELECT fingerprint FROM event WHERE fingerprint IN (${fingerprints.map(() => "?").join(", ")})`,
+      args: fingerprints,
+    })
+    const known = new Set(stored.rows.map((r) => String(r.fingerprint)))
+
+    const duplicates: Array<string> = []
+    const unique: typeof rows = []
+    for (const row of rows) {
+      if (known.has(row.fingerprint) || kept.has(row.fingerprint)) {
+        duplicates.push(row.id)
+      } else {
+        kept.add(row.fingerprint)
+        unique.push(row)
+      }
+    }
+    result.duplicates += duplicates.length
+
+    if (options.dryRun) continue
+
+    // OR IGNORE: an entry posted again meanwhile stays unfingerprinted for the next run
+    await client.batch(
+      [
+        ...unique.map((row) => ({
+          sql: "UPDATE OR IGNORE event SET fingerprint = ? WHERE id = ?",
+          args: [row.fingerprint, row.id],
+        })),
+        ...(duplicates.length > 0 ? deleteEventsStatements(duplicates) : []),
+      ],
+      "write"
+    )
+    result.deleted += duplicates.length
+  }
+
+  return result
+}
@@ -0,0 +1,174 @@
+/**
+ * Faction assets service
+ *
+ * Stations, outposts, planetary ports and Odyssey settlements a faction owns,
+ * from EDDN Docked (eddn_station) and ApproachSettlement (eddn_settlement)
+ * data. Used by GET /api/faction/:name/assets and by the conflict scheduler to
+ * say what a conflict stake actually is.
+ */
+
+import type { Client } from "@libsql/client"
+
+export type AssetKind = "starport" | "outpost" | "planetary_port" | "settlement" | "megaship" | "other"
+
+export interface FactionAsset {
+  systemName: string
+  name: string
+  kind: AssetKind
+  stationType: string | null
+  marketId: number | null
+  controllingFaction: string | null
+  factionState: string | null
+  largePads: number | null  // null when the station was never docked at
+  bodyName: string | null
+  updatedAt: string  // ISO 8601, observation time
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+const STARPORT_TYPES = new Set(["Coriolis", "Orbis", "Ocellus", "Bernal", "AsteroidBase", "Dodec"])
+const PLANETARY_PORT_TYPES = new Set(["CraterPort", "CraterOutpost", "SurfaceStation"])
+
+/** Asset kind of a journal StationType; null for fleet carriers, which no BGS faction owns */
+export const assetKind = (stationType: string | null): AssetKind | null => {
+  if (stationType === "FleetCarrier") return null
+  if (stationType === null) return "other"
+  if (STARPORT_TYPES.has(stationType)) return "starport"
+  if (stationType === "Outpost") return "outpost"
+  if (PLANETARY_PORT_TYPES.has(stationType)) return "planetary_port"
+  if (stationType === "OnFootSettlement") return "settlement"
+  if (stationType === "MegaShip") return "megaship"
+  return "other"
+}
+
+const KIND_LABELS: Record<AssetKind, string> = {
+  starport: "starport",
+  outpost: "outpost",
+  planetary_port: "planetary port",
+  settlement: "settlement",
+  megaship: "megaship",
+  other: "station",
+}
+
+const hasLargePads = (asset: FactionAsset) => (asset.largePads ?? 0) > 0
+
+/**
+ * Short description of a stake for conflict notifications, e.g.
+ * "starport, large pads — our only large-pad station". The "our only" notes
+ * are given when the owner is a tracked faction and ownerAssets (everything
+ * that faction owns) has no other asset of that kind.
+ */
+export const describeStake = (
+  asset: FactionAsset,
+  ownerAssets: ReadonlyArray<FactionAsset>,
+  factionNames: ReadonlySet<string>
+): string => {
+  const description = hasLargePads(asset) ? `${KIND_LABELS[asset.kind]}, large pads` : KIND_LABELS[asset.kind]
+  if (asset.controllingFaction === null || !factionNames.has(asset.controllingFaction)) return description
+
+  const others = ownerAssets.filter((a) => !(a.systemName === asset.systemName && a.name === asset.name))
+  if (others.length === 0) return `${description} — our only asset`
+  if (hasLargePads(asset) && !others.some(hasLargePads)) return `${description} — our only large-pad station`
+  if (!others.some((a) => a.kind === asset.kind)) return `${description} — our only ${KIND_LABELS[asset.kind]}`
+  return description
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Stations (with the body of any matching settlement) plus settlements nobody
+ * has docked at. Fleet carriers are left out.
+ */
+const ASSETS_SQL = `
+  SELECT 'station' AS source, s.system_name, s.station_name AS name, s.station_type, s.market_id, s.controlling_faction,
+         s.faction_state, s.landing_pads_large, st.body_name, s.updated_at
+  FROM eddn_station s
+  LEFT JOIN eddn_settlement st ON st.market_id = s.market_id
+  WHERE COALESCE(s.station_type, '') != 'FleetCarrier' AND {station_filter}
+  UNION ALL
+  SELECT 'settlement', st.system_name, st.name, NULL, st.market_id, st.controlling_faction,
+         st.faction_state, NULL, st.body_name, st.updated_at
+  FROM eddn_settlement st
+  WHERE (st.market_id IS NULL OR NOT EXISTS (SELECT 1 FROM eddn_station s WHERE s.market_id = st.market_id))
+    AND {settlement_filter}
+  ORDER BY system_name, name`
+
+const mapAsset = (row: Record<string, unknown>): FactionAsset | null => {
+  const stationType = row.station_type == null ? null : String(row.station_type)
+  // ApproachSettlement carries no StationType; an undocked settlement is just a settlement
+  const kind = row.source === "settlement" ? "settlement" : assetKind(stationType)
+  if (kind === null) return null
+  return {
+    systemName: String(row.system_name),
+    name: String(row.name),
+    kind,
+    stationType,
+    marketId: row.market_id == null ? null : Number(row.market_id),
+    controllingFaction: row.controlling_faction == null ? null : String(row.controlling_faction),
+    factionState: row.faction_state == null ? null : String(row.faction_state),
+    largePads: row.landing_pads_large == null ? null : Number(row.landing_pads_large),
+    bodyName: row.body_name == null ? null : String(row.body_name),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+const queryAssets = async (
+  client: Client,
+  filter: { station: string; settlement: string },
+  args: ReadonlyArray<string>
+): Promise<FactionAsset[]> => {
+  const result = await client.execute({
+    sql: ASSETS_SQL.replace("{station_filter}", filter.station).replace("{settlement_filter}", filter.settlement),
+    args: [...args, ...args],
+  })
+  return result.rows.flatMap((row) => {
+    const asset = mapAsset(row)
+    return asset ? [asset] : []
+  })
+}
+
+/** Everything the faction owns according to the latest EDDN data */
+export const loadFactionAssets = async (client: Client, factionName: string): Promise<FactionAsset[]> =>
+  queryAssets(
+    client,
+    { station: "s.controlling_faction = ? COLLATE NOCASE", settlement: "st.controlling_faction = ? COLLATE NOCASE" },
+    [factionName]
+  )
+
+/** A station or settlement by name in a system, whoever owns it */
+export const findAsset = async (client: Client, systemName: string, name: string): Promise<FactionAsset | null> => {
+  const assets = await queryAssets(
+    client,
+    {
+      station: "s.system_name = ? COLLATE NOCASE AND s.station_name = ? COLLATE NOCASE",
+      settlement: "st.system_name = ? COLLATE NOCASE AND st.name = ? COLLATE NOCASE",
+    },
+    [systemName, name]
+  )
+  return assets[0] ?? null
+}
+
+/**
+ * Describe the stakes of a conflict: stake name → describeStake, for each
+ * stake that resolves to a known asset in the system.
+ */
+export const loadStakeDescriptions = async (
+  client: Client,
+  systemName: string,
+  stakes: ReadonlyArray<string>,
+  factionNames: ReadonlySet<string>
+): Promise<Map<string, string>> => {
+  const descriptions = new Map<string, string>()
+  for (const stake of stakes) {
+    if (!stake || descriptions.has(stake)) continue
+    const asset = await findAsset(client, systemName, stake)
+    if (!asset) continue
+    const ownerAssets = asset.controllingFaction ? await loadFactionAssets(client, asset.controllingFaction) : []
+    descriptions.set(stake, describeStake(asset, ownerAssets, factionNames))
+  }
+  return descriptions
+}
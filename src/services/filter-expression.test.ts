@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test"
+import { Effect, Either } from "effect"
+import { parseFilterExpression } from "./filter-expression.js"
+
+const parse = (input: string) => Effect.runSync(Effect.either(parseFilterExpression(input)))
+
+describe("parseFilterExpression", () => {
+  it("should bind AND tighter than OR and NOT tightest", () => {
+    const result = parse("state = Boom AND NOT conflict OR allegiance = 'Independent'")
+
+    expect(result).toEqual(
+      Either.right({
+        kind: "or",
+        left: {
+          kind: "and",
+          left: { kind: "compare", field: "state", op: "=", value: "Boom" },
+          right: { kind: "not", operand: { kind: "flag", flag: "conflict" } },
+        },
+        right: { kind: "compare", field: "allegiance", op: "=", value: "Independent" },
+      })
+    )
+  })
+
+  it("should group with parentheses and accept case-insensitive keywords and fields", () => {
+    const result = parse(`(Power = "Nakato Kaine" or controlling_faction != "Boom Corp") and Influence >= 0.4`)
+
+    expect(result).toEqual(
+      Either.right({
+        kind: "and",
+        left: {
+          kind: "or",
+          left: { kind: "compare", field: "power", op: "=", value: "Nakato Kaine" },
+          right: { kind: "compare", field: "controlling_faction", op: "!=", value: "Boom Corp" },
+        },
+        right: { kind: "compare", field: "influence", op: ">=", value: 0.4 },
+      })
+    )
+  })
+
+  it("should normalise updated_at to an ISO timestamp", () => {
+    expect(parse("updated_at > 2026-02-26")).toEqual(
+      Either.right({ kind: "compare", field: "updated_at", op: ">", value: "2026-02-26T00:00:00.000Z" })
+    )
+  })
+
+  it("should report the position of the offending token", () => {
+    const cases: Array<[string, number, string]> = [
+      ["state = Boom AND", 16, "Expected a field, flag, NOT or '(' but found end of expression"],
+      ["colour = red", 0, "Unknown field 'colour'"],
+      ["population > lots", 13, "Field 'population' needs a number but found 'lots'"],
+      ["state > Boom", 6, "Field 'state' only supports = and !="],
+      ["(state = Boom", 13, "Expected ')' but found end of expression"],
+      ["state = 'Boom", 8, "Unterminated string"],
+      ["state = Boom conflict", 13, "Unexpected 'conflict'"],
+      ["updated_at < yesterday", 13, "Field 'updated_at' needs an ISO date but found 'yesterday'"],
+    ]
+
+    for (const [input, position, message] of cases) {
+      const result = parse(input)
+      expect(Either.isLeft(result)).toBe(true)
+      if (Either.isLeft(result)) {
+        expect(result.left._tag).toBe("FilterExpressionError")
+        expect(result.left.position).toBe(position)
+        expect(result.left.message.startsWith(message)).toBe(true)
+      }
+    }
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * Filter expression service
+ *
+ * Parses the `q=` parameter of the system search into an expression tree that
+ * EddnRepository compiles to parameterised SQL. Grammar:
+ *
+ *   expr       := and ("OR" and)*
+ *   and        := not ("AND" not)*
+ *   not        := "NOT" not | "(" expr ")" | comparison | flag
+ *   comparison := field op value       op: = != < <= > >=
+ *   flag       := conflict | cf_in_conflict | thargoid_war
+ *
+ * Keywords and field names are case-insensitive. Values are numbers, bare words
+ * or quoted strings ("Boom Corp" / 'Boom Corp'); updated_at takes an ISO date.
+ *
+ *   state = Boom AND controlling_faction = "Boom Corp" AND NOT conflict
+ *   (power = "Nakato Kaine" OR allegiance = Alliance) AND influence < 0.4
+ */
+
+import { Effect } from "effect"
+import { FilterExpressionError } from "../domain/errors.js"
+
+const MAX_LENGTH = 1000
+const MAX_DEPTH = 32
+
+type FieldType = "string" | "number" | "date"
+
+// Field name -> value type; string fields only support = and !=
+const FIELDS = {
+  influence: "number",          // Of the faction filter, else the controlling faction
+  population: "number",
+  updated_at: "date",
+  state: "string",              // Any faction's state or active states
+  pending_state: "string",
+  recovering_state: "string",
+  faction: "string",            // Faction present in the system
+  controlling_faction: "string",
+  government: "string",
+  allegiance: "string",
+  economy: "string",            // Primary or secondary economy
+  happiness: "string",          // Any faction's happiness
+  power: "string",              // Controlling power or any power in the powerplay data
+  controlling_power: "string",
+  powerplay_state: "string",
+  thargoid_state: "string",     // "Thargoid_Controlled" or "Controlled"
+  system_name: "string",
+} as const satisfies Record<string, FieldType>
+
+const FLAGS = ["conflict", "cf_in_conflict", "thargoid_war"] as const
+const OPERATORS = ["=", "!=", "<", "<=", ">", ">="] as const
+
+export type FilterField = keyof typeof FIELDS
+export type FilterFlag = (typeof FLAGS)[number]
+export type FilterOperator = (typeof OPERATORS)[number]
+
+export type FilterExpression =
+  | { readonly kind: "and"; readonly left: FilterExpression; readonly right: FilterExpression }
+  | { readonly kind: "or"; readonly left: FilterExpression; readonly right: FilterExpression }
+  | { readonly kind: "not"; readonly operand: FilterExpression }
+  | { readonly kind: "compare"; readonly field: FilterField; readonly op: FilterOperator; readonly value: string | number }
+  | { readonly kind: "flag"; readonly flag: FilterFlag }
+
+interface Token {
+  readonly type: "lparen" | "rparen" | "op" | "word" | "string" | "number"
+  readonly text: string
+  readonly position: number
+}
+
+class ParseFailure {
+  constructor(readonly message: string, readonly position: number) {}
+}
+
+const tokenize = (input: string): Array<Token> => {
+  const tokens: Array<Token> = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]!
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", text: char, position: i })
+      i++
+    } else if (char === "\"" || char === "'") {
+      const end = input.indexOf(char, i + 1)
+      if (end === -1) throw new ParseFailure("Unterminated string", i)
+      tokens.push({ type: "string", text: input.slice(i + 1, end), position: i })
+      i = end + 1
+    } else if ("=!<>".includes(char)) {
+      const op = input.slice(i, i + 2)
+      const text = op === "!=" || op === "<=" || op === ">=" ? op : char
+      if (text === "!") throw new ParseFailure("Expected '!='", i)
+      tokens.push({ type: "op", text, position: i })
+      i += text.length
+    } else {
+      const match = /^[A-Za-z0-9_.:+\-]+/.exec(input.slice(i))
+      if (!match) throw new ParseFailure(`Unexpected character '${char}'`, i)
+      const text = match[0]
+      const isNumber = /^-?\d+(\.\d+)?$/.test(text)
+      tokens.push({ type: isNumber ? "number" : "word", text, position: i })
+      i += text.length
+    }
+  }
+
+  return tokens
+}
+
+const isKeyword = (token: Token | undefined, keyword: string) =>
+  token?.type === "word" && token.text.toUpperCase() === keyword
+
+const parseTokens = (tokens: Array<Token>, end: number): FilterExpression => {
+  let index = 0
+  const peek = () => tokens[index]
+  const describe = (token: Token | undefined) => (token ? `'${token.text}'` : "end of expression")
+  const positionOf = (token: Token | undefined) => token?.position ?? end
+
+  const parseOr = (depth: number): FilterExpression => {
+    let left = parseAnd(depth)
+    while (isKeyword(peek(), "OR")) {
+      index++
+      left = { kind: "or", left, right: parseAnd(depth) }
+    }
+    return left
+  }
+
+  const parseAnd = (depth: number): FilterExpression => {
+    let left = parseNot(depth)
+    while (isKeyword(peek(), "AND")) {
+      index++
+      left = { kind: "and", left, right: parseNot(depth) }
+    }
+    return left
+  }
+
+  const parseNot = (depth: number): FilterExpression => {
+    const token = peek()
+    if (depth > MAX_DEPTH) throw new ParseFailure("Expression is nested too deeply", positionOf(token))
+
+    if (isKeyword(token, "NOT")) {
+      index++
+      return { kind: "not", operand: parseNot(depth + 1) }
+    }
+
+    if (token?.type === "lparen") {
+      index++
+      const inner = parseOr(depth + 1)
+      const closing = peek()
+      if (closing?.type !== "rparen") {
+        throw new ParseFailure(`Expected ')' but found ${describe(closing)}`, positionOf(closing))
+      }
+      index++
+      return inner
+    }
+
+    if (token?.type !== "word") {
+      throw new ParseFailure(`Expected a field, flag, NOT or '(' but found ${describe(token)}`, positionOf(token))
+    }
+    index++
+
+    const name = token.text.toLowerCase()
+    const flag = FLAGS.find((f) => f === name)
+    if (flag) return { kind: "flag", flag }
+
+    if (!Object.hasOwn(FIELDS, name)) {
+      throw new ParseFailure(
+        `Unknown field '${token.text}'. Expected one of: ${[...Object.keys(FIELDS), ...FLAGS].join(", ")}`,
+        token.position
+      )
+    }
+    const field = name as FilterField
+    const type: FieldType = FIELDS[field]
+
+    const opToken = peek()
+    if (opToken?.type !== "op") {
+      throw new ParseFailure(`Expected an operator after '${token.text}' but found ${describe(opToken)}`, positionOf(opToken))
+    }
+    index++
+    const op = opToken.text as FilterOperator
+    if (type === "string" && op !== "=" && op !== "!=") {
+      throw new ParseFailure(`Field '${field}' only supports = and !=`, opToken.position)
+    }
+
+    const valueToken = peek()
+    if (valueToken?.type !== "word" && valueToken?.type !== "string" && valueToken?.type !== "number") {
+      throw new ParseFailure(`Expected a value after '${op}' but found ${describe(valueToken)}`, positionOf(valueToken))
+    }
+    index++
+
+    if (type === "number") {
+      if (valueToken.type !== "number") {
+        throw new ParseFailure(`Field '${field}' needs a number but found '${valueToken.text}'`, valueToken.position)
+      }
+      return { kind: "compare", field, op, value: Number(valueToken.text) }
+    }
+    if (type === "date") {
+      const date = new Date(valueToken.text)
+      if (Number.isNaN(date.getTime())) {
+        throw new ParseFailure(`Field '${field}' needs an ISO date but found '${valueToken.text}'`, valueToken.position)
+      }
+      return { kind: "compare", field, op, value: date.toISOString() }
+    }
+    return { kind: "compare", field, op, value: valueToken.text }
+  }
+
+  const expression = parseOr(0)
+  const rest = peek()
+  if (rest) throw new ParseFailure(`Unexpected ${describe(rest)}`, rest.position)
+  return expression
+}
+
+/**
+ * Parse a `q=` filter expression; fails with the offending position on invalid input
+ */
+export const parseFilterExpression = (input: string): Effect.Effect<FilterExpression, FilterExpressionError> =>
+  Effect.try({
+    try: () => {
+      if (input.length > MAX_LENGTH) throw new ParseFailure(`Expression is longer than ${MAX_LENGTH} characters`, MAX_LENGTH)
+      const tokens = tokenize(input)
+      if (tokens.length === 0) throw new ParseFailure("Expression is empty", 0)
+      return parseTokens(tokens, input.length)
+    },
+    catch: (error) =>
+      error instanceof ParseFailure
+        ? new FilterExpressionError({ expression: input, position: error.position, message: error.message })
+        : new FilterExpressionError({ expression: input, position: 0, message: String(error) }),
+  })
@@ -0,0 +1,148 @@
+/**
+ * Scouting service
+ *
+ * Systems where a tracked faction is present but whose EDDN snapshot
+ * (eddn_system_info.updated_at) predates the current tick, so the influence
+ * we hold for them is stale. Ranked by how much a fresh snapshot matters:
+ * conflicts involving a tracked faction, a tracked faction within a few
+ * points of its neighbour, and active objectives in the system. Used by
+ * GET /api/scouting and the daily scouting post.
+ */
+
+import type { Client } from "@libsql/client"
+
+/**
+ * conflict   — a tracked faction is in a war or election there
+ * low_margin — a tracked faction is within LOW_INFLUENCE_MARGIN of another faction
+ * objective  — an active objective targets the system
+ */
+export type ScoutingReason = "conflict" | "low_margin" | "objective"
+
+export interface ScoutingEntry {
+  systemName: string
+  factions: string[]  // Tracked factions present
+  lastUpdated: string | null  // ISO 8601, null when EDDN never sent a snapshot
+  influenceMargin: number | null  // Smallest gap (fraction) between a tracked faction and its closest neighbour
+  conflicts: number
+  objectives: number
+  reasons: ScoutingReason[]
+  score: number
+}
+
+export const LOW_INFLUENCE_MARGIN = 0.05
+
+const CONFLICT_WEIGHT = 100
+const OBJECTIVE_WEIGHT = 50
+const LOW_MARGIN_WEIGHT = 40
+
+/** Tick the scouting queue is measured against: the latest one recorded */
+export const loadCurrentTickTime = async (client: Client): Promise<string | null> => {
+  const result = await client.execute("SELECT ticktime FROM tick_state ORDER BY last_updated DESC LIMIT 1")
+  const row = result.rows[0]
+  return row ? String(row.ticktime) : null
+}
+
+/** Gap between a faction and the closest other faction in the system, above or below */
+const closestMargin = (influence: number, others: ReadonlyArray<number>): number | null =>
+  others.length === 0 ? null : Math.min(...others.map((other) => Math.abs(influence - other)))
+
+/**
+ * Stale systems of the tracked factions, most important first; ties go to the
+ * system whose data is oldest. Systems refreshed since tickTime are left out.
+ */
+export const loadScoutingQueue = async (
+  client: Client,
+  factionNames: ReadonlySet<string>,
+  tickTime: string
+): Promise<ScoutingEntry[]> => {
+  const names = [...factionNames]
+  if (names.length === 0) return []
+  const placeholders = names.map(() => "?").join(", ")
+
+  const factions = await client.execute({
+    sql: `SELECT f.system_name, f.name, f.influence, i.updated_at AS last_updated
+          FROM eddn_faction f
+          LEFT JOIN eddn_system_info i ON i.system_name = f.system_name
+          WHERE f.system_name IN (SELECT system_name FROM eddn_faction WHERE name COLLATE NOCASE IN (${placeholders}))
+            AND (i.updated_at IS NULL OR i.updated_at < ?)
+          ORDER BY f.system_name`,
+    args: [...names, tickTime],
+  })
+  if (factions.rows.length === 0) return []
+
+  const conflicts = await client.execute({
+    sql: `SELECT system_name FROM eddn_conflict
+          WHERE faction1 COLLATE NOCASE IN (${placeholders}) OR faction2 COLLATE NOCASE IN (${placeholders})`,
+    args: [...names, ...names],
+  })
+
+  const now = new Date().toISOString()
+  const objectives = await client.execute({
+    // An objective counts once per system, whether named on the objective or on its targets
+    sql: `SELECT DISTINCT o.id, LOWER(s.system) AS system
+          FROM objective o
+          JOIN (SELECT id AS objective_id, system FROM objective
+                UNION ALL SELECT objective_id, system FROM objective_target) s ON s.objective_id = o.id
+          WHERE s.system IS NOT NULL
+            AND (o.startdate IS NULL OR o.startdate <= ?1) AND (o.enddate IS NULL OR o.enddate >= ?1)`,
+    args: [now],
+  })
+
+  const countBySystem = (rows: ReadonlyArray<Record<string, unknown>>, column: string) => {
+    const counts = new Map<string, number>()
+    for (const row of rows) {
+      const key = String(row[column]).toLowerCase()
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    return counts
+  }
+  const conflictCounts = countBySystem(conflicts.rows, "system_name")
+  const objectiveCounts = countBySystem(objectives.rows, "system")
+
+  const ours = new Set(names.map((n) => n.toLowerCase()))
+  const bySystem = new Map<string, { lastUpdated: string | null; factions: Array<{ name: string; influence: number | null }> }>()
+  for (const row of factions.rows) {
+    const system = String(row.system_name)
+    const entry = bySystem.get(system) ?? {
+      lastUpdated: row.last_updated == null ? null : String(row.last_updated),
+      factions: [],
+    }
+    entry.factions.push({ name: String(row.name), influence: row.influence == null ? null : Number(row.influence) })
+    bySystem.set(system, entry)
+  }
+
+  const queue = [...bySystem.entries()].map(([systemName, { lastUpdated, factions }]): ScoutingEntry => {
+    const tracked = factions.filter((f) => ours.has(f.name.toLowerCase()))
+    const margins = tracked.flatMap((f) => {
+      if (f.influence === null) return []
+      const others = factions.filter((o) => o !== f && o.influence !== null).map((o) => o.influence as number)
+      const margin = closestMargin(f.influence, others)
+      return margin === null ? [] : [margin]
+    })
+    const influenceMargin = margins.length > 0 ? Math.min(...margins) : null
+    const conflictCount = conflictCounts.get(systemName.toLowerCase()) ?? 0
+    const objectiveCount = objectiveCounts.get(systemName.toLowerCase()) ?? 0
+    const lowMargin = influenceMargin !== null && influenceMargin < LOW_INFLUENCE_MARGIN
+
+    const reasons: ScoutingReason[] = []
+    if (conflictCount > 0) reasons.push("conflict")
+    if (lowMargin) reasons.push("low_margin")
+    if (objectiveCount > 0) reasons.push("objective")
+
+    return {
+      systemName,
+      factions: tracked.map((f) => f.name),
+      lastUpdated,
+      influenceMargin,
+      conflicts: conflictCount,
+      objectives: objectiveCount,
+      reasons,
+      score: conflictCount * CONFLICT_WEIGHT + objectiveCount * OBJECTIVE_WEIGHT + (lowMargin ? LOW_MARGIN_WEIGHT : 0),
+    }
+  })
+
+  // Never-seen systems sort as the oldest
+  return queue.sort(
+    (a, b) => b.score - a.score || (a.lastUpdated ?? "").localeCompare(b.lastUpdated ?? "") || a.systemName.localeCompare(b.systemName)
+  )
+}
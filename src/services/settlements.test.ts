@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from "bun:test"
+import { createClient, type Client as LibsqlClient } from "@libsql/client"
+import { loadSystemSettlements, loadWarOpponents, warImpact } from "./settlements.js"
+
+const FACTION = "Communism Interstellar Union"
+const RIVAL = "Rival Corp"
+
+describe("Settlements service", () => {
+  let db: LibsqlClient
+
+  beforeEach(async () => {
+    db = createClient({ url: ":memory:" })
+
+    await db.executeMultiple(`
+      CREATE TABLE eddn_settlement (
+        id TEXT PRIMARY KEY,
+        eddn_message_id TEXT,
+        system_name TEXT NOT NULL,
+        system_address INTEGER,
+        name TEXT NOT NULL,
+        market_id INTEGER,
+        body_name TEXT NOT NULL,
+        body_id INTEGER,
+        latitude REAL,
+        longitude REAL,
+        controlling_faction TEXT,
+        faction_state TEXT,
+        government TEXT,
+        allegiance TEXT,
+        economy TEXT,
+        updated_at TEXT NOT NULL,
+        UNIQUE (system_name, body_name, name)
+      );
+
+      CREATE TABLE eddn_conflict (
+        id TEXT PRIMARY KEY,
+        system_name TEXT NOT NULL,
+        faction1 TEXT,
+        faction2 TEXT
+      );
+
+      INSERT INTO eddn_settlement (id, system_name, name, body_name, controlling_faction, faction_state, updated_at)
+      VALUES ('se1', 'Alpha Centauri', 'Kirk Vision Facility', 'Alpha Centauri B 2', '${RIVAL}', 'War', '2026-02-26T15:00:00.000Z'),
+             ('se2', 'Alpha Centauri', 'Kirk Vision Facility', 'Alpha Centauri B 3', '${FACTION}', 'War', '2026-02-26T16:00:00.000Z'),
+             ('se3', 'Sol', 'Lowell Hub', 'Mars', 'Mars Republic', NULL, '2026-02-26T15:00:00.000Z');
+
+      INSERT INTO eddn_conflict (id, system_name, faction1, faction2)
+      VALUES ('c1', 'Alpha Centauri', '${FACTION}', '${RIVAL}'),
+             ('c2', 'Alpha Centauri', 'Third Party', 'Fourth Party');
+    `)
+  })
+
+  it("should resolve settlement names case-insensitively, latest observation first", async () => {
+    const settlements = await loadSystemSettlements(db, "alpha centauri")
+
+    expect(settlements.size).toBe(1)
+    expect(settlements.get("kirk vision facility")).toMatchObject({
+      bodyName: "Alpha Centauri B 3",
+      controllingFaction: FACTION,
+      factionState: "War",
+    })
+  })
+
+  it("should only list factions at war with ours as opponents", async () => {
+    const opponents = await loadWarOpponents(db, "Alpha Centauri", new Set([FACTION]))
+
+    expect([...opponents]).toEqual([RIVAL.toLowerCase()])
+  })
+
+  it("should classify which side a ground CZ helped", async () => {
+    const tracked = new Set([FACTION])
+    const opponents = await loadWarOpponents(db, "Alpha Centauri", tracked)
+
+    expect(warImpact(FACTION, tracked, opponents)).toBe("helped")
+    expect(warImpact(RIVAL, tracked, opponents)).toBe("hurt")
+    expect(warImpact("Third Party", tracked, opponents)).toBe("neutral")
+    expect(warImpact(null, tracked, opponents)).toBe("neutral")
+  })
+})
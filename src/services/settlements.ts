@@ -0,0 +1,90 @@
+/**
+ * Settlements service
+ *
+ * Resolves the free-text settlement names of ground conflict zones
+ * (synthetic_ground_cz, objective ground-CZ targets) to what EDDN
+ * ApproachSettlement data says about them: owning faction and body. Also
+ * decides whether fighting for a faction in a system helped or hurt our side
+ * of the war there.
+ */
+
+import type { Client } from "@libsql/client"
+
+export interface SettlementInfo {
+  systemName: string
+  name: string
+  bodyName: string
+  controllingFaction: string | null
+  factionState: string | null
+  updatedAt: string  // ISO 8601, observation time
+}
+
+/**
+ * helped  — fought for a tracked faction
+ * hurt    — fought for a faction at war with a tracked faction in that system
+ * neutral — not our war
+ */
+export type WarImpact = "helped" | "hurt" | "neutral"
+
+/**
+ * Settlements known in a system, keyed by lower-cased name. When a name
+ * exists on several bodies the most recently observed one wins.
+ */
+export const loadSystemSettlements = async (
+  client: Client,
+  systemName: string
+): Promise<Map<string, SettlementInfo>> => {
+  const result = await client.execute({
+    sql: `SELECT system_name, name, body_name, controlling_faction, faction_state, updated_at
+          FROM eddn_settlement WHERE system_name = ? COLLATE NOCASE ORDER BY updated_at`,
+    args: [systemName],
+  })
+
+  const settlements = new Map<string, SettlementInfo>()
+  for (const row of result.rows) {
+    settlements.set(String(row.name).toLowerCase(), {
+      systemName: String(row.system_name),
+      name: String(row.name),
+      bodyName: String(row.body_name),
+      controllingFaction: row.controlling_faction == null ? null : String(row.controlling_faction),
+      factionState: row.faction_state == null ? null : String(row.faction_state),
+      updatedAt: String(row.updated_at),
+    })
+  }
+  return settlements
+}
+
+/** Factions currently in a conflict with one of ours in the system, lower-cased */
+export const loadWarOpponents = async (
+  client: Client,
+  systemName: string,
+  factionNames: ReadonlySet<string>
+): Promise<Set<string>> => {
+  const result = await client.execute({
+    sql: "SELECT faction1, faction2 FROM eddn_conflict WHERE system_name = ? COLLATE NOCASE",
+    args: [systemName],
+  })
+
+  const ours = new Set([...factionNames].map((n) => n.toLowerCase()))
+  const opponents = new Set<string>()
+  for (const row of result.rows) {
+    const faction1 = row.faction1 == null ? null : String(row.faction1).toLowerCase()
+    const faction2 = row.faction2 == null ? null : String(row.faction2).toLowerCase()
+    if (faction1 !== null && faction2 !== null) {
+      if (ours.has(faction1)) opponents.add(faction2)
+      if (ours.has(faction2)) opponents.add(faction1)
+    }
+  }
+  return opponents
+}
+
+export const warImpact = (
+  foughtFor: string | null,
+  factionNames: ReadonlySet<string>,
+  opponents: ReadonlySet<string>
+): WarImpact => {
+  if (foughtFor === null) return "neutral"
+  const name = foughtFor.toLowerCase()
+  if ([...factionNames].some((n) => n.toLowerCase() === name)) return "helped"
+  return opponents.has(name) ? "hurt" : "neutral"
+}
@@ -0,0 +1,58 @@
+/**
+ * Tracked factions service
+ *
+ * The set of factions followed by schedulers and notifications: the main
+ * faction (FACTION_NAME) plus every tracked_faction row (allied squadron
+ * factions), with per-faction Discord webhook overrides.
+ */
+
+import type { Client } from "@libsql/client"
+
+export interface TrackedFactions {
+  names: Set<string>
+  webhooks: Map<string, string> // faction name -> webhook override
+}
+
+/**
+ * Load tracked factions fresh from the DB so changes via the API take effect
+ * on the next run. The main faction is always included.
+ */
+export const loadTrackedFactions = async (
+  client: Client,
+  primaryFaction: string
+): Promise<TrackedFactions> => {
+  const result = await client.execute("SELECT name, webhook_url FROM tracked_faction")
+  const names = new Set<string>(primaryFaction ? [primaryFaction] : [])
+  const webhooks = new Map<string, string>()
+  for (const row of result.rows) {
+    const name = String(row.name)
+    names.add(name)
+    if (row.webhook_url) webhooks.set(name, String(row.webhook_url))
+  }
+  return { names, webhooks }
+}
+
+/**
+ * Case-insensitive membership test for tracked faction names: names are typed
+ * by admins, and journals and EDDN may spell the same faction differently.
+ */
+export const trackedFactionMatcher = (names: ReadonlySet<string>): ((name: string) => boolean) => {
+  const lower = new Set([...names].map((name) => name.toLowerCase()))
+  return (name) => lower.has(name.toLowerCase())
+}
+
+/**
+ * Pick the webhook for a notification about the given factions: the first
+ * faction with an override wins, otherwise the channel default.
+ */
+export const webhookForFactions = (
+  webhooks: ReadonlyMap<string, string>,
+  factions: ReadonlyArray<string | null | undefined>,
+  fallback: string | null
+): string | null => {
+  for (const faction of factions) {
+    const override = faction ? webhooks.get(faction) : undefined
+    if (override) return override
+  }
+  return fallback
+}